@@ -0,0 +1,213 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Hourglass } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency, today } from '@/lib/reports';
+import { getBaseCurrency } from '@/lib/currency';
+import {
+  AGING_BUCKETS,
+  AgingBucket,
+  AgingDocument,
+  AgingKind,
+  agingTotals,
+  groupAging,
+  isOverCreditLimit,
+} from '@/lib/aging';
+
+interface AgingReportDialogProps {
+  kind: AgingKind;
+  // Opens an invoice or bill from the drill-down list
+  onOpenDocument?: (documentId: string) => void;
+}
+
+// Which cell was clicked: a customer or vendor (null for everyone) and a bucket (null for all)
+interface Drill {
+  partyId: string | null;
+  bucket: AgingBucket | null;
+}
+
+const TITLES: Record<AgingKind, string> = {
+  receivables: 'Aged Receivables',
+  payables: 'Aged Payables',
+};
+
+export function AgingReportDialog({ kind, onOpenDocument }: AgingReportDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [asOf, setAsOf] = useState(today());
+  const [documents, setDocuments] = useState<AgingDocument[]>([]);
+  const [drill, setDrill] = useState<Drill | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open && asOf) fetchAging();
+  }, [open, asOf]);
+
+  const fetchAging = async () => {
+    try {
+      setIsLoading(true);
+      const { data, error } = await supabase.rpc(kind === 'receivables' ? 'aged_receivables' : 'aged_payables', { p_as_of: asOf });
+
+      if (error) throw error;
+      setDocuments(data || []);
+      setDrill(null);
+    } catch (error) {
+      console.error('Error loading aging report:', error);
+      toast({
+        title: "Error",
+        description: `Failed to load ${TITLES[kind].toLowerCase()}`,
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const parties = groupAging(documents);
+  const totals = agingTotals(parties);
+  const drilled = drill
+    ? documents
+      .filter((document) => (!drill.partyId || document.party_id === drill.partyId) && (!drill.bucket || document.bucket === drill.bucket))
+      .sort((a, b) => a.due_date.localeCompare(b.due_date))
+    : [];
+  const partyLabel = kind === 'receivables' ? 'Customer' : 'Vendor';
+
+  const amountCell = (key: string, amount: number, target: Drill, className = '') => (
+    <TableCell key={key} className={`text-right ${className}`}>
+      {amount > 0 ? (
+        <button type="button" className="hover:underline" onClick={() => setDrill(target)}>
+          {formatCurrency(amount)}
+        </button>
+      ) : (
+        <span className="text-muted-foreground">—</span>
+      )}
+    </TableCell>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Hourglass className="h-4 w-4 mr-2" />
+          {TITLES[kind]}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{TITLES[kind]}</DialogTitle>
+          <DialogDescription>
+            {kind === 'receivables' ? 'What customers owe' : 'What is owed to vendors'}, by days past due. Click an amount to see the documents behind it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor={`aging-as-of-${kind}`}>As of</Label>
+              <Input id={`aging-as-of-${kind}`} type="date" value={asOf} onChange={(e) => setAsOf(e.target.value)} />
+            </div>
+          </div>
+
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : parties.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing outstanding as of {asOf}.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{partyLabel}</TableHead>
+                  {AGING_BUCKETS.map((bucket) => (
+                    <TableHead key={bucket.key} className="text-right">{bucket.label}</TableHead>
+                  ))}
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {parties.map((party) => {
+                  const overLimit = kind === 'receivables' && isOverCreditLimit(party);
+                  return (
+                    <TableRow key={party.party_id} className={overLimit ? 'bg-red-50 dark:bg-red-950/30' : ''}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          {party.party_name}
+                          {overLimit && (
+                            <Badge variant="destructive" title={`Credit limit ${formatCurrency(party.credit_limit)}`}>
+                              Over limit
+                            </Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      {AGING_BUCKETS.map((bucket) => amountCell(bucket.key, party.buckets[bucket.key], { partyId: party.party_id, bucket: bucket.key }))}
+                      {amountCell('total', party.total, { partyId: party.party_id, bucket: null }, `font-medium ${overLimit ? 'text-red-600' : ''}`)}
+                    </TableRow>
+                  );
+                })}
+                <TableRow className="font-semibold">
+                  <TableCell>Total</TableCell>
+                  {AGING_BUCKETS.map((bucket) => amountCell(bucket.key, totals.buckets[bucket.key], { partyId: null, bucket: bucket.key }))}
+                  {amountCell('total', totals.total, { partyId: null, bucket: null })}
+                </TableRow>
+              </TableBody>
+            </Table>
+          )}
+
+          {drill && drilled.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h4 className="font-medium">
+                  {drill.partyId ? drilled[0].party_name : `All ${partyLabel.toLowerCase()}s`}
+                  {drill.bucket ? ` · ${AGING_BUCKETS.find((bucket) => bucket.key === drill.bucket)?.label}` : ''}
+                </h4>
+                <Button variant="ghost" size="sm" onClick={() => setDrill(null)}>Close</Button>
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{kind === 'receivables' ? 'Invoice' : 'Bill'}</TableHead>
+                    {!drill.partyId && <TableHead>{partyLabel}</TableHead>}
+                    <TableHead>Date</TableHead>
+                    <TableHead>Due</TableHead>
+                    <TableHead className="text-right">Days overdue</TableHead>
+                    <TableHead className="text-right">Open amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {drilled.map((document) => (
+                    <TableRow
+                      key={document.document_id}
+                      className={onOpenDocument ? 'cursor-pointer' : ''}
+                      onClick={() => onOpenDocument?.(document.document_id)}
+                    >
+                      <TableCell className="font-medium">{document.document_number || '—'}</TableCell>
+                      {!drill.partyId && <TableCell>{document.party_name}</TableCell>}
+                      <TableCell>{document.document_date}</TableCell>
+                      <TableCell>{document.due_date}</TableCell>
+                      <TableCell className={`text-right ${document.days_overdue > 0 ? 'text-red-600' : ''}`}>
+                        {document.days_overdue}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(document.open_amount)}
+                        {document.currency !== getBaseCurrency() && (
+                          <div className="text-xs text-muted-foreground">
+                            {formatCurrency(document.document_open_amount, document.currency)}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
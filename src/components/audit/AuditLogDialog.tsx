@@ -0,0 +1,312 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, History } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { useToast } from '@/hooks/use-toast';
+import { addDays } from '@/lib/reports';
+import {
+  actorLabel,
+  auditChanges,
+  AUDIT_ACTORS,
+  AUDITED_TABLES,
+  formatAuditValue,
+  recordLabel,
+  tableLabel,
+} from '@/lib/audit';
+
+type AuditEntry = Database['public']['Tables']['audit_log']['Row'];
+
+interface AuditRecord {
+  id: string;
+  table: string;
+  label: string;
+}
+
+const AUDIT_LIMIT = 200;
+const SUMMARY_CHANGES = 3;
+
+const EMPTY_FILTERS = { table: 'all', actor: 'all', start: '', end: '', search: '' };
+
+// Start of a local calendar day as a timestamp
+const dayStart = (date: string) => new Date(`${date}T00:00:00`).toISOString();
+
+export function AuditLogDialog() {
+  const [open, setOpen] = useState(false);
+  const [filters, setFilters] = useState(EMPTY_FILTERS);
+  const [record, setRecord] = useState<AuditRecord | null>(null);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  // Text of the chat messages behind AI changes, by message id
+  const [messages, setMessages] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) fetchEntries();
+  }, [open, record, filters.table, filters.actor, filters.start, filters.end]);
+
+  const fetchEntries = async () => {
+    try {
+      setLoading(true);
+
+      // A record's history is shown oldest first and ignores the list filters
+      let query = supabase
+        .from('audit_log')
+        .select('*')
+        .order('changed_at', { ascending: !!record })
+        .limit(AUDIT_LIMIT);
+
+      if (record) {
+        query = query.eq('table_name', record.table).eq('record_id', record.id);
+      } else {
+        if (filters.table !== 'all') query = query.eq('table_name', filters.table);
+        if (filters.actor !== 'all') query = query.eq('actor', filters.actor);
+        if (filters.start) query = query.gte('changed_at', dayStart(filters.start));
+        if (filters.end) query = query.lt('changed_at', dayStart(addDays(filters.end, 1)));
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      setEntries(data || []);
+      fetchMessages(data || []);
+    } catch (error) {
+      console.error('Error fetching audit log:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the audit log",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Messages may since have been deleted with their conversation; those are left out
+  const fetchMessages = async (loaded: AuditEntry[]) => {
+    const ids = [...new Set(loaded.flatMap((entry) => entry.message_id ? [entry.message_id] : []))]
+      .filter((id) => !(id in messages));
+    if (ids.length === 0) return;
+
+    const { data, error } = await supabase.from('messages').select('id, content').in('id', ids);
+    if (error) {
+      console.error('Error fetching audit messages:', error);
+      return;
+    }
+    setMessages((current) => ({
+      ...current,
+      ...Object.fromEntries((data || []).map((message) => [message.id, message.content])),
+    }));
+  };
+
+  const search = filters.search.trim().toLowerCase();
+  const visible = record || !search
+    ? entries
+    : entries.filter((entry) =>
+      entry.record_id === search || recordLabel(entry.old_data, entry.new_data).toLowerCase().includes(search)
+    );
+
+  const renderWho = (entry: AuditEntry) => (
+    <>
+      <Badge variant={entry.actor === 'ai' ? 'default' : entry.actor === 'system' ? 'secondary' : 'outline'}>
+        {actorLabel(entry.actor)}
+      </Badge>
+      {entry.message_id && messages[entry.message_id] && (
+        <p className="text-xs text-muted-foreground mt-1 max-w-48 truncate" title={messages[entry.message_id]}>
+          "{messages[entry.message_id]}"
+        </p>
+      )}
+    </>
+  );
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) setRecord(null);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <History className="h-4 w-4 mr-2" />
+          Audit Log
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{record ? `History of ${record.label}` : 'Audit Log'}</DialogTitle>
+          <DialogDescription>
+            {record
+              ? `Every change to this ${tableLabel(record.table).toLowerCase()}, oldest first.`
+              : 'Every change to transactions, accounts, budgets, customers, vendors and categories, and who made it. The log cannot be edited.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {record ? (
+          <div className="space-y-4">
+            <Button variant="ghost" size="sm" onClick={() => setRecord(null)}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to the log
+            </Button>
+
+            {loading ? (
+              <p className="text-sm text-muted-foreground">Loading...</p>
+            ) : (
+              <div className="space-y-3">
+                {visible.map((entry) => (
+                  <div key={entry.id} className="border rounded-lg p-3 space-y-2">
+                    <div className="flex flex-wrap items-start justify-between gap-2">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium capitalize">{entry.action}</span>
+                        <span className="text-sm text-muted-foreground">{new Date(entry.changed_at).toLocaleString()}</span>
+                      </div>
+                      <div className="text-right">{renderWho(entry)}</div>
+                    </div>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Field</TableHead>
+                          <TableHead>Before</TableHead>
+                          <TableHead>After</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {auditChanges(entry.old_data, entry.new_data).map((change) => (
+                          <TableRow key={change.field}>
+                            <TableCell className="font-mono text-xs">{change.field}</TableCell>
+                            <TableCell className="text-sm break-all">{formatAuditValue(change.before)}</TableCell>
+                            <TableCell className="text-sm break-all">{formatAuditValue(change.after)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end">
+              <div className="space-y-1">
+                <Label>Record type</Label>
+                <Select value={filters.table} onValueChange={(value) => setFilters({ ...filters, table: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All records</SelectItem>
+                    {AUDITED_TABLES.map((table) => (
+                      <SelectItem key={table.value} value={table.value}>{table.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Made by</Label>
+                <Select value={filters.actor} onValueChange={(value) => setFilters({ ...filters, actor: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Anyone</SelectItem>
+                    {AUDIT_ACTORS.map((actor) => (
+                      <SelectItem key={actor.value} value={actor.value}>{actor.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="audit-start">From</Label>
+                <Input id="audit-start" type="date" value={filters.start} onChange={(e) => setFilters({ ...filters, start: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="audit-end">To</Label>
+                <Input id="audit-end" type="date" value={filters.end} onChange={(e) => setFilters({ ...filters, end: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="audit-search">Record</Label>
+                <Input
+                  id="audit-search"
+                  value={filters.search}
+                  onChange={(e) => setFilters({ ...filters, search: e.target.value })}
+                  placeholder="Name, description or id"
+                />
+              </div>
+            </div>
+
+            {loading ? (
+              <p className="text-sm text-muted-foreground">Loading...</p>
+            ) : visible.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">No changes match these filters.</p>
+            ) : (
+              <>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>When</TableHead>
+                      <TableHead>Made by</TableHead>
+                      <TableHead>Record</TableHead>
+                      <TableHead>Change</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visible.map((entry) => {
+                      const changes = auditChanges(entry.old_data, entry.new_data);
+                      const label = recordLabel(entry.old_data, entry.new_data);
+                      return (
+                        <TableRow key={entry.id}>
+                          <TableCell className="whitespace-nowrap text-sm">{new Date(entry.changed_at).toLocaleString()}</TableCell>
+                          <TableCell>{renderWho(entry)}</TableCell>
+                          <TableCell>
+                            <div className="font-medium">{label}</div>
+                            <div className="text-xs text-muted-foreground">{tableLabel(entry.table_name)}</div>
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            <span className="capitalize font-medium">{entry.action}</span>
+                            {entry.action === 'update' && (
+                              <div className="text-xs text-muted-foreground">
+                                {changes.slice(0, SUMMARY_CHANGES).map((change) => (
+                                  <div key={change.field} className="truncate max-w-72">
+                                    {change.field}: {formatAuditValue(change.before)} → {formatAuditValue(change.after)}
+                                  </div>
+                                ))}
+                                {changes.length > SUMMARY_CHANGES && <div>and {changes.length - SUMMARY_CHANGES} more</div>}
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setRecord({ id: entry.record_id, table: entry.table_name, label })}
+                            >
+                              History
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+                {entries.length === AUDIT_LIMIT && (
+                  <p className="text-xs text-muted-foreground">
+                    Showing the latest {AUDIT_LIMIT} changes; narrow the filters to see earlier ones.
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,327 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CalendarClock, CheckCircle, Edit, Trash2, XCircle } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency, today } from '@/lib/reports';
+import { BILL_STATUS_LABELS, BillStatus, isBillOverdue } from '@/lib/bills';
+
+interface Bill {
+  id: string;
+  bill_number: string | null;
+  bill_date: string;
+  due_date: string;
+  status: BillStatus;
+  subtotal: number;
+  tax_total: number;
+  total: number;
+  amount_paid: number;
+  balance_due: number;
+  currency: string | null;
+  scheduled_payment_date: string | null;
+  payment_account_id: string | null;
+  notes: string | null;
+  vendors: { name: string } | null;
+}
+
+interface BillLine {
+  id: string;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  amount: number;
+  tax_amount: number;
+  accounts: { name: string } | null;
+}
+
+interface BillPayment {
+  id: string;
+  amount: number;
+  payment_date: string;
+}
+
+interface PaymentAccount {
+  id: string;
+  name: string;
+  currency: string | null;
+}
+
+interface BillDetailDialogProps {
+  billId: string | null;
+  onOpenChange: (open: boolean) => void;
+  onEdit: (billId: string) => void;
+  onChanged: () => void;
+}
+
+export function BillDetailDialog({ billId, onOpenChange, onEdit, onChanged }: BillDetailDialogProps) {
+  const [bill, setBill] = useState<Bill | null>(null);
+  const [lines, setLines] = useState<BillLine[]>([]);
+  const [payments, setPayments] = useState<BillPayment[]>([]);
+  const [accounts, setAccounts] = useState<PaymentAccount[]>([]);
+  const [paymentAmount, setPaymentAmount] = useState('');
+  const [paymentDate, setPaymentDate] = useState(today());
+  const [paymentAccountId, setPaymentAccountId] = useState('');
+  const [scheduledDate, setScheduledDate] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!billId) return;
+    setBill(null);
+    fetchBill(billId);
+    fetchAccounts();
+  }, [billId]);
+
+  const fetchBill = async (id: string) => {
+    try {
+      const [billResult, lineResult, paymentResult] = await Promise.all([
+        supabase.from('bills').select('*, vendors(name)').eq('id', id).single(),
+        supabase.from('bill_lines').select('*, accounts(name)').eq('bill_id', id).order('position'),
+        supabase.from('bill_payments').select('id, amount, payment_date').eq('bill_id', id).order('payment_date'),
+      ]);
+
+      if (billResult.error) throw billResult.error;
+      if (lineResult.error) throw lineResult.error;
+      if (paymentResult.error) throw paymentResult.error;
+
+      setBill(billResult.data);
+      setLines(lineResult.data || []);
+      setPayments(paymentResult.data || []);
+      setPaymentAmount(String(billResult.data.balance_due));
+      setPaymentDate(billResult.data.scheduled_payment_date && billResult.data.scheduled_payment_date > today()
+        ? billResult.data.scheduled_payment_date
+        : today());
+      setPaymentAccountId(billResult.data.payment_account_id || '');
+      setScheduledDate(billResult.data.scheduled_payment_date || '');
+    } catch (error) {
+      console.error('Error fetching bill:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the bill",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const fetchAccounts = async () => {
+    const { data, error } = await supabase
+      .from('accounts')
+      .select('id, name, currency')
+      .in('account_type', ['asset', 'liability'])
+      .eq('is_active', true)
+      .order('code');
+
+    if (error) {
+      console.error('Error fetching accounts:', error);
+      return;
+    }
+    setAccounts(data || []);
+  };
+
+  // Every change reloads the bill, since totals and status are set by the database
+  const run = async (action: () => Promise<{ error: { message: string } | null }>, success: string) => {
+    if (!bill) return;
+    try {
+      setIsWorking(true);
+      const { error } = await action();
+      if (error) throw new Error(error.message);
+
+      toast({
+        title: "Success",
+        description: success
+      });
+      await fetchBill(bill.id);
+      onChanged();
+    } catch (error) {
+      console.error('Error updating bill:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update the bill",
+        variant: "destructive"
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const setStatus = (status: BillStatus, success: string) =>
+    run(async () => supabase.from('bills').update({ status }).eq('id', bill!.id), success);
+
+  const saveSchedule = () =>
+    run(async () => supabase
+      .from('bills')
+      .update({ scheduled_payment_date: scheduledDate || null, payment_account_id: paymentAccountId || null })
+      .eq('id', bill!.id), scheduledDate ? 'Payment scheduled' : 'Payment schedule cleared');
+
+  const recordPayment = () =>
+    run(async () => supabase.rpc('record_bill_payment', {
+      p_bill_id: bill!.id,
+      p_amount: parseFloat(paymentAmount),
+      p_payment_date: paymentDate,
+      p_payment_account_id: paymentAccountId || undefined,
+    }), 'Payment recorded');
+
+  const removePayment = (paymentId: string) =>
+    run(async () => supabase.rpc('remove_bill_payment', { p_payment_id: paymentId }), 'Payment removed');
+
+  const amount = parseFloat(paymentAmount);
+  const currency = bill?.currency ?? undefined;
+  // The database rejects payments through an account held in another currency
+  const payableAccounts = accounts.filter((account) => !account.currency || account.currency === bill?.currency);
+  const isUnpaid = bill?.status === 'draft' || bill?.status === 'open' || bill?.status === 'partially_paid';
+  const canPay = bill?.status === 'open' || bill?.status === 'partially_paid';
+
+  return (
+    <Dialog open={!!billId} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        {bill && (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                {bill.vendors?.name}{bill.bill_number ? ` · ${bill.bill_number}` : ''}
+                <Badge variant={bill.status === 'paid' ? 'default' : bill.status === 'void' ? 'outline' : 'secondary'}>
+                  {BILL_STATUS_LABELS[bill.status]}
+                </Badge>
+                {isBillOverdue(bill) && <Badge variant="destructive">Overdue</Badge>}
+              </DialogTitle>
+              <DialogDescription>
+                Dated {bill.bill_date} · Due {bill.due_date}
+                {bill.scheduled_payment_date ? ` · Payment scheduled ${bill.scheduled_payment_date}` : ''}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Description</TableHead>
+                    <TableHead>Account</TableHead>
+                    <TableHead className="text-right">Qty</TableHead>
+                    <TableHead className="text-right">Unit price</TableHead>
+                    <TableHead className="text-right">Tax</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.map((line) => (
+                    <TableRow key={line.id}>
+                      <TableCell>{line.description}</TableCell>
+                      <TableCell>{line.accounts?.name}</TableCell>
+                      <TableCell className="text-right">{line.quantity}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(line.unit_price, currency)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(line.tax_amount, currency)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(line.amount, currency)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <div className="flex flex-col items-end gap-1 text-sm">
+                <div className="flex gap-8"><span className="text-muted-foreground">Subtotal</span><span>{formatCurrency(bill.subtotal, currency)}</span></div>
+                <div className="flex gap-8"><span className="text-muted-foreground">Tax</span><span>{formatCurrency(bill.tax_total, currency)}</span></div>
+                <div className="flex gap-8 font-semibold"><span>Total</span><span>{formatCurrency(bill.total, currency)}</span></div>
+                <div className="flex gap-8"><span className="text-muted-foreground">Paid</span><span>{formatCurrency(bill.amount_paid, currency)}</span></div>
+                <div className="flex gap-8 font-semibold"><span>Balance due</span><span>{formatCurrency(bill.balance_due, currency)}</span></div>
+              </div>
+
+              {bill.notes && <p className="text-sm text-muted-foreground">{bill.notes}</p>}
+
+              {payments.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="font-medium">Payments</h4>
+                  {payments.map((payment) => (
+                    <div key={payment.id} className="flex items-center justify-between text-sm border rounded-md px-3 py-2">
+                      <span>{payment.payment_date}</span>
+                      <div className="flex items-center gap-2">
+                        <span>{formatCurrency(payment.amount, currency)}</span>
+                        <Button variant="ghost" size="sm" onClick={() => removePayment(payment.id)} disabled={isWorking}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {isUnpaid && (
+                <div className="space-y-2 border rounded-md p-3">
+                  <h4 className="font-medium">{canPay ? 'Schedule or Record Payment' : 'Schedule Payment'}</h4>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <Label>Pay from</Label>
+                      <Select value={paymentAccountId} onValueChange={setPaymentAccountId}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Cash" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {payableAccounts.map((account) => (
+                            <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="bill-schedule-date">Scheduled for</Label>
+                      <div className="flex gap-2">
+                        <Input id="bill-schedule-date" type="date" value={scheduledDate} onChange={(e) => setScheduledDate(e.target.value)} />
+                        <Button variant="outline" onClick={saveSchedule} disabled={isWorking}>
+                          <CalendarClock className="h-4 w-4 mr-2" />
+                          Save
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+                  {canPay && (
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+                      <div className="space-y-1">
+                        <Label htmlFor="bill-payment-amount">Amount</Label>
+                        <Input id="bill-payment-amount" type="number" step="0.01" value={paymentAmount} onChange={(e) => setPaymentAmount(e.target.value)} />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="bill-payment-date">Paid on</Label>
+                        <Input id="bill-payment-date" type="date" value={paymentDate} onChange={(e) => setPaymentDate(e.target.value)} />
+                      </div>
+                      <Button
+                        onClick={recordPayment}
+                        disabled={isWorking || !paymentDate || !(amount > 0) || amount > bill.balance_due}
+                      >
+                        Record Payment
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div className="flex justify-end gap-2">
+                {bill.status === 'draft' && (
+                  <>
+                    <Button variant="outline" onClick={() => onEdit(bill.id)}>
+                      <Edit className="h-4 w-4 mr-2" />
+                      Edit
+                    </Button>
+                    <Button onClick={() => setStatus('open', 'Bill entered')} disabled={isWorking || bill.total <= 0}>
+                      <CheckCircle className="h-4 w-4 mr-2" />
+                      Enter Bill
+                    </Button>
+                  </>
+                )}
+                {bill.status !== 'void' && bill.amount_paid === 0 && (
+                  <Button variant="destructive" onClick={() => setStatus('void', 'Bill voided')} disabled={isWorking}>
+                    <XCircle className="h-4 w-4 mr-2" />
+                    Void
+                  </Button>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,465 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Plus, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency, today } from '@/lib/reports';
+import { dueDateFor } from '@/lib/invoices';
+import { billLineAmounts, billTotals } from '@/lib/bills';
+import { currencyOptions, getBaseCurrency } from '@/lib/currency';
+import { componentsOf, TAX_RATE_SELECT, TaxRate, taxRateLabel } from '@/lib/tax';
+
+export interface BillVendor {
+  id: string;
+  name: string;
+  payment_terms: number | null;
+}
+
+interface AccountOption {
+  id: string;
+  name: string;
+  account_type: string;
+  currency: string | null;
+}
+
+interface LineDraft {
+  description: string;
+  quantity: string;
+  unit_price: string;
+  tax_amount: string;
+  // A tax rate or group; the tax in tax_amount is used without one
+  tax_rate_id: string;
+  expense_account_id: string;
+}
+
+interface BillFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  vendors: BillVendor[];
+  vendorId?: string;
+  // Draft bill to edit; a new bill is created when omitted
+  billId?: string | null;
+  onSaved: () => void;
+}
+
+const EMPTY_LINE: LineDraft = { description: '', quantity: '1', unit_price: '', tax_amount: '0', tax_rate_id: '', expense_account_id: '' };
+
+// Select value for a line whose tax is typed in
+const CUSTOM_TAX = 'custom';
+
+const toNumbers = (line: LineDraft) => ({
+  quantity: parseFloat(line.quantity) || 0,
+  unit_price: parseFloat(line.unit_price) || 0,
+  tax_amount: parseFloat(line.tax_amount) || 0,
+});
+
+export function BillFormDialog({ open, onOpenChange, vendors, vendorId, billId, onSaved }: BillFormDialogProps) {
+  const [accounts, setAccounts] = useState<AccountOption[]>([]);
+  const [selectedVendorId, setSelectedVendorId] = useState('');
+  const [billNumber, setBillNumber] = useState('');
+  const [billDate, setBillDate] = useState(today());
+  const [dueDate, setDueDate] = useState('');
+  const [scheduledDate, setScheduledDate] = useState('');
+  const [paymentAccountId, setPaymentAccountId] = useState('');
+  const [currency, setCurrency] = useState(getBaseCurrency());
+  const [currencies, setCurrencies] = useState<string[]>([getBaseCurrency()]);
+  const [taxRates, setTaxRates] = useState<TaxRate[]>([]);
+  const [taxInclusive, setTaxInclusive] = useState(false);
+  const [notes, setNotes] = useState('');
+  const [lines, setLines] = useState<LineDraft[]>([EMPTY_LINE]);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    fetchAccounts();
+    fetchCurrencies();
+    fetchTaxRates();
+    if (billId) {
+      loadBill(billId);
+    } else {
+      const vendor = vendors.find((v) => v.id === vendorId);
+      setSelectedVendorId(vendorId || '');
+      setBillNumber('');
+      setBillDate(today());
+      setDueDate(dueDateFor(today(), vendor?.payment_terms ?? null));
+      setScheduledDate('');
+      setPaymentAccountId('');
+      setCurrency(getBaseCurrency());
+      setTaxInclusive(false);
+      setNotes('');
+      setLines([EMPTY_LINE]);
+    }
+  }, [open, billId]);
+
+  const fetchAccounts = async () => {
+    const { data, error } = await supabase
+      .from('accounts')
+      .select('id, name, account_type, currency')
+      .in('account_type', ['expense', 'asset', 'liability'])
+      .eq('is_active', true)
+      .order('code');
+
+    if (error) {
+      console.error('Error fetching accounts:', error);
+      return;
+    }
+    setAccounts(data || []);
+  };
+
+  // Only currencies with a rate can be converted to the base currency
+  const fetchCurrencies = async () => {
+    const { data, error } = await supabase.from('exchange_rates').select('currency');
+
+    if (error) {
+      console.error('Error fetching currencies:', error);
+      return;
+    }
+    setCurrencies(currencyOptions(data || []));
+  };
+
+  const fetchTaxRates = async () => {
+    const { data, error } = await supabase.from('tax_rates').select(TAX_RATE_SELECT).order('name');
+
+    if (error) {
+      console.error('Error fetching tax rates:', error);
+      return;
+    }
+    setTaxRates(data || []);
+  };
+
+  const loadBill = async (id: string) => {
+    try {
+      const [billResult, lineResult] = await Promise.all([
+        supabase.from('bills').select('*').eq('id', id).single(),
+        supabase.from('bill_lines').select('*').eq('bill_id', id).order('position'),
+      ]);
+
+      if (billResult.error) throw billResult.error;
+      if (lineResult.error) throw lineResult.error;
+
+      const bill = billResult.data;
+      setSelectedVendorId(bill.vendor_id);
+      setBillNumber(bill.bill_number || '');
+      setBillDate(bill.bill_date);
+      setDueDate(bill.due_date);
+      setScheduledDate(bill.scheduled_payment_date || '');
+      setPaymentAccountId(bill.payment_account_id || '');
+      setCurrency(bill.currency || getBaseCurrency());
+      setTaxInclusive(bill.tax_inclusive);
+      setNotes(bill.notes || '');
+      setLines((lineResult.data || []).map((line) => ({
+        description: line.description,
+        quantity: String(line.quantity),
+        unit_price: String(line.unit_price),
+        tax_amount: String(line.tax_amount),
+        tax_rate_id: line.tax_rate_id || '',
+        expense_account_id: line.expense_account_id || '',
+      })));
+    } catch (error) {
+      console.error('Error loading bill:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the bill",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Changing the vendor or bill date re-derives the due date from the terms
+  const changeVendor = (id: string) => {
+    setSelectedVendorId(id);
+    setDueDate(dueDateFor(billDate, vendors.find((v) => v.id === id)?.payment_terms ?? null));
+  };
+
+  const changeBillDate = (value: string) => {
+    setBillDate(value);
+    if (value) setDueDate(dueDateFor(value, vendors.find((v) => v.id === selectedVendorId)?.payment_terms ?? null));
+  };
+
+  const updateLine = (index: number, changes: Partial<LineDraft>) => {
+    setLines((current) => current.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const saveBill = async (enter: boolean) => {
+    try {
+      setIsSaving(true);
+
+      const { data: userData } = await supabase.auth.getUser();
+      if (!userData.user) throw new Error('Not authenticated');
+
+      const header = {
+        vendor_id: selectedVendorId,
+        bill_number: billNumber || null,
+        bill_date: billDate,
+        due_date: dueDate,
+        scheduled_payment_date: scheduledDate || null,
+        payment_account_id: paymentAccountId || null,
+        currency,
+        tax_inclusive: taxInclusive,
+        notes: notes || null,
+      };
+
+      let id = billId;
+      if (id) {
+        const { error } = await supabase.from('bills').update(header).eq('id', id);
+        if (error) throw new Error(error.message);
+
+        const { error: deleteError } = await supabase.from('bill_lines').delete().eq('bill_id', id);
+        if (deleteError) throw deleteError;
+      } else {
+        const { data, error } = await supabase
+          .from('bills')
+          .insert([{ ...header, user_id: userData.user.id }])
+          .select('id')
+          .single();
+        if (error) throw new Error(error.message);
+        id = data.id;
+      }
+
+      const { error: linesError } = await supabase
+        .from('bill_lines')
+        .insert(lines.filter((line) => line.description.trim()).map((line, position) => ({
+          bill_id: id as string,
+          user_id: userData.user.id,
+          position,
+          description: line.description.trim(),
+          ...toNumbers(line),
+          tax_rate_id: line.tax_rate_id || null,
+          expense_account_id: line.expense_account_id || null,
+        })));
+      if (linesError) throw linesError;
+
+      // Entering the bill posts it to payables, so it happens once the lines are in
+      if (enter) {
+        const { error } = await supabase.from('bills').update({ status: 'open' }).eq('id', id as string);
+        if (error) throw new Error(error.message);
+      }
+
+      toast({
+        title: "Success",
+        description: enter ? "Bill entered" : "Bill saved as draft"
+      });
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      console.error('Error saving bill:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save the bill",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const expenseAccounts = accounts.filter((account) => account.account_type === 'expense');
+  const paymentAccounts = accounts.filter((account) => account.account_type !== 'expense'
+    && (!account.currency || account.currency === currency));
+  // The line as the database will price it, tax rate components included
+  const lineInput = (line: LineDraft) => {
+    const taxRate = taxRates.find((rate) => rate.id === line.tax_rate_id);
+    return { ...toNumbers(line), tax: taxRate ? componentsOf(taxRate, taxRates) : undefined };
+  };
+
+  const totals = billTotals(lines.map(lineInput), taxInclusive);
+  const canSave = !!selectedVendorId && !!billDate && !!dueDate && dueDate >= billDate
+    && lines.some((line) => line.description.trim());
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{billId ? 'Edit Bill' : 'New Bill'}</DialogTitle>
+          <DialogDescription>
+            Drafts can be changed freely. Entering a bill posts it to accounts payable.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="space-y-1">
+              <Label>Vendor</Label>
+              <Select value={selectedVendorId} onValueChange={changeVendor}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select vendor" />
+                </SelectTrigger>
+                <SelectContent>
+                  {vendors.map((vendor) => (
+                    <SelectItem key={vendor.id} value={vendor.id}>{vendor.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="bill-number">Vendor invoice #</Label>
+              <Input id="bill-number" value={billNumber} onChange={(e) => setBillNumber(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="bill-date">Bill date</Label>
+              <Input id="bill-date" type="date" value={billDate} onChange={(e) => changeBillDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="bill-due-date">Due date</Label>
+              <Input id="bill-due-date" type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+            </div>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Description</TableHead>
+                <TableHead className="w-20">Qty</TableHead>
+                <TableHead className="w-28">Unit price</TableHead>
+                <TableHead className="w-44">Tax</TableHead>
+                <TableHead className="w-40">Expense account</TableHead>
+                <TableHead className="w-28 text-right">Amount</TableHead>
+                <TableHead className="w-10" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lines.map((line, index) => (
+                <TableRow key={index}>
+                  <TableCell>
+                    <Input value={line.description} onChange={(e) => updateLine(index, { description: e.target.value })} />
+                  </TableCell>
+                  <TableCell>
+                    <Input type="number" value={line.quantity} onChange={(e) => updateLine(index, { quantity: e.target.value })} />
+                  </TableCell>
+                  <TableCell>
+                    <Input type="number" step="0.01" value={line.unit_price} onChange={(e) => updateLine(index, { unit_price: e.target.value })} />
+                  </TableCell>
+                  <TableCell className="space-y-1">
+                    <Select
+                      value={line.tax_rate_id || CUSTOM_TAX}
+                      onValueChange={(value) => updateLine(index, { tax_rate_id: value === CUSTOM_TAX ? '' : value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={CUSTOM_TAX}>Enter amount</SelectItem>
+                        {taxRates.filter((rate) => rate.is_active || rate.id === line.tax_rate_id).map((rate) => (
+                          <SelectItem key={rate.id} value={rate.id}>{taxRateLabel(rate, taxRates)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {line.tax_rate_id ? (
+                      <p className="text-xs text-muted-foreground text-right">
+                        {formatCurrency(billLineAmounts(lineInput(line), taxInclusive).tax, currency)}
+                      </p>
+                    ) : (
+                      <Input
+                        type="number"
+                        step="0.01"
+                        value={line.tax_amount}
+                        onChange={(e) => updateLine(index, { tax_amount: e.target.value })}
+                        aria-label="Tax amount"
+                      />
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Select value={line.expense_account_id} onValueChange={(value) => updateLine(index, { expense_account_id: value })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Default" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {expenseAccounts.map((account) => (
+                          <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(billLineAmounts(lineInput(line), taxInclusive).amount, currency)}</TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setLines((current) => current.filter((_, i) => i !== index))}
+                      disabled={lines.length === 1}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <div className="flex items-center justify-between">
+            <Button variant="outline" size="sm" onClick={() => setLines((current) => [...current, EMPTY_LINE])}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Line
+            </Button>
+            <div className="flex items-center gap-2">
+              <Switch id="bill-tax-inclusive" checked={taxInclusive} onCheckedChange={setTaxInclusive} />
+              <Label htmlFor="bill-tax-inclusive">Prices include tax</Label>
+            </div>
+          </div>
+
+          <div className="flex flex-col items-end gap-1 text-sm">
+            <div className="flex gap-8"><span className="text-muted-foreground">Subtotal</span><span>{formatCurrency(totals.subtotal, currency)}</span></div>
+            <div className="flex gap-8"><span className="text-muted-foreground">Tax</span><span>{formatCurrency(totals.tax, currency)}</span></div>
+            <div className="flex gap-8 font-semibold"><span>Total</span><span>{formatCurrency(totals.total, currency)}</span></div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <Label>Currency</Label>
+              <Select value={currency} onValueChange={setCurrency}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[...new Set([...currencies, currency])].map((code) => (
+                    <SelectItem key={code} value={code}>{code}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="bill-scheduled-date">Scheduled payment date</Label>
+              <Input id="bill-scheduled-date" type="date" value={scheduledDate} onChange={(e) => setScheduledDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>Pay from</Label>
+              <Select value={paymentAccountId} onValueChange={setPaymentAccountId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Cash" />
+                </SelectTrigger>
+                <SelectContent>
+                  {paymentAccounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="bill-notes">Notes</Label>
+            <Textarea id="bill-notes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button variant="outline" onClick={() => saveBill(false)} disabled={isSaving || !canSave}>
+              Save Draft
+            </Button>
+            <Button onClick={() => saveBill(true)} disabled={isSaving || !canSave}>
+              {isSaving ? 'Saving...' : 'Enter Bill'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
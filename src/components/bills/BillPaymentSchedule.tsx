@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CalendarClock } from 'lucide-react';
+import { formatCurrency } from '@/lib/reports';
+import { BillStatus, isBillOverdue, plannedPaymentDate, scheduleHorizon } from '@/lib/bills';
+
+export interface ScheduledBill {
+  id: string;
+  vendor_id: string;
+  bill_number: string | null;
+  due_date: string;
+  scheduled_payment_date: string | null;
+  status: BillStatus;
+  balance_due: number;
+  currency: string | null;
+  exchange_rate: number | null;
+  vendors: { name: string } | null;
+}
+
+interface BillPaymentScheduleProps {
+  bills: ScheduledBill[];
+  onSelect: (billId: string) => void;
+}
+
+const WINDOWS = [7, 14, 30, 60, 90];
+
+// Entered bills to pay within the next N days, by planned payment date
+export function BillPaymentSchedule({ bills, onSelect }: BillPaymentScheduleProps) {
+  const [days, setDays] = useState('14');
+
+  const horizon = scheduleHorizon(parseInt(days));
+  const due = bills
+    .filter((bill) => (bill.status === 'open' || bill.status === 'partially_paid') && plannedPaymentDate(bill) <= horizon)
+    .sort((a, b) => plannedPaymentDate(a).localeCompare(plannedPaymentDate(b)));
+  // Foreign bills count at their booked rate so the total is in the base currency
+  const total = due.reduce((sum, bill) => sum + Number(bill.balance_due) * Number(bill.exchange_rate ?? 1), 0);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <CalendarClock className="h-5 w-5" />
+            Payment Schedule
+          </CardTitle>
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-muted-foreground">Due in the next</span>
+            <Select value={days} onValueChange={setDays}>
+              <SelectTrigger className="w-24">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WINDOWS.map((window) => (
+                  <SelectItem key={window} value={String(window)}>{window} days</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {due.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No bills to pay in the next {days} days.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Pay on</TableHead>
+                <TableHead>Vendor</TableHead>
+                <TableHead>Bill</TableHead>
+                <TableHead>Due</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {due.map((bill) => (
+                <TableRow key={bill.id} className="cursor-pointer" onClick={() => onSelect(bill.id)}>
+                  <TableCell>
+                    {plannedPaymentDate(bill)}
+                    {bill.scheduled_payment_date && <Badge variant="outline" className="ml-2">Scheduled</Badge>}
+                  </TableCell>
+                  <TableCell>{bill.vendors?.name}</TableCell>
+                  <TableCell>{bill.bill_number || '—'}</TableCell>
+                  <TableCell className={isBillOverdue(bill) ? 'text-red-600' : ''}>
+                    {bill.due_date}{isBillOverdue(bill) ? ' (overdue)' : ''}
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(bill.balance_due, bill.currency ?? undefined)}</TableCell>
+                </TableRow>
+              ))}
+              <TableRow className="font-semibold">
+                <TableCell colSpan={4}>Total to pay</TableCell>
+                <TableCell className="text-right">{formatCurrency(total)}</TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
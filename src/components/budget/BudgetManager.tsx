@@ -9,6 +9,7 @@ import { Progress } from '@/components/ui/progress';
 import { Plus, AlertTriangle } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { formatCurrency } from '@/lib/reports';
 
 interface Budget {
   id: string;
@@ -323,8 +324,8 @@ export function BudgetManager() {
               <CardContent>
                 <div className="space-y-3">
                   <div className="flex justify-between text-sm">
-                    <span>Spent: ${budget.spent_amount.toFixed(2)}</span>
-                    <span>Budget: ${budget.amount.toFixed(2)}</span>
+                    <span>Spent: {formatCurrency(budget.spent_amount)}</span>
+                    <span>Budget: {formatCurrency(budget.amount)}</span>
                   </div>
                   
                   <Progress 
@@ -338,7 +339,7 @@ export function BudgetManager() {
                   <div className="flex justify-between text-xs text-muted-foreground">
                     <span>{progress.toFixed(1)}% used</span>
                     <span>
-                      ${(budget.amount - budget.spent_amount).toFixed(2)} remaining
+                      {formatCurrency(budget.amount - budget.spent_amount)} remaining
                     </span>
                   </div>
                   
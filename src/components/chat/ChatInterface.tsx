@@ -5,17 +5,24 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Card } from '@/components/ui/card';
 import { Send, Bot, User, Paperclip, X } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { ProposedActionCard } from '@/components/chat/ProposedActionCard';
+import { QueryResultTable, type QueryTable } from '@/components/chat/QueryResultTable';
+import type { Json } from '@/integrations/supabase/types';
 
 interface Message {
   id: string;
   role: 'user' | 'assistant';
   content: string;
   created_at: string;
+  attachments?: { id: string; file_name: string }[];
+  metadata?: Json | null;
+  streaming?: boolean;
+  status?: string;
 }
 
 interface ChatInterfaceProps {
   messages: Message[];
-  onSendMessage: (message: string) => Promise<void>;
+  onSendMessage: (message: string, attachments?: File[]) => Promise<void>;
   isLoading?: boolean;
 }
 
@@ -27,12 +34,14 @@ export function ChatInterface({ messages, onSendMessage, isLoading = false }: Ch
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!input.trim() || isLoading) return;
+    if ((!input.trim() && attachments.length === 0) || isLoading) return;
     
-    const message = input.trim();
+    const message = input.trim() || `Please process the attached ${attachments.length === 1 ? 'document' : 'documents'}.`;
+    const files = attachments;
     setInput('');
     setAttachments([]);
-    await onSendMessage(message);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    await onSendMessage(message, files);
   };
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -87,7 +96,11 @@ export function ChatInterface({ messages, onSendMessage, isLoading = false }: Ch
               </div>
             </div>
           ) : (
-            messages.map((message) => (
+            messages.map((message) => {
+              const metadata = message.metadata as { proposal_id?: string; tables?: QueryTable[] } | null;
+              const proposalId = metadata?.proposal_id;
+
+              return (
               <div
                 key={message.id}
                 className={cn(
@@ -111,10 +124,40 @@ export function ChatInterface({ messages, onSendMessage, isLoading = false }: Ch
                       : "bg-muted"
                   )}
                 >
-                  <p className="text-sm whitespace-pre-wrap">{message.content}</p>
-                  <p className="text-xs opacity-70 mt-1">
-                    {new Date(message.created_at).toLocaleTimeString()}
-                  </p>
+                  {message.streaming && !message.content ? (
+                    <div className="flex items-center gap-2 py-1">
+                      <div className="flex items-center space-x-1">
+                        <div className="w-2 h-2 bg-primary rounded-full animate-bounce" />
+                        <div className="w-2 h-2 bg-primary rounded-full animate-bounce" style={{ animationDelay: '0.1s' }} />
+                        <div className="w-2 h-2 bg-primary rounded-full animate-bounce" style={{ animationDelay: '0.2s' }} />
+                      </div>
+                      {message.status && <span className="text-xs text-muted-foreground">{message.status}</span>}
+                    </div>
+                  ) : (
+                    <p className="text-sm whitespace-pre-wrap">
+                      {message.content}
+                      {message.streaming && <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-primary animate-pulse" />}
+                    </p>
+                  )}
+                  {message.attachments && message.attachments.length > 0 && (
+                    <div className="mt-2 flex flex-wrap gap-1">
+                      {message.attachments.map((attachment) => (
+                        <span key={attachment.id} className="flex items-center gap-1 text-xs opacity-80">
+                          <Paperclip className="h-3 w-3" />
+                          {attachment.file_name}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  {metadata?.tables?.map((table, index) => (
+                    <QueryResultTable key={index} table={table} />
+                  ))}
+                  {proposalId && <ProposedActionCard proposalId={proposalId} />}
+                  {!message.streaming && (
+                    <p className="text-xs opacity-70 mt-1">
+                      {new Date(message.created_at).toLocaleTimeString()}
+                    </p>
+                  )}
                 </div>
 
                 {message.role === 'user' && (
@@ -125,10 +168,11 @@ export function ChatInterface({ messages, onSendMessage, isLoading = false }: Ch
                   </div>
                 )}
               </div>
-            ))
+              );
+            })
           )}
           
-          {isLoading && (
+          {isLoading && !messages.some((message) => message.streaming) && (
             <div className="flex gap-3 mb-4">
               <div className="flex-shrink-0">
                 <div className="w-8 h-8 rounded-full bg-primary flex items-center justify-center">
@@ -197,7 +241,7 @@ export function ChatInterface({ messages, onSendMessage, isLoading = false }: Ch
               className="min-h-[44px] max-h-32 resize-none"
               rows={1}
             />
-            <Button type="submit" disabled={!input.trim() || isLoading}>
+            <Button type="submit" disabled={(!input.trim() && attachments.length === 0) || isLoading}>
               <Send className="h-4 w-4" />
             </Button>
           </div>
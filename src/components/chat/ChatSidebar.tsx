@@ -4,6 +4,7 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
 import { MessageSquare, Plus, Settings, Calculator, TrendingUp } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { SettingsDialog } from '@/components/settings/SettingsDialog';
 
 interface Conversation {
   id: string;
@@ -99,10 +100,12 @@ export function ChatSidebar({
 
       {/* Footer */}
       <div className="p-2 border-t border-sidebar-border">
-        <Button variant="ghost" className="w-full justify-start gap-2">
-          <Settings className="h-4 w-4" />
-          Settings
-        </Button>
+        <SettingsDialog>
+          <Button variant="ghost" className="w-full justify-start gap-2">
+            <Settings className="h-4 w-4" />
+            Settings
+          </Button>
+        </SettingsDialog>
       </div>
     </div>
   );
@@ -0,0 +1,229 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Check, Pencil, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import type { Json } from '@/integrations/supabase/types';
+
+interface ProposedStep {
+  ref?: string;
+  action: string;
+  data: Record<string, Json>;
+}
+
+interface ProposedAction {
+  id: string;
+  action_type: string;
+  // Proposals from before batching carry a single action's data instead of a list
+  payload: { actions?: ProposedStep[]; data?: Record<string, Json>; attachment_ids?: string[] };
+  status: string;
+  result_response: string | null;
+}
+
+interface ProposedActionCardProps {
+  proposalId: string;
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  CREATE_TRANSACTION: 'New transaction',
+  UPDATE_TRANSACTION: 'Update transaction',
+  CREATE_JOURNAL_ENTRY: 'New journal entry',
+  CREATE_BILL: 'New bill',
+  SCHEDULE_BILL_PAYMENT: 'Schedule bill payment',
+  CREATE_RECURRING_SCHEDULE: 'New recurring schedule',
+  CREATE_BUDGET: 'New budget',
+  CREATE_CATEGORY: 'New category',
+  CREATE_ACCOUNT: 'New account',
+  CREATE_CUSTOMER: 'New customer',
+  CREATE_VENDOR: 'New vendor',
+  MULTIPLE_ACTIONS: 'Multiple actions'
+};
+
+const formatLabel = (key: string) =>
+  key.replace(/_id$/, '').replace(/_/g, ' ').replace(/^\w/, (c) => c.toUpperCase());
+
+const isEditable = (value: Json) =>
+  value === null || typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+
+const proposedSteps = (proposal: ProposedAction): ProposedStep[] =>
+  proposal.payload.actions || [{ action: proposal.action_type, data: proposal.payload.data || {} }];
+
+export function ProposedActionCard({ proposalId }: ProposedActionCardProps) {
+  const [proposal, setProposal] = useState<ProposedAction | null>(null);
+  const [draft, setDraft] = useState<Record<string, Json>[]>([]);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchProposal();
+  }, [proposalId]);
+
+  const fetchProposal = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('proposed_actions')
+        .select('id, action_type, payload, status, result_response')
+        .eq('id', proposalId)
+        .single();
+
+      if (error) throw error;
+      const loaded = data as unknown as ProposedAction;
+      setProposal(loaded);
+      setDraft(proposedSteps(loaded).map((step) => step.data));
+    } catch (error) {
+      console.error('Error fetching proposed action:', error);
+    }
+  };
+
+  const resolve = async (decision: 'approve' | 'reject') => {
+    if (!proposal) return;
+
+    try {
+      setIsSubmitting(true);
+
+      const { data: userData } = await supabase.auth.getUser();
+      if (!userData.user) throw new Error('Not authenticated');
+
+      const { data, error } = await supabase.functions.invoke('ai-accountant', {
+        body: {
+          proposalId: proposal.id,
+          decision,
+          data: decision === 'approve' ? draft : undefined
+        }
+      });
+
+      if (error) throw error;
+
+      // Edits the server rejects leave the proposal open to correct
+      if (data.problems) {
+        toast({
+          title: "Check the changes",
+          description: data.problems.join('\n'),
+          variant: "destructive"
+        });
+        return;
+      }
+
+      setProposal(data.proposal);
+      setIsEditing(false);
+
+      if (data.proposal.status === 'failed') {
+        toast({
+          title: "Action failed",
+          description: data.response,
+          variant: "destructive"
+        });
+      }
+    } catch (error) {
+      console.error('Error resolving proposed action:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update the proposed action",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!proposal) return null;
+
+  const isOpen = proposal.status === 'pending' || proposal.status === 'failed';
+  const steps = proposedSteps(proposal);
+
+  const updateDraft = (index: number, key: string, value: Json) => {
+    setDraft(prev => prev.map((data, i) => i === index ? { ...data, [key]: value } : data));
+  };
+
+  return (
+    <Card className="mt-3 bg-background text-foreground">
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-sm">
+            {ACTION_LABELS[proposal.action_type] || proposal.action_type}
+          </CardTitle>
+          <Badge
+            variant={
+              proposal.status === 'approved' ? 'default' :
+              proposal.status === 'pending' ? 'secondary' : 'destructive'
+            }
+          >
+            {proposal.status}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {steps.map((step, index) => (
+          <div key={index} className="space-y-2">
+            {steps.length > 1 && (
+              <p className="text-xs font-medium text-muted-foreground">
+                {index + 1}. {ACTION_LABELS[step.action] || step.action}
+              </p>
+            )}
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              {Object.entries(draft[index] || step.data).map(([key, value]) => {
+                const fieldId = `proposal-${proposal.id}-${index}-${key}`;
+                // Numeric fields stay numeric; an emptied one is cleared rather than sent as NaN
+                const isNumber = typeof step.data[key] === 'number';
+
+                return isEditing && isEditable(value) ? (
+                  <div key={key} className="col-span-2 grid grid-cols-2 items-center gap-2">
+                    <Label htmlFor={fieldId}>{formatLabel(key)}</Label>
+                    <Input
+                      id={fieldId}
+                      value={value === null ? '' : String(value)}
+                      type={isNumber ? 'number' : 'text'}
+                      onChange={(e) => updateDraft(
+                        index,
+                        key,
+                        isNumber ? (e.target.value === '' ? null : Number(e.target.value)) : e.target.value
+                      )}
+                    />
+                  </div>
+                ) : (
+                  <div key={key} className="col-span-2 grid grid-cols-2 gap-2">
+                    <span className="text-muted-foreground">{formatLabel(key)}</span>
+                    <span className="break-all">
+                      {isEditable(value) ? String(value ?? '—') : JSON.stringify(value)}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+
+        {proposal.result_response && (
+          <p className="text-sm whitespace-pre-wrap">{proposal.result_response}</p>
+        )}
+
+        {isOpen && (
+          <div className="flex gap-2">
+            <Button size="sm" onClick={() => resolve('approve')} disabled={isSubmitting}>
+              <Check className="h-4 w-4 mr-1" />
+              Approve
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setIsEditing(prev => !prev)}
+              disabled={isSubmitting}
+            >
+              <Pencil className="h-4 w-4 mr-1" />
+              {isEditing ? 'Done' : 'Edit'}
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => resolve('reject')} disabled={isSubmitting}>
+              <X className="h-4 w-4 mr-1" />
+              Reject
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
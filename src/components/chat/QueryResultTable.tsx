@@ -0,0 +1,66 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import { formatCurrency } from '@/lib/reports';
+
+export interface QueryTable {
+  title: string;
+  columns: { key: string; label: string; type: 'text' | 'currency' | 'number' }[];
+  rows: Record<string, string | number | null>[];
+  truncated: boolean;
+}
+
+interface QueryResultTableProps {
+  table: QueryTable;
+}
+
+const formatCell = (value: string | number | null, type: QueryTable['columns'][number]['type']) => {
+  if (value === null || value === undefined) return '—';
+  if (type === 'currency') return formatCurrency(Number(value));
+  if (type === 'number') return Number(value).toLocaleString();
+  return String(value);
+};
+
+// Result of a QUERY_LEDGER or GENERATE_REPORT call, shown under the assistant's reply
+export function QueryResultTable({ table }: QueryResultTableProps) {
+  return (
+    <Card className="mt-3 bg-background text-foreground">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm">{table.title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {table.rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No matching records.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {table.columns.map((column) => (
+                  <TableHead key={column.key} className={cn(column.type !== 'text' && 'text-right')}>
+                    {column.label}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {table.rows.map((row, index) => (
+                <TableRow key={index}>
+                  {table.columns.map((column) => (
+                    <TableCell key={column.key} className={cn(column.type !== 'text' && 'text-right')}>
+                      {formatCell(row[column.key], column.type)}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+        {table.truncated && (
+          <p className="text-xs text-muted-foreground mt-2">
+            Showing partial results; narrow the date range for a complete answer.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,319 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Coins, Plus, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency, today } from '@/lib/reports';
+import { COMMON_CURRENCIES, ExchangeRate, getBaseCurrency, isCurrencyCode, parseRatesFile } from '@/lib/currency';
+
+type StoredRate = Database['public']['Tables']['exchange_rates']['Row'];
+type Revaluation = Database['public']['Functions']['revalue_foreign_balances']['Returns'][number];
+
+const RATE_LIMIT = 200;
+
+export function ExchangeRatesDialog() {
+  const [open, setOpen] = useState(false);
+  const [rates, setRates] = useState<StoredRate[]>([]);
+  const [form, setForm] = useState({ currency: '', rate_date: today(), rate: '' });
+  const [isSaving, setIsSaving] = useState(false);
+  const [revalueAsOf, setRevalueAsOf] = useState(today());
+  const [revaluation, setRevaluation] = useState<Revaluation[] | null>(null);
+  const [isRevaluing, setIsRevaluing] = useState(false);
+  const { toast } = useToast();
+  const base = getBaseCurrency();
+
+  useEffect(() => {
+    if (open) fetchRates();
+  }, [open]);
+
+  const fetchRates = async () => {
+    const { data, error } = await supabase
+      .from('exchange_rates')
+      .select('*')
+      .order('rate_date', { ascending: false })
+      .order('currency')
+      .limit(RATE_LIMIT);
+
+    if (error) {
+      console.error('Error fetching exchange rates:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load exchange rates",
+        variant: "destructive"
+      });
+      return;
+    }
+    setRates(data || []);
+  };
+
+  // A second rate for the same currency and day replaces the first
+  const saveRates = async (values: ExchangeRate[], source: 'manual' | 'import') => {
+    const { data: userData } = await supabase.auth.getUser();
+    if (!userData.user) throw new Error('Not authenticated');
+
+    const { error } = await supabase
+      .from('exchange_rates')
+      .upsert(
+        values.map((value) => ({ ...value, source, user_id: userData.user.id })),
+        { onConflict: 'user_id,currency,rate_date' }
+      );
+
+    if (error) throw new Error(error.message);
+  };
+
+  const addRate = async () => {
+    try {
+      setIsSaving(true);
+      await saveRates([{ currency: form.currency, rate_date: form.rate_date, rate: parseFloat(form.rate) }], 'manual');
+      setForm({ ...form, rate: '' });
+      fetchRates();
+    } catch (error) {
+      console.error('Error saving exchange rate:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save the exchange rate",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const importFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setIsSaving(true);
+      const { rates: parsed, errors } = parseRatesFile(await file.text());
+      const usable = parsed.filter((rate) => rate.currency !== base);
+      if (usable.length === 0) throw new Error(errors[0] || 'No exchange rates found in this file');
+
+      await saveRates(usable, 'import');
+      toast({
+        title: "Rates imported",
+        description: `${usable.length} rate${usable.length === 1 ? '' : 's'} imported${errors.length ? `, ${errors.length} row${errors.length === 1 ? '' : 's'} skipped (${errors[0]})` : ''}.`
+      });
+      fetchRates();
+    } catch (error) {
+      console.error('Error importing exchange rates:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to import the rates file",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteRate = async (rate: StoredRate) => {
+    const { error } = await supabase.from('exchange_rates').delete().eq('id', rate.id);
+    if (error) {
+      console.error('Error deleting exchange rate:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete the exchange rate",
+        variant: "destructive"
+      });
+      return;
+    }
+    fetchRates();
+  };
+
+  // Without post the differences are only previewed
+  const revalue = async (post: boolean) => {
+    try {
+      setIsRevaluing(true);
+      const { data, error } = await supabase.rpc('revalue_foreign_balances', { p_as_of: revalueAsOf, p_post: post });
+      if (error) throw new Error(error.message);
+
+      if (post) {
+        toast({
+          title: "Revaluation posted",
+          description: data?.length
+            ? `${data.length} foreign balance${data.length === 1 ? '' : 's'} restated as of ${revalueAsOf}`
+            : "Foreign balances were already at the closing rate"
+        });
+        setRevaluation(null);
+      } else {
+        setRevaluation(data || []);
+      }
+    } catch (error) {
+      console.error('Error revaluing foreign balances:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to revalue foreign balances",
+        variant: "destructive"
+      });
+    } finally {
+      setIsRevaluing(false);
+    }
+  };
+
+  const rateValid = isCurrencyCode(form.currency) && form.currency !== base && !!form.rate_date && parseFloat(form.rate) > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Coins className="h-4 w-4 mr-2" />
+          Exchange Rates
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Exchange Rates</DialogTitle>
+          <DialogDescription>
+            Your books are kept in {base}. Foreign transactions, invoices and bills are converted with the latest rate on or before their date.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="border rounded-lg p-4 space-y-4">
+            <h3 className="font-medium">Add a rate</h3>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+              <div className="space-y-1">
+                <Label>Currency</Label>
+                <Select value={form.currency} onValueChange={(value) => setForm({ ...form, currency: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {COMMON_CURRENCIES.filter((code) => code !== base).map((code) => (
+                      <SelectItem key={code} value={code}>{code}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="rate-date">Date</Label>
+                <Input id="rate-date" type="date" value={form.rate_date} onChange={(e) => setForm({ ...form, rate_date: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="rate-value">{form.currency ? `${base} per 1 ${form.currency}` : 'Rate'}</Label>
+                <Input
+                  id="rate-value"
+                  type="number"
+                  step="0.000001"
+                  min="0"
+                  value={form.rate}
+                  onChange={(e) => setForm({ ...form, rate: e.target.value })}
+                  placeholder="1.0850"
+                />
+              </div>
+              <Button onClick={addRate} disabled={isSaving || !rateValid}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Rate
+              </Button>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="rates-file">Or import a rates file</Label>
+              <Input
+                id="rates-file"
+                type="file"
+                accept=".csv,.txt"
+                disabled={isSaving}
+                onChange={(e) => {
+                  importFile(e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+              />
+              <p className="text-xs text-muted-foreground">
+                CSV with date (YYYY-MM-DD), currency and rate columns, e.g. "2025-09-30,EUR,1.0850".
+              </p>
+            </div>
+          </div>
+
+          <div className="border rounded-lg p-4 space-y-4">
+            <h3 className="font-medium">Period-end revaluation</h3>
+            <p className="text-sm text-muted-foreground">
+              Restates foreign bank, receivable and payable balances at the rate on the chosen date and posts the difference to Unrealized Exchange Gain/Loss.
+            </p>
+            <div className="flex items-end gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="revalue-as-of">As of</Label>
+                <Input id="revalue-as-of" type="date" value={revalueAsOf} onChange={(e) => { setRevalueAsOf(e.target.value); setRevaluation(null); }} />
+              </div>
+              <Button variant="outline" onClick={() => revalue(false)} disabled={isRevaluing || !revalueAsOf}>
+                Preview
+              </Button>
+              <Button onClick={() => revalue(true)} disabled={isRevaluing || !revaluation?.length}>
+                {isRevaluing ? 'Posting...' : 'Post Revaluation'}
+              </Button>
+            </div>
+
+            {revaluation && (revaluation.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nothing to revalue as of {revalueAsOf}.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Account</TableHead>
+                    <TableHead className="text-right">Foreign balance</TableHead>
+                    <TableHead className="text-right">Rate</TableHead>
+                    <TableHead className="text-right">Book value</TableHead>
+                    <TableHead className="text-right">Revalued</TableHead>
+                    <TableHead className="text-right">Gain / (loss)</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {revaluation.map((row) => (
+                    <TableRow key={`${row.account_id}-${row.currency}`}>
+                      <TableCell>{row.account_name}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.foreign_balance, row.currency)}</TableCell>
+                      <TableCell className="text-right">{Number(row.exchange_rate)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.book_balance)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.revalued_balance)}</TableCell>
+                      <TableCell className={`text-right ${row.adjustment >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {formatCurrency(row.adjustment)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ))}
+          </div>
+
+          {rates.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No exchange rates yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Currency</TableHead>
+                  <TableHead className="text-right">{base} per unit</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rates.map((rate) => (
+                  <TableRow key={rate.id}>
+                    <TableCell>{rate.rate_date}</TableCell>
+                    <TableCell>{rate.currency}</TableCell>
+                    <TableCell className="text-right">{Number(rate.rate)}</TableCell>
+                    <TableCell>
+                      <Badge variant={rate.source === 'import' ? 'secondary' : 'outline'}>{rate.source}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => deleteRate(rate)} aria-label="Delete rate">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
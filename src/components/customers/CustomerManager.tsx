@@ -7,9 +7,15 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
-import { Plus, Users, Mail, Phone, Building } from 'lucide-react';
+import { Plus, Users, Mail, Phone, Building, FileText } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { InvoiceFormDialog } from '@/components/invoices/InvoiceFormDialog';
+import { InvoiceDetailDialog } from '@/components/invoices/InvoiceDetailDialog';
+import { AgingReportDialog } from '@/components/aging/AgingReportDialog';
+import { formatCurrency } from '@/lib/reports';
+import { InvoiceStatus, OPEN_STATUSES, STATUS_LABELS, isOverdue } from '@/lib/invoices';
+import { isOverCreditLimit } from '@/lib/aging';
 
 interface Customer {
   id: string;
@@ -19,14 +25,28 @@ interface Customer {
   company_name?: string;
   customer_type: string;
   balance: number;
+  credit_limit: number;
   payment_terms: number;
   is_active: boolean;
   created_at: string;
 }
 
+interface OpenInvoice {
+  id: string;
+  customer_id: string;
+  invoice_number: string;
+  due_date: string;
+  status: InvoiceStatus;
+  balance_due: number;
+  currency: string | null;
+}
+
 export function CustomerManager() {
   const [customers, setCustomers] = useState<Customer[]>([]);
+  const [openInvoices, setOpenInvoices] = useState<OpenInvoice[]>([]);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [invoiceForm, setInvoiceForm] = useState<{ open: boolean; customerId?: string; invoiceId?: string | null }>({ open: false });
+  const [viewingInvoiceId, setViewingInvoiceId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
 
@@ -45,8 +65,9 @@ export function CustomerManager() {
 
   useEffect(() => {
     fetchCustomers();
+    fetchOpenInvoices();
     
-    // Set up real-time subscription for customer updates
+    // Set up real-time subscription for customer and invoice updates
     const channel = supabase
       .channel('customer-changes')
       .on(
@@ -57,6 +78,13 @@ export function CustomerManager() {
           fetchCustomers();
         }
       )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'invoices' },
+        () => {
+          fetchOpenInvoices();
+        }
+      )
       .subscribe();
 
     return () => {
@@ -83,6 +111,26 @@ export function CustomerManager() {
     }
   };
 
+  const fetchOpenInvoices = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('invoices')
+        .select('id, customer_id, invoice_number, due_date, status, balance_due, currency')
+        .in('status', OPEN_STATUSES)
+        .order('due_date');
+
+      if (error) throw error;
+      setOpenInvoices(data || []);
+    } catch (error) {
+      console.error('Error fetching invoices:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load invoices",
+        variant: "destructive"
+      });
+    }
+  };
+
   const createCustomer = async () => {
     try {
       setIsLoading(true);
@@ -144,140 +192,150 @@ export function CustomerManager() {
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h2 className="text-2xl font-semibold">Customer Management</h2>
-        <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-          <DialogTrigger asChild>
-            <Button>
-              <Plus className="h-4 w-4 mr-2" />
-              Add Customer
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-2xl">
-            <DialogHeader>
-              <DialogTitle>Add New Customer</DialogTitle>
-            </DialogHeader>
-            <div className="grid grid-cols-2 gap-4 max-h-96 overflow-y-auto">
-              <div>
-                <Label htmlFor="customer-name">Customer Name *</Label>
-                <Input
-                  id="customer-name"
-                  value={newCustomer.name}
-                  onChange={(e) => setNewCustomer(prev => ({ ...prev, name: e.target.value }))}
-                  placeholder="John Doe"
-                />
-              </div>
-              
-              <div>
-                <Label htmlFor="customer-email">Email</Label>
-                <Input
-                  id="customer-email"
-                  type="email"
-                  value={newCustomer.email}
-                  onChange={(e) => setNewCustomer(prev => ({ ...prev, email: e.target.value }))}
-                  placeholder="john@example.com"
-                />
-              </div>
+        <div className="flex gap-2">
+          <AgingReportDialog kind="receivables" onOpenDocument={setViewingInvoiceId} />
+          <Button variant="outline" onClick={() => setInvoiceForm({ open: true })} disabled={customers.length === 0}>
+            <FileText className="h-4 w-4 mr-2" />
+            New Invoice
+          </Button>
+          <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Customer
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl">
+              <DialogHeader>
+                <DialogTitle>Add New Customer</DialogTitle>
+              </DialogHeader>
+              <div className="grid grid-cols-2 gap-4 max-h-96 overflow-y-auto">
+                <div>
+                  <Label htmlFor="customer-name">Customer Name *</Label>
+                  <Input
+                    id="customer-name"
+                    value={newCustomer.name}
+                    onChange={(e) => setNewCustomer(prev => ({ ...prev, name: e.target.value }))}
+                    placeholder="John Doe"
+                  />
+                </div>
+                
+                <div>
+                  <Label htmlFor="customer-email">Email</Label>
+                  <Input
+                    id="customer-email"
+                    type="email"
+                    value={newCustomer.email}
+                    onChange={(e) => setNewCustomer(prev => ({ ...prev, email: e.target.value }))}
+                    placeholder="john@example.com"
+                  />
+                </div>
 
-              <div>
-                <Label htmlFor="customer-phone">Phone</Label>
-                <Input
-                  id="customer-phone"
-                  value={newCustomer.phone}
-                  onChange={(e) => setNewCustomer(prev => ({ ...prev, phone: e.target.value }))}
-                  placeholder="+1 (555) 123-4567"
-                />
-              </div>
+                <div>
+                  <Label htmlFor="customer-phone">Phone</Label>
+                  <Input
+                    id="customer-phone"
+                    value={newCustomer.phone}
+                    onChange={(e) => setNewCustomer(prev => ({ ...prev, phone: e.target.value }))}
+                    placeholder="+1 (555) 123-4567"
+                  />
+                </div>
 
-              <div>
-                <Label htmlFor="company-name">Company Name</Label>
-                <Input
-                  id="company-name"
-                  value={newCustomer.company_name}
-                  onChange={(e) => setNewCustomer(prev => ({ ...prev, company_name: e.target.value }))}
-                  placeholder="ACME Corp"
-                />
-              </div>
+                <div>
+                  <Label htmlFor="company-name">Company Name</Label>
+                  <Input
+                    id="company-name"
+                    value={newCustomer.company_name}
+                    onChange={(e) => setNewCustomer(prev => ({ ...prev, company_name: e.target.value }))}
+                    placeholder="ACME Corp"
+                  />
+                </div>
 
-              <div>
-                <Label>Customer Type</Label>
-                <Select value={newCustomer.customer_type} onValueChange={(value) => 
-                  setNewCustomer(prev => ({ ...prev, customer_type: value }))}>
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="customer">Customer</SelectItem>
-                    <SelectItem value="client">Client</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
+                <div>
+                  <Label>Customer Type</Label>
+                  <Select value={newCustomer.customer_type} onValueChange={(value) => 
+                    setNewCustomer(prev => ({ ...prev, customer_type: value }))}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="customer">Customer</SelectItem>
+                      <SelectItem value="client">Client</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
 
-              <div>
-                <Label htmlFor="payment-terms">Payment Terms (Days)</Label>
-                <Input
-                  id="payment-terms"
-                  type="number"
-                  value={newCustomer.payment_terms}
-                  onChange={(e) => setNewCustomer(prev => ({ ...prev, payment_terms: e.target.value }))}
-                  placeholder="30"
-                />
-              </div>
+                <div>
+                  <Label htmlFor="payment-terms">Payment Terms (Days)</Label>
+                  <Input
+                    id="payment-terms"
+                    type="number"
+                    value={newCustomer.payment_terms}
+                    onChange={(e) => setNewCustomer(prev => ({ ...prev, payment_terms: e.target.value }))}
+                    placeholder="30"
+                  />
+                </div>
 
-              <div>
-                <Label htmlFor="tax-number">Tax Number</Label>
-                <Input
-                  id="tax-number"
-                  value={newCustomer.tax_number}
-                  onChange={(e) => setNewCustomer(prev => ({ ...prev, tax_number: e.target.value }))}
-                  placeholder="123-45-6789"
-                />
-              </div>
+                <div>
+                  <Label htmlFor="tax-number">Tax Number</Label>
+                  <Input
+                    id="tax-number"
+                    value={newCustomer.tax_number}
+                    onChange={(e) => setNewCustomer(prev => ({ ...prev, tax_number: e.target.value }))}
+                    placeholder="123-45-6789"
+                  />
+                </div>
 
-              <div>
-                <Label htmlFor="credit-limit">Credit Limit</Label>
-                <Input
-                  id="credit-limit"
-                  type="number"
-                  value={newCustomer.credit_limit}
-                  onChange={(e) => setNewCustomer(prev => ({ ...prev, credit_limit: e.target.value }))}
-                  placeholder="5000.00"
-                />
-              </div>
+                <div>
+                  <Label htmlFor="credit-limit">Credit Limit</Label>
+                  <Input
+                    id="credit-limit"
+                    type="number"
+                    value={newCustomer.credit_limit}
+                    onChange={(e) => setNewCustomer(prev => ({ ...prev, credit_limit: e.target.value }))}
+                    placeholder="5000.00"
+                  />
+                </div>
 
-              <div className="col-span-2">
-                <Label htmlFor="address">Address</Label>
-                <Textarea
-                  id="address"
-                  value={newCustomer.address}
-                  onChange={(e) => setNewCustomer(prev => ({ ...prev, address: e.target.value }))}
-                  placeholder="123 Main St, City, State 12345"
-                  rows={2}
-                />
-              </div>
+                <div className="col-span-2">
+                  <Label htmlFor="address">Address</Label>
+                  <Textarea
+                    id="address"
+                    value={newCustomer.address}
+                    onChange={(e) => setNewCustomer(prev => ({ ...prev, address: e.target.value }))}
+                    placeholder="123 Main St, City, State 12345"
+                    rows={2}
+                  />
+                </div>
 
-              <div className="col-span-2">
-                <Label htmlFor="notes">Notes</Label>
-                <Textarea
-                  id="notes"
-                  value={newCustomer.notes}
-                  onChange={(e) => setNewCustomer(prev => ({ ...prev, notes: e.target.value }))}
-                  placeholder="Additional notes about this customer..."
-                  rows={3}
-                />
-              </div>
+                <div className="col-span-2">
+                  <Label htmlFor="notes">Notes</Label>
+                  <Textarea
+                    id="notes"
+                    value={newCustomer.notes}
+                    onChange={(e) => setNewCustomer(prev => ({ ...prev, notes: e.target.value }))}
+                    placeholder="Additional notes about this customer..."
+                    rows={3}
+                  />
+                </div>
 
-              <div className="col-span-2">
-                <Button onClick={createCustomer} disabled={isLoading || !newCustomer.name} className="w-full">
-                  {isLoading ? 'Creating...' : 'Create Customer'}
-                </Button>
+                <div className="col-span-2">
+                  <Button onClick={createCustomer} disabled={isLoading || !newCustomer.name} className="w-full">
+                    {isLoading ? 'Creating...' : 'Create Customer'}
+                  </Button>
+                </div>
               </div>
-            </div>
-          </DialogContent>
-        </Dialog>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {customers.map((customer) => (
-          <Card key={customer.id} className={`${!customer.is_active ? 'opacity-60' : ''}`}>
+          <Card
+            key={customer.id}
+            className={`${!customer.is_active ? 'opacity-60' : ''} ${isOverCreditLimit({ credit_limit: customer.credit_limit, total: customer.balance }) ? 'border-red-500' : ''}`}
+          >
             <CardHeader className="pb-3">
               <div className="flex items-start justify-between">
                 <CardTitle className="text-lg">{customer.name}</CardTitle>
@@ -309,16 +367,58 @@ export function CustomerManager() {
 
               <div className="flex justify-between text-sm">
                 <span className="text-muted-foreground">Balance:</span>
-                <span className={customer.balance >= 0 ? 'text-green-600' : 'text-red-600'}>
-                  ${Math.abs(customer.balance).toFixed(2)} {customer.balance < 0 ? 'owed' : 'credit'}
+                <span className={customer.balance > 0 ? 'text-red-600' : 'text-green-600'}>
+                  {formatCurrency(Math.abs(customer.balance))} {customer.balance > 0 ? 'owed' : customer.balance < 0 ? 'credit' : ''}
                 </span>
               </div>
 
+              {customer.credit_limit > 0 && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Credit Limit:</span>
+                  <span className={isOverCreditLimit({ credit_limit: customer.credit_limit, total: customer.balance }) ? 'text-red-600 font-medium' : ''}>
+                    {formatCurrency(customer.credit_limit)}
+                    {isOverCreditLimit({ credit_limit: customer.credit_limit, total: customer.balance }) && ' (exceeded)'}
+                  </span>
+                </div>
+              )}
+
               <div className="flex justify-between text-sm">
                 <span className="text-muted-foreground">Payment Terms:</span>
                 <span>{customer.payment_terms} days</span>
               </div>
 
+              <div className="space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">Open Invoices:</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2"
+                    onClick={() => setInvoiceForm({ open: true, customerId: customer.id })}
+                  >
+                    <Plus className="h-3 w-3 mr-1" />
+                    Invoice
+                  </Button>
+                </div>
+                {openInvoices.filter((invoice) => invoice.customer_id === customer.id).map((invoice) => (
+                  <button
+                    key={invoice.id}
+                    type="button"
+                    onClick={() => setViewingInvoiceId(invoice.id)}
+                    className="w-full flex items-center justify-between text-sm rounded-md border px-2 py-1 hover:bg-muted"
+                  >
+                    <span className="font-medium">{invoice.invoice_number}</span>
+                    <span className={isOverdue(invoice) ? 'text-red-600' : 'text-muted-foreground'}>
+                      Due {invoice.due_date}
+                    </span>
+                    <span>{formatCurrency(invoice.balance_due, invoice.currency ?? undefined)}</span>
+                    <Badge variant={isOverdue(invoice) ? 'destructive' : 'secondary'}>
+                      {isOverdue(invoice) ? 'Overdue' : STATUS_LABELS[invoice.status]}
+                    </Badge>
+                  </button>
+                ))}
+              </div>
+
               <div className="text-xs text-muted-foreground">
                 Added: {new Date(customer.created_at).toLocaleDateString()}
               </div>
@@ -342,6 +442,25 @@ export function CustomerManager() {
           </CardContent>
         </Card>
       )}
+
+      <InvoiceFormDialog
+        open={invoiceForm.open}
+        onOpenChange={(open) => setInvoiceForm((current) => ({ ...current, open }))}
+        customers={customers}
+        customerId={invoiceForm.customerId}
+        invoiceId={invoiceForm.invoiceId}
+        onSaved={fetchOpenInvoices}
+      />
+
+      <InvoiceDetailDialog
+        invoiceId={viewingInvoiceId}
+        onOpenChange={(open) => !open && setViewingInvoiceId(null)}
+        onEdit={(invoiceId) => {
+          setViewingInvoiceId(null);
+          setInvoiceForm({ open: true, invoiceId });
+        }}
+        onChanged={fetchOpenInvoices}
+      />
     </div>
   );
 }
\ No newline at end of file
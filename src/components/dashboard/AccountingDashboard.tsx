@@ -3,6 +3,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { 
   TrendingUp, 
   TrendingDown, 
@@ -13,11 +14,20 @@ import {
 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { BankImportDialog } from '@/components/import/BankImportDialog';
+import { CategorizationRulesDialog } from '@/components/rules/CategorizationRulesDialog';
+import { formatCurrency, today } from '@/lib/reports';
+import { COMMON_CURRENCIES } from '@/lib/currency';
+import { ExchangeRatesDialog } from '@/components/currency/ExchangeRatesDialog';
+import { TaxRatesDialog } from '@/components/tax/TaxRatesDialog';
+import { FiscalPeriodsDialog } from '@/components/periods/FiscalPeriodsDialog';
+import { AuditLogDialog } from '@/components/audit/AuditLogDialog';
 
 interface Transaction {
   id: string;
   description: string;
   amount: number;
+  currency: string | null;
   transaction_date: string;
   account: { name: string; account_type: string };
   category: { name: string; color: string } | null;
@@ -30,6 +40,34 @@ interface Account {
   code: string;
   account_type: string;
   is_active: boolean;
+  cash_flow_activity: 'cash' | 'operating' | 'investing' | 'financing' | null;
+  currency: string | null;
+}
+
+// Cash flow statement classification for balance-sheet accounts; 'default'
+// clears it so the account type decides (equity financing, the rest operating)
+const CASH_FLOW_OPTIONS = [
+  { value: 'default', label: 'Default' },
+  { value: 'cash', label: 'Cash' },
+  { value: 'operating', label: 'Operating' },
+  { value: 'investing', label: 'Investing' },
+  { value: 'financing', label: 'Financing' },
+];
+
+// Bank, card and loan accounts can be held in one currency; 'any' leaves it open
+const ANY_CURRENCY = 'any';
+
+interface JournalEntry {
+  id: string;
+  entry_date: string;
+  description: string;
+  reference_number: string | null;
+  journal_lines: {
+    id: string;
+    debit: number;
+    credit: number;
+    account: { name: string } | null;
+  }[];
 }
 
 interface FinancialSummary {
@@ -42,6 +80,8 @@ interface FinancialSummary {
 export function AccountingDashboard() {
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [accounts, setAccounts] = useState<Account[]>([]);
+  const [journalEntries, setJournalEntries] = useState<JournalEntry[]>([]);
+  const [accountBalances, setAccountBalances] = useState<Record<string, number>>({});
   const [summary, setSummary] = useState<FinancialSummary>({
     totalRevenue: 0,
     totalExpenses: 0,
@@ -65,6 +105,14 @@ export function AccountingDashboard() {
           fetchDashboardData();
         }
       )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'journal_lines' },
+        () => {
+          console.log('Journal change detected, refreshing dashboard...');
+          fetchDashboardData();
+        }
+      )
       .subscribe();
 
     return () => {
@@ -81,7 +129,7 @@ export function AccountingDashboard() {
         .from('transactions')
         .select(`
           *,
-          account:accounts(name, account_type),
+          account:accounts!transactions_account_id_fkey(name, account_type),
           category:categories(name, color)
         `)
         .order('transaction_date', { ascending: false })
@@ -98,37 +146,56 @@ export function AccountingDashboard() {
 
       if (accountsError) throw accountsError;
 
-      // Calculate financial summary
+      // Fetch recent journal entries with their debit/credit lines
+      const { data: journalData, error: journalError } = await supabase
+        .from('journal_entries')
+        .select(`
+          id,
+          entry_date,
+          description,
+          reference_number,
+          journal_lines(id, debit, credit, account:accounts(name))
+        `)
+        .order('entry_date', { ascending: false })
+        .order('created_at', { ascending: false })
+        .limit(10);
+
+      if (journalError) throw journalError;
+
+      // Calculate financial summary from per-account journal totals, summed in the database
       const { data: summaryData, error: summaryError } = await supabase
-        .from('transactions')
-        .select('amount, account:accounts(account_type)');
+        .rpc('trial_balance', { p_as_of: today() });
 
       if (summaryError) throw summaryError;
 
       let totalRevenue = 0;
       let totalExpenses = 0;
       let totalAssets = 0;
+      const balances: Record<string, number> = {};
 
-      summaryData?.forEach((transaction: any) => {
-        const amount = parseFloat(transaction.amount);
-        const accountType = transaction.account?.account_type;
-        
-        // Expenses are negative amounts, Income/Revenue are positive amounts
-        if (amount < 0) {
-          // This is an expense (negative amount)
-          totalExpenses += Math.abs(amount); // Convert to positive for display
-        } else if (amount > 0) {
-          // This is income/revenue (positive amount)
-          if (accountType === 'revenue') {
-            totalRevenue += amount;
-          } else if (accountType === 'asset') {
-            totalAssets += amount;
-          }
+      summaryData?.forEach((row) => {
+        const debit = Number(row.debit);
+        const credit = Number(row.credit);
+        const accountType = row.account_type;
+
+        // Assets and expenses carry debit balances; the rest carry credit balances
+        const isDebitNormal = accountType === 'asset' || accountType === 'expense';
+        const balance = isDebitNormal ? debit - credit : credit - debit;
+        balances[row.account_id] = balance;
+
+        if (accountType === 'revenue') {
+          totalRevenue += balance;
+        } else if (accountType === 'expense') {
+          totalExpenses += balance;
+        } else if (accountType === 'asset') {
+          totalAssets += balance;
         }
       });
 
       setTransactions(transactionsData || []);
       setAccounts(accountsData || []);
+      setJournalEntries(journalData || []);
+      setAccountBalances(balances);
       setSummary({
         totalRevenue,
         totalExpenses,
@@ -147,11 +214,46 @@ export function AccountingDashboard() {
     }
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(amount);
+  const updateCashFlowActivity = async (account: Account, value: string) => {
+    const activity = value === 'default' ? null : value as Account['cash_flow_activity'];
+    try {
+      const { error } = await supabase
+        .from('accounts')
+        .update({ cash_flow_activity: activity })
+        .eq('id', account.id);
+
+      if (error) throw error;
+
+      setAccounts((current) => current.map((a) => a.id === account.id ? { ...a, cash_flow_activity: activity } : a));
+    } catch (error) {
+      console.error('Error updating account:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update the cash flow classification",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const updateAccountCurrency = async (account: Account, value: string) => {
+    const currency = value === ANY_CURRENCY ? null : value;
+    try {
+      const { error } = await supabase
+        .from('accounts')
+        .update({ currency })
+        .eq('id', account.id);
+
+      if (error) throw new Error(error.message);
+
+      setAccounts((current) => current.map((a) => a.id === account.id ? { ...a, currency } : a));
+    } catch (error) {
+      console.error('Error updating account:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update the account currency",
+        variant: "destructive"
+      });
+    }
   };
 
   if (loading) {
@@ -173,10 +275,18 @@ export function AccountingDashboard() {
           <h1 className="text-3xl font-bold">Accounting Dashboard</h1>
           <p className="text-muted-foreground">Overview of your financial data</p>
         </div>
-        <Button>
-          <PlusCircle className="h-4 w-4 mr-2" />
-          Add Transaction
-        </Button>
+        <div className="flex gap-2">
+          <ExchangeRatesDialog />
+          <TaxRatesDialog />
+          <FiscalPeriodsDialog />
+          <AuditLogDialog />
+          <CategorizationRulesDialog />
+          <BankImportDialog />
+          <Button>
+            <PlusCircle className="h-4 w-4 mr-2" />
+            Add Transaction
+          </Button>
+        </div>
       </div>
 
       {/* Financial Summary Cards */}
@@ -234,6 +344,7 @@ export function AccountingDashboard() {
       <Tabs defaultValue="transactions" className="space-y-4">
         <TabsList>
           <TabsTrigger value="transactions">Recent Transactions</TabsTrigger>
+          <TabsTrigger value="journal">Journal</TabsTrigger>
           <TabsTrigger value="accounts">Chart of Accounts</TabsTrigger>
         </TabsList>
 
@@ -278,9 +389,9 @@ export function AccountingDashboard() {
                         <p className={`font-semibold ${
                           transaction.amount >= 0 ? 'text-green-600' : 'text-red-600'
                         }`}>
-                          {formatCurrency(Math.abs(transaction.amount))}
+                          {formatCurrency(Math.abs(transaction.amount), transaction.currency || undefined)}
                         </p>
-                        <Badge variant={transaction.status === 'cleared' ? 'default' : 'secondary'}>
+                        <Badge variant={transaction.status === 'pending' ? 'secondary' : 'default'}>
                           {transaction.status}
                         </Badge>
                       </div>
@@ -292,6 +403,50 @@ export function AccountingDashboard() {
           </Card>
         </TabsContent>
 
+        <TabsContent value="journal" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Recent Journal Entries</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {journalEntries.length === 0 ? (
+                  <p className="text-center text-muted-foreground py-8">
+                    No journal entries yet. Entries are posted automatically when transactions are recorded.
+                  </p>
+                ) : (
+                  journalEntries.map((entry) => (
+                    <div key={entry.id} className="p-3 border rounded-lg space-y-2">
+                      <div className="flex items-center justify-between">
+                        <p className="font-medium">{entry.description}</p>
+                        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                          <Calendar className="h-3 w-3" />
+                          {new Date(entry.entry_date).toLocaleDateString()}
+                          {entry.reference_number && (
+                            <>
+                              <span>•</span>
+                              <span>{entry.reference_number}</span>
+                            </>
+                          )}
+                        </div>
+                      </div>
+                      <div className="space-y-1 text-sm">
+                        {entry.journal_lines.map((line) => (
+                          <div key={line.id} className="grid grid-cols-3 gap-2">
+                            <span className={line.credit > 0 ? 'pl-6' : ''}>{line.account?.name}</span>
+                            <span className="text-right">{line.debit > 0 ? formatCurrency(line.debit) : ''}</span>
+                            <span className="text-right">{line.credit > 0 ? formatCurrency(line.credit) : ''}</span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         <TabsContent value="accounts" className="space-y-4">
           <Card>
             <CardHeader>
@@ -310,8 +465,46 @@ export function AccountingDashboard() {
                             key={account.id}
                             className="p-2 border rounded hover:bg-accent"
                           >
-                            <p className="font-medium">{account.name}</p>
-                            <p className="text-sm text-muted-foreground">{account.code}</p>
+                            <div className="flex justify-between">
+                              <p className="font-medium">{account.name}</p>
+                              <p className="font-medium">{formatCurrency(accountBalances[account.id] || 0)}</p>
+                            </div>
+                            <div className="flex justify-between items-center">
+                              <p className="text-sm text-muted-foreground">{account.code}</p>
+                              <div className="flex gap-1">
+                                {['asset', 'liability'].includes(type) && (
+                                  <Select
+                                    value={account.currency || ANY_CURRENCY}
+                                    onValueChange={(value) => updateAccountCurrency(account, value)}
+                                  >
+                                    <SelectTrigger className="h-7 w-20 text-xs" title="Currency held">
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      <SelectItem value={ANY_CURRENCY}>Any</SelectItem>
+                                      {[...new Set([...(account.currency ? [account.currency] : []), ...COMMON_CURRENCIES])].map((code) => (
+                                        <SelectItem key={code} value={code}>{code}</SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                )}
+                                {['asset', 'liability', 'equity'].includes(type) && (
+                                  <Select
+                                    value={account.cash_flow_activity || 'default'}
+                                    onValueChange={(value) => updateCashFlowActivity(account, value)}
+                                  >
+                                    <SelectTrigger className="h-7 w-28 text-xs" title="Cash flow classification">
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {CASH_FLOW_OPTIONS.map((option) => (
+                                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                )}
+                              </div>
+                            </div>
                           </div>
                         ))}
                     </div>
@@ -0,0 +1,564 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Upload } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { useToast } from '@/hooks/use-toast';
+import {
+  FORMAT_LABELS,
+  applyCsvMapping,
+  detectFormat,
+  findDuplicates,
+  guessCsvMapping,
+  guessDelimiter,
+  parseCsvRows,
+  parseStatement,
+  type CsvDateFormat,
+  type CsvMapping,
+  type DecimalSeparator,
+  type StatementFormat,
+  type StatementLine,
+} from '@/lib/bankImport';
+import { fetchPages } from '@/lib/paging';
+import { formatCurrency, formatShortDate } from '@/lib/reports';
+
+interface Account {
+  id: string;
+  name: string;
+  code: string | null;
+  account_type: string;
+}
+
+// The first categorization rule matching a statement line
+interface RuleMatch {
+  rule_name: string;
+  account_id: string | null;
+  category_id: string | null;
+  vendor_id: string | null;
+}
+
+const NONE = 'none';
+const INSERT_BATCH_SIZE = 500;
+
+const accountLabel = (account: Account) => account.code ? `${account.code} - ${account.name}` : account.name;
+
+export function BankImportDialog() {
+  const [open, setOpen] = useState(false);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [accountId, setAccountId] = useState('');
+  const [expenseAccountId, setExpenseAccountId] = useState('');
+  const [incomeAccountId, setIncomeAccountId] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [format, setFormat] = useState<StatementFormat | null>(null);
+  const [csvText, setCsvText] = useState('');
+  const [mapping, setMapping] = useState<CsvMapping | null>(null);
+  const [statementLines, setStatementLines] = useState<StatementLine[]>([]);
+  const [duplicates, setDuplicates] = useState<boolean[]>([]);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [ruleMatches, setRuleMatches] = useState<(RuleMatch | undefined)[]>([]);
+  const [importing, setImporting] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) fetchAccounts();
+  }, [open]);
+
+  const fetchAccounts = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('accounts')
+        .select('id, name, code, account_type')
+        .eq('is_active', true)
+        .order('code');
+
+      if (error) throw error;
+
+      const loaded = data || [];
+      setAccounts(loaded);
+      setExpenseAccountId((current) => current || loaded.find((a) => a.account_type === 'expense')?.id || '');
+      setIncomeAccountId((current) => current || loaded.find((a) => a.account_type === 'revenue')?.id || '');
+    } catch (error) {
+      console.error('Error fetching accounts:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load accounts",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const csvRows = useMemo(
+    () => (format === 'csv' && mapping ? parseCsvRows(csvText, mapping.delimiter) : []),
+    [format, csvText, mapping?.delimiter]
+  );
+
+  // CSV lines depend on the mapping; other formats are parsed once on upload
+  const { lines, errors } = useMemo(() => {
+    if (format === 'csv' && mapping) return applyCsvMapping(csvRows, mapping);
+    return { lines: statementLines, errors: [] as string[] };
+  }, [format, csvRows, mapping, statementLines]);
+
+  useEffect(() => {
+    checkDuplicates(lines);
+  }, [lines]);
+
+  useEffect(() => {
+    matchRules(lines, accountId);
+  }, [lines, accountId]);
+
+  // A saved mapping for the account replaces the guessed one
+  useEffect(() => {
+    if (format === 'csv' && accountId) loadSavedMapping(accountId);
+  }, [format, fileName, accountId]);
+
+  const loadSavedMapping = async (id: string) => {
+    const { data, error } = await supabase
+      .from('bank_import_mappings')
+      .select('mapping')
+      .eq('account_id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading import mapping:', error);
+      return;
+    }
+    if (data) setMapping(data.mapping as unknown as CsvMapping);
+  };
+
+  const checkDuplicates = async (current: StatementLine[]) => {
+    if (current.length === 0) {
+      setDuplicates([]);
+      setSelected(new Set());
+      return;
+    }
+
+    try {
+      // Every transaction in the statement's range, however many there are
+      const dates = current.map((line) => line.date).sort();
+      const existing = await fetchPages((from, to) => supabase
+        .from('transactions')
+        .select('transaction_date, amount, reference_number')
+        .gte('transaction_date', dates[0])
+        .lte('transaction_date', dates[dates.length - 1])
+        .order('transaction_date', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, to));
+
+      const flags = findDuplicates(current, existing);
+      setDuplicates(flags);
+      setSelected(new Set(current.map((_, index) => index).filter((index) => !flags[index])));
+    } catch (error) {
+      console.error('Error checking for duplicates:', error);
+      toast({
+        title: "Error",
+        description: "Failed to check for already imported transactions",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const matchRules = async (current: StatementLine[], statementAccountId: string) => {
+    if (current.length === 0) {
+      setRuleMatches([]);
+      return;
+    }
+
+    const { data, error } = await supabase.rpc('match_categorization_rules', {
+      p_items: current.map((line) => ({
+        description: line.description,
+        amount: line.amount,
+        payment_account_id: statementAccountId || null,
+      })),
+    });
+
+    if (error) {
+      console.error('Error matching categorization rules:', error);
+      setRuleMatches([]);
+      return;
+    }
+
+    const matches: (RuleMatch | undefined)[] = [];
+    for (const match of data || []) matches[match.item_index] = match;
+    setRuleMatches(matches);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      const detected = detectFormat(file.name, text);
+      setFileName(file.name);
+      setFormat(detected);
+
+      if (detected === 'csv') {
+        const delimiter = guessDelimiter(text);
+        setCsvText(text);
+        setMapping(guessCsvMapping(parseCsvRows(text, delimiter), delimiter));
+        setStatementLines([]);
+      } else {
+        setCsvText('');
+        setMapping(null);
+        setStatementLines(parseStatement(detected, text));
+      }
+    } catch (error) {
+      console.error('Error reading statement:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to read the statement file",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const updateMapping = (changes: Partial<CsvMapping>) => {
+    if (mapping) setMapping({ ...mapping, ...changes });
+  };
+
+  const reset = () => {
+    setFileName('');
+    setFormat(null);
+    setCsvText('');
+    setMapping(null);
+    setStatementLines([]);
+  };
+
+  const importTransactions = async () => {
+    if (!accountId || !expenseAccountId || !incomeAccountId) return;
+
+    try {
+      setImporting(true);
+
+      const { data: userData } = await supabase.auth.getUser();
+      if (!userData.user) throw new Error('Not authenticated');
+
+      // Lines matching a categorization rule take its account, category and vendor
+      const rows = lines
+        .map((line, index) => ({ line, match: ruleMatches[index], index }))
+        .filter(({ index }) => selected.has(index))
+        .map(({ line, match }) => ({
+          user_id: userData.user.id,
+          transaction_date: line.date,
+          amount: line.amount,
+          description: line.description,
+          reference_number: line.reference,
+          payment_account_id: accountId,
+          account_id: match?.account_id || (line.amount < 0 ? expenseAccountId : incomeAccountId),
+          category_id: match?.category_id || null,
+          vendor_id: match?.vendor_id || null,
+          status: 'pending' as const,
+        }));
+
+      for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+        const { error } = await supabase.from('transactions').insert(rows.slice(i, i + INSERT_BATCH_SIZE));
+        if (error) throw error;
+      }
+
+      if (format === 'csv' && mapping) {
+        const { error } = await supabase
+          .from('bank_import_mappings')
+          .upsert({
+            user_id: userData.user.id,
+            account_id: accountId,
+            mapping: mapping as unknown as Json
+          }, { onConflict: 'account_id' });
+        if (error) console.error('Error saving import mapping:', error);
+      }
+
+      toast({
+        title: "Statement Imported",
+        description: `${rows.length} transaction${rows.length === 1 ? '' : 's'} added as pending.`
+      });
+      reset();
+      setOpen(false);
+    } catch (error) {
+      console.error('Error importing transactions:', error);
+      toast({
+        title: "Import Failed",
+        description: "The import stopped partway. Open the statement again to import the rest; rows already added show as duplicates.",
+        variant: "destructive"
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const columnCount = Math.max(0, ...csvRows.slice(0, 5).map((row) => row.length));
+  const columnOptions = Array.from({ length: columnCount }, (_, index) => ({
+    value: String(index),
+    label: mapping?.hasHeader && csvRows[0]?.[index]?.trim() ? csvRows[0][index].trim() : `Column ${index + 1}`,
+  }));
+
+  const columnSelect = (label: string, value: number | null, onChange: (value: number | null) => void, optional = false) => (
+    <div className="space-y-1">
+      <Label>{label}</Label>
+      <Select
+        value={value === null ? NONE : String(value)}
+        onValueChange={(next) => onChange(next === NONE ? null : Number(next))}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {optional && <SelectItem value={NONE}>None</SelectItem>}
+          {columnOptions.map((option) => (
+            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  const statementAccounts = accounts.filter((a) => a.account_type === 'asset' || a.account_type === 'liability');
+  const selectedCount = selected.size;
+  const duplicateCount = duplicates.filter(Boolean).length;
+  const matchedCount = ruleMatches.filter(Boolean).length;
+  const accountName = (id: string | null) => accounts.find((a) => a.id === id)?.name;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { setOpen(next); if (!next) reset(); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Upload className="h-4 w-4 mr-2" />
+          Import Statement
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Bank Statement</DialogTitle>
+          <DialogDescription>
+            CSV, OFX/QFX, QIF or CAMT.053. Imported transactions are added as pending, categorized by your rules where one matches.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label>Statement account</Label>
+              <Select value={accountId} onValueChange={setAccountId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Bank or card account" />
+                </SelectTrigger>
+                <SelectContent>
+                  {statementAccounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>{accountLabel(account)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="statement-file">Statement file</Label>
+              <Input
+                id="statement-file"
+                type="file"
+                accept=".csv,.txt,.ofx,.qfx,.qif,.xml"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Money out goes to</Label>
+              <Select value={expenseAccountId} onValueChange={setExpenseAccountId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Expense account" />
+                </SelectTrigger>
+                <SelectContent>
+                  {accounts.filter((a) => a.account_type === 'expense').map((account) => (
+                    <SelectItem key={account.id} value={account.id}>{accountLabel(account)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Money in comes from</Label>
+              <Select value={incomeAccountId} onValueChange={setIncomeAccountId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Revenue account" />
+                </SelectTrigger>
+                <SelectContent>
+                  {accounts.filter((a) => a.account_type === 'revenue').map((account) => (
+                    <SelectItem key={account.id} value={account.id}>{accountLabel(account)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {format && (
+            <p className="text-sm text-muted-foreground">
+              {fileName} · <Badge variant="outline">{FORMAT_LABELS[format]}</Badge>
+            </p>
+          )}
+
+          {format === 'csv' && mapping && (
+            <div className="border rounded-lg p-4 space-y-4">
+              <h3 className="font-medium">Column mapping</h3>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="space-y-1">
+                  <Label>Delimiter</Label>
+                  <Select value={mapping.delimiter} onValueChange={(delimiter) => updateMapping({ delimiter })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value=",">Comma</SelectItem>
+                      <SelectItem value=";">Semicolon</SelectItem>
+                      <SelectItem value={'\t'}>Tab</SelectItem>
+                      <SelectItem value="|">Pipe</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {columnSelect('Date', mapping.dateColumn, (dateColumn) => updateMapping({ dateColumn: dateColumn ?? 0 }))}
+                <div className="space-y-1">
+                  <Label>Date format</Label>
+                  <Select value={mapping.dateFormat} onValueChange={(value) => updateMapping({ dateFormat: value as CsvDateFormat })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="YYYY-MM-DD">YYYY-MM-DD</SelectItem>
+                      <SelectItem value="MM/DD/YYYY">MM/DD/YYYY</SelectItem>
+                      <SelectItem value="DD/MM/YYYY">DD/MM/YYYY</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Decimal mark</Label>
+                  <Select
+                    value={mapping.decimalSeparator ?? '.'}
+                    onValueChange={(value) => updateMapping({ decimalSeparator: value as DecimalSeparator })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value=".">Point (1,234.56)</SelectItem>
+                      <SelectItem value=",">Comma (1.234,56)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {columnSelect('Description', mapping.descriptionColumn, (descriptionColumn) => updateMapping({ descriptionColumn: descriptionColumn ?? 0 }))}
+                <div className="space-y-1">
+                  <Label>Amounts</Label>
+                  <Select
+                    value={mapping.amountColumn !== null ? 'single' : 'split'}
+                    onValueChange={(value) => updateMapping(value === 'single'
+                      ? { amountColumn: mapping.creditColumn ?? 0, debitColumn: null, creditColumn: null }
+                      : { amountColumn: null, debitColumn: mapping.amountColumn ?? 0, creditColumn: mapping.amountColumn ?? 0 })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="single">One signed column</SelectItem>
+                      <SelectItem value="split">Separate out / in columns</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {mapping.amountColumn !== null
+                  ? columnSelect('Amount', mapping.amountColumn, (amountColumn) => updateMapping({ amountColumn: amountColumn ?? 0 }))
+                  : (
+                    <>
+                      {columnSelect('Money out', mapping.debitColumn, (debitColumn) => updateMapping({ debitColumn }), true)}
+                      {columnSelect('Money in', mapping.creditColumn, (creditColumn) => updateMapping({ creditColumn }), true)}
+                    </>
+                  )}
+                {columnSelect('Reference', mapping.referenceColumn, (referenceColumn) => updateMapping({ referenceColumn }), true)}
+              </div>
+              <div className="flex flex-wrap gap-6">
+                <div className="flex items-center gap-2">
+                  <Switch id="csv-header" checked={mapping.hasHeader} onCheckedChange={(hasHeader) => updateMapping({ hasHeader })} />
+                  <Label htmlFor="csv-header">First row is a header</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch id="csv-invert" checked={mapping.invertAmounts} onCheckedChange={(invertAmounts) => updateMapping({ invertAmounts })} />
+                  <Label htmlFor="csv-invert">Flip signs (charges listed as positive)</Label>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">This mapping is saved for the statement account when you import.</p>
+            </div>
+          )}
+
+          {errors.length > 0 && (
+            <p className="text-sm text-destructive">
+              {errors.length} row{errors.length === 1 ? '' : 's'} skipped: {errors.slice(0, 3).join('; ')}
+              {errors.length > 3 && '…'}
+            </p>
+          )}
+
+          {format && (
+            lines.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No transactions found in this file.</p>
+            ) : (
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">
+                  {lines.length} transactions, {duplicateCount} already recorded, {matchedCount} matched by rules, {selectedCount} selected
+                </p>
+                <div className="max-h-72 overflow-auto border rounded-lg">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-10" />
+                        <TableHead>Date</TableHead>
+                        <TableHead>Description</TableHead>
+                        <TableHead>Reference</TableHead>
+                        <TableHead>Account</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {lines.map((line, index) => (
+                        <TableRow key={index} className={duplicates[index] ? 'opacity-60' : undefined}>
+                          <TableCell>
+                            <Checkbox
+                              checked={selected.has(index)}
+                              onCheckedChange={(checked) => setSelected((current) => {
+                                const next = new Set(current);
+                                if (checked) next.add(index); else next.delete(index);
+                                return next;
+                              })}
+                            />
+                          </TableCell>
+                          <TableCell className="whitespace-nowrap">{formatShortDate(line.date)}</TableCell>
+                          <TableCell>
+                            {line.description}
+                            {duplicates[index] && <Badge variant="secondary" className="ml-2">Duplicate</Badge>}
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">{line.reference}</TableCell>
+                          <TableCell className="whitespace-nowrap">
+                            {accountName(ruleMatches[index]?.account_id || (line.amount < 0 ? expenseAccountId : incomeAccountId))}
+                            {ruleMatches[index] && <Badge variant="outline" className="ml-2">{ruleMatches[index]?.rule_name}</Badge>}
+                          </TableCell>
+                          <TableCell className={`text-right ${line.amount < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                            {formatCurrency(line.amount)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+            <Button
+              onClick={importTransactions}
+              disabled={importing || selectedCount === 0 || !accountId || !expenseAccountId || !incomeAccountId}
+            >
+              {importing ? 'Importing...' : `Import ${selectedCount} Transaction${selectedCount === 1 ? '' : 's'}`}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,297 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Edit, Send, Trash2, XCircle } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency, today } from '@/lib/reports';
+import { InvoiceStatus, STATUS_LABELS, isOverdue } from '@/lib/invoices';
+
+interface Invoice {
+  id: string;
+  invoice_number: string;
+  issue_date: string;
+  due_date: string;
+  status: InvoiceStatus;
+  subtotal: number;
+  tax_total: number;
+  total: number;
+  amount_paid: number;
+  balance_due: number;
+  currency: string | null;
+  notes: string | null;
+  customers: { name: string } | null;
+}
+
+interface InvoiceLine {
+  id: string;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  tax_rate: number;
+  amount: number;
+  tax_amount: number;
+}
+
+interface InvoicePayment {
+  id: string;
+  amount: number;
+  payment_date: string;
+}
+
+interface DepositAccount {
+  id: string;
+  name: string;
+  currency: string | null;
+}
+
+interface InvoiceDetailDialogProps {
+  invoiceId: string | null;
+  onOpenChange: (open: boolean) => void;
+  onEdit: (invoiceId: string) => void;
+  onChanged: () => void;
+}
+
+export function InvoiceDetailDialog({ invoiceId, onOpenChange, onEdit, onChanged }: InvoiceDetailDialogProps) {
+  const [invoice, setInvoice] = useState<Invoice | null>(null);
+  const [lines, setLines] = useState<InvoiceLine[]>([]);
+  const [payments, setPayments] = useState<InvoicePayment[]>([]);
+  const [accounts, setAccounts] = useState<DepositAccount[]>([]);
+  const [paymentAmount, setPaymentAmount] = useState('');
+  const [paymentDate, setPaymentDate] = useState(today());
+  const [paymentAccountId, setPaymentAccountId] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!invoiceId) return;
+    setInvoice(null);
+    fetchInvoice(invoiceId);
+    fetchAccounts();
+  }, [invoiceId]);
+
+  const fetchInvoice = async (id: string) => {
+    try {
+      const [invoiceResult, lineResult, paymentResult] = await Promise.all([
+        supabase.from('invoices').select('*, customers(name)').eq('id', id).single(),
+        supabase.from('invoice_lines').select('*').eq('invoice_id', id).order('position'),
+        supabase.from('invoice_payments').select('id, amount, payment_date').eq('invoice_id', id).order('payment_date'),
+      ]);
+
+      if (invoiceResult.error) throw invoiceResult.error;
+      if (lineResult.error) throw lineResult.error;
+      if (paymentResult.error) throw paymentResult.error;
+
+      setInvoice(invoiceResult.data);
+      setLines(lineResult.data || []);
+      setPayments(paymentResult.data || []);
+      setPaymentAmount(String(invoiceResult.data.balance_due));
+    } catch (error) {
+      console.error('Error fetching invoice:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the invoice",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const fetchAccounts = async () => {
+    const { data, error } = await supabase
+      .from('accounts')
+      .select('id, name, currency')
+      .eq('account_type', 'asset')
+      .eq('is_active', true)
+      .order('code');
+
+    if (error) {
+      console.error('Error fetching accounts:', error);
+      return;
+    }
+    setAccounts(data || []);
+  };
+
+  // Every change reloads the invoice, since totals and status are set by the database
+  const run = async (action: () => Promise<{ error: { message: string } | null }>, success: string) => {
+    if (!invoice) return;
+    try {
+      setIsWorking(true);
+      const { error } = await action();
+      if (error) throw new Error(error.message);
+
+      toast({
+        title: "Success",
+        description: success
+      });
+      await fetchInvoice(invoice.id);
+      onChanged();
+    } catch (error) {
+      console.error('Error updating invoice:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update the invoice",
+        variant: "destructive"
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const setStatus = (status: InvoiceStatus, success: string) =>
+    run(async () => supabase.from('invoices').update({ status }).eq('id', invoice!.id), success);
+
+  const recordPayment = () =>
+    run(async () => supabase.rpc('record_invoice_payment', {
+      p_invoice_id: invoice!.id,
+      p_amount: parseFloat(paymentAmount),
+      p_payment_date: paymentDate,
+      p_payment_account_id: paymentAccountId || undefined,
+    }), 'Payment recorded');
+
+  const removePayment = (paymentId: string) =>
+    run(async () => supabase.rpc('remove_invoice_payment', { p_payment_id: paymentId }), 'Payment removed');
+
+  const amount = parseFloat(paymentAmount);
+  const currency = invoice?.currency ?? undefined;
+  // The database rejects payments through an account held in another currency
+  const payableAccounts = accounts.filter((account) => !account.currency || account.currency === invoice?.currency);
+  const canPay = invoice?.status === 'sent' || invoice?.status === 'partially_paid';
+
+  return (
+    <Dialog open={!!invoiceId} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        {invoice && (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                {invoice.invoice_number}
+                <Badge variant={invoice.status === 'paid' ? 'default' : invoice.status === 'void' ? 'outline' : 'secondary'}>
+                  {STATUS_LABELS[invoice.status]}
+                </Badge>
+                {isOverdue(invoice) && <Badge variant="destructive">Overdue</Badge>}
+              </DialogTitle>
+              <DialogDescription>
+                {invoice.customers?.name} · Issued {invoice.issue_date} · Due {invoice.due_date}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Qty</TableHead>
+                    <TableHead className="text-right">Unit price</TableHead>
+                    <TableHead className="text-right">Tax</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.map((line) => (
+                    <TableRow key={line.id}>
+                      <TableCell>{line.description}</TableCell>
+                      <TableCell className="text-right">{line.quantity}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(line.unit_price, currency)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(line.tax_amount, currency)} ({line.tax_rate}%)</TableCell>
+                      <TableCell className="text-right">{formatCurrency(line.amount, currency)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <div className="flex flex-col items-end gap-1 text-sm">
+                <div className="flex gap-8"><span className="text-muted-foreground">Subtotal</span><span>{formatCurrency(invoice.subtotal, currency)}</span></div>
+                <div className="flex gap-8"><span className="text-muted-foreground">Tax</span><span>{formatCurrency(invoice.tax_total, currency)}</span></div>
+                <div className="flex gap-8 font-semibold"><span>Total</span><span>{formatCurrency(invoice.total, currency)}</span></div>
+                <div className="flex gap-8"><span className="text-muted-foreground">Paid</span><span>{formatCurrency(invoice.amount_paid, currency)}</span></div>
+                <div className="flex gap-8 font-semibold"><span>Balance due</span><span>{formatCurrency(invoice.balance_due, currency)}</span></div>
+              </div>
+
+              {invoice.notes && <p className="text-sm text-muted-foreground">{invoice.notes}</p>}
+
+              {payments.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="font-medium">Payments</h4>
+                  {payments.map((payment) => (
+                    <div key={payment.id} className="flex items-center justify-between text-sm border rounded-md px-3 py-2">
+                      <span>{payment.payment_date}</span>
+                      <div className="flex items-center gap-2">
+                        <span>{formatCurrency(payment.amount, currency)}</span>
+                        <Button variant="ghost" size="sm" onClick={() => removePayment(payment.id)} disabled={isWorking}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {canPay && (
+                <div className="space-y-2 border rounded-md p-3">
+                  <h4 className="font-medium">Record Payment</h4>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <div className="space-y-1">
+                      <Label htmlFor="payment-amount">Amount</Label>
+                      <Input id="payment-amount" type="number" step="0.01" value={paymentAmount} onChange={(e) => setPaymentAmount(e.target.value)} />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="payment-date">Date</Label>
+                      <Input id="payment-date" type="date" value={paymentDate} onChange={(e) => setPaymentDate(e.target.value)} />
+                    </div>
+                    <div className="space-y-1">
+                      <Label>Deposit to</Label>
+                      <Select value={paymentAccountId} onValueChange={setPaymentAccountId}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Cash" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {payableAccounts.map((account) => (
+                            <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <div className="flex justify-end">
+                    <Button
+                      onClick={recordPayment}
+                      disabled={isWorking || !paymentDate || !(amount > 0) || amount > invoice.balance_due}
+                    >
+                      Record Payment
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              <div className="flex justify-end gap-2">
+                {invoice.status === 'draft' && (
+                  <>
+                    <Button variant="outline" onClick={() => onEdit(invoice.id)}>
+                      <Edit className="h-4 w-4 mr-2" />
+                      Edit
+                    </Button>
+                    <Button onClick={() => setStatus('sent', 'Invoice sent')} disabled={isWorking || invoice.total <= 0}>
+                      <Send className="h-4 w-4 mr-2" />
+                      Mark Sent
+                    </Button>
+                  </>
+                )}
+                {invoice.status !== 'void' && invoice.amount_paid === 0 && (
+                  <Button variant="destructive" onClick={() => setStatus('void', 'Invoice voided')} disabled={isWorking}>
+                    <XCircle className="h-4 w-4 mr-2" />
+                    Void
+                  </Button>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
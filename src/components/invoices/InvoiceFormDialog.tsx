@@ -0,0 +1,420 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Plus, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency, today } from '@/lib/reports';
+import { dueDateFor, invoiceTotals, lineAmounts } from '@/lib/invoices';
+import { currencyOptions, getBaseCurrency } from '@/lib/currency';
+import { componentsOf, TAX_RATE_SELECT, TaxRate, taxRateLabel } from '@/lib/tax';
+
+export interface InvoiceCustomer {
+  id: string;
+  name: string;
+  payment_terms: number | null;
+}
+
+interface RevenueAccount {
+  id: string;
+  name: string;
+  code: string | null;
+}
+
+interface LineDraft {
+  description: string;
+  quantity: string;
+  unit_price: string;
+  tax_rate: string;
+  // A tax rate or group; the percentage in tax_rate is used without one
+  tax_rate_id: string;
+  revenue_account_id: string;
+}
+
+interface InvoiceFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  customers: InvoiceCustomer[];
+  customerId?: string;
+  // Draft invoice to edit; a new invoice is created when omitted
+  invoiceId?: string | null;
+  onSaved: () => void;
+}
+
+const EMPTY_LINE: LineDraft = { description: '', quantity: '1', unit_price: '', tax_rate: '0', tax_rate_id: '', revenue_account_id: '' };
+
+// Select value for a line taxed at a percentage typed in
+const CUSTOM_TAX = 'custom';
+
+const toNumbers = (line: LineDraft) => ({
+  quantity: parseFloat(line.quantity) || 0,
+  unit_price: parseFloat(line.unit_price) || 0,
+  tax_rate: parseFloat(line.tax_rate) || 0,
+});
+
+export function InvoiceFormDialog({ open, onOpenChange, customers, customerId, invoiceId, onSaved }: InvoiceFormDialogProps) {
+  const [accounts, setAccounts] = useState<RevenueAccount[]>([]);
+  const [selectedCustomerId, setSelectedCustomerId] = useState('');
+  const [issueDate, setIssueDate] = useState(today());
+  const [dueDate, setDueDate] = useState('');
+  const [currency, setCurrency] = useState(getBaseCurrency());
+  const [currencies, setCurrencies] = useState<string[]>([getBaseCurrency()]);
+  const [taxRates, setTaxRates] = useState<TaxRate[]>([]);
+  const [taxInclusive, setTaxInclusive] = useState(false);
+  const [notes, setNotes] = useState('');
+  const [lines, setLines] = useState<LineDraft[]>([EMPTY_LINE]);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    fetchAccounts();
+    fetchCurrencies();
+    fetchTaxRates();
+    if (invoiceId) {
+      loadInvoice(invoiceId);
+    } else {
+      const customer = customers.find((c) => c.id === customerId);
+      setSelectedCustomerId(customerId || '');
+      setIssueDate(today());
+      setDueDate(dueDateFor(today(), customer?.payment_terms ?? null));
+      setCurrency(getBaseCurrency());
+      setTaxInclusive(false);
+      setNotes('');
+      setLines([EMPTY_LINE]);
+    }
+  }, [open, invoiceId]);
+
+  const fetchAccounts = async () => {
+    const { data, error } = await supabase
+      .from('accounts')
+      .select('id, name, code')
+      .eq('account_type', 'revenue')
+      .eq('is_active', true)
+      .order('code');
+
+    if (error) {
+      console.error('Error fetching revenue accounts:', error);
+      return;
+    }
+    setAccounts(data || []);
+  };
+
+  // Only currencies with a rate can be converted to the base currency
+  const fetchCurrencies = async () => {
+    const { data, error } = await supabase.from('exchange_rates').select('currency');
+
+    if (error) {
+      console.error('Error fetching currencies:', error);
+      return;
+    }
+    setCurrencies(currencyOptions(data || []));
+  };
+
+  const fetchTaxRates = async () => {
+    const { data, error } = await supabase.from('tax_rates').select(TAX_RATE_SELECT).order('name');
+
+    if (error) {
+      console.error('Error fetching tax rates:', error);
+      return;
+    }
+    setTaxRates(data || []);
+  };
+
+  const loadInvoice = async (id: string) => {
+    try {
+      const [invoiceResult, lineResult] = await Promise.all([
+        supabase.from('invoices').select('*').eq('id', id).single(),
+        supabase.from('invoice_lines').select('*').eq('invoice_id', id).order('position'),
+      ]);
+
+      if (invoiceResult.error) throw invoiceResult.error;
+      if (lineResult.error) throw lineResult.error;
+
+      const invoice = invoiceResult.data;
+      setSelectedCustomerId(invoice.customer_id);
+      setIssueDate(invoice.issue_date);
+      setDueDate(invoice.due_date);
+      setCurrency(invoice.currency || getBaseCurrency());
+      setTaxInclusive(invoice.tax_inclusive);
+      setNotes(invoice.notes || '');
+      setLines((lineResult.data || []).map((line) => ({
+        description: line.description,
+        quantity: String(line.quantity),
+        unit_price: String(line.unit_price),
+        tax_rate: String(line.tax_rate),
+        tax_rate_id: line.tax_rate_id || '',
+        revenue_account_id: line.revenue_account_id || '',
+      })));
+    } catch (error) {
+      console.error('Error loading invoice:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the invoice",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Changing the customer or issue date re-derives the due date from the terms
+  const changeCustomer = (id: string) => {
+    setSelectedCustomerId(id);
+    setDueDate(dueDateFor(issueDate, customers.find((c) => c.id === id)?.payment_terms ?? null));
+  };
+
+  const changeIssueDate = (value: string) => {
+    setIssueDate(value);
+    if (value) setDueDate(dueDateFor(value, customers.find((c) => c.id === selectedCustomerId)?.payment_terms ?? null));
+  };
+
+  const updateLine = (index: number, changes: Partial<LineDraft>) => {
+    setLines((current) => current.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const saveInvoice = async (send: boolean) => {
+    try {
+      setIsSaving(true);
+
+      const { data: userData } = await supabase.auth.getUser();
+      if (!userData.user) throw new Error('Not authenticated');
+
+      const header = {
+        customer_id: selectedCustomerId,
+        issue_date: issueDate,
+        due_date: dueDate,
+        currency,
+        tax_inclusive: taxInclusive,
+        notes: notes || null,
+      };
+
+      let id = invoiceId;
+      if (id) {
+        const { error } = await supabase.from('invoices').update(header).eq('id', id);
+        if (error) throw new Error(error.message);
+
+        const { error: deleteError } = await supabase.from('invoice_lines').delete().eq('invoice_id', id);
+        if (deleteError) throw deleteError;
+      } else {
+        const { data, error } = await supabase
+          .from('invoices')
+          .insert([{ ...header, user_id: userData.user.id }])
+          .select('id')
+          .single();
+        if (error) throw new Error(error.message);
+        id = data.id;
+      }
+
+      const { error: linesError } = await supabase
+        .from('invoice_lines')
+        .insert(lines.filter((line) => line.description.trim()).map((line, position) => ({
+          invoice_id: id as string,
+          user_id: userData.user.id,
+          position,
+          description: line.description.trim(),
+          ...toNumbers(line),
+          tax_rate_id: line.tax_rate_id || null,
+          revenue_account_id: line.revenue_account_id || null,
+        })));
+      if (linesError) throw linesError;
+
+      // Sending posts the invoice to the ledger, so it happens once the lines are in
+      if (send) {
+        const { error } = await supabase.from('invoices').update({ status: 'sent' }).eq('id', id as string);
+        if (error) throw new Error(error.message);
+      }
+
+      toast({
+        title: "Success",
+        description: send ? "Invoice sent" : "Invoice saved as draft"
+      });
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      console.error('Error saving invoice:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save the invoice",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // The line as the database will price it, tax rate components included
+  const lineInput = (line: LineDraft) => {
+    const taxRate = taxRates.find((rate) => rate.id === line.tax_rate_id);
+    return { ...toNumbers(line), tax: taxRate ? componentsOf(taxRate, taxRates) : undefined };
+  };
+
+  const totals = invoiceTotals(lines.map(lineInput), taxInclusive);
+  const canSave = !!selectedCustomerId && !!issueDate && !!dueDate && dueDate >= issueDate
+    && lines.some((line) => line.description.trim());
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{invoiceId ? 'Edit Invoice' : 'New Invoice'}</DialogTitle>
+          <DialogDescription>
+            Drafts can be changed freely. Sending posts the invoice to accounts receivable.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="space-y-1">
+              <Label>Customer</Label>
+              <Select value={selectedCustomerId} onValueChange={changeCustomer}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select customer" />
+                </SelectTrigger>
+                <SelectContent>
+                  {customers.map((customer) => (
+                    <SelectItem key={customer.id} value={customer.id}>{customer.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="invoice-issue-date">Issue date</Label>
+              <Input id="invoice-issue-date" type="date" value={issueDate} onChange={(e) => changeIssueDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="invoice-due-date">Due date</Label>
+              <Input id="invoice-due-date" type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>Currency</Label>
+              <Select value={currency} onValueChange={setCurrency}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[...new Set([...currencies, currency])].map((code) => (
+                    <SelectItem key={code} value={code}>{code}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Description</TableHead>
+                <TableHead className="w-20">Qty</TableHead>
+                <TableHead className="w-28">Unit price</TableHead>
+                <TableHead className="w-44">Tax</TableHead>
+                <TableHead className="w-40">Revenue account</TableHead>
+                <TableHead className="w-28 text-right">Amount</TableHead>
+                <TableHead className="w-10" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lines.map((line, index) => (
+                <TableRow key={index}>
+                  <TableCell>
+                    <Input value={line.description} onChange={(e) => updateLine(index, { description: e.target.value })} />
+                  </TableCell>
+                  <TableCell>
+                    <Input type="number" value={line.quantity} onChange={(e) => updateLine(index, { quantity: e.target.value })} />
+                  </TableCell>
+                  <TableCell>
+                    <Input type="number" step="0.01" value={line.unit_price} onChange={(e) => updateLine(index, { unit_price: e.target.value })} />
+                  </TableCell>
+                  <TableCell className="space-y-1">
+                    <Select
+                      value={line.tax_rate_id || CUSTOM_TAX}
+                      onValueChange={(value) => updateLine(index, { tax_rate_id: value === CUSTOM_TAX ? '' : value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={CUSTOM_TAX}>Custom %</SelectItem>
+                        {taxRates.filter((rate) => rate.is_active || rate.id === line.tax_rate_id).map((rate) => (
+                          <SelectItem key={rate.id} value={rate.id}>{taxRateLabel(rate, taxRates)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {!line.tax_rate_id && (
+                      <Input
+                        type="number"
+                        step="0.01"
+                        value={line.tax_rate}
+                        onChange={(e) => updateLine(index, { tax_rate: e.target.value })}
+                        aria-label="Tax percent"
+                      />
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Select value={line.revenue_account_id} onValueChange={(value) => updateLine(index, { revenue_account_id: value })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Default" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {accounts.map((account) => (
+                          <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(lineAmounts(lineInput(line), taxInclusive).amount, currency)}</TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setLines((current) => current.filter((_, i) => i !== index))}
+                      disabled={lines.length === 1}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <div className="flex items-center justify-between">
+            <Button variant="outline" size="sm" onClick={() => setLines((current) => [...current, EMPTY_LINE])}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Line
+            </Button>
+            <div className="flex items-center gap-2">
+              <Switch id="invoice-tax-inclusive" checked={taxInclusive} onCheckedChange={setTaxInclusive} />
+              <Label htmlFor="invoice-tax-inclusive">Prices include tax</Label>
+            </div>
+          </div>
+
+          <div className="flex flex-col items-end gap-1 text-sm">
+            <div className="flex gap-8"><span className="text-muted-foreground">Subtotal</span><span>{formatCurrency(totals.subtotal, currency)}</span></div>
+            <div className="flex gap-8"><span className="text-muted-foreground">Tax</span><span>{formatCurrency(totals.tax, currency)}</span></div>
+            <div className="flex gap-8 font-semibold"><span>Total</span><span>{formatCurrency(totals.total, currency)}</span></div>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="invoice-notes">Notes</Label>
+            <Textarea id="invoice-notes" value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Shown on the invoice" />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button variant="outline" onClick={() => saveInvoice(false)} disabled={isSaving || !canSave}>
+              Save Draft
+            </Button>
+            <Button onClick={() => saveInvoice(true)} disabled={isSaving || !canSave}>
+              {isSaving ? 'Saving...' : 'Save & Send'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,216 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CalendarCheck, ChevronLeft, ChevronRight, Lock, LockOpen } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { useToast } from '@/hooks/use-toast';
+import { formatRange, today } from '@/lib/reports';
+import { fiscalYearLabel, fiscalYearOf, PERIOD_STATUSES, type PeriodStatus } from '@/lib/periods';
+
+type FiscalPeriod = Database['public']['Tables']['fiscal_periods']['Row'];
+
+export function FiscalPeriodsDialog() {
+  const [open, setOpen] = useState(false);
+  const [startMonth, setStartMonth] = useState(1);
+  const [fiscalYear, setFiscalYear] = useState<number | null>(null);
+  const [periods, setPeriods] = useState<FiscalPeriod[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) fetchStartMonth();
+  }, [open]);
+
+  useEffect(() => {
+    if (open && fiscalYear !== null) fetchPeriods(fiscalYear);
+  }, [open, fiscalYear]);
+
+  const fetchStartMonth = async () => {
+    const { data: userData } = await supabase.auth.getUser();
+    if (!userData.user) return;
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('fiscal_year_start_month')
+      .eq('user_id', userData.user.id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching fiscal year start:', error);
+    }
+    const month = data?.fiscal_year_start_month || 1;
+    setStartMonth(month);
+    setFiscalYear((current) => current ?? fiscalYearOf(today(), month));
+  };
+
+  // Periods are created the first time a year is looked at
+  const fetchPeriods = async (year: number) => {
+    const { data, error } = await supabase.rpc('ensure_fiscal_periods', { p_fiscal_year: year });
+
+    if (error) {
+      console.error('Error fetching fiscal periods:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load fiscal periods",
+        variant: "destructive"
+      });
+      return;
+    }
+    setPeriods(data || []);
+  };
+
+  const updateStatus = async (period: FiscalPeriod, status: PeriodStatus) => {
+    const { error } = await supabase.from('fiscal_periods').update({ status }).eq('id', period.id);
+    if (error) {
+      console.error('Error updating fiscal period:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update the period",
+        variant: "destructive"
+      });
+      return;
+    }
+    setPeriods((current) => current.map((p) => p.id === period.id ? { ...p, status } : p));
+  };
+
+  const closeYear = async () => {
+    if (fiscalYear === null) return;
+    try {
+      setIsWorking(true);
+      const { data, error } = await supabase.rpc('close_fiscal_year', { p_fiscal_year: fiscalYear });
+      if (error) throw new Error(error.message);
+
+      toast({
+        title: "Year closed",
+        description: data
+          ? `Revenue and expenses for FY${fiscalYear} were closed to Retained Earnings`
+          : `FY${fiscalYear} had no revenue or expenses to close`
+      });
+      fetchPeriods(fiscalYear);
+    } catch (error) {
+      console.error('Error closing fiscal year:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to close the year",
+        variant: "destructive"
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const reopenYear = async () => {
+    if (fiscalYear === null) return;
+    try {
+      setIsWorking(true);
+      const { error } = await supabase.rpc('reopen_fiscal_year', { p_fiscal_year: fiscalYear });
+      if (error) throw new Error(error.message);
+
+      toast({
+        title: "Year reopened",
+        description: `The closing entry for FY${fiscalYear} was removed`
+      });
+      fetchPeriods(fiscalYear);
+    } catch (error) {
+      console.error('Error reopening fiscal year:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to reopen the year",
+        variant: "destructive"
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const hasOpen = periods.some((period) => period.status === 'open');
+  const hasClosed = periods.some((period) => period.status === 'closed');
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <CalendarCheck className="h-4 w-4 mr-2" />
+          Periods
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Fiscal Periods</DialogTitle>
+          <DialogDescription>
+            Close or lock periods to protect finished books. Transactions, invoices and bills dated in a closed or locked period cannot be added, changed or deleted.
+          </DialogDescription>
+        </DialogHeader>
+
+        {fiscalYear !== null && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setFiscalYear(fiscalYear - 1)} aria-label="Previous year">
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <span className="font-medium">{fiscalYearLabel(fiscalYear, startMonth)}</span>
+                <Button variant="ghost" size="sm" onClick={() => setFiscalYear(fiscalYear + 1)} aria-label="Next year">
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={reopenYear} disabled={isWorking || !hasClosed}>
+                  <LockOpen className="h-4 w-4 mr-2" />
+                  Reopen Year
+                </Button>
+                <Button onClick={closeYear} disabled={isWorking || periods.length === 0}>
+                  <Lock className="h-4 w-4 mr-2" />
+                  {hasOpen ? 'Close Year' : 'Close Again'}
+                </Button>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Closing the year posts an entry on its last day that moves revenue and expenses into Retained Earnings, then closes its open periods.
+              Closing again after adjustments replaces that entry.
+            </p>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Period</TableHead>
+                  <TableHead>Dates</TableHead>
+                  <TableHead className="w-40">Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {periods.map((period) => (
+                  <TableRow key={period.id}>
+                    <TableCell className="font-medium">{period.name}</TableCell>
+                    <TableCell>{formatRange({ start: period.start_date, end: period.end_date })}</TableCell>
+                    <TableCell>
+                      <Select value={period.status} onValueChange={(value) => updateStatus(period, value as PeriodStatus)}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {PERIOD_STATUSES.map((status) => (
+                            <SelectItem key={status.value} value={status.value}>{status.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <ul className="text-xs text-muted-foreground space-y-1">
+              {PERIOD_STATUSES.map((status) => (
+                <li key={status.value}><span className="font-medium">{status.label}:</span> {status.description}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,457 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CheckCircle2, FileText, Scale, Undo2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency, formatShortDate, today } from '@/lib/reports';
+import { effectLabels, isBalanced, statementEffect, summarizeEffects } from '@/lib/reconciliation';
+import { Reconciliation, ReconciliationReportDialog } from './ReconciliationReportDialog';
+
+interface ReconcileAccount {
+  id: string;
+  name: string;
+  code: string;
+  account_type: string;
+}
+
+interface OpenTransaction {
+  id: string;
+  amount: number;
+  description: string;
+  transaction_date: string;
+  reference_number: string | null;
+  status: string;
+  account_id: string;
+  payment_account_id: string | null;
+}
+
+export function ReconciliationManager() {
+  const [accounts, setAccounts] = useState<ReconcileAccount[]>([]);
+  const [accountId, setAccountId] = useState('');
+  const [history, setHistory] = useState<Reconciliation[]>([]);
+  const [transactions, setTransactions] = useState<OpenTransaction[]>([]);
+  const [statementDate, setStatementDate] = useState(today());
+  const [endingBalance, setEndingBalance] = useState('');
+  const [openingBalance, setOpeningBalance] = useState('0');
+  const [viewing, setViewing] = useState<Reconciliation | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  const account = accounts.find((candidate) => candidate.id === accountId) || null;
+  const previous = history[0];
+
+  useEffect(() => {
+    fetchAccounts();
+  }, []);
+
+  useEffect(() => {
+    if (accountId) fetchHistory(accountId);
+  }, [accountId]);
+
+  useEffect(() => {
+    if (accountId && statementDate) fetchTransactions(accountId, statementDate);
+  }, [accountId, statementDate]);
+
+  const fetchAccounts = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('accounts')
+        .select('id, name, code, account_type')
+        .in('account_type', ['asset', 'liability'])
+        .eq('is_active', true)
+        .order('code');
+
+      if (error) throw error;
+      setAccounts(data || []);
+    } catch (error) {
+      console.error('Error fetching accounts:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load accounts",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const fetchHistory = async (id: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('reconciliations')
+        .select('*')
+        .eq('account_id', id)
+        .order('statement_date', { ascending: false });
+
+      if (error) throw error;
+      setHistory(data || []);
+    } catch (error) {
+      console.error('Error fetching reconciliations:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load past reconciliations",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const fetchTransactions = async (id: string, asOf: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('id, amount, description, transaction_date, reference_number, status, account_id, payment_account_id')
+        .or(`account_id.eq.${id},payment_account_id.eq.${id}`)
+        .neq('status', 'reconciled')
+        .lte('transaction_date', asOf)
+        .order('transaction_date');
+
+      if (error) throw error;
+      setTransactions(data || []);
+    } catch (error) {
+      console.error('Error fetching transactions:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load transactions",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Ticking an item saves it as cleared straight away, so a reconciliation
+  // can be left and picked up again later
+  const toggleCleared = async (transaction: OpenTransaction, cleared: boolean) => {
+    const status = cleared ? 'cleared' : 'pending';
+    setTransactions((current) => current.map((row) => (row.id === transaction.id ? { ...row, status } : row)));
+
+    const { error } = await supabase
+      .from('transactions')
+      .update({ status })
+      .eq('id', transaction.id);
+
+    if (error) {
+      console.error('Error updating transaction status:', error);
+      setTransactions((current) => current.map((row) => (row.id === transaction.id ? transaction : row)));
+      toast({
+        title: "Error",
+        description: "Failed to update the transaction",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const setAllCleared = async (cleared: boolean) => {
+    const ids = transactions.map((transaction) => transaction.id);
+    if (ids.length === 0) return;
+
+    const status = cleared ? 'cleared' : 'pending';
+    const { error } = await supabase
+      .from('transactions')
+      .update({ status })
+      .in('id', ids);
+
+    if (error) {
+      console.error('Error updating transaction statuses:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update transactions",
+        variant: "destructive"
+      });
+      return;
+    }
+    setTransactions((current) => current.map((row) => ({ ...row, status })));
+  };
+
+  const cleared = transactions.filter((transaction) => transaction.status === 'cleared');
+  const beginningBalance = previous ? Number(previous.ending_balance) : parseFloat(openingBalance) || 0;
+  const totals = account ? summarizeEffects(cleared, account.id, account.account_type) : { increases: 0, decreases: 0 };
+  const clearedBalance = beginningBalance + totals.increases - totals.decreases;
+  const difference = (parseFloat(endingBalance) || 0) - clearedBalance;
+  const labels = effectLabels(account?.account_type || 'asset');
+  const dateTooEarly = !!previous && statementDate <= previous.statement_date;
+  const canFinish = !!account && endingBalance !== '' && !dateTooEarly && isBalanced(difference);
+
+  const finishReconciliation = async () => {
+    if (!account) return;
+
+    try {
+      setIsLoading(true);
+
+      const { data, error } = await supabase.rpc('complete_reconciliation', {
+        p_account_id: account.id,
+        p_statement_date: statementDate,
+        p_ending_balance: parseFloat(endingBalance),
+        p_transaction_ids: cleared.map((transaction) => transaction.id),
+        p_opening_balance: beginningBalance,
+      });
+
+      if (error) throw new Error(error.message);
+
+      toast({
+        title: "Reconciliation complete",
+        description: `${cleared.length} transactions reconciled to ${formatCurrency(parseFloat(endingBalance))}`
+      });
+
+      setEndingBalance('');
+      await Promise.all([fetchHistory(account.id), fetchTransactions(account.id, statementDate)]);
+
+      const { data: saved } = await supabase
+        .from('reconciliations')
+        .select('*')
+        .eq('id', data)
+        .single();
+      if (saved) setViewing(saved);
+    } catch (error) {
+      console.error('Error completing reconciliation:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to complete the reconciliation",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const undoReconciliation = async (reconciliation: Reconciliation) => {
+    try {
+      setIsLoading(true);
+
+      const { error } = await supabase.rpc('undo_reconciliation', {
+        p_reconciliation_id: reconciliation.id,
+      });
+
+      if (error) throw new Error(error.message);
+
+      toast({
+        title: "Reconciliation undone",
+        description: `Transactions from the ${formatShortDate(reconciliation.statement_date)} statement are cleared again`
+      });
+
+      await Promise.all([fetchHistory(reconciliation.account_id), fetchTransactions(reconciliation.account_id, statementDate)]);
+    } catch (error) {
+      console.error('Error undoing reconciliation:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to undo the reconciliation",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold">Reconciliation</h2>
+        <p className="text-muted-foreground">Match your books against bank and card statements</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Statement</CardTitle>
+          <CardDescription>
+            {previous
+              ? `Last reconciled to ${formatShortDate(previous.statement_date)} at ${formatCurrency(Number(previous.ending_balance))}`
+              : 'Choose an account and enter the balance from its statement'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-4">
+          <div className="space-y-2">
+            <Label>Account</Label>
+            <Select value={accountId} onValueChange={setAccountId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select account" />
+              </SelectTrigger>
+              <SelectContent>
+                {accounts.map((candidate) => (
+                  <SelectItem key={candidate.id} value={candidate.id}>
+                    {candidate.code} - {candidate.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="statement-date">Statement date</Label>
+            <Input
+              id="statement-date"
+              type="date"
+              value={statementDate}
+              onChange={(e) => setStatementDate(e.target.value)}
+            />
+            {dateTooEarly && (
+              <p className="text-xs text-destructive">Must be after the last reconciled statement</p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ending-balance">Statement ending balance</Label>
+            <Input
+              id="ending-balance"
+              type="number"
+              step="0.01"
+              value={endingBalance}
+              onChange={(e) => setEndingBalance(e.target.value)}
+              placeholder="0.00"
+            />
+          </div>
+          {account && !previous && (
+            <div className="space-y-2">
+              <Label htmlFor="opening-balance">Statement beginning balance</Label>
+              <Input
+                id="opening-balance"
+                type="number"
+                step="0.01"
+                value={openingBalance}
+                onChange={(e) => setOpeningBalance(e.target.value)}
+              />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {account && (
+        <>
+          <div className="grid gap-4 md:grid-cols-5">
+            {[
+              { label: 'Beginning balance', value: beginningBalance },
+              { label: `Cleared ${labels.increases.toLowerCase()}`, value: totals.increases },
+              { label: `Cleared ${labels.decreases.toLowerCase()}`, value: -totals.decreases },
+              { label: 'Cleared balance', value: clearedBalance },
+              { label: 'Difference', value: difference },
+            ].map(({ label, value }) => (
+              <Card key={label}>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium">{label}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div
+                    className={`text-xl font-bold ${
+                      label === 'Difference' ? (isBalanced(value) ? 'text-green-600' : 'text-red-600') : ''
+                    }`}
+                  >
+                    {formatCurrency(value)}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <div>
+                <CardTitle>Unreconciled transactions</CardTitle>
+                <CardDescription>Tick each item that appears on the statement</CardDescription>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => setAllCleared(cleared.length < transactions.length)}>
+                  {cleared.length < transactions.length ? 'Clear all' : 'Unclear all'}
+                </Button>
+                <Button size="sm" onClick={finishReconciliation} disabled={!canFinish || isLoading}>
+                  <CheckCircle2 className="h-4 w-4 mr-2" />
+                  Finish
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {transactions.length === 0 ? (
+                <div className="text-center py-8">
+                  <Scale className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+                  <p className="text-muted-foreground">No unreconciled transactions up to the statement date</p>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10" />
+                      <TableHead>Date</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead>Reference</TableHead>
+                      <TableHead className="text-right">{labels.increases}</TableHead>
+                      <TableHead className="text-right">{labels.decreases}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {transactions.map((transaction) => {
+                      const effect = statementEffect(transaction, account.id, account.account_type);
+                      return (
+                        <TableRow key={transaction.id}>
+                          <TableCell>
+                            <Checkbox
+                              checked={transaction.status === 'cleared'}
+                              onCheckedChange={(checked) => toggleCleared(transaction, checked === true)}
+                            />
+                          </TableCell>
+                          <TableCell className="whitespace-nowrap">{formatShortDate(transaction.transaction_date)}</TableCell>
+                          <TableCell>{transaction.description}</TableCell>
+                          <TableCell className="text-muted-foreground">{transaction.reference_number}</TableCell>
+                          <TableCell className="text-right">{effect > 0 ? formatCurrency(effect) : ''}</TableCell>
+                          <TableCell className="text-right">{effect < 0 ? formatCurrency(-effect) : ''}</TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Reconciliation history</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {history.length === 0 ? (
+                <p className="text-sm text-muted-foreground">This account has not been reconciled yet.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Statement date</TableHead>
+                      <TableHead className="text-right">Ending balance</TableHead>
+                      <TableHead className="text-right">Transactions</TableHead>
+                      <TableHead>Completed</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {history.map((reconciliation, index) => (
+                      <TableRow key={reconciliation.id}>
+                        <TableCell>
+                          {formatShortDate(reconciliation.statement_date)}
+                          {index === 0 && <Badge variant="secondary" className="ml-2">Latest</Badge>}
+                        </TableCell>
+                        <TableCell className="text-right">{formatCurrency(Number(reconciliation.ending_balance))}</TableCell>
+                        <TableCell className="text-right">{reconciliation.transaction_count}</TableCell>
+                        <TableCell>{new Date(reconciliation.completed_at).toLocaleDateString()}</TableCell>
+                        <TableCell className="text-right space-x-2">
+                          <Button variant="ghost" size="sm" onClick={() => setViewing(reconciliation)}>
+                            <FileText className="h-4 w-4 mr-1" />
+                            Report
+                          </Button>
+                          {index === 0 && (
+                            <Button variant="ghost" size="sm" onClick={() => undoReconciliation(reconciliation)} disabled={isLoading}>
+                              <Undo2 className="h-4 w-4 mr-1" />
+                              Undo
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <ReconciliationReportDialog reconciliation={viewing} account={account} onClose={() => setViewing(null)} />
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency, formatShortDate } from '@/lib/reports';
+import { effectLabels, statementEffect } from '@/lib/reconciliation';
+
+export interface Reconciliation {
+  id: string;
+  account_id: string;
+  statement_date: string;
+  beginning_balance: number;
+  ending_balance: number;
+  cleared_increases: number;
+  cleared_decreases: number;
+  transaction_count: number;
+  // Saved by complete_reconciliation; null for reconciliations completed
+  // before it saved them
+  outstanding_transactions: Json | null;
+  completed_at: string;
+}
+
+interface ReportTransaction {
+  id: string;
+  amount: number;
+  description: string;
+  transaction_date: string;
+  reference_number: string | null;
+  account_id: string;
+  payment_account_id: string | null;
+}
+
+interface ReconciliationReportDialogProps {
+  reconciliation: Reconciliation | null;
+  account: { id: string; name: string; account_type: string } | null;
+  onClose: () => void;
+}
+
+// Saved record of a completed reconciliation: the balances it agreed and the
+// transactions it locked, plus the items that were still outstanding when it
+// was completed
+export function ReconciliationReportDialog({ reconciliation, account, onClose }: ReconciliationReportDialogProps) {
+  const [reconciled, setReconciled] = useState<ReportTransaction[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (reconciliation) fetchTransactions(reconciliation);
+  }, [reconciliation]);
+
+  const fetchTransactions = async (current: Reconciliation) => {
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('id, amount, description, transaction_date, reference_number, account_id, payment_account_id')
+        .eq('reconciliation_id', current.id)
+        .order('transaction_date');
+
+      if (error) throw error;
+      setReconciled(data || []);
+    } catch (error) {
+      console.error('Error fetching reconciliation report:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the reconciliation report",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const labels = effectLabels(account?.account_type || 'asset');
+  const snapshot = reconciliation?.outstanding_transactions;
+  const outstanding = Array.isArray(snapshot) ? snapshot as unknown as ReportTransaction[] : null;
+
+  const transactionTable = (title: string, transactions: ReportTransaction[]) => (
+    <div className="space-y-2">
+      <h3 className="font-medium">{title}</h3>
+      {transactions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">None.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Description</TableHead>
+              <TableHead>Reference</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {transactions.map((transaction) => (
+              <TableRow key={transaction.id}>
+                <TableCell className="whitespace-nowrap">{formatShortDate(transaction.transaction_date)}</TableCell>
+                <TableCell>{transaction.description}</TableCell>
+                <TableCell className="text-muted-foreground">{transaction.reference_number}</TableCell>
+                <TableCell className="text-right">
+                  {account && formatCurrency(statementEffect(transaction, account.id, account.account_type))}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+
+  return (
+    <Dialog open={!!reconciliation} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Reconciliation Report</DialogTitle>
+          <DialogDescription>
+            {account?.name} · statement dated {reconciliation && formatShortDate(reconciliation.statement_date)}
+            {reconciliation && `, completed ${new Date(reconciliation.completed_at).toLocaleDateString()}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {reconciliation && (
+          <Table>
+            <TableBody>
+              <TableRow>
+                <TableCell>Beginning balance</TableCell>
+                <TableCell className="text-right">{formatCurrency(Number(reconciliation.beginning_balance))}</TableCell>
+              </TableRow>
+              <TableRow>
+                <TableCell>Cleared {labels.increases.toLowerCase()}</TableCell>
+                <TableCell className="text-right">{formatCurrency(Number(reconciliation.cleared_increases))}</TableCell>
+              </TableRow>
+              <TableRow>
+                <TableCell>Cleared {labels.decreases.toLowerCase()}</TableCell>
+                <TableCell className="text-right">{formatCurrency(-Number(reconciliation.cleared_decreases))}</TableCell>
+              </TableRow>
+              <TableRow className="font-semibold">
+                <TableCell>Statement ending balance</TableCell>
+                <TableCell className="text-right">{formatCurrency(Number(reconciliation.ending_balance))}</TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : (
+          <div className="space-y-6">
+            {transactionTable(`Reconciled transactions (${reconciled.length})`, reconciled)}
+            {outstanding
+              ? transactionTable(`Outstanding at statement date (${outstanding.length})`, outstanding)
+              : (
+                <div className="space-y-2">
+                  <h3 className="font-medium">Outstanding at statement date</h3>
+                  <p className="text-sm text-muted-foreground">Not recorded for reconciliations completed before outstanding items were saved.</p>
+                </div>
+              )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
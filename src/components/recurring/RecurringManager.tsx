@@ -0,0 +1,240 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Plus, Repeat, Play, Pencil, Trash2, AlertTriangle } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { RecurringSchedule, RecurringScheduleDialog } from '@/components/recurring/RecurringScheduleDialog';
+import { describeEnd, describeFrequency, describeTemplate, upcomingRuns } from '@/lib/recurring';
+
+interface RecurringRun {
+  id: string;
+  schedule_id: string;
+  run_date: string;
+  transaction_id: string | null;
+  bill_id: string | null;
+}
+
+const UPCOMING_RUNS = 3;
+const RECENT_RUNS = 3;
+
+export function RecurringManager() {
+  const [schedules, setSchedules] = useState<RecurringSchedule[]>([]);
+  const [runs, setRuns] = useState<RecurringRun[]>([]);
+  const [form, setForm] = useState<{ open: boolean; schedule?: RecurringSchedule | null }>({ open: false });
+  const [isRunning, setIsRunning] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchSchedules();
+
+    const channel = supabase
+      .channel('recurring-changes')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'recurring_schedules' },
+        () => fetchSchedules()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, []);
+
+  const fetchSchedules = async () => {
+    try {
+      const [scheduleResult, runResult] = await Promise.all([
+        supabase.from('recurring_schedules').select('*').order('next_run_date', { nullsFirst: false }),
+        supabase.from('recurring_runs').select('id, schedule_id, run_date, transaction_id, bill_id').order('run_date', { ascending: false }).limit(200),
+      ]);
+
+      if (scheduleResult.error) throw scheduleResult.error;
+      if (runResult.error) throw runResult.error;
+      setSchedules((scheduleResult.data || []) as RecurringSchedule[]);
+      setRuns(runResult.data || []);
+    } catch (error) {
+      console.error('Error fetching recurring schedules:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load recurring schedules",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Records every run that is due; runs already recorded are skipped
+  const runDueSchedules = async () => {
+    try {
+      setIsRunning(true);
+      const { data, error } = await supabase.rpc('run_recurring_schedules');
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: data ? `Recorded ${data} due run${data === 1 ? '' : 's'}` : "Nothing is due"
+      });
+      fetchSchedules();
+    } catch (error) {
+      console.error('Error running recurring schedules:', error);
+      toast({
+        title: "Error",
+        description: "Failed to run the due schedules",
+        variant: "destructive"
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const setActive = async (schedule: RecurringSchedule, isActive: boolean) => {
+    const { error } = await supabase.from('recurring_schedules').update({ is_active: isActive }).eq('id', schedule.id);
+    if (error) {
+      console.error('Error updating recurring schedule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update the schedule",
+        variant: "destructive"
+      });
+      return;
+    }
+    fetchSchedules();
+  };
+
+  // Transactions and bills already recorded by the schedule are kept
+  const deleteSchedule = async (schedule: RecurringSchedule) => {
+    const { error } = await supabase.from('recurring_schedules').delete().eq('id', schedule.id);
+    if (error) {
+      console.error('Error deleting recurring schedule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete the schedule",
+        variant: "destructive"
+      });
+      return;
+    }
+    fetchSchedules();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-semibold">Recurring Transactions</h2>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={runDueSchedules} disabled={isRunning}>
+            <Play className="h-4 w-4 mr-2" />
+            {isRunning ? 'Running...' : 'Run Due Now'}
+          </Button>
+          <Button onClick={() => setForm({ open: true, schedule: null })}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Schedule
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {schedules.map((schedule) => {
+          const upcoming = schedule.is_active ? upcomingRuns(schedule, UPCOMING_RUNS) : [];
+          const recent = runs.filter((run) => run.schedule_id === schedule.id).slice(0, RECENT_RUNS);
+
+          return (
+            <Card key={schedule.id} className={`${!schedule.is_active ? 'opacity-60' : ''} ${schedule.last_error ? 'border-destructive' : ''}`}>
+              <CardHeader className="pb-2">
+                <div className="flex items-start justify-between gap-2">
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <Repeat className="h-4 w-4" />
+                    {schedule.name}
+                  </CardTitle>
+                  <Switch
+                    checked={schedule.is_active}
+                    onCheckedChange={(checked) => setActive(schedule, checked)}
+                    aria-label={schedule.is_active ? 'Pause schedule' : 'Resume schedule'}
+                  />
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant="outline">{describeFrequency(schedule.frequency, schedule.interval_count)}</Badge>
+                  <Badge variant="secondary">{schedule.kind === 'bill' ? 'Bill' : 'Transaction'}</Badge>
+                  {!schedule.next_run_date && <Badge variant="secondary">Ended</Badge>}
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3 text-sm">
+                <p>{describeTemplate(schedule.kind, schedule.template)}</p>
+
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Runs:</span>
+                  <span>{schedule.occurrences_count} recorded · {describeEnd(schedule)}</span>
+                </div>
+
+                {schedule.last_error && (
+                  <div className="flex items-start gap-2 text-destructive">
+                    <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                    <span>Last run failed: {schedule.last_error}</span>
+                  </div>
+                )}
+
+                <div>
+                  <p className="text-muted-foreground">Upcoming</p>
+                  {upcoming.length === 0 ? (
+                    <p>{schedule.is_active ? 'No runs left' : 'Paused'}</p>
+                  ) : (
+                    upcoming.map((date) => <p key={date}>{date}</p>)
+                  )}
+                </div>
+
+                {recent.length > 0 && (
+                  <div>
+                    <p className="text-muted-foreground">Recorded</p>
+                    {recent.map((run) => (
+                      <p key={run.id}>
+                        {run.run_date}
+                        {!run.transaction_id && !run.bill_id && (
+                          <span className="text-muted-foreground"> (since deleted)</span>
+                        )}
+                      </p>
+                    ))}
+                  </div>
+                )}
+
+                <div className="flex gap-2 pt-1">
+                  <Button variant="outline" size="sm" onClick={() => setForm({ open: true, schedule })}>
+                    <Pencil className="h-4 w-4 mr-1" />
+                    Edit
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => deleteSchedule(schedule)}>
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Delete
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      {schedules.length === 0 && (
+        <Card>
+          <CardContent className="text-center py-12">
+            <h3 className="text-lg font-semibold mb-2">No Recurring Schedules</h3>
+            <p className="text-muted-foreground mb-4">
+              Set up rent, subscriptions or payroll once and they are recorded on their due dates.
+              You can also ask the assistant, e.g. "record $1,200 rent on the 1st every month".
+            </p>
+            <Button onClick={() => setForm({ open: true, schedule: null })}>
+              <Plus className="h-4 w-4 mr-2" />
+              Create Your First Schedule
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <RecurringScheduleDialog
+        open={form.open}
+        onOpenChange={(open) => setForm((current) => ({ ...current, open }))}
+        schedule={form.schedule}
+        onSaved={fetchSchedules}
+      />
+    </div>
+  );
+}
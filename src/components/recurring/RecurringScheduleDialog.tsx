@@ -0,0 +1,504 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Plus, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import type { Json } from '@/integrations/supabase/types';
+import { today } from '@/lib/reports';
+import {
+  FREQUENCY_OPTIONS,
+  RecurrenceFrequency,
+  RecurringKind,
+  RecurringTemplate,
+  describeTemplate,
+  upcomingRuns,
+} from '@/lib/recurring';
+
+export interface RecurringSchedule {
+  id: string;
+  name: string;
+  kind: RecurringKind;
+  template: RecurringTemplate;
+  frequency: RecurrenceFrequency;
+  interval_count: number;
+  start_date: string;
+  end_date: string | null;
+  max_occurrences: number | null;
+  occurrences_count: number;
+  last_run_date: string | null;
+  next_run_date: string | null;
+  last_error: string | null;
+  is_active: boolean;
+}
+
+interface AccountOption {
+  id: string;
+  name: string;
+  account_type: string;
+}
+
+interface VendorOption {
+  id: string;
+  name: string;
+}
+
+interface BillLineDraft {
+  description: string;
+  amount: string;
+  tax_amount: string;
+  account_id: string;
+}
+
+type EndCondition = 'never' | 'on_date' | 'after';
+
+interface RecurringScheduleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Schedule to edit; a new one is created when omitted
+  schedule?: RecurringSchedule | null;
+  onSaved: () => void;
+}
+
+const EMPTY_LINE: BillLineDraft = { description: '', amount: '', tax_amount: '0', account_id: '' };
+
+const PREVIEW_RUNS = 5;
+
+export function RecurringScheduleDialog({ open, onOpenChange, schedule, onSaved }: RecurringScheduleDialogProps) {
+  const [accounts, setAccounts] = useState<AccountOption[]>([]);
+  const [vendors, setVendors] = useState<VendorOption[]>([]);
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<RecurringKind>('transaction');
+  const [direction, setDirection] = useState<'expense' | 'income'>('expense');
+  const [amount, setAmount] = useState('');
+  const [description, setDescription] = useState('');
+  const [accountId, setAccountId] = useState('');
+  const [paymentAccountId, setPaymentAccountId] = useState('');
+  const [vendorId, setVendorId] = useState('');
+  const [lines, setLines] = useState<BillLineDraft[]>([EMPTY_LINE]);
+  const [frequency, setFrequency] = useState<RecurrenceFrequency>('monthly');
+  const [intervalCount, setIntervalCount] = useState('1');
+  const [startDate, setStartDate] = useState(today());
+  const [endCondition, setEndCondition] = useState<EndCondition>('never');
+  const [endDate, setEndDate] = useState('');
+  const [maxOccurrences, setMaxOccurrences] = useState('12');
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    fetchOptions();
+
+    const template = schedule?.template || {};
+    const templateAmount = Number(template.amount) || 0;
+    setName(schedule?.name || '');
+    setKind(schedule?.kind || 'transaction');
+    setDirection(templateAmount > 0 ? 'income' : 'expense');
+    setAmount(templateAmount ? String(Math.abs(templateAmount)) : '');
+    setDescription(template.description || '');
+    setAccountId(template.account_id || '');
+    setPaymentAccountId(template.payment_account_id || '');
+    setVendorId(template.vendor_id || '');
+    setLines(template.lines && template.lines.length > 0
+      ? template.lines.map((line) => ({
+        description: line.description || '',
+        amount: String(line.amount ?? ''),
+        tax_amount: String(line.tax_amount ?? 0),
+        account_id: line.account_id || '',
+      }))
+      : [EMPTY_LINE]);
+    setFrequency(schedule?.frequency || 'monthly');
+    setIntervalCount(String(schedule?.interval_count || 1));
+    setStartDate(schedule?.start_date || today());
+    setEndCondition(schedule?.max_occurrences ? 'after' : schedule?.end_date ? 'on_date' : 'never');
+    setEndDate(schedule?.end_date || '');
+    setMaxOccurrences(String(schedule?.max_occurrences || 12));
+  }, [open, schedule]);
+
+  const fetchOptions = async () => {
+    const [accountResult, vendorResult] = await Promise.all([
+      supabase.from('accounts').select('id, name, account_type').eq('is_active', true).order('code'),
+      supabase.from('vendors').select('id, name').eq('is_active', true).order('name'),
+    ]);
+
+    if (accountResult.error) console.error('Error fetching accounts:', accountResult.error);
+    if (vendorResult.error) console.error('Error fetching vendors:', vendorResult.error);
+    setAccounts(accountResult.data || []);
+    setVendors(vendorResult.data || []);
+  };
+
+  const updateLine = (index: number, changes: Partial<BillLineDraft>) => {
+    setLines((current) => current.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  // Fields the form does not show (e.g. a category the assistant set) are kept
+  const buildTemplate = (): RecurringTemplate => {
+    const template = { ...(schedule?.kind === kind ? schedule.template : {}) };
+    const optional = (value: string) => value || undefined;
+
+    if (kind === 'bill') {
+      return {
+        ...template,
+        vendor_id: vendorId,
+        payment_account_id: optional(paymentAccountId),
+        lines: lines
+          .filter((line) => line.description.trim())
+          .map((line) => ({
+            description: line.description.trim(),
+            amount: parseFloat(line.amount) || 0,
+            tax_amount: parseFloat(line.tax_amount) || 0,
+            account_id: optional(line.account_id),
+          })),
+      };
+    }
+
+    const value = Math.abs(parseFloat(amount) || 0);
+    return {
+      ...template,
+      amount: direction === 'expense' ? -value : value,
+      description: description.trim(),
+      account_id: accountId,
+      payment_account_id: optional(paymentAccountId),
+      vendor_id: direction === 'expense' ? optional(vendorId) : undefined,
+    };
+  };
+
+  const rule = {
+    frequency,
+    interval_count: Math.max(parseInt(intervalCount) || 1, 1),
+    start_date: startDate,
+    end_date: endCondition === 'on_date' && endDate ? endDate : null,
+    max_occurrences: endCondition === 'after' ? Math.max(parseInt(maxOccurrences) || 1, 1) : null,
+  };
+  const template = buildTemplate();
+  // Changing the timing keeps the runs already made; new schedules have none
+  const preview = startDate
+    ? upcomingRuns({
+      ...rule,
+      occurrences_count: schedule?.occurrences_count || 0,
+      last_run_date: schedule?.last_run_date || null,
+    }, PREVIEW_RUNS)
+    : [];
+
+  const saveSchedule = async () => {
+    try {
+      setIsSaving(true);
+
+      const { data: userData } = await supabase.auth.getUser();
+      if (!userData.user) throw new Error('Not authenticated');
+
+      const fields = { name: name.trim(), kind, template: template as unknown as Json, ...rule };
+
+      let id = schedule?.id;
+      if (id) {
+        const { error } = await supabase.from('recurring_schedules').update(fields).eq('id', id);
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase
+          .from('recurring_schedules')
+          .insert([{ ...fields, user_id: userData.user.id }])
+          .select('id')
+          .single();
+        if (error) throw error;
+        id = data.id;
+      }
+
+      // A schedule starting today (or earlier) records its due runs straight away
+      const { data: created, error: runError } = await supabase.rpc('run_recurring_schedules', { p_schedule_id: id });
+      if (runError) throw runError;
+
+      toast({
+        title: "Success",
+        description: created
+          ? `Schedule saved and ${created} run${created === 1 ? '' : 's'} recorded`
+          : "Schedule saved"
+      });
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      console.error('Error saving recurring schedule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save the schedule",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const postingAccounts = accounts.filter((account) => account.account_type === (direction === 'expense' ? 'expense' : 'revenue'));
+  const expenseAccounts = accounts.filter((account) => account.account_type === 'expense');
+  const paymentAccounts = accounts.filter((account) => account.account_type === 'asset' || account.account_type === 'liability');
+  const hasTemplate = kind === 'bill'
+    ? !!vendorId && lines.some((line) => line.description.trim() && parseFloat(line.amount) > 0)
+    : !!description.trim() && parseFloat(amount) > 0 && !!accountId;
+  const canSave = !!name.trim() && !!startDate && hasTemplate
+    && (endCondition !== 'on_date' || (!!endDate && endDate >= startDate));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{schedule ? 'Edit Recurring Schedule' : 'New Recurring Schedule'}</DialogTitle>
+          <DialogDescription>
+            Each run records a transaction or bill on its date. Runs already recorded are never recorded again.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="recurring-name">Name</Label>
+              <Input id="recurring-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g., Office rent" />
+            </div>
+            <div className="space-y-1">
+              <Label>Records</Label>
+              <Select value={kind} onValueChange={(value) => setKind(value as RecurringKind)} disabled={!!schedule}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="transaction">A transaction (paid on the day)</SelectItem>
+                  <SelectItem value="bill">A bill (paid later)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {kind === 'transaction' ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label>Type</Label>
+                <Select value={direction} onValueChange={(value) => { setDirection(value as 'expense' | 'income'); setAccountId(''); }}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="expense">Expense (money out)</SelectItem>
+                    <SelectItem value="income">Income (money in)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="recurring-amount">Amount</Label>
+                <Input id="recurring-amount" type="number" step="0.01" value={amount} onChange={(e) => setAmount(e.target.value)} />
+              </div>
+              <div className="space-y-1 md:col-span-2">
+                <Label htmlFor="recurring-description">Description</Label>
+                <Input id="recurring-description" value={description} onChange={(e) => setDescription(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label>{direction === 'expense' ? 'Expense account' : 'Revenue account'}</Label>
+                <Select value={accountId} onValueChange={setAccountId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select account" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {postingAccounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Paid through</Label>
+                <Select value={paymentAccountId} onValueChange={setPaymentAccountId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Cash" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {paymentAccounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {direction === 'expense' && (
+                <div className="space-y-1">
+                  <Label>Vendor (optional)</Label>
+                  <Select value={vendorId} onValueChange={setVendorId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="No vendor" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {vendors.map((vendor) => (
+                        <SelectItem key={vendor.id} value={vendor.id}>{vendor.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <Label>Vendor</Label>
+                  <Select value={vendorId} onValueChange={setVendorId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select vendor" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {vendors.map((vendor) => (
+                        <SelectItem key={vendor.id} value={vendor.id}>{vendor.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Pay from</Label>
+                  <Select value={paymentAccountId} onValueChange={setPaymentAccountId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Cash" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {paymentAccounts.map((account) => (
+                        <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="w-28">Amount</TableHead>
+                    <TableHead className="w-24">Tax</TableHead>
+                    <TableHead className="w-40">Expense account</TableHead>
+                    <TableHead className="w-10" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.map((line, index) => (
+                    <TableRow key={index}>
+                      <TableCell>
+                        <Input value={line.description} onChange={(e) => updateLine(index, { description: e.target.value })} />
+                      </TableCell>
+                      <TableCell>
+                        <Input type="number" step="0.01" value={line.amount} onChange={(e) => updateLine(index, { amount: e.target.value })} />
+                      </TableCell>
+                      <TableCell>
+                        <Input type="number" step="0.01" value={line.tax_amount} onChange={(e) => updateLine(index, { tax_amount: e.target.value })} />
+                      </TableCell>
+                      <TableCell>
+                        <Select value={line.account_id} onValueChange={(value) => updateLine(index, { account_id: value })}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Default" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {expenseAccounts.map((account) => (
+                              <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setLines((current) => current.filter((_, i) => i !== index))}
+                          disabled={lines.length === 1}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <Button variant="outline" size="sm" onClick={() => setLines((current) => [...current, EMPTY_LINE])}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Line
+              </Button>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <Label>Repeats</Label>
+              <Select value={frequency} onValueChange={(value) => setFrequency(value as RecurrenceFrequency)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FREQUENCY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="recurring-interval">
+                Every ({FREQUENCY_OPTIONS.find((option) => option.value === frequency)?.unit}s)
+              </Label>
+              <Input id="recurring-interval" type="number" min="1" value={intervalCount} onChange={(e) => setIntervalCount(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="recurring-start">First run</Label>
+              <Input id="recurring-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <Label>Ends</Label>
+              <Select value={endCondition} onValueChange={(value) => setEndCondition(value as EndCondition)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="never">Never</SelectItem>
+                  <SelectItem value="on_date">On a date</SelectItem>
+                  <SelectItem value="after">After a number of runs</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {endCondition === 'on_date' && (
+              <div className="space-y-1">
+                <Label htmlFor="recurring-end">Last date</Label>
+                <Input id="recurring-end" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+              </div>
+            )}
+            {endCondition === 'after' && (
+              <div className="space-y-1">
+                <Label htmlFor="recurring-max">Runs</Label>
+                <Input id="recurring-max" type="number" min="1" value={maxOccurrences} onChange={(e) => setMaxOccurrences(e.target.value)} />
+              </div>
+            )}
+          </div>
+
+          <div className="rounded-md border p-3 space-y-1 text-sm">
+            <p className="font-medium">Upcoming runs</p>
+            {preview.length === 0 ? (
+              <p className="text-muted-foreground">No runs left on this schedule.</p>
+            ) : (
+              preview.map((date) => (
+                <div key={date} className="flex justify-between">
+                  <span>{date}</span>
+                  <span className="text-muted-foreground">
+                    {hasTemplate ? describeTemplate(kind, template) : '—'}
+                  </span>
+                </div>
+              ))
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button onClick={saveSchedule} disabled={isSaving || !canSave}>
+              {isSaving ? 'Saving...' : 'Save Schedule'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,149 @@
+import { useState, useEffect, Fragment } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { formatCurrency, formatShortDate, orderAccountTree, today } from '@/lib/reports';
+
+interface BalanceSheetRow {
+  // null for the computed retained and current-year earnings rows
+  account_id: string | null;
+  account_name: string;
+  account_code: string | null;
+  account_type: 'asset' | 'liability' | 'equity' | string;
+  parent_account_id: string | null;
+  balance: number;
+  total_balance: number;
+}
+
+const SECTIONS = [
+  { type: 'asset', title: 'Assets', totalLabel: 'Total assets' },
+  { type: 'liability', title: 'Liabilities', totalLabel: 'Total liabilities' },
+  { type: 'equity', title: 'Equity', totalLabel: 'Total equity' },
+] as const;
+
+export function BalanceSheetReport() {
+  const [asOf, setAsOf] = useState(today());
+  const [rows, setRows] = useState<BalanceSheetRow[]>([]);
+  const [showZero, setShowZero] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchReport();
+  }, [asOf]);
+
+  const fetchReport = async () => {
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase.rpc('balance_sheet', { p_as_of: asOf });
+      if (error) throw error;
+
+      setRows(data || []);
+    } catch (error) {
+      console.error('Error fetching balance sheet:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the balance sheet",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const sections = SECTIONS.map((section) => {
+    const accounts = rows.filter((row) => row.account_type === section.type);
+    const ids = new Set(accounts.map((row) => row.account_id));
+    // Top-level rows already include their children's balances
+    const total = accounts
+      .filter((row) => !row.parent_account_id || !ids.has(row.parent_account_id))
+      .reduce((sum, row) => sum + Number(row.total_balance), 0);
+    const lines = orderAccountTree(accounts).filter(({ account }) =>
+      showZero || Number(account.total_balance) !== 0);
+    return { ...section, lines, total };
+  });
+
+  const [assets, liabilities, equity] = sections.map((section) => section.total);
+  const difference = assets - (liabilities + equity);
+  const balanced = Math.abs(difference) < 0.005;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Balance Sheet</CardTitle>
+        <CardDescription>As of {formatShortDate(asOf)}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-6">
+          <div className="space-y-1">
+            <Label htmlFor="balance-sheet-date">As of</Label>
+            <Input
+              id="balance-sheet-date"
+              type="date"
+              className="w-40"
+              value={asOf}
+              onChange={(e) => e.target.value && setAsOf(e.target.value)}
+            />
+          </div>
+          <div className="flex items-center gap-2 pb-2">
+            <Switch id="balance-sheet-zero" checked={showZero} onCheckedChange={setShowZero} />
+            <Label htmlFor="balance-sheet-zero">Show zero balances</Label>
+          </div>
+        </div>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Account</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sections.map((section) => (
+                <Fragment key={section.type}>
+                  <TableRow className="bg-muted/50">
+                    <TableCell colSpan={2} className="font-semibold">{section.title}</TableCell>
+                  </TableRow>
+                  {section.lines.map(({ account, depth }) => (
+                    <TableRow key={account.account_id || account.account_name}>
+                      <TableCell style={{ paddingLeft: `${1.5 + depth * 1.25}rem` }}>
+                        {account.account_code && <span className="text-muted-foreground mr-2">{account.account_code}</span>}
+                        <span className={cn(!account.account_id && "italic")}>{account.account_name}</span>
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(Number(account.total_balance))}</TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow className="font-medium">
+                    <TableCell>{section.totalLabel}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(section.total)}</TableCell>
+                  </TableRow>
+                </Fragment>
+              ))}
+              <TableRow className="font-semibold border-t-2">
+                <TableCell>
+                  Total liabilities and equity
+                  {!balanced && (
+                    <Badge variant="destructive" className="ml-2">
+                      Out of balance by {formatCurrency(difference)}
+                    </Badge>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">{formatCurrency(liabilities + equity)}</TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,165 @@
+import { useState, useEffect, Fragment } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { formatCurrency, formatRange, presetRange, type DateRange, type ReportPreset } from '@/lib/reports';
+import { ReportPeriodPicker } from './ReportPeriodPicker';
+import { DrillDownDialog, type DrillDownTarget } from './DrillDownDialog';
+
+interface CashFlowRow {
+  section: string;
+  // null for net income and the cash balance rows
+  account_id: string | null;
+  account_name: string;
+  account_code: string | null;
+  amount: number;
+}
+
+const SECTIONS = [
+  { key: 'operating', title: 'Operating activities', totalLabel: 'Net cash from operating activities' },
+  { key: 'investing', title: 'Investing activities', totalLabel: 'Net cash from investing activities' },
+  { key: 'financing', title: 'Financing activities', totalLabel: 'Net cash from financing activities' },
+] as const;
+
+// Balance-sheet lines read as the change in the account, e.g. "Change in Accounts Receivable"
+const lineLabel = (row: CashFlowRow) => row.account_id ? `Change in ${row.account_name}` : row.account_name;
+
+export function CashFlowReport() {
+  const [preset, setPreset] = useState<ReportPreset>('this_month');
+  const [range, setRange] = useState<DateRange>(presetRange('this_month'));
+  const [rows, setRows] = useState<CashFlowRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [drillDown, setDrillDown] = useState<DrillDownTarget | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchReport();
+  }, [range.start, range.end]);
+
+  const fetchReport = async () => {
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase.rpc('cash_flow_statement', {
+        p_start_date: range.start,
+        p_end_date: range.end
+      });
+      if (error) throw error;
+
+      setRows(data || []);
+    } catch (error) {
+      console.error('Error fetching cash flow statement:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the cash flow statement",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const amountOf = (section: string) =>
+    rows.filter((row) => row.section === section).reduce((sum, row) => sum + Number(row.amount), 0);
+
+  const sections = SECTIONS.map((section) => ({
+    ...section,
+    lines: rows
+      .filter((row) => row.section === section.key)
+      .sort((a, b) => Number(!!a.account_id) - Number(!!b.account_id) || (a.account_code || '').localeCompare(b.account_code || '')),
+    total: amountOf(section.key),
+  }));
+
+  const netChange = sections.reduce((sum, section) => sum + section.total, 0);
+  const beginningCash = amountOf('beginning_cash');
+  const endingCash = amountOf('ending_cash');
+  // Only differs when the journal itself is out of balance
+  const reconciles = Math.abs(beginningCash + netChange - endingCash) < 0.005;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Cash Flow Statement</CardTitle>
+        <CardDescription>{formatRange(range)} · indirect method</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ReportPeriodPicker
+          preset={preset}
+          range={range}
+          onChange={(nextPreset, nextRange) => {
+            setPreset(nextPreset);
+            setRange(nextRange);
+          }}
+        />
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Line</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sections.map((section) => (
+                <Fragment key={section.key}>
+                  <TableRow className="bg-muted/50">
+                    <TableCell colSpan={2} className="font-semibold">{section.title}</TableCell>
+                  </TableRow>
+                  {section.lines.map((row) => (
+                    <TableRow key={row.account_id || row.account_name}>
+                      <TableCell className="pl-6">{lineLabel(row)}</TableCell>
+                      <TableCell className="text-right">
+                        {row.account_id ? (
+                          <button
+                            type="button"
+                            className="hover:underline"
+                            title="Show transactions"
+                            onClick={() => setDrillDown({ accountId: row.account_id!, accountName: row.account_name, range })}
+                          >
+                            {formatCurrency(Number(row.amount))}
+                          </button>
+                        ) : formatCurrency(Number(row.amount))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow className="font-medium">
+                    <TableCell>{section.totalLabel}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(section.total)}</TableCell>
+                  </TableRow>
+                </Fragment>
+              ))}
+              <TableRow className="font-semibold border-t-2">
+                <TableCell>Net change in cash</TableCell>
+                <TableCell className={cn("text-right", netChange < 0 && "text-red-600")}>{formatCurrency(netChange)}</TableCell>
+              </TableRow>
+              <TableRow>
+                <TableCell>Cash at beginning of period</TableCell>
+                <TableCell className="text-right">{formatCurrency(beginningCash)}</TableCell>
+              </TableRow>
+              <TableRow className="font-semibold">
+                <TableCell>
+                  Cash at end of period
+                  {!reconciles && (
+                    <Badge variant="destructive" className="ml-2">Does not match cash accounts</Badge>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">{formatCurrency(endingCash)}</TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Accounts are grouped by their cash flow classification, set in the chart of accounts on the Dashboard.
+        </p>
+      </CardContent>
+
+      <DrillDownDialog target={drillDown} onClose={() => setDrillDown(null)} />
+    </Card>
+  );
+}
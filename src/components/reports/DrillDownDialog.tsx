@@ -0,0 +1,130 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency, formatRange, formatShortDate, type DateRange } from '@/lib/reports';
+
+export interface DrillDownTarget {
+  accountId: string;
+  accountName: string;
+  range: DateRange;
+}
+
+interface DrillDownLine {
+  id: string;
+  debit: number;
+  credit: number;
+  description: string | null;
+  journal_entries: {
+    entry_date: string;
+    description: string;
+    reference_number: string | null;
+    source_type: string;
+  };
+}
+
+interface DrillDownDialogProps {
+  target: DrillDownTarget | null;
+  onClose: () => void;
+}
+
+// Journal lines behind one report figure
+export function DrillDownDialog({ target, onClose }: DrillDownDialogProps) {
+  const [lines, setLines] = useState<DrillDownLine[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (target) fetchLines(target);
+  }, [target]);
+
+  const fetchLines = async ({ accountId, range }: DrillDownTarget) => {
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from('journal_lines')
+        .select('id, debit, credit, description, journal_entries!inner(entry_date, description, reference_number, source_type)')
+        .eq('account_id', accountId)
+        .neq('journal_entries.source_type', 'closing')
+        .gte('journal_entries.entry_date', range.start)
+        .lte('journal_entries.entry_date', range.end);
+
+      if (error) throw error;
+
+      const loaded = (data || []) as unknown as DrillDownLine[];
+      loaded.sort((a, b) => a.journal_entries.entry_date.localeCompare(b.journal_entries.entry_date));
+      setLines(loaded);
+    } catch (error) {
+      console.error('Error fetching report details:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the underlying transactions",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const totalDebit = lines.reduce((sum, line) => sum + Number(line.debit), 0);
+  const totalCredit = lines.reduce((sum, line) => sum + Number(line.credit), 0);
+
+  return (
+    <Dialog open={!!target} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{target?.accountName}</DialogTitle>
+          <DialogDescription>{target && formatRange(target.range)}</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : lines.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No postings in this period.</p>
+        ) : (
+          <div className="max-h-[60vh] overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead className="text-right">Debit</TableHead>
+                  <TableHead className="text-right">Credit</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.map((line) => (
+                  <TableRow key={line.id}>
+                    <TableCell className="whitespace-nowrap">{formatShortDate(line.journal_entries.entry_date)}</TableCell>
+                    <TableCell>
+                      {line.description || line.journal_entries.description}
+                      {line.journal_entries.reference_number && (
+                        <span className="text-xs text-muted-foreground ml-2">#{line.journal_entries.reference_number}</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">
+                        {line.journal_entries.source_type === 'transaction' ? 'Transaction' : 'Journal entry'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{line.debit > 0 ? formatCurrency(Number(line.debit)) : ''}</TableCell>
+                    <TableCell className="text-right">{line.credit > 0 ? formatCurrency(Number(line.credit)) : ''}</TableCell>
+                  </TableRow>
+                ))}
+                <TableRow className="font-medium">
+                  <TableCell colSpan={3}>Total</TableCell>
+                  <TableCell className="text-right">{formatCurrency(totalDebit)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(totalCredit)}</TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,304 @@
+import { useState, useEffect, Fragment } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import {
+  comparisonRange,
+  formatCurrency,
+  formatRange,
+  percentChange,
+  periodLabel,
+  presetRange,
+  splitRange,
+  type ComparisonMode,
+  type DateRange,
+  type ReportInterval,
+  type ReportPreset,
+} from '@/lib/reports';
+import { ReportPeriodPicker } from './ReportPeriodPicker';
+import { DrillDownDialog, type DrillDownTarget } from './DrillDownDialog';
+
+interface ProfitAndLossRow {
+  account_id: string;
+  account_name: string;
+  account_code: string | null;
+  account_type: 'revenue' | 'expense' | string;
+  period_start: string;
+  amount: number;
+}
+
+interface ReportAccount {
+  id: string;
+  name: string;
+  code: string | null;
+  // Amount per column period, keyed by period start
+  amounts: Record<string, number>;
+  total: number;
+  comparison: number;
+}
+
+const SECTIONS = [
+  { type: 'revenue', title: 'Revenue', totalLabel: 'Total revenue' },
+  { type: 'expense', title: 'Expenses', totalLabel: 'Total expenses' },
+] as const;
+
+function buildSection(rows: ProfitAndLossRow[], comparisonRows: ProfitAndLossRow[], type: string) {
+  const accounts = new Map<string, ReportAccount>();
+  const account = (row: ProfitAndLossRow) => {
+    const existing = accounts.get(row.account_id);
+    if (existing) return existing;
+
+    const created = { id: row.account_id, name: row.account_name, code: row.account_code, amounts: {}, total: 0, comparison: 0 };
+    accounts.set(row.account_id, created);
+    return created;
+  };
+
+  for (const row of rows.filter((r) => r.account_type === type)) {
+    const entry = account(row);
+    entry.amounts[row.period_start] = (entry.amounts[row.period_start] || 0) + Number(row.amount);
+    entry.total += Number(row.amount);
+  }
+  for (const row of comparisonRows.filter((r) => r.account_type === type)) {
+    account(row).comparison += Number(row.amount);
+  }
+
+  return [...accounts.values()].sort((a, b) =>
+    (a.code || '').localeCompare(b.code || '') || a.name.localeCompare(b.name));
+}
+
+const sumBy = (accounts: ReportAccount[], value: (account: ReportAccount) => number) =>
+  accounts.reduce((total, account) => total + value(account), 0);
+
+export function ProfitAndLossReport() {
+  const [preset, setPreset] = useState<ReportPreset>('this_year');
+  const [range, setRange] = useState<DateRange>(presetRange('this_year'));
+  const [interval, setInterval] = useState<ReportInterval>('month');
+  const [comparison, setComparison] = useState<ComparisonMode>('previous_period');
+  const [rows, setRows] = useState<ProfitAndLossRow[]>([]);
+  const [comparisonRows, setComparisonRows] = useState<ProfitAndLossRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [drillDown, setDrillDown] = useState<DrillDownTarget | null>(null);
+  const { toast } = useToast();
+
+  const compareRange = comparisonRange(range, comparison);
+
+  useEffect(() => {
+    fetchReport();
+  }, [range.start, range.end, interval, comparison]);
+
+  const fetchReport = async () => {
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase.rpc('profit_and_loss', {
+        p_start_date: range.start,
+        p_end_date: range.end,
+        p_interval: interval
+      });
+      if (error) throw error;
+
+      let previous: ProfitAndLossRow[] = [];
+      if (compareRange) {
+        const { data: comparisonData, error: comparisonError } = await supabase.rpc('profit_and_loss', {
+          p_start_date: compareRange.start,
+          p_end_date: compareRange.end,
+          p_interval: 'total'
+        });
+        if (comparisonError) throw comparisonError;
+        previous = comparisonData || [];
+      }
+
+      setRows(data || []);
+      setComparisonRows(previous);
+    } catch (error) {
+      console.error('Error fetching profit and loss:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the profit & loss report",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const periods = splitRange(range, interval);
+  const showTotal = periods.length > 1;
+  const sections = SECTIONS.map((section) => ({ ...section, accounts: buildSection(rows, comparisonRows, section.type) }));
+  const [revenue, expenses] = sections.map((section) => section.accounts);
+
+  const netFor = (value: (account: ReportAccount) => number) => sumBy(revenue, value) - sumBy(expenses, value);
+
+  // One rendered figure per column: periods, then total and comparison columns
+  const columns = [
+    ...periods.map((period) => ({
+      key: period.start,
+      label: periodLabel(period, interval),
+      range: period,
+      value: (account: ReportAccount) => account.amounts[period.start] || 0,
+    })),
+    ...(showTotal ? [{ key: 'total', label: 'Total', range, value: (account: ReportAccount) => account.total }] : []),
+    ...(compareRange ? [{
+      key: 'comparison',
+      label: comparison === 'previous_year' ? 'Prior year' : 'Prior period',
+      range: compareRange,
+      value: (account: ReportAccount) => account.comparison,
+    }] : []),
+  ];
+
+  const renderChange = (current: number, previous: number) => {
+    const change = percentChange(current, previous);
+    return (
+      <>
+        <TableCell className="text-right">{formatCurrency(current - previous)}</TableCell>
+        <TableCell className="text-right">{change === null ? '—' : `${change.toFixed(1)}%`}</TableCell>
+      </>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Profit & Loss</CardTitle>
+        <CardDescription>
+          {formatRange(range)}
+          {compareRange && ` compared with ${formatRange(compareRange)}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-3">
+          <ReportPeriodPicker
+            preset={preset}
+            range={range}
+            onChange={(nextPreset, nextRange) => {
+              setPreset(nextPreset);
+              setRange(nextRange);
+            }}
+          />
+          <div className="space-y-1">
+            <Label>Columns</Label>
+            <Select value={interval} onValueChange={(value) => setInterval(value as ReportInterval)}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="total">Total only</SelectItem>
+                <SelectItem value="month">Months</SelectItem>
+                <SelectItem value="quarter">Quarters</SelectItem>
+                <SelectItem value="year">Years</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Compare with</Label>
+            <Select value={comparison} onValueChange={(value) => setComparison(value as ComparisonMode)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No comparison</SelectItem>
+                <SelectItem value="previous_period">Previous period</SelectItem>
+                <SelectItem value="previous_year">Same period last year</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Account</TableHead>
+                  {columns.map((column) => (
+                    <TableHead key={column.key} className="text-right whitespace-nowrap">{column.label}</TableHead>
+                  ))}
+                  {compareRange && (
+                    <>
+                      <TableHead className="text-right">Change</TableHead>
+                      <TableHead className="text-right">Change %</TableHead>
+                    </>
+                  )}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sections.map((section) => (
+                  <Fragment key={section.type}>
+                    <TableRow className="bg-muted/50">
+                      <TableCell colSpan={columns.length + (compareRange ? 3 : 1)} className="font-semibold">
+                        {section.title}
+                      </TableCell>
+                    </TableRow>
+                    {section.accounts.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={columns.length + (compareRange ? 3 : 1)} className="text-muted-foreground">
+                          No {section.title.toLowerCase()} in this period
+                        </TableCell>
+                      </TableRow>
+                    )}
+                    {section.accounts.map((account) => (
+                      <TableRow key={account.id}>
+                        <TableCell className="pl-6">
+                          {account.code && <span className="text-muted-foreground mr-2">{account.code}</span>}
+                          {account.name}
+                        </TableCell>
+                        {columns.map((column) => (
+                          <TableCell key={column.key} className="text-right">
+                            <button
+                              type="button"
+                              className="hover:underline"
+                              title="Show transactions"
+                              onClick={() => setDrillDown({ accountId: account.id, accountName: account.name, range: column.range })}
+                            >
+                              {formatCurrency(column.value(account))}
+                            </button>
+                          </TableCell>
+                        ))}
+                        {compareRange && renderChange(account.total, account.comparison)}
+                      </TableRow>
+                    ))}
+                    <TableRow className="font-medium">
+                      <TableCell>{section.totalLabel}</TableCell>
+                      {columns.map((column) => (
+                        <TableCell key={column.key} className="text-right">
+                          {formatCurrency(sumBy(section.accounts, column.value))}
+                        </TableCell>
+                      ))}
+                      {compareRange && renderChange(
+                        sumBy(section.accounts, (account) => account.total),
+                        sumBy(section.accounts, (account) => account.comparison)
+                      )}
+                    </TableRow>
+                  </Fragment>
+                ))}
+                <TableRow className="font-semibold border-t-2">
+                  <TableCell>Net income</TableCell>
+                  {columns.map((column) => {
+                    const net = netFor(column.value);
+                    return (
+                      <TableCell key={column.key} className={cn("text-right", net < 0 && "text-red-600")}>
+                        {formatCurrency(net)}
+                      </TableCell>
+                    );
+                  })}
+                  {compareRange && renderChange(
+                    netFor((account) => account.total),
+                    netFor((account) => account.comparison)
+                  )}
+                </TableRow>
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <DrillDownDialog target={drillDown} onClose={() => setDrillDown(null)} />
+    </Card>
+  );
+}
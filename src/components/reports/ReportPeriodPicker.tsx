@@ -0,0 +1,59 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { REPORT_PRESETS, presetRange, type DateRange, type ReportPreset } from '@/lib/reports';
+
+interface ReportPeriodPickerProps {
+  preset: ReportPreset;
+  range: DateRange;
+  onChange: (preset: ReportPreset, range: DateRange) => void;
+}
+
+// Preset periods plus editable start and end dates; editing a date switches to Custom
+export function ReportPeriodPicker({ preset, range, onChange }: ReportPeriodPickerProps) {
+  return (
+    <div className="flex flex-wrap items-end gap-3">
+      <div className="space-y-1">
+        <Label>Period</Label>
+        <Select
+          value={preset}
+          onValueChange={(value) => {
+            const next = value as ReportPreset;
+            onChange(next, next === 'custom' ? range : presetRange(next));
+          }}
+        >
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {REPORT_PRESETS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="report-start">From</Label>
+        <Input
+          id="report-start"
+          type="date"
+          className="w-40"
+          value={range.start}
+          max={range.end}
+          onChange={(e) => e.target.value && onChange('custom', { ...range, start: e.target.value })}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="report-end">To</Label>
+        <Input
+          id="report-end"
+          type="date"
+          className="w-40"
+          value={range.end}
+          min={range.start}
+          onChange={(e) => e.target.value && onChange('custom', { ...range, end: e.target.value })}
+        />
+      </div>
+    </div>
+  );
+}
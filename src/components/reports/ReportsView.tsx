@@ -0,0 +1,38 @@
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ProfitAndLossReport } from './ProfitAndLossReport';
+import { BalanceSheetReport } from './BalanceSheetReport';
+import { TrialBalanceReport } from './TrialBalanceReport';
+import { CashFlowReport } from './CashFlowReport';
+import { TaxReturnReport } from './TaxReturnReport';
+
+export function ReportsView() {
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-semibold">Financial Reports</h2>
+      <Tabs defaultValue="profit_and_loss">
+        <TabsList>
+          <TabsTrigger value="profit_and_loss">Profit & Loss</TabsTrigger>
+          <TabsTrigger value="balance_sheet">Balance Sheet</TabsTrigger>
+          <TabsTrigger value="cash_flow">Cash Flow</TabsTrigger>
+          <TabsTrigger value="trial_balance">Trial Balance</TabsTrigger>
+          <TabsTrigger value="tax_return">Tax Return</TabsTrigger>
+        </TabsList>
+        <TabsContent value="profit_and_loss">
+          <ProfitAndLossReport />
+        </TabsContent>
+        <TabsContent value="balance_sheet">
+          <BalanceSheetReport />
+        </TabsContent>
+        <TabsContent value="cash_flow">
+          <CashFlowReport />
+        </TabsContent>
+        <TabsContent value="trial_balance">
+          <TrialBalanceReport />
+        </TabsContent>
+        <TabsContent value="tax_return">
+          <TaxReturnReport />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
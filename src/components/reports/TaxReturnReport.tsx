@@ -0,0 +1,163 @@
+import { useState, useEffect, Fragment } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { useToast } from '@/hooks/use-toast';
+import {
+  formatCurrency,
+  formatRange,
+  periodLabel,
+  presetRange,
+  type DateRange,
+  type ReportInterval,
+  type ReportPreset,
+} from '@/lib/reports';
+import { ReportPeriodPicker } from './ReportPeriodPicker';
+
+type TaxReturnRow = Database['public']['Functions']['tax_return']['Returns'][number];
+
+const sum = (rows: TaxReturnRow[], value: (row: TaxReturnRow) => number) =>
+  rows.reduce((total, row) => total + Number(value(row)), 0);
+
+export function TaxReturnReport() {
+  const [preset, setPreset] = useState<ReportPreset>('this_year');
+  const [range, setRange] = useState<DateRange>(presetRange('this_year'));
+  const [interval, setInterval] = useState<ReportInterval>('quarter');
+  const [rows, setRows] = useState<TaxReturnRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchReport();
+  }, [range.start, range.end, interval]);
+
+  const fetchReport = async () => {
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase.rpc('tax_return', {
+        p_start_date: range.start,
+        p_end_date: range.end,
+        p_interval: interval
+      });
+      if (error) throw error;
+
+      setRows(data || []);
+    } catch (error) {
+      console.error('Error fetching tax return:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the tax return",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Periods with tax in them, in date order as returned
+  const periods = [...new Map(rows.map((row) => [row.period_start, { start: row.period_start, end: row.period_end }])).values()];
+  const netTax = sum(rows, (row) => row.net_tax);
+
+  const renderFigures = (group: TaxReturnRow[]) => (
+    <>
+      <TableCell className="text-right">{formatCurrency(sum(group, (row) => row.taxable_sales))}</TableCell>
+      <TableCell className="text-right">{formatCurrency(sum(group, (row) => row.tax_collected))}</TableCell>
+      <TableCell className="text-right">{formatCurrency(sum(group, (row) => row.taxable_purchases))}</TableCell>
+      <TableCell className="text-right">{formatCurrency(sum(group, (row) => row.tax_paid))}</TableCell>
+      <TableCell className="text-right">{formatCurrency(sum(group, (row) => row.net_tax))}</TableCell>
+    </>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Tax Return</CardTitle>
+        <CardDescription>
+          Tax collected on sales and paid on purchases, {formatRange(range)}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-3">
+          <ReportPeriodPicker
+            preset={preset}
+            range={range}
+            onChange={(nextPreset, nextRange) => {
+              setPreset(nextPreset);
+              setRange(nextRange);
+            }}
+          />
+          <div className="space-y-1">
+            <Label>Filing period</Label>
+            <Select value={interval} onValueChange={(value) => setInterval(value as ReportInterval)}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="total">Whole range</SelectItem>
+                <SelectItem value="month">Monthly</SelectItem>
+                <SelectItem value="quarter">Quarterly</SelectItem>
+                <SelectItem value="year">Yearly</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No tax charged in this period.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tax</TableHead>
+                <TableHead className="text-right">Taxable sales</TableHead>
+                <TableHead className="text-right">Tax collected</TableHead>
+                <TableHead className="text-right">Taxable purchases</TableHead>
+                <TableHead className="text-right">Tax paid</TableHead>
+                <TableHead className="text-right">Net tax</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {periods.map((period) => {
+                const group = rows.filter((row) => row.period_start === period.start);
+                return (
+                  <Fragment key={period.start}>
+                    {interval !== 'total' && (
+                      <TableRow className="bg-muted/50">
+                        <TableCell colSpan={6} className="font-semibold">{periodLabel(period, interval)}</TableCell>
+                      </TableRow>
+                    )}
+                    {group.map((row) => (
+                      <TableRow key={`${row.period_start}-${row.tax_rate_id}`}>
+                        <TableCell className="pl-6">
+                          {row.tax_name}
+                          {row.rate !== null && <span className="text-muted-foreground"> ({Number(row.rate)}%)</span>}
+                        </TableCell>
+                        {renderFigures([row])}
+                      </TableRow>
+                    ))}
+                    {interval !== 'total' && (
+                      <TableRow className="font-medium">
+                        <TableCell>Total for {periodLabel(period, interval)}</TableCell>
+                        {renderFigures(group)}
+                      </TableRow>
+                    )}
+                  </Fragment>
+                );
+              })}
+              <TableRow className="font-semibold border-t-2">
+                <TableCell>{netTax >= 0 ? 'Net tax owed' : 'Net tax refundable'}</TableCell>
+                {renderFigures(rows)}
+              </TableRow>
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,131 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency, formatShortDate, today } from '@/lib/reports';
+
+interface TrialBalanceRow {
+  account_id: string;
+  account_name: string;
+  account_code: string | null;
+  account_type: string;
+  debit: number;
+  credit: number;
+}
+
+export function TrialBalanceReport() {
+  const [asOf, setAsOf] = useState(today());
+  const [rows, setRows] = useState<TrialBalanceRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchReport();
+  }, [asOf]);
+
+  const fetchReport = async () => {
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase.rpc('trial_balance', { p_as_of: asOf });
+      if (error) throw error;
+
+      const loaded = (data || []) as TrialBalanceRow[];
+      loaded.sort((a, b) =>
+        (a.account_code || '').localeCompare(b.account_code || '') || a.account_name.localeCompare(b.account_name));
+      setRows(loaded);
+    } catch (error) {
+      console.error('Error fetching trial balance:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the trial balance",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const totalDebit = rows.reduce((sum, row) => sum + Number(row.debit), 0);
+  const totalCredit = rows.reduce((sum, row) => sum + Number(row.credit), 0);
+  const difference = totalDebit - totalCredit;
+  const balanced = Math.abs(difference) < 0.005;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Trial Balance</CardTitle>
+        <CardDescription>As of {formatShortDate(asOf)}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1">
+          <Label htmlFor="trial-balance-date">As of</Label>
+          <Input
+            id="trial-balance-date"
+            type="date"
+            className="w-40"
+            value={asOf}
+            onChange={(e) => e.target.value && setAsOf(e.target.value)}
+          />
+        </div>
+
+        {!loading && !balanced && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Debits and credits don't match</AlertTitle>
+            <AlertDescription>
+              Total debits and total credits differ by {formatCurrency(Math.abs(difference))}. Review recent journal entries.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No postings up to this date.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead>Account</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead className="text-right">Debit</TableHead>
+                <TableHead className="text-right">Credit</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.account_id}>
+                  <TableCell className="text-muted-foreground">{row.account_code}</TableCell>
+                  <TableCell>{row.account_name}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className="capitalize">{row.account_type}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right">{Number(row.debit) > 0 ? formatCurrency(Number(row.debit)) : ''}</TableCell>
+                  <TableCell className="text-right">{Number(row.credit) > 0 ? formatCurrency(Number(row.credit)) : ''}</TableCell>
+                </TableRow>
+              ))}
+              <TableRow className="font-semibold border-t-2">
+                <TableCell colSpan={3}>
+                  Total
+                  <Badge variant={balanced ? "secondary" : "destructive"} className="ml-2">
+                    {balanced ? 'Balanced' : 'Out of balance'}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-right">{formatCurrency(totalDebit)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(totalCredit)}</TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
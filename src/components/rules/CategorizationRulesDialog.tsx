@@ -0,0 +1,464 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Lightbulb, Pencil, Plus, Trash2, Wand2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency } from '@/lib/reports';
+
+type CategorizationRule = Database['public']['Tables']['categorization_rules']['Row'];
+type RuleMatchType = Database['public']['Enums']['rule_match_type'];
+type RuleSuggestion = Database['public']['Functions']['suggest_categorization_rules']['Returns'][number];
+
+interface Option {
+  id: string;
+  name: string;
+  account_type?: string;
+}
+
+const NONE = 'none';
+
+const EMPTY_RULE = {
+  name: '',
+  match_type: 'contains' as RuleMatchType,
+  pattern: '',
+  min_amount: '',
+  max_amount: '',
+  payment_account_id: NONE,
+  set_account_id: NONE,
+  set_category_id: NONE,
+  set_vendor_id: NONE,
+  priority: '100',
+};
+
+const fromSelect = (value: string) => (value === NONE ? null : value);
+const toSelect = (value: string | null) => value || NONE;
+
+export function CategorizationRulesDialog() {
+  const [open, setOpen] = useState(false);
+  const [rules, setRules] = useState<CategorizationRule[]>([]);
+  const [suggestions, setSuggestions] = useState<RuleSuggestion[]>([]);
+  const [accounts, setAccounts] = useState<Option[]>([]);
+  const [categories, setCategories] = useState<Option[]>([]);
+  const [vendors, setVendors] = useState<Option[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [form, setForm] = useState(EMPTY_RULE);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) {
+      fetchOptions();
+      fetchRules();
+    }
+  }, [open]);
+
+  const fetchOptions = async () => {
+    try {
+      const [accountResult, categoryResult, vendorResult] = await Promise.all([
+        supabase.from('accounts').select('id, name, account_type').eq('is_active', true).order('code'),
+        supabase.from('categories').select('id, name').order('name'),
+        supabase.from('vendors').select('id, name').eq('is_active', true).order('name'),
+      ]);
+
+      if (accountResult.error) throw accountResult.error;
+      if (categoryResult.error) throw categoryResult.error;
+      if (vendorResult.error) throw vendorResult.error;
+
+      setAccounts(accountResult.data || []);
+      setCategories(categoryResult.data || []);
+      setVendors(vendorResult.data || []);
+    } catch (error) {
+      console.error('Error fetching rule options:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load accounts, categories and vendors",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const fetchRules = async () => {
+    try {
+      const [ruleResult, suggestionResult] = await Promise.all([
+        supabase.from('categorization_rules').select('*').order('priority').order('created_at'),
+        supabase.rpc('suggest_categorization_rules'),
+      ]);
+
+      if (ruleResult.error) throw ruleResult.error;
+      if (suggestionResult.error) throw suggestionResult.error;
+
+      setRules(ruleResult.data || []);
+      setSuggestions(suggestionResult.data || []);
+    } catch (error) {
+      console.error('Error fetching categorization rules:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load categorization rules",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const nameOf = (options: Option[], id: string | null) => options.find((option) => option.id === id)?.name;
+
+  const startEditing = (rule: CategorizationRule | null) => {
+    setEditingId(rule?.id || null);
+    setForm(rule ? {
+      name: rule.name,
+      match_type: rule.match_type,
+      pattern: rule.pattern,
+      min_amount: rule.min_amount !== null ? String(rule.min_amount) : '',
+      max_amount: rule.max_amount !== null ? String(rule.max_amount) : '',
+      payment_account_id: toSelect(rule.payment_account_id),
+      set_account_id: toSelect(rule.set_account_id),
+      set_category_id: toSelect(rule.set_category_id),
+      set_vendor_id: toSelect(rule.set_vendor_id),
+      priority: String(rule.priority),
+    } : EMPTY_RULE);
+    setIsEditorOpen(true);
+  };
+
+  const saveRule = async () => {
+    try {
+      setIsSaving(true);
+
+      const { data: userData } = await supabase.auth.getUser();
+      if (!userData.user) throw new Error('Not authenticated');
+
+      const values = {
+        name: form.name || form.pattern,
+        match_type: form.match_type,
+        pattern: form.pattern,
+        min_amount: form.min_amount ? parseFloat(form.min_amount) : null,
+        max_amount: form.max_amount ? parseFloat(form.max_amount) : null,
+        payment_account_id: fromSelect(form.payment_account_id),
+        set_account_id: fromSelect(form.set_account_id),
+        set_category_id: fromSelect(form.set_category_id),
+        set_vendor_id: fromSelect(form.set_vendor_id),
+        priority: parseInt(form.priority) || 100,
+      };
+
+      const { error } = editingId
+        ? await supabase.from('categorization_rules').update(values).eq('id', editingId)
+        : await supabase.from('categorization_rules').insert([{ ...values, user_id: userData.user.id }]);
+
+      // The pattern check rejects regular expressions that do not compile
+      if (error) throw new Error(error.code === '23514' || error.code === '2201B' ? 'The pattern is empty or not a valid regular expression' : error.message);
+
+      toast({
+        title: "Success",
+        description: editingId ? "Rule updated" : "Rule created"
+      });
+      setIsEditorOpen(false);
+      fetchRules();
+    } catch (error) {
+      console.error('Error saving categorization rule:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save the rule",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleRule = async (rule: CategorizationRule, isActive: boolean) => {
+    const { error } = await supabase
+      .from('categorization_rules')
+      .update({ is_active: isActive })
+      .eq('id', rule.id);
+
+    if (error) {
+      console.error('Error updating categorization rule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update the rule",
+        variant: "destructive"
+      });
+      return;
+    }
+    fetchRules();
+  };
+
+  const deleteRule = async (rule: CategorizationRule) => {
+    const { error } = await supabase
+      .from('categorization_rules')
+      .delete()
+      .eq('id', rule.id);
+
+    if (error) {
+      console.error('Error deleting categorization rule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete the rule",
+        variant: "destructive"
+      });
+      return;
+    }
+    fetchRules();
+  };
+
+  const acceptSuggestion = async (suggestion: RuleSuggestion) => {
+    try {
+      const { data: userData } = await supabase.auth.getUser();
+      if (!userData.user) throw new Error('Not authenticated');
+
+      const { error } = await supabase
+        .from('categorization_rules')
+        .insert([{
+          user_id: userData.user.id,
+          name: suggestion.pattern.replace(/\b\w/g, (c) => c.toUpperCase()),
+          match_type: 'contains',
+          pattern: suggestion.pattern,
+          set_account_id: suggestion.account_id,
+          set_category_id: suggestion.category_id,
+          set_vendor_id: suggestion.vendor_id,
+        }]);
+
+      if (error) throw error;
+
+      toast({
+        title: "Rule created",
+        description: `Transactions containing "${suggestion.pattern}" will be categorized automatically`
+      });
+      fetchRules();
+    } catch (error) {
+      console.error('Error creating suggested rule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create the rule",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const describeCondition = (rule: CategorizationRule) => {
+    const parts = [rule.match_type === 'regex' ? `matches /${rule.pattern}/` : `contains "${rule.pattern}"`];
+    if (rule.min_amount !== null && rule.max_amount !== null) {
+      parts.push(`${formatCurrency(rule.min_amount)} to ${formatCurrency(rule.max_amount)}`);
+    } else if (rule.min_amount !== null) {
+      parts.push(`at least ${formatCurrency(rule.min_amount)}`);
+    } else if (rule.max_amount !== null) {
+      parts.push(`up to ${formatCurrency(rule.max_amount)}`);
+    }
+    if (rule.payment_account_id) parts.push(`via ${nameOf(accounts, rule.payment_account_id)}`);
+    return parts.join(', ');
+  };
+
+  const describeResult = (values: { account_id: string | null; category_id: string | null; vendor_id: string | null }) =>
+    [nameOf(accounts, values.account_id), nameOf(categories, values.category_id), nameOf(vendors, values.vendor_id)]
+      .filter(Boolean)
+      .join(' · ');
+
+  const optionSelect = (label: string, value: string, onChange: (value: string) => void, options: Option[]) => (
+    <div className="space-y-1">
+      <Label>{label}</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NONE}>{label.startsWith('Only') ? 'Any account' : 'Leave unchanged'}</SelectItem>
+          {options.map((option) => (
+            <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { setOpen(next); if (!next) setIsEditorOpen(false); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Wand2 className="h-4 w-4 mr-2" />
+          Rules
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Categorization Rules</DialogTitle>
+          <DialogDescription>
+            Rules set the account, category and vendor of imported and AI-recorded transactions. The first matching rule by priority wins.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {suggestions.length > 0 && (
+            <div className="border rounded-lg p-4 space-y-2">
+              <h3 className="font-medium flex items-center gap-2">
+                <Lightbulb className="h-4 w-4" />
+                Suggested from your history
+              </h3>
+              {suggestions.map((suggestion) => (
+                <div key={suggestion.pattern} className="flex items-center justify-between gap-4 text-sm">
+                  <div>
+                    <span className="font-medium">"{suggestion.pattern}"</span>
+                    <span className="text-muted-foreground"> → {describeResult(suggestion)} ({suggestion.transaction_count} transactions)</span>
+                  </div>
+                  <Button size="sm" variant="outline" onClick={() => acceptSuggestion(suggestion)}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add rule
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {isEditorOpen ? (
+            <div className="border rounded-lg p-4 space-y-4">
+              <h3 className="font-medium">{editingId ? 'Edit rule' : 'New rule'}</h3>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="rule-name">Name</Label>
+                  <Input
+                    id="rule-name"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    placeholder="e.g. Rideshare"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>Description</Label>
+                  <Select value={form.match_type} onValueChange={(value) => setForm({ ...form, match_type: value as RuleMatchType })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="contains">Contains</SelectItem>
+                      <SelectItem value="regex">Matches regular expression</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="rule-pattern">Pattern</Label>
+                  <Input
+                    id="rule-pattern"
+                    value={form.pattern}
+                    onChange={(e) => setForm({ ...form, pattern: e.target.value })}
+                    placeholder={form.match_type === 'regex' ? '^(uber|lyft)' : 'uber'}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="rule-min">Amount at least</Label>
+                  <Input
+                    id="rule-min"
+                    type="number"
+                    step="0.01"
+                    value={form.min_amount}
+                    onChange={(e) => setForm({ ...form, min_amount: e.target.value })}
+                    placeholder="Any"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="rule-max">Amount at most</Label>
+                  <Input
+                    id="rule-max"
+                    type="number"
+                    step="0.01"
+                    value={form.max_amount}
+                    onChange={(e) => setForm({ ...form, max_amount: e.target.value })}
+                    placeholder="Any"
+                  />
+                </div>
+                {optionSelect(
+                  'Only through account',
+                  form.payment_account_id,
+                  (value) => setForm({ ...form, payment_account_id: value }),
+                  accounts.filter((a) => a.account_type === 'asset' || a.account_type === 'liability')
+                )}
+                {optionSelect(
+                  'Set account',
+                  form.set_account_id,
+                  (value) => setForm({ ...form, set_account_id: value }),
+                  accounts.filter((a) => a.account_type === 'expense' || a.account_type === 'revenue')
+                )}
+                {optionSelect('Set category', form.set_category_id, (value) => setForm({ ...form, set_category_id: value }), categories)}
+                {optionSelect('Set vendor', form.set_vendor_id, (value) => setForm({ ...form, set_vendor_id: value }), vendors)}
+                <div className="space-y-1">
+                  <Label htmlFor="rule-priority">Priority</Label>
+                  <Input
+                    id="rule-priority"
+                    type="number"
+                    value={form.priority}
+                    onChange={(e) => setForm({ ...form, priority: e.target.value })}
+                  />
+                  <p className="text-xs text-muted-foreground">Lower numbers are checked first</p>
+                </div>
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setIsEditorOpen(false)}>Cancel</Button>
+                <Button
+                  onClick={saveRule}
+                  disabled={isSaving || !form.pattern.trim() || (form.set_account_id === NONE && form.set_category_id === NONE && form.set_vendor_id === NONE)}
+                >
+                  {isSaving ? 'Saving...' : 'Save Rule'}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex justify-end">
+              <Button onClick={() => startEditing(null)}>
+                <Plus className="h-4 w-4 mr-2" />
+                New Rule
+              </Button>
+            </div>
+          )}
+
+          {rules.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No rules yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">Priority</TableHead>
+                  <TableHead>Rule</TableHead>
+                  <TableHead>When description</TableHead>
+                  <TableHead>Sets</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map((rule) => (
+                  <TableRow key={rule.id} className={rule.is_active ? undefined : 'opacity-60'}>
+                    <TableCell>{rule.priority}</TableCell>
+                    <TableCell className="font-medium">{rule.name}</TableCell>
+                    <TableCell>
+                      {describeCondition(rule)}
+                      {rule.match_type === 'regex' && <Badge variant="outline" className="ml-2">regex</Badge>}
+                    </TableCell>
+                    <TableCell>
+                      {describeResult({ account_id: rule.set_account_id, category_id: rule.set_category_id, vendor_id: rule.set_vendor_id })}
+                    </TableCell>
+                    <TableCell>
+                      <Switch checked={rule.is_active} onCheckedChange={(checked) => toggleRule(rule, checked)} />
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button variant="ghost" size="sm" onClick={() => startEditing(rule)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => deleteRule(rule)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,180 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { COMMON_CURRENCIES, setBaseCurrency } from '@/lib/currency';
+import { MONTH_NAMES } from '@/lib/periods';
+
+interface SettingsDialogProps {
+  children: React.ReactNode;
+}
+
+export function SettingsDialog({ children }: SettingsDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [settings, setSettings] = useState({
+    auto_commit_enabled: false,
+    auto_commit_threshold: '0',
+    base_currency: 'USD',
+    fiscal_year_start_month: '1'
+  });
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (isOpen) fetchSettings();
+  }, [isOpen]);
+
+  const fetchSettings = async () => {
+    try {
+      const { data: userData } = await supabase.auth.getUser();
+      if (!userData.user) throw new Error('Not authenticated');
+
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('auto_commit_enabled, auto_commit_threshold, base_currency, fiscal_year_start_month')
+        .eq('user_id', userData.user.id)
+        .single();
+
+      if (error) throw error;
+      setSettings({
+        auto_commit_enabled: data.auto_commit_enabled,
+        auto_commit_threshold: String(data.auto_commit_threshold),
+        base_currency: data.base_currency,
+        fiscal_year_start_month: String(data.fiscal_year_start_month)
+      });
+    } catch (error) {
+      console.error('Error fetching settings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load settings",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const saveSettings = async () => {
+    try {
+      setIsLoading(true);
+
+      const { data: userData } = await supabase.auth.getUser();
+      if (!userData.user) throw new Error('Not authenticated');
+
+      const { error } = await supabase
+        .from('profiles')
+        .update({
+          auto_commit_enabled: settings.auto_commit_enabled,
+          auto_commit_threshold: parseFloat(settings.auto_commit_threshold) || 0,
+          base_currency: settings.base_currency,
+          fiscal_year_start_month: Number(settings.fiscal_year_start_month)
+        })
+        .eq('user_id', userData.user.id);
+
+      if (error) throw new Error(error.message);
+      setBaseCurrency(settings.base_currency);
+
+      toast({
+        title: "Success",
+        description: "Settings saved"
+      });
+      setIsOpen(false);
+    } catch (error) {
+      console.error('Error saving settings:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save settings",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Settings</DialogTitle>
+          <DialogDescription>
+            By default the AI proposes every change and waits for your approval.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="auto-commit">Auto-commit small actions</Label>
+            <Switch
+              id="auto-commit"
+              checked={settings.auto_commit_enabled}
+              onCheckedChange={(checked) => setSettings(prev => ({ ...prev, auto_commit_enabled: checked }))}
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="auto-commit-threshold">Auto-commit below amount</Label>
+            <Input
+              id="auto-commit-threshold"
+              type="number"
+              min="0"
+              value={settings.auto_commit_threshold}
+              disabled={!settings.auto_commit_enabled}
+              onChange={(e) => setSettings(prev => ({ ...prev, auto_commit_threshold: e.target.value }))}
+              placeholder="100.00"
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              Actions moving less than this amount are recorded without review.
+            </p>
+          </div>
+
+          <div>
+            <Label htmlFor="base-currency">Base currency</Label>
+            <Select
+              value={settings.base_currency}
+              onValueChange={(value) => setSettings(prev => ({ ...prev, base_currency: value }))}
+            >
+              <SelectTrigger id="base-currency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[...new Set([settings.base_currency, ...COMMON_CURRENCIES])].map((code) => (
+                  <SelectItem key={code} value={code}>{code}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground mt-1">
+              Reports and balances are kept in this currency. It can only be changed before anything is recorded.
+            </p>
+          </div>
+
+          <div>
+            <Label htmlFor="fiscal-year-start">Fiscal year starts in</Label>
+            <Select
+              value={settings.fiscal_year_start_month}
+              onValueChange={(value) => setSettings(prev => ({ ...prev, fiscal_year_start_month: value }))}
+            >
+              <SelectTrigger id="fiscal-year-start">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MONTH_NAMES.map((name, index) => (
+                  <SelectItem key={name} value={String(index + 1)}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground mt-1">
+              Fiscal periods and year-end closing follow this month. It can only be changed while no period is closed or locked.
+            </p>
+          </div>
+
+          <Button onClick={saveSettings} disabled={isLoading} className="w-full">
+            {isLoading ? 'Saving...' : 'Save Settings'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
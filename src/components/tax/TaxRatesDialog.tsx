@@ -0,0 +1,343 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Percent, Plus, Trash2, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { componentsOf, effectiveRate, TAX_RATE_SELECT, TaxRate } from '@/lib/tax';
+
+interface LiabilityAccount {
+  id: string;
+  name: string;
+}
+
+interface ComponentDraft {
+  tax_rate_id: string;
+  is_compound: boolean;
+}
+
+const EMPTY_FORM = { name: '', rate: '', account_id: '', is_group: false };
+
+export function TaxRatesDialog() {
+  const [open, setOpen] = useState(false);
+  const [rates, setRates] = useState<TaxRate[]>([]);
+  const [accounts, setAccounts] = useState<LiabilityAccount[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [components, setComponents] = useState<ComponentDraft[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) {
+      fetchRates();
+      fetchAccounts();
+    }
+  }, [open]);
+
+  const fetchRates = async () => {
+    const { data, error } = await supabase.from('tax_rates').select(TAX_RATE_SELECT).order('name');
+
+    if (error) {
+      console.error('Error fetching tax rates:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load tax rates",
+        variant: "destructive"
+      });
+      return;
+    }
+    setRates(data || []);
+  };
+
+  const fetchAccounts = async () => {
+    const { data, error } = await supabase
+      .from('accounts')
+      .select('id, name')
+      .eq('account_type', 'liability')
+      .eq('is_active', true)
+      .order('code');
+
+    if (error) {
+      console.error('Error fetching liability accounts:', error);
+      return;
+    }
+    setAccounts(data || []);
+  };
+
+  // A group is saved first and its rates added to it in the order listed
+  const addRate = async () => {
+    try {
+      setIsSaving(true);
+
+      const { data: userData } = await supabase.auth.getUser();
+      if (!userData.user) throw new Error('Not authenticated');
+
+      const { data, error } = await supabase
+        .from('tax_rates')
+        .insert([{
+          user_id: userData.user.id,
+          name: form.name.trim(),
+          is_group: form.is_group,
+          rate: form.is_group ? 0 : parseFloat(form.rate),
+          account_id: form.is_group ? null : form.account_id || null,
+        }])
+        .select('id')
+        .single();
+      if (error) throw new Error(error.message);
+
+      if (form.is_group) {
+        const { error: componentsError } = await supabase
+          .from('tax_group_components')
+          .insert(components.map((component, position) => ({
+            ...component,
+            group_id: data.id,
+            user_id: userData.user.id,
+            position,
+          })));
+        if (componentsError) throw new Error(componentsError.message);
+      }
+
+      setForm(EMPTY_FORM);
+      setComponents([]);
+      fetchRates();
+    } catch (error) {
+      console.error('Error saving tax rate:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save the tax rate",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Rates that have been charged cannot change, but can be retired
+  const toggleRate = async (rate: TaxRate, isActive: boolean) => {
+    const { error } = await supabase.from('tax_rates').update({ is_active: isActive }).eq('id', rate.id);
+    if (error) {
+      console.error('Error updating tax rate:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update the tax rate",
+        variant: "destructive"
+      });
+      return;
+    }
+    fetchRates();
+  };
+
+  const deleteRate = async (rate: TaxRate) => {
+    const { error } = await supabase.from('tax_rates').delete().eq('id', rate.id);
+    if (error) {
+      console.error('Error deleting tax rate:', error);
+      toast({
+        title: "Error",
+        description: error.code === '23503'
+          ? `"${rate.name}" has been charged or belongs to a group; deactivate it instead`
+          : error.message,
+        variant: "destructive"
+      });
+      return;
+    }
+    fetchRates();
+  };
+
+  const plainRates = rates.filter((rate) => !rate.is_group);
+  const accountName = (id: string | null) => accounts.find((account) => account.id === id)?.name || '—';
+  const rateName = (id: string) => rates.find((rate) => rate.id === id)?.name || 'Unknown';
+
+  const formValid = !!form.name.trim() && (form.is_group
+    ? components.length >= 2
+    : form.rate !== '' && parseFloat(form.rate) >= 0);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Percent className="h-4 w-4 mr-2" />
+          Tax Rates
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Tax Rates</DialogTitle>
+          <DialogDescription>
+            Sales tax, VAT or GST charged on invoices, bills and transactions. Tax collected and paid is posted to the rate's liability account.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="border rounded-lg p-4 space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="font-medium">{form.is_group ? 'Add a tax group' : 'Add a tax rate'}</h3>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="tax-is-group"
+                  checked={form.is_group}
+                  onCheckedChange={(checked) => setForm({ ...form, is_group: checked })}
+                />
+                <Label htmlFor="tax-is-group">Group of rates</Label>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div className="space-y-1">
+                <Label htmlFor="tax-name">Name</Label>
+                <Input
+                  id="tax-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder={form.is_group ? 'GST + PST' : 'State sales tax'}
+                />
+              </div>
+              {form.is_group ? (
+                <div className="space-y-1 md:col-span-2">
+                  <Label>Add a rate to the group</Label>
+                  <Select
+                    value=""
+                    onValueChange={(value) => setComponents((current) => [...current, { tax_rate_id: value, is_compound: false }])}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a rate" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {plainRates
+                        .filter((rate) => rate.is_active && !components.some((component) => component.tax_rate_id === rate.id))
+                        .map((rate) => (
+                          <SelectItem key={rate.id} value={rate.id}>{rate.name} ({Number(rate.rate)}%)</SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ) : (
+                <>
+                  <div className="space-y-1">
+                    <Label htmlFor="tax-rate">Rate %</Label>
+                    <Input
+                      id="tax-rate"
+                      type="number"
+                      step="0.0001"
+                      min="0"
+                      value={form.rate}
+                      onChange={(e) => setForm({ ...form, rate: e.target.value })}
+                      placeholder="8.25"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Posted to</Label>
+                    <Select value={form.account_id} onValueChange={(value) => setForm({ ...form, account_id: value })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Sales Tax Payable" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {accounts.map((account) => (
+                          <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </>
+              )}
+            </div>
+
+            {form.is_group && components.length > 0 && (
+              <div className="space-y-2">
+                {components.map((component, index) => (
+                  <div key={component.tax_rate_id} className="flex items-center gap-4 text-sm">
+                    <span className="w-6 text-muted-foreground">{index + 1}.</span>
+                    <span className="flex-1">{rateName(component.tax_rate_id)}</span>
+                    {index > 0 && (
+                      <div className="flex items-center gap-2">
+                        <Checkbox
+                          id={`tax-compound-${component.tax_rate_id}`}
+                          checked={component.is_compound}
+                          onCheckedChange={(checked) => setComponents((current) => current.map((c, i) => (
+                            i === index ? { ...c, is_compound: checked === true } : c
+                          )))}
+                        />
+                        <Label htmlFor={`tax-compound-${component.tax_rate_id}`}>Charged on the taxes above (compound)</Label>
+                      </div>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setComponents((current) => current.filter((_, i) => i !== index))}
+                      aria-label="Remove rate from group"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <p className="text-xs text-muted-foreground">
+                  Combined rate: {effectiveRate(components.map((component) => ({
+                    ...component,
+                    rate: Number(plainRates.find((rate) => rate.id === component.tax_rate_id)?.rate ?? 0),
+                  })))}%
+                </p>
+              </div>
+            )}
+
+            <div className="flex justify-end">
+              <Button onClick={addRate} disabled={isSaving || !formValid}>
+                <Plus className="h-4 w-4 mr-2" />
+                {form.is_group ? 'Add Group' : 'Add Rate'}
+              </Button>
+            </div>
+          </div>
+
+          {rates.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No tax rates yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead className="text-right">Rate</TableHead>
+                  <TableHead>Posted to</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rates.map((rate) => (
+                  <TableRow key={rate.id}>
+                    <TableCell>
+                      <div className="font-medium">{rate.name}</div>
+                      {rate.is_group && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {[...rate.components].sort((a, b) => a.position - b.position).map((component) => (
+                            <Badge key={component.tax_rate_id} variant="outline">
+                              {rateName(component.tax_rate_id)}{component.is_compound ? ' (compound)' : ''}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{effectiveRate(componentsOf(rate, rates))}%</TableCell>
+                    <TableCell>{rate.is_group ? 'Each rate\'s account' : accountName(rate.account_id)}</TableCell>
+                    <TableCell>
+                      <Switch checked={rate.is_active} onCheckedChange={(checked) => toggleRate(rate, checked)} />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => deleteRate(rate)} aria-label="Delete tax rate">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
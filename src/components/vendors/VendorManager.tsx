@@ -7,9 +7,15 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
-import { Plus, Truck, Mail, Phone, Building } from 'lucide-react';
+import { Plus, Truck, Mail, Phone, Building, Receipt } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { BillFormDialog } from '@/components/bills/BillFormDialog';
+import { BillDetailDialog } from '@/components/bills/BillDetailDialog';
+import { BillPaymentSchedule, ScheduledBill } from '@/components/bills/BillPaymentSchedule';
+import { AgingReportDialog } from '@/components/aging/AgingReportDialog';
+import { formatCurrency } from '@/lib/reports';
+import { BILL_STATUS_LABELS, OPEN_BILL_STATUSES, isBillOverdue } from '@/lib/bills';
 
 interface Vendor {
   id: string;
@@ -26,7 +32,10 @@ interface Vendor {
 
 export function VendorManager() {
   const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [openBills, setOpenBills] = useState<ScheduledBill[]>([]);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [billForm, setBillForm] = useState<{ open: boolean; vendorId?: string; billId?: string | null }>({ open: false });
+  const [viewingBillId, setViewingBillId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
 
@@ -45,8 +54,9 @@ export function VendorManager() {
 
   useEffect(() => {
     fetchVendors();
+    fetchOpenBills();
     
-    // Set up real-time subscription for vendor updates
+    // Set up real-time subscription for vendor and bill updates
     const channel = supabase
       .channel('vendor-changes')
       .on(
@@ -57,6 +67,13 @@ export function VendorManager() {
           fetchVendors();
         }
       )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'bills' },
+        () => {
+          fetchOpenBills();
+        }
+      )
       .subscribe();
 
     return () => {
@@ -83,6 +100,26 @@ export function VendorManager() {
     }
   };
 
+  const fetchOpenBills = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('bills')
+        .select('id, vendor_id, bill_number, due_date, scheduled_payment_date, status, balance_due, currency, exchange_rate, vendors(name)')
+        .in('status', OPEN_BILL_STATUSES)
+        .order('due_date');
+
+      if (error) throw error;
+      setOpenBills(data || []);
+    } catch (error) {
+      console.error('Error fetching bills:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load bills",
+        variant: "destructive"
+      });
+    }
+  };
+
   const createVendor = async () => {
     try {
       setIsLoading(true);
@@ -144,137 +181,146 @@ export function VendorManager() {
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h2 className="text-2xl font-semibold">Vendor Management</h2>
-        <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-          <DialogTrigger asChild>
-            <Button>
-              <Plus className="h-4 w-4 mr-2" />
-              Add Vendor
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-2xl">
-            <DialogHeader>
-              <DialogTitle>Add New Vendor</DialogTitle>
-            </DialogHeader>
-            <div className="grid grid-cols-2 gap-4 max-h-96 overflow-y-auto">
-              <div>
-                <Label htmlFor="vendor-name">Vendor Name *</Label>
-                <Input
-                  id="vendor-name"
-                  value={newVendor.name}
-                  onChange={(e) => setNewVendor(prev => ({ ...prev, name: e.target.value }))}
-                  placeholder="ABC Supply Co."
-                />
-              </div>
-              
-              <div>
-                <Label htmlFor="vendor-email">Email</Label>
-                <Input
-                  id="vendor-email"
-                  type="email"
-                  value={newVendor.email}
-                  onChange={(e) => setNewVendor(prev => ({ ...prev, email: e.target.value }))}
-                  placeholder="orders@supplier.com"
-                />
-              </div>
+        <div className="flex gap-2">
+          <AgingReportDialog kind="payables" onOpenDocument={setViewingBillId} />
+          <Button variant="outline" onClick={() => setBillForm({ open: true })} disabled={vendors.length === 0}>
+            <Receipt className="h-4 w-4 mr-2" />
+            New Bill
+          </Button>
+          <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Vendor
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl">
+              <DialogHeader>
+                <DialogTitle>Add New Vendor</DialogTitle>
+              </DialogHeader>
+              <div className="grid grid-cols-2 gap-4 max-h-96 overflow-y-auto">
+                <div>
+                  <Label htmlFor="vendor-name">Vendor Name *</Label>
+                  <Input
+                    id="vendor-name"
+                    value={newVendor.name}
+                    onChange={(e) => setNewVendor(prev => ({ ...prev, name: e.target.value }))}
+                    placeholder="ABC Supply Co."
+                  />
+                </div>
+                
+                <div>
+                  <Label htmlFor="vendor-email">Email</Label>
+                  <Input
+                    id="vendor-email"
+                    type="email"
+                    value={newVendor.email}
+                    onChange={(e) => setNewVendor(prev => ({ ...prev, email: e.target.value }))}
+                    placeholder="orders@supplier.com"
+                  />
+                </div>
 
-              <div>
-                <Label htmlFor="vendor-phone">Phone</Label>
-                <Input
-                  id="vendor-phone"
-                  value={newVendor.phone}
-                  onChange={(e) => setNewVendor(prev => ({ ...prev, phone: e.target.value }))}
-                  placeholder="+1 (555) 987-6543"
-                />
-              </div>
+                <div>
+                  <Label htmlFor="vendor-phone">Phone</Label>
+                  <Input
+                    id="vendor-phone"
+                    value={newVendor.phone}
+                    onChange={(e) => setNewVendor(prev => ({ ...prev, phone: e.target.value }))}
+                    placeholder="+1 (555) 987-6543"
+                  />
+                </div>
 
-              <div>
-                <Label htmlFor="vendor-company-name">Company Name</Label>
-                <Input
-                  id="vendor-company-name"
-                  value={newVendor.company_name}
-                  onChange={(e) => setNewVendor(prev => ({ ...prev, company_name: e.target.value }))}
-                  placeholder="ABC Supply Corporation"
-                />
-              </div>
+                <div>
+                  <Label htmlFor="vendor-company-name">Company Name</Label>
+                  <Input
+                    id="vendor-company-name"
+                    value={newVendor.company_name}
+                    onChange={(e) => setNewVendor(prev => ({ ...prev, company_name: e.target.value }))}
+                    placeholder="ABC Supply Corporation"
+                  />
+                </div>
 
-              <div>
-                <Label>Vendor Type</Label>
-                <Select value={newVendor.vendor_type} onValueChange={(value) => 
-                  setNewVendor(prev => ({ ...prev, vendor_type: value }))}>
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="vendor">Vendor</SelectItem>
-                    <SelectItem value="supplier">Supplier</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
+                <div>
+                  <Label>Vendor Type</Label>
+                  <Select value={newVendor.vendor_type} onValueChange={(value) => 
+                    setNewVendor(prev => ({ ...prev, vendor_type: value }))}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="vendor">Vendor</SelectItem>
+                      <SelectItem value="supplier">Supplier</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
 
-              <div>
-                <Label htmlFor="vendor-payment-terms">Payment Terms (Days)</Label>
-                <Input
-                  id="vendor-payment-terms"
-                  type="number"
-                  value={newVendor.payment_terms}
-                  onChange={(e) => setNewVendor(prev => ({ ...prev, payment_terms: e.target.value }))}
-                  placeholder="30"
-                />
-              </div>
+                <div>
+                  <Label htmlFor="vendor-payment-terms">Payment Terms (Days)</Label>
+                  <Input
+                    id="vendor-payment-terms"
+                    type="number"
+                    value={newVendor.payment_terms}
+                    onChange={(e) => setNewVendor(prev => ({ ...prev, payment_terms: e.target.value }))}
+                    placeholder="30"
+                  />
+                </div>
 
-              <div>
-                <Label htmlFor="vendor-tax-number">Tax Number</Label>
-                <Input
-                  id="vendor-tax-number"
-                  value={newVendor.tax_number}
-                  onChange={(e) => setNewVendor(prev => ({ ...prev, tax_number: e.target.value }))}
-                  placeholder="98-7654321"
-                />
-              </div>
+                <div>
+                  <Label htmlFor="vendor-tax-number">Tax Number</Label>
+                  <Input
+                    id="vendor-tax-number"
+                    value={newVendor.tax_number}
+                    onChange={(e) => setNewVendor(prev => ({ ...prev, tax_number: e.target.value }))}
+                    placeholder="98-7654321"
+                  />
+                </div>
 
-              <div>
-                <Label htmlFor="vendor-credit-limit">Credit Limit</Label>
-                <Input
-                  id="vendor-credit-limit"
-                  type="number"
-                  value={newVendor.credit_limit}
-                  onChange={(e) => setNewVendor(prev => ({ ...prev, credit_limit: e.target.value }))}
-                  placeholder="10000.00"
-                />
-              </div>
+                <div>
+                  <Label htmlFor="vendor-credit-limit">Credit Limit</Label>
+                  <Input
+                    id="vendor-credit-limit"
+                    type="number"
+                    value={newVendor.credit_limit}
+                    onChange={(e) => setNewVendor(prev => ({ ...prev, credit_limit: e.target.value }))}
+                    placeholder="10000.00"
+                  />
+                </div>
 
-              <div className="col-span-2">
-                <Label htmlFor="vendor-address">Address</Label>
-                <Textarea
-                  id="vendor-address"
-                  value={newVendor.address}
-                  onChange={(e) => setNewVendor(prev => ({ ...prev, address: e.target.value }))}
-                  placeholder="456 Industrial Ave, Business City, State 54321"
-                  rows={2}
-                />
-              </div>
+                <div className="col-span-2">
+                  <Label htmlFor="vendor-address">Address</Label>
+                  <Textarea
+                    id="vendor-address"
+                    value={newVendor.address}
+                    onChange={(e) => setNewVendor(prev => ({ ...prev, address: e.target.value }))}
+                    placeholder="456 Industrial Ave, Business City, State 54321"
+                    rows={2}
+                  />
+                </div>
 
-              <div className="col-span-2">
-                <Label htmlFor="vendor-notes">Notes</Label>
-                <Textarea
-                  id="vendor-notes"
-                  value={newVendor.notes}
-                  onChange={(e) => setNewVendor(prev => ({ ...prev, notes: e.target.value }))}
-                  placeholder="Additional notes about this vendor..."
-                  rows={3}
-                />
-              </div>
+                <div className="col-span-2">
+                  <Label htmlFor="vendor-notes">Notes</Label>
+                  <Textarea
+                    id="vendor-notes"
+                    value={newVendor.notes}
+                    onChange={(e) => setNewVendor(prev => ({ ...prev, notes: e.target.value }))}
+                    placeholder="Additional notes about this vendor..."
+                    rows={3}
+                  />
+                </div>
 
-              <div className="col-span-2">
-                <Button onClick={createVendor} disabled={isLoading || !newVendor.name} className="w-full">
-                  {isLoading ? 'Creating...' : 'Create Vendor'}
-                </Button>
+                <div className="col-span-2">
+                  <Button onClick={createVendor} disabled={isLoading || !newVendor.name} className="w-full">
+                    {isLoading ? 'Creating...' : 'Create Vendor'}
+                  </Button>
+                </div>
               </div>
-            </div>
-          </DialogContent>
-        </Dialog>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
+      <BillPaymentSchedule bills={openBills} onSelect={setViewingBillId} />
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {vendors.map((vendor) => (
           <Card key={vendor.id} className={`${!vendor.is_active ? 'opacity-60' : ''}`}>
@@ -310,7 +356,7 @@ export function VendorManager() {
               <div className="flex justify-between text-sm">
                 <span className="text-muted-foreground">Balance:</span>
                 <span className={vendor.balance <= 0 ? 'text-green-600' : 'text-red-600'}>
-                  ${Math.abs(vendor.balance).toFixed(2)} {vendor.balance > 0 ? 'owed' : 'credit'}
+                  {formatCurrency(Math.abs(vendor.balance))} {vendor.balance > 0 ? 'owed' : vendor.balance < 0 ? 'credit' : ''}
                 </span>
               </div>
 
@@ -319,6 +365,38 @@ export function VendorManager() {
                 <span>{vendor.payment_terms} days</span>
               </div>
 
+              <div className="space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">Open Bills:</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2"
+                    onClick={() => setBillForm({ open: true, vendorId: vendor.id })}
+                  >
+                    <Plus className="h-3 w-3 mr-1" />
+                    Bill
+                  </Button>
+                </div>
+                {openBills.filter((bill) => bill.vendor_id === vendor.id).map((bill) => (
+                  <button
+                    key={bill.id}
+                    type="button"
+                    onClick={() => setViewingBillId(bill.id)}
+                    className="w-full flex items-center justify-between text-sm rounded-md border px-2 py-1 hover:bg-muted"
+                  >
+                    <span className="font-medium">{bill.bill_number || 'No number'}</span>
+                    <span className={isBillOverdue(bill) ? 'text-red-600' : 'text-muted-foreground'}>
+                      Due {bill.due_date}
+                    </span>
+                    <span>{formatCurrency(bill.balance_due, bill.currency ?? undefined)}</span>
+                    <Badge variant={isBillOverdue(bill) ? 'destructive' : 'secondary'}>
+                      {isBillOverdue(bill) ? 'Overdue' : BILL_STATUS_LABELS[bill.status]}
+                    </Badge>
+                  </button>
+                ))}
+              </div>
+
               <div className="text-xs text-muted-foreground">
                 Added: {new Date(vendor.created_at).toLocaleDateString()}
               </div>
@@ -342,6 +420,25 @@ export function VendorManager() {
           </CardContent>
         </Card>
       )}
+
+      <BillFormDialog
+        open={billForm.open}
+        onOpenChange={(open) => setBillForm((current) => ({ ...current, open }))}
+        vendors={vendors}
+        vendorId={billForm.vendorId}
+        billId={billForm.billId}
+        onSaved={fetchOpenBills}
+      />
+
+      <BillDetailDialog
+        billId={viewingBillId}
+        onOpenChange={(open) => !open && setViewingBillId(null)}
+        onEdit={(billId) => {
+          setViewingBillId(null);
+          setBillForm({ open: true, billId });
+        }}
+        onChanged={fetchOpenBills}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { getBaseCurrency, subscribeBaseCurrency } from '@/lib/currency';
+
+// Re-renders when the base currency is loaded or changed in settings
+export function useBaseCurrency() {
+  return useSyncExternalStore(subscribeBaseCurrency, getBaseCurrency);
+}
@@ -1,6 +1,16 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import type { Json } from '@/integrations/supabase/types';
+import { readEventStream } from '@/lib/sse';
+
+interface Attachment {
+  id: string;
+  file_name: string;
+  file_path: string;
+  mime_type: string | null;
+  file_size: number | null;
+}
 
 interface Message {
   id: string;
@@ -8,6 +18,21 @@ interface Message {
   role: 'user' | 'assistant';
   content: string;
   created_at: string;
+  metadata?: Json | null;
+  attachments?: Attachment[];
+  // Set on the local placeholder while the assistant reply is streaming in
+  streaming?: boolean;
+  status?: string;
+}
+
+interface AIResponse {
+  content: string;
+  metadata: Json | null;
+}
+
+interface StreamHandlers {
+  onDelta: (content: string) => void;
+  onStatus: (status: string) => void;
 }
 
 interface Conversation {
@@ -66,7 +91,7 @@ export function useChat() {
     try {
       const { data, error } = await supabase
         .from('messages')
-        .select('*')
+        .select('*, attachments(id, file_name, file_path, mime_type, file_size)')
         .eq('conversation_id', conversationId)
         .order('created_at', { ascending: true });
 
@@ -118,7 +143,50 @@ export function useChat() {
     }
   };
 
-  const sendMessage = async (content: string) => {
+  // Upload files to storage and record them against the message they were sent with
+  const uploadAttachments = async (files: File[], conversationId: string, messageId: string): Promise<Attachment[]> => {
+    const { data: userData } = await supabase.auth.getUser();
+    if (!userData.user) throw new Error('Not authenticated');
+
+    const uploaded: Attachment[] = [];
+
+    for (const file of files) {
+      const filePath = `${userData.user.id}/${conversationId}/${crypto.randomUUID()}-${file.name}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from('attachments')
+        .upload(filePath, file, { contentType: file.type || undefined });
+
+      if (uploadError) throw uploadError;
+
+      const { data: attachment, error: attachmentError } = await supabase
+        .from('attachments')
+        .insert([{
+          user_id: userData.user.id,
+          conversation_id: conversationId,
+          message_id: messageId,
+          file_name: file.name,
+          file_path: filePath,
+          mime_type: file.type || null,
+          file_size: file.size
+        }])
+        .select('id, file_name, file_path, mime_type, file_size')
+        .single();
+
+      if (attachmentError) throw attachmentError;
+      uploaded.push(attachment);
+    }
+
+    return uploaded;
+  };
+
+  const sendMessage = async (content: string, files: File[] = []) => {
+    const streamingId = `streaming-${Date.now()}`;
+
+    const updateStreamingMessage = (update: (message: Message) => Message) => {
+      setMessages(prev => prev.map(m => m.id === streamingId ? update(m) : m));
+    };
+
     try {
       setIsLoading(true);
       
@@ -142,11 +210,28 @@ export function useChat() {
 
       if (userMessageError) throw userMessageError;
 
+      const attachments = files.length > 0
+        ? await uploadAttachments(files, conversationId, userMessage.id)
+        : [];
+
       // Add to local state immediately
-      setMessages(prev => [...prev, userMessage as Message]);
+      setMessages(prev => [...prev, { ...userMessage, attachments } as Message]);
+
+      // Show the assistant reply as it streams in
+      setMessages(prev => [...prev, {
+        id: streamingId,
+        conversation_id: conversationId,
+        role: 'assistant',
+        content: '',
+        created_at: new Date().toISOString(),
+        streaming: true
+      }]);
 
       // Generate AI response based on message content
-      const aiResponse = await generateAIResponse(content, conversationId);
+      const aiResponse = await generateAIResponse(content, conversationId, userMessage.id, attachments, {
+        onDelta: (delta) => updateStreamingMessage(m => ({ ...m, content: m.content + delta })),
+        onStatus: (status) => updateStreamingMessage(m => ({ ...m, status }))
+      });
 
       // Add AI message
       const { data: aiMessage, error: aiMessageError } = await supabase
@@ -154,15 +239,16 @@ export function useChat() {
         .insert([{
           conversation_id: conversationId,
           role: 'assistant',
-          content: aiResponse
+          content: aiResponse.content,
+          metadata: aiResponse.metadata
         }])
         .select()
         .single();
 
       if (aiMessageError) throw aiMessageError;
 
-      // Add to local state
-      setMessages(prev => [...prev, aiMessage as Message]);
+      // Replace the streaming placeholder with the persisted message
+      updateStreamingMessage(() => aiMessage as Message);
 
       // Update conversation timestamp
       await supabase
@@ -172,6 +258,7 @@ export function useChat() {
 
     } catch (error) {
       console.error('Error sending message:', error);
+      setMessages(prev => prev.filter(m => m.id !== streamingId));
       toast({
         title: "Error",
         description: "Failed to send message",
@@ -182,7 +269,13 @@ export function useChat() {
     }
   };
 
-  const generateAIResponse = async (userMessage: string, conversationId: string, attachments?: any[]): Promise<string> => {
+  const generateAIResponse = async (
+    userMessage: string,
+    conversationId: string,
+    messageId: string,
+    attachments?: Attachment[],
+    handlers?: StreamHandlers
+  ): Promise<AIResponse> => {
     try {
       const { data: userData } = await supabase.auth.getUser();
       if (!userData.user) throw new Error('Not authenticated');
@@ -191,23 +284,60 @@ export function useChat() {
         body: {
           message: userMessage,
           conversationId: conversationId,
-          userId: userData.user.id,
-          attachments: attachments || []
+          messageId,
+          attachments: attachments || [],
+          stream: !!handlers
         }
       });
 
       if (error) {
         console.error('AI function error:', error);
-        return "I apologize, but I'm having trouble processing your request right now. Please try again.";
+        return { content: "I apologize, but I'm having trouble processing your request right now. Please try again.", metadata: null };
+      }
+
+      // Streaming replies come back as the raw event-stream Response
+      if (data instanceof Response) {
+        return await readAIStream(data, handlers);
       }
 
-      return data.response || "I apologize, but I couldn't generate a response. Please try again.";
+      return {
+        content: data.response || "I apologize, but I couldn't generate a response. Please try again.",
+        metadata: data.metadata && Object.keys(data.metadata).length > 0 ? data.metadata : null
+      };
     } catch (error) {
       console.error('Error calling AI function:', error);
-      return "I'm currently experiencing technical difficulties. Please try again in a moment.";
+      return { content: "I'm currently experiencing technical difficulties. Please try again in a moment.", metadata: null };
     }
   };
 
+  const readAIStream = async (response: Response, handlers?: StreamHandlers): Promise<AIResponse> => {
+    let streamed = '';
+    let result: AIResponse | null = null;
+
+    await readEventStream(response, ({ event, data }) => {
+      const payload = JSON.parse(data);
+
+      if (event === 'delta') {
+        streamed += payload.content;
+        handlers?.onDelta(payload.content);
+      } else if (event === 'status') {
+        handlers?.onStatus(payload.message);
+      } else if (event === 'done') {
+        result = {
+          content: payload.response || streamed,
+          metadata: payload.metadata && Object.keys(payload.metadata).length > 0 ? payload.metadata : null
+        };
+      } else if (event === 'error') {
+        console.error('AI stream error:', payload.message);
+      }
+    });
+
+    return result || {
+      content: streamed || "I apologize, but I couldn't generate a response. Please try again.",
+      metadata: null
+    };
+  };
+
   const selectConversation = (conversationId: string) => {
     setCurrentConversationId(conversationId);
   };
@@ -17,8 +17,10 @@ export type Database = {
       accounts: {
         Row: {
           account_type: Database["public"]["Enums"]["account_type"]
+          cash_flow_activity: Database["public"]["Enums"]["cash_flow_activity"] | null
           code: string | null
           created_at: string
+          currency: string | null
           id: string
           is_active: boolean
           name: string
@@ -28,8 +30,10 @@ export type Database = {
         }
         Insert: {
           account_type: Database["public"]["Enums"]["account_type"]
+          cash_flow_activity?: Database["public"]["Enums"]["cash_flow_activity"] | null
           code?: string | null
           created_at?: string
+          currency?: string | null
           id?: string
           is_active?: boolean
           name: string
@@ -39,8 +43,10 @@ export type Database = {
         }
         Update: {
           account_type?: Database["public"]["Enums"]["account_type"]
+          cash_flow_activity?: Database["public"]["Enums"]["cash_flow_activity"] | null
           code?: string | null
           created_at?: string
+          currency?: string | null
           id?: string
           is_active?: boolean
           name?: string
@@ -58,35 +64,92 @@ export type Database = {
           },
         ]
       }
+      ai_action_contexts: {
+        Row: {
+          conversation_id: string | null
+          created_at: string
+          id: string
+          message_id: string | null
+          user_id: string
+        }
+        Insert: {
+          conversation_id?: string | null
+          created_at?: string
+          id?: string
+          message_id?: string | null
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string | null
+          created_at?: string
+          id?: string
+          message_id?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       attachments: {
         Row: {
+          bill_id: string | null
+          conversation_id: string | null
           created_at: string
           file_name: string
           file_path: string
           file_size: number | null
           id: string
+          message_id: string | null
           mime_type: string | null
-          transaction_id: string
+          transaction_id: string | null
+          user_id: string
         }
         Insert: {
+          bill_id?: string | null
+          conversation_id?: string | null
           created_at?: string
           file_name: string
           file_path: string
           file_size?: number | null
           id?: string
+          message_id?: string | null
           mime_type?: string | null
-          transaction_id: string
+          transaction_id?: string | null
+          user_id: string
         }
         Update: {
+          bill_id?: string | null
+          conversation_id?: string | null
           created_at?: string
           file_name?: string
           file_path?: string
           file_size?: number | null
           id?: string
+          message_id?: string | null
           mime_type?: string | null
-          transaction_id?: string
+          transaction_id?: string | null
+          user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "attachments_bill_id_fkey"
+            columns: ["bill_id"]
+            isOneToOne: false
+            referencedRelation: "bills"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attachments_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attachments_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "attachments_transaction_id_fkey"
             columns: ["transaction_id"]
@@ -96,6 +159,295 @@ export type Database = {
           },
         ]
       }
+      audit_log: {
+        Row: {
+          action: string
+          actor: string
+          changed_at: string
+          conversation_id: string | null
+          id: string
+          message_id: string | null
+          new_data: Json | null
+          old_data: Json | null
+          record_id: string
+          table_name: string
+          user_id: string
+        }
+        Insert: {
+          action: string
+          actor?: string
+          changed_at?: string
+          conversation_id?: string | null
+          id?: string
+          message_id?: string | null
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id: string
+          table_name: string
+          user_id: string
+        }
+        Update: {
+          action?: string
+          actor?: string
+          changed_at?: string
+          conversation_id?: string | null
+          id?: string
+          message_id?: string | null
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id?: string
+          table_name?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      bank_import_mappings: {
+        Row: {
+          account_id: string
+          created_at: string
+          id: string
+          mapping: Json
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          account_id: string
+          created_at?: string
+          id?: string
+          mapping: Json
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          account_id?: string
+          created_at?: string
+          id?: string
+          mapping?: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bank_import_mappings_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: true
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bill_lines: {
+        Row: {
+          amount: number
+          bill_id: string
+          created_at: string
+          description: string
+          expense_account_id: string | null
+          id: string
+          position: number
+          quantity: number
+          tax_amount: number
+          tax_rate_id: string | null
+          unit_price: number
+          user_id: string
+        }
+        Insert: {
+          amount?: number
+          bill_id: string
+          created_at?: string
+          description: string
+          expense_account_id?: string | null
+          id?: string
+          position?: number
+          quantity?: number
+          tax_amount?: number
+          tax_rate_id?: string | null
+          unit_price?: number
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          bill_id?: string
+          created_at?: string
+          description?: string
+          expense_account_id?: string | null
+          id?: string
+          position?: number
+          quantity?: number
+          tax_amount?: number
+          tax_rate_id?: string | null
+          unit_price?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bill_lines_bill_id_fkey"
+            columns: ["bill_id"]
+            isOneToOne: false
+            referencedRelation: "bills"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bill_lines_expense_account_id_fkey"
+            columns: ["expense_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bill_lines_tax_rate_id_fkey"
+            columns: ["tax_rate_id"]
+            isOneToOne: false
+            referencedRelation: "tax_rates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bill_payments: {
+        Row: {
+          amount: number
+          bill_id: string
+          created_at: string
+          created_transaction: boolean
+          id: string
+          payment_date: string
+          transaction_id: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          bill_id: string
+          created_at?: string
+          created_transaction?: boolean
+          id?: string
+          payment_date: string
+          transaction_id: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          bill_id?: string
+          created_at?: string
+          created_transaction?: boolean
+          id?: string
+          payment_date?: string
+          transaction_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bill_payments_bill_id_fkey"
+            columns: ["bill_id"]
+            isOneToOne: false
+            referencedRelation: "bills"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bill_payments_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bills: {
+        Row: {
+          amount_paid: number
+          balance_due: number
+          bill_date: string
+          bill_number: string | null
+          created_at: string
+          currency: string | null
+          due_date: string
+          exchange_rate: number | null
+          id: string
+          notes: string | null
+          payable_account_id: string | null
+          payment_account_id: string | null
+          scheduled_payment_date: string | null
+          status: Database["public"]["Enums"]["bill_status"]
+          subtotal: number
+          tax_inclusive: boolean
+          tax_total: number
+          total: number
+          updated_at: string
+          user_id: string
+          vendor_id: string
+          voided_at: string | null
+        }
+        Insert: {
+          amount_paid?: number
+          balance_due?: number
+          bill_date?: string
+          bill_number?: string | null
+          created_at?: string
+          currency?: string | null
+          due_date: string
+          exchange_rate?: number | null
+          id?: string
+          notes?: string | null
+          payable_account_id?: string | null
+          payment_account_id?: string | null
+          scheduled_payment_date?: string | null
+          status?: Database["public"]["Enums"]["bill_status"]
+          subtotal?: number
+          tax_inclusive?: boolean
+          tax_total?: number
+          total?: number
+          updated_at?: string
+          user_id: string
+          vendor_id: string
+          voided_at?: string | null
+        }
+        Update: {
+          amount_paid?: number
+          balance_due?: number
+          bill_date?: string
+          bill_number?: string | null
+          created_at?: string
+          currency?: string | null
+          due_date?: string
+          exchange_rate?: number | null
+          id?: string
+          notes?: string | null
+          payable_account_id?: string | null
+          payment_account_id?: string | null
+          scheduled_payment_date?: string | null
+          status?: Database["public"]["Enums"]["bill_status"]
+          subtotal?: number
+          tax_inclusive?: boolean
+          tax_total?: number
+          total?: number
+          updated_at?: string
+          user_id?: string
+          vendor_id?: string
+          voided_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bills_payable_account_id_fkey"
+            columns: ["payable_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bills_payment_account_id_fkey"
+            columns: ["payment_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bills_vendor_id_fkey"
+            columns: ["vendor_id"]
+            isOneToOne: false
+            referencedRelation: "vendors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       budgets: {
         Row: {
           account_id: string | null
@@ -105,243 +457,1043 @@ export type Database = {
           created_at: string
           end_date: string
           id: string
-          is_active: boolean
-          name: string
-          spent_amount: number
-          start_date: string
+          is_active: boolean
+          name: string
+          spent_amount: number
+          start_date: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          account_id?: string | null
+          amount: number
+          budget_type: string
+          category_id?: string | null
+          created_at?: string
+          end_date: string
+          id?: string
+          is_active?: boolean
+          name: string
+          spent_amount?: number
+          start_date: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          account_id?: string | null
+          amount?: number
+          budget_type?: string
+          category_id?: string | null
+          created_at?: string
+          end_date?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          spent_amount?: number
+          start_date?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "budgets_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "budgets_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      categories: {
+        Row: {
+          color: string | null
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          user_id: string
+        }
+        Insert: {
+          color?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          user_id: string
+        }
+        Update: {
+          color?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      categorization_rules: {
+        Row: {
+          created_at: string
+          id: string
+          is_active: boolean
+          match_type: Database["public"]["Enums"]["rule_match_type"]
+          max_amount: number | null
+          min_amount: number | null
+          name: string
+          pattern: string
+          payment_account_id: string | null
+          priority: number
+          set_account_id: string | null
+          set_category_id: string | null
+          set_vendor_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          match_type?: Database["public"]["Enums"]["rule_match_type"]
+          max_amount?: number | null
+          min_amount?: number | null
+          name: string
+          pattern: string
+          payment_account_id?: string | null
+          priority?: number
+          set_account_id?: string | null
+          set_category_id?: string | null
+          set_vendor_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          match_type?: Database["public"]["Enums"]["rule_match_type"]
+          max_amount?: number | null
+          min_amount?: number | null
+          name?: string
+          pattern?: string
+          payment_account_id?: string | null
+          priority?: number
+          set_account_id?: string | null
+          set_category_id?: string | null
+          set_vendor_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categorization_rules_payment_account_id_fkey"
+            columns: ["payment_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "categorization_rules_set_account_id_fkey"
+            columns: ["set_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "categorization_rules_set_category_id_fkey"
+            columns: ["set_category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "categorization_rules_set_vendor_id_fkey"
+            columns: ["set_vendor_id"]
+            isOneToOne: false
+            referencedRelation: "vendors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversations: {
+        Row: {
+          created_at: string
+          id: string
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          title?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      customers: {
+        Row: {
+          address: string | null
+          balance: number | null
+          company_name: string | null
+          created_at: string
+          credit_limit: number | null
+          customer_type: string
+          email: string | null
+          id: string
+          is_active: boolean
+          name: string
+          notes: string | null
+          payment_terms: number | null
+          phone: string | null
+          tax_number: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          address?: string | null
+          balance?: number | null
+          company_name?: string | null
+          created_at?: string
+          credit_limit?: number | null
+          customer_type?: string
+          email?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          notes?: string | null
+          payment_terms?: number | null
+          phone?: string | null
+          tax_number?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          address?: string | null
+          balance?: number | null
+          company_name?: string | null
+          created_at?: string
+          credit_limit?: number | null
+          customer_type?: string
+          email?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          notes?: string | null
+          payment_terms?: number | null
+          phone?: string | null
+          tax_number?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      exchange_rates: {
+        Row: {
+          created_at: string
+          currency: string
+          id: string
+          rate: number
+          rate_date: string
+          source: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          currency: string
+          id?: string
+          rate: number
+          rate_date: string
+          source?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          currency?: string
+          id?: string
+          rate?: number
+          rate_date?: string
+          source?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      fiscal_periods: {
+        Row: {
+          created_at: string
+          end_date: string
+          fiscal_year: number
+          id: string
+          name: string
+          period_number: number
+          start_date: string
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          end_date: string
+          fiscal_year: number
+          id?: string
+          name: string
+          period_number: number
+          start_date: string
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          end_date?: string
+          fiscal_year?: number
+          id?: string
+          name?: string
+          period_number?: number
+          start_date?: string
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      invoice_lines: {
+        Row: {
+          amount: number
+          created_at: string
+          description: string
+          id: string
+          invoice_id: string
+          position: number
+          quantity: number
+          revenue_account_id: string | null
+          tax_amount: number
+          tax_rate: number
+          tax_rate_id: string | null
+          unit_price: number
+          user_id: string
+        }
+        Insert: {
+          amount?: number
+          created_at?: string
+          description: string
+          id?: string
+          invoice_id: string
+          position?: number
+          quantity?: number
+          revenue_account_id?: string | null
+          tax_amount?: number
+          tax_rate?: number
+          tax_rate_id?: string | null
+          unit_price?: number
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          description?: string
+          id?: string
+          invoice_id?: string
+          position?: number
+          quantity?: number
+          revenue_account_id?: string | null
+          tax_amount?: number
+          tax_rate?: number
+          tax_rate_id?: string | null
+          unit_price?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_lines_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_lines_revenue_account_id_fkey"
+            columns: ["revenue_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_lines_tax_rate_id_fkey"
+            columns: ["tax_rate_id"]
+            isOneToOne: false
+            referencedRelation: "tax_rates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_payments: {
+        Row: {
+          amount: number
+          created_at: string
+          created_transaction: boolean
+          id: string
+          invoice_id: string
+          payment_date: string
+          transaction_id: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          created_transaction?: boolean
+          id?: string
+          invoice_id: string
+          payment_date: string
+          transaction_id: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_transaction?: boolean
+          id?: string
+          invoice_id?: string
+          payment_date?: string
+          transaction_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_payments_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_payments_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoices: {
+        Row: {
+          amount_paid: number
+          balance_due: number
+          created_at: string
+          currency: string | null
+          customer_id: string
+          due_date: string
+          exchange_rate: number | null
+          id: string
+          invoice_number: string
+          issue_date: string
+          notes: string | null
+          receivable_account_id: string | null
+          sent_at: string | null
+          status: Database["public"]["Enums"]["invoice_status"]
+          subtotal: number
+          tax_inclusive: boolean
+          tax_total: number
+          total: number
+          updated_at: string
+          user_id: string
+          voided_at: string | null
+        }
+        Insert: {
+          amount_paid?: number
+          balance_due?: number
+          created_at?: string
+          currency?: string | null
+          customer_id: string
+          due_date: string
+          exchange_rate?: number | null
+          id?: string
+          invoice_number?: string
+          issue_date?: string
+          notes?: string | null
+          receivable_account_id?: string | null
+          sent_at?: string | null
+          status?: Database["public"]["Enums"]["invoice_status"]
+          subtotal?: number
+          tax_inclusive?: boolean
+          tax_total?: number
+          total?: number
+          updated_at?: string
+          user_id: string
+          voided_at?: string | null
+        }
+        Update: {
+          amount_paid?: number
+          balance_due?: number
+          created_at?: string
+          currency?: string | null
+          customer_id?: string
+          due_date?: string
+          exchange_rate?: number | null
+          id?: string
+          invoice_number?: string
+          issue_date?: string
+          notes?: string | null
+          receivable_account_id?: string | null
+          sent_at?: string | null
+          status?: Database["public"]["Enums"]["invoice_status"]
+          subtotal?: number
+          tax_inclusive?: boolean
+          tax_total?: number
+          total?: number
+          updated_at?: string
+          user_id?: string
+          voided_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_receivable_account_id_fkey"
+            columns: ["receivable_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      journal_entries: {
+        Row: {
+          conversation_id: string | null
+          created_at: string
+          description: string
+          entry_date: string
+          id: string
+          reference_number: string | null
+          source_id: string | null
+          source_type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          conversation_id?: string | null
+          created_at?: string
+          description: string
+          entry_date?: string
+          id?: string
+          reference_number?: string | null
+          source_id?: string | null
+          source_type?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string | null
+          created_at?: string
+          description?: string
+          entry_date?: string
+          id?: string
+          reference_number?: string | null
+          source_id?: string | null
+          source_type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "journal_entries_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      journal_lines: {
+        Row: {
+          account_id: string
+          created_at: string
+          credit: number
+          currency: string | null
+          debit: number
+          description: string | null
+          foreign_amount: number | null
+          id: string
+          journal_entry_id: string
+          tax_rate_id: string | null
+          taxable_amount: number | null
+          user_id: string
+        }
+        Insert: {
+          account_id: string
+          created_at?: string
+          credit?: number
+          currency?: string | null
+          debit?: number
+          description?: string | null
+          foreign_amount?: number | null
+          id?: string
+          journal_entry_id: string
+          tax_rate_id?: string | null
+          taxable_amount?: number | null
+          user_id: string
+        }
+        Update: {
+          account_id?: string
+          created_at?: string
+          credit?: number
+          currency?: string | null
+          debit?: number
+          description?: string | null
+          foreign_amount?: number | null
+          id?: string
+          journal_entry_id?: string
+          tax_rate_id?: string | null
+          taxable_amount?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "journal_lines_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "journal_lines_journal_entry_id_fkey"
+            columns: ["journal_entry_id"]
+            isOneToOne: false
+            referencedRelation: "journal_entries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "journal_lines_tax_rate_id_fkey"
+            columns: ["tax_rate_id"]
+            isOneToOne: false
+            referencedRelation: "tax_rates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      messages: {
+        Row: {
+          content: string
+          conversation_id: string
+          created_at: string
+          id: string
+          metadata: Json | null
+          role: string
+        }
+        Insert: {
+          content: string
+          conversation_id: string
+          created_at?: string
+          id?: string
+          metadata?: Json | null
+          role: string
+        }
+        Update: {
+          content?: string
+          conversation_id?: string
+          created_at?: string
+          id?: string
+          metadata?: Json | null
+          role?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          auto_commit_enabled: boolean
+          auto_commit_threshold: number
+          avatar_url: string | null
+          base_currency: string
+          company_name: string | null
+          created_at: string
+          display_name: string | null
+          fiscal_year_start_month: number
+          id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          auto_commit_enabled?: boolean
+          auto_commit_threshold?: number
+          avatar_url?: string | null
+          base_currency?: string
+          company_name?: string | null
+          created_at?: string
+          display_name?: string | null
+          fiscal_year_start_month?: number
+          id?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          auto_commit_enabled?: boolean
+          auto_commit_threshold?: number
+          avatar_url?: string | null
+          base_currency?: string
+          company_name?: string | null
+          created_at?: string
+          display_name?: string | null
+          fiscal_year_start_month?: number
+          id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      proposed_actions: {
+        Row: {
+          action_type: string
+          amount: number | null
+          conversation_id: string | null
+          created_at: string
+          id: string
+          payload: Json
+          resolved_at: string | null
+          result_response: string | null
+          status: string
           updated_at: string
           user_id: string
         }
         Insert: {
-          account_id?: string | null
-          amount: number
-          budget_type: string
-          category_id?: string | null
+          action_type: string
+          amount?: number | null
+          conversation_id?: string | null
           created_at?: string
-          end_date: string
           id?: string
-          is_active?: boolean
-          name: string
-          spent_amount?: number
-          start_date: string
+          payload: Json
+          resolved_at?: string | null
+          result_response?: string | null
+          status?: string
           updated_at?: string
           user_id: string
         }
         Update: {
-          account_id?: string | null
-          amount?: number
-          budget_type?: string
-          category_id?: string | null
+          action_type?: string
+          amount?: number | null
+          conversation_id?: string | null
           created_at?: string
-          end_date?: string
           id?: string
-          is_active?: boolean
-          name?: string
-          spent_amount?: number
-          start_date?: string
+          payload?: Json
+          resolved_at?: string | null
+          result_response?: string | null
+          status?: string
           updated_at?: string
           user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "budgets_account_id_fkey"
-            columns: ["account_id"]
-            isOneToOne: false
-            referencedRelation: "accounts"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "budgets_category_id_fkey"
-            columns: ["category_id"]
+            foreignKeyName: "proposed_actions_conversation_id_fkey"
+            columns: ["conversation_id"]
             isOneToOne: false
-            referencedRelation: "categories"
+            referencedRelation: "conversations"
             referencedColumns: ["id"]
           },
         ]
       }
-      categories: {
+      reconciliations: {
         Row: {
-          color: string | null
+          account_id: string
+          beginning_balance: number
+          cleared_decreases: number
+          cleared_increases: number
+          completed_at: string
           created_at: string
-          description: string | null
+          ending_balance: number
           id: string
-          name: string
+          outstanding_transactions: Json | null
+          statement_date: string
+          transaction_count: number
           user_id: string
         }
         Insert: {
-          color?: string | null
+          account_id: string
+          beginning_balance: number
+          cleared_decreases?: number
+          cleared_increases?: number
+          completed_at?: string
           created_at?: string
-          description?: string | null
+          ending_balance: number
           id?: string
-          name: string
+          outstanding_transactions?: Json | null
+          statement_date: string
+          transaction_count?: number
           user_id: string
         }
         Update: {
-          color?: string | null
+          account_id?: string
+          beginning_balance?: number
+          cleared_decreases?: number
+          cleared_increases?: number
+          completed_at?: string
           created_at?: string
-          description?: string | null
+          ending_balance?: number
           id?: string
-          name?: string
+          outstanding_transactions?: Json | null
+          statement_date?: string
+          transaction_count?: number
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "reconciliations_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      conversations: {
+      recurring_runs: {
         Row: {
+          bill_id: string | null
           created_at: string
           id: string
-          title: string
-          updated_at: string
+          run_date: string
+          schedule_id: string
+          transaction_id: string | null
           user_id: string
         }
         Insert: {
+          bill_id?: string | null
           created_at?: string
           id?: string
-          title?: string
-          updated_at?: string
+          run_date: string
+          schedule_id: string
+          transaction_id?: string | null
           user_id: string
         }
         Update: {
+          bill_id?: string | null
           created_at?: string
           id?: string
-          title?: string
-          updated_at?: string
+          run_date?: string
+          schedule_id?: string
+          transaction_id?: string | null
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "recurring_runs_bill_id_fkey"
+            columns: ["bill_id"]
+            isOneToOne: false
+            referencedRelation: "bills"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_runs_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_schedules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_runs_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      customers: {
+      recurring_schedules: {
         Row: {
-          address: string | null
-          balance: number | null
-          company_name: string | null
           created_at: string
-          credit_limit: number | null
-          customer_type: string
-          email: string | null
+          end_date: string | null
+          frequency: Database["public"]["Enums"]["recurrence_frequency"]
           id: string
+          interval_count: number
           is_active: boolean
+          kind: string
+          last_error: string | null
+          last_run_date: string | null
+          max_occurrences: number | null
           name: string
-          notes: string | null
-          payment_terms: number | null
-          phone: string | null
-          tax_number: string | null
+          next_run_date: string | null
+          occurrences_count: number
+          start_date: string
+          template: Json
           updated_at: string
           user_id: string
         }
         Insert: {
-          address?: string | null
-          balance?: number | null
-          company_name?: string | null
           created_at?: string
-          credit_limit?: number | null
-          customer_type?: string
-          email?: string | null
+          end_date?: string | null
+          frequency?: Database["public"]["Enums"]["recurrence_frequency"]
           id?: string
+          interval_count?: number
           is_active?: boolean
+          kind?: string
+          last_error?: string | null
+          last_run_date?: string | null
+          max_occurrences?: number | null
           name: string
-          notes?: string | null
-          payment_terms?: number | null
-          phone?: string | null
-          tax_number?: string | null
+          next_run_date?: string | null
+          occurrences_count?: number
+          start_date: string
+          template?: Json
           updated_at?: string
           user_id: string
         }
         Update: {
-          address?: string | null
-          balance?: number | null
-          company_name?: string | null
           created_at?: string
-          credit_limit?: number | null
-          customer_type?: string
-          email?: string | null
+          end_date?: string | null
+          frequency?: Database["public"]["Enums"]["recurrence_frequency"]
           id?: string
+          interval_count?: number
           is_active?: boolean
+          kind?: string
+          last_error?: string | null
+          last_run_date?: string | null
+          max_occurrences?: number | null
           name?: string
-          notes?: string | null
-          payment_terms?: number | null
-          phone?: string | null
-          tax_number?: string | null
+          next_run_date?: string | null
+          occurrences_count?: number
+          start_date?: string
+          template?: Json
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
-      messages: {
+      tax_group_components: {
         Row: {
-          content: string
-          conversation_id: string
           created_at: string
+          group_id: string
           id: string
-          role: string
+          is_compound: boolean
+          position: number
+          tax_rate_id: string
+          user_id: string
         }
         Insert: {
-          content: string
-          conversation_id: string
           created_at?: string
+          group_id: string
           id?: string
-          role: string
+          is_compound?: boolean
+          position?: number
+          tax_rate_id: string
+          user_id: string
         }
         Update: {
-          content?: string
-          conversation_id?: string
           created_at?: string
+          group_id?: string
           id?: string
-          role?: string
+          is_compound?: boolean
+          position?: number
+          tax_rate_id?: string
+          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "messages_conversation_id_fkey"
-            columns: ["conversation_id"]
+            foreignKeyName: "tax_group_components_group_id_fkey"
+            columns: ["group_id"]
             isOneToOne: false
-            referencedRelation: "conversations"
+            referencedRelation: "tax_rates"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tax_group_components_tax_rate_id_fkey"
+            columns: ["tax_rate_id"]
+            isOneToOne: false
+            referencedRelation: "tax_rates"
             referencedColumns: ["id"]
           },
         ]
       }
-      profiles: {
+      tax_rates: {
         Row: {
-          avatar_url: string | null
-          company_name: string | null
+          account_id: string | null
           created_at: string
-          display_name: string | null
           id: string
+          is_active: boolean
+          is_group: boolean
+          name: string
+          rate: number
           updated_at: string
           user_id: string
         }
         Insert: {
-          avatar_url?: string | null
-          company_name?: string | null
+          account_id?: string | null
           created_at?: string
-          display_name?: string | null
           id?: string
+          is_active?: boolean
+          is_group?: boolean
+          name: string
+          rate?: number
           updated_at?: string
           user_id: string
         }
         Update: {
-          avatar_url?: string | null
-          company_name?: string | null
+          account_id?: string | null
           created_at?: string
-          display_name?: string | null
           id?: string
+          is_active?: boolean
+          is_group?: boolean
+          name?: string
+          rate?: number
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "tax_rates_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       transactions: {
         Row: {
           account_id: string
           amount: number
+          base_amount: number | null
           category_id: string | null
           conversation_id: string | null
           created_at: string
+          currency: string | null
           customer_id: string | null
           description: string
+          exchange_rate: number | null
           id: string
           notes: string | null
+          payment_account_id: string | null
+          reconciliation_id: string | null
           reference_number: string | null
           status: Database["public"]["Enums"]["transaction_status"]
+          tax_amount: number
+          tax_rate_id: string | null
           transaction_date: string
           updated_at: string
           user_id: string
@@ -350,15 +1502,22 @@ export type Database = {
         Insert: {
           account_id: string
           amount: number
+          base_amount?: number | null
           category_id?: string | null
           conversation_id?: string | null
           created_at?: string
+          currency?: string | null
           customer_id?: string | null
           description: string
+          exchange_rate?: number | null
           id?: string
           notes?: string | null
+          payment_account_id?: string | null
+          reconciliation_id?: string | null
           reference_number?: string | null
           status?: Database["public"]["Enums"]["transaction_status"]
+          tax_amount?: number
+          tax_rate_id?: string | null
           transaction_date?: string
           updated_at?: string
           user_id: string
@@ -367,15 +1526,22 @@ export type Database = {
         Update: {
           account_id?: string
           amount?: number
+          base_amount?: number | null
           category_id?: string | null
           conversation_id?: string | null
           created_at?: string
+          currency?: string | null
           customer_id?: string | null
           description?: string
+          exchange_rate?: number | null
           id?: string
           notes?: string | null
+          payment_account_id?: string | null
+          reconciliation_id?: string | null
           reference_number?: string | null
           status?: Database["public"]["Enums"]["transaction_status"]
+          tax_amount?: number
+          tax_rate_id?: string | null
           transaction_date?: string
           updated_at?: string
           user_id?: string
@@ -403,6 +1569,27 @@ export type Database = {
             referencedRelation: "conversations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "transactions_payment_account_id_fkey"
+            columns: ["payment_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_reconciliation_id_fkey"
+            columns: ["reconciliation_id"]
+            isOneToOne: false
+            referencedRelation: "reconciliations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_tax_rate_id_fkey"
+            columns: ["tax_rate_id"]
+            isOneToOne: false
+            referencedRelation: "tax_rates"
+            referencedColumns: ["id"]
+          },
         ]
       }
       vendors: {
@@ -467,10 +1654,367 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      aged_payables: {
+        Args: { p_as_of?: string }
+        Returns: {
+          bucket: string
+          credit_limit: number
+          currency: string
+          days_overdue: number
+          document_date: string
+          document_id: string
+          document_number: string
+          document_open_amount: number
+          due_date: string
+          open_amount: number
+          party_id: string
+          party_name: string
+        }[]
+      }
+      aged_receivables: {
+        Args: { p_as_of?: string }
+        Returns: {
+          bucket: string
+          credit_limit: number
+          currency: string
+          days_overdue: number
+          document_date: string
+          document_id: string
+          document_number: string
+          document_open_amount: number
+          due_date: string
+          open_amount: number
+          party_id: string
+          party_name: string
+        }[]
+      }
+      aging_bucket: {
+        Args: { p_as_of: string; p_due_date: string }
+        Returns: string
+      }
+      assert_period_open: {
+        Args: { p_allow_closed?: boolean; p_date: string; p_user_id: string }
+        Returns: undefined
+      }
+      balance_sheet: {
+        Args: { p_as_of: string }
+        Returns: {
+          account_code: string
+          account_id: string
+          account_name: string
+          account_type: Database["public"]["Enums"]["account_type"]
+          balance: number
+          parent_account_id: string
+          total_balance: number
+        }[]
+      }
+      base_currency: {
+        Args: { p_user_id: string }
+        Returns: string
+      }
+      cash_flow_statement: {
+        Args: { p_end_date: string; p_start_date: string }
+        Returns: {
+          account_code: string
+          account_id: string
+          account_name: string
+          amount: number
+          section: string
+        }[]
+      }
+      close_fiscal_year: {
+        Args: { p_fiscal_year: number }
+        Returns: string
+      }
+      complete_reconciliation: {
+        Args: {
+          p_account_id: string
+          p_ending_balance: number
+          p_opening_balance?: number
+          p_statement_date: string
+          p_transaction_ids: string[]
+        }
+        Returns: string
+      }
+      create_journal_entry: {
+        Args: {
+          p_conversation_id?: string
+          p_description: string
+          p_entry_date: string
+          p_lines: Json
+          p_reference_number?: string
+          p_user_id: string
+        }
+        Returns: string
+      }
+      document_posting: {
+        Args: { p_document: Json }
+        Returns: Json
+      }
+      effective_rate: {
+        Args: { "": Database["public"]["Tables"]["tax_rates"]["Row"] }
+        Returns: number
+      }
+      ensure_account: {
+        Args: {
+          p_account_type: Database["public"]["Enums"]["account_type"]
+          p_code: string
+          p_name: string
+          p_user_id: string
+        }
+        Returns: string
+      }
+      ensure_fiscal_periods: {
+        Args: { p_fiscal_year: number }
+        Returns: {
+          created_at: string
+          end_date: string
+          fiscal_year: number
+          id: string
+          name: string
+          period_number: number
+          start_date: string
+          status: string
+          updated_at: string
+          user_id: string
+        }[]
+      }
+      exchange_rate_on: {
+        Args: { p_currency: string; p_date: string; p_user_id: string }
+        Returns: number
+      }
+      execute_ledger_actions: {
+        Args: {
+          p_actions: Json
+          p_context_id?: string
+          p_conversation_id?: string
+          p_user_id: string
+        }
+        Returns: Json
+      }
+      fiscal_year_start: {
+        Args: { p_date: string; p_user_id: string }
+        Returns: string
+      }
+      journal_line_currency: {
+        Args: { p_account_id: string; p_currency: string }
+        Returns: string
+      }
+      line_tax: {
+        Args: {
+          p_amount: number
+          p_inclusive?: boolean
+          p_tax_rate_id: string
+          p_user_id: string
+        }
+        Returns: number
+      }
+      match_categorization_rules: {
+        Args: { p_items: Json }
+        Returns: {
+          account_id: string
+          category_id: string
+          item_index: number
+          rule_id: string
+          rule_name: string
+          vendor_id: string
+        }[]
+      }
+      next_recurrence_date: {
+        Args: {
+          p_after: string
+          p_frequency: Database["public"]["Enums"]["recurrence_frequency"]
+          p_interval: number
+          p_start: string
+        }
+        Returns: string
+      }
+      normalize_description: {
+        Args: { p_description: string }
+        Returns: string
+      }
+      profit_and_loss: {
+        Args: { p_end_date: string; p_interval?: string; p_start_date: string }
+        Returns: {
+          account_code: string
+          account_id: string
+          account_name: string
+          account_type: Database["public"]["Enums"]["account_type"]
+          amount: number
+          parent_account_id: string
+          period_end: string
+          period_start: string
+        }[]
+      }
+      record_bill_payment: {
+        Args: {
+          p_amount: number
+          p_bill_id: string
+          p_payment_account_id?: string
+          p_payment_date?: string
+          p_transaction_id?: string
+        }
+        Returns: string
+      }
+      record_invoice_payment: {
+        Args: {
+          p_amount: number
+          p_invoice_id: string
+          p_payment_account_id?: string
+          p_payment_date?: string
+          p_transaction_id?: string
+        }
+        Returns: string
+      }
+      recurrence_date: {
+        Args: {
+          p_frequency: Database["public"]["Enums"]["recurrence_frequency"]
+          p_index: number
+          p_interval: number
+          p_start: string
+        }
+        Returns: string
+      }
+      refresh_bill_totals: {
+        Args: { p_bill_id: string }
+        Returns: undefined
+      }
+      refresh_customer_balance: {
+        Args: { p_customer_id: string }
+        Returns: undefined
+      }
+      refresh_invoice_totals: {
+        Args: { p_invoice_id: string }
+        Returns: undefined
+      }
+      refresh_vendor_balance: {
+        Args: { p_vendor_id: string }
+        Returns: undefined
+      }
+      remove_bill_payment: {
+        Args: { p_payment_id: string }
+        Returns: undefined
+      }
+      remove_invoice_payment: {
+        Args: { p_payment_id: string }
+        Returns: undefined
+      }
+      reopen_fiscal_year: {
+        Args: { p_fiscal_year: number }
+        Returns: undefined
+      }
+      resolve_action_refs: {
+        Args: { p_refs: Json; p_value: Json }
+        Returns: Json
+      }
+      revalue_foreign_balances: {
+        Args: { p_as_of?: string; p_post?: boolean }
+        Returns: {
+          account_id: string
+          account_name: string
+          adjustment: number
+          book_balance: number
+          currency: string
+          exchange_rate: number
+          foreign_balance: number
+          revalued_balance: number
+        }[]
+      }
+      rule_matches: {
+        Args: {
+          p_amount: number
+          p_description: string
+          p_payment_account_id: string
+          p_rule: Database["public"]["Tables"]["categorization_rules"]["Row"]
+        }
+        Returns: boolean
+      }
+      rule_matches_description: {
+        Args: {
+          p_description: string
+          p_rule: Database["public"]["Tables"]["categorization_rules"]["Row"]
+        }
+        Returns: boolean
+      }
+      run_recurring_schedules: {
+        Args: { p_as_of?: string; p_schedule_id?: string }
+        Returns: number
+      }
+      statement_effect: {
+        Args: {
+          p_account_id: string
+          p_account_type: Database["public"]["Enums"]["account_type"]
+          p_transaction: Database["public"]["Tables"]["transactions"]["Row"]
+        }
+        Returns: number
+      }
+      suggest_categorization_rules: {
+        Args: { p_min_count?: number }
+        Returns: {
+          account_id: string
+          category_id: string
+          example_description: string
+          pattern: string
+          transaction_count: number
+          vendor_id: string
+        }[]
+      }
+      tax_components: {
+        Args: { p_amount: number; p_inclusive?: boolean; p_tax_rate_id: string }
+        Returns: {
+          account_id: string
+          rate: number
+          tax: number
+          tax_rate_id: string
+          taxable: number
+        }[]
+      }
+      tax_rate_in_use: {
+        Args: { p_tax_rate_id: string }
+        Returns: boolean
+      }
+      tax_return: {
+        Args: { p_end_date: string; p_interval?: string; p_start_date: string }
+        Returns: {
+          net_tax: number
+          period_end: string
+          period_start: string
+          rate: number
+          tax_collected: number
+          tax_name: string
+          tax_paid: number
+          tax_rate_id: string
+          taxable_purchases: number
+          taxable_sales: number
+        }[]
+      }
+      trial_balance: {
+        Args: { p_as_of: string }
+        Returns: {
+          account_code: string
+          account_id: string
+          account_name: string
+          account_type: Database["public"]["Enums"]["account_type"]
+          credit: number
+          debit: number
+        }[]
+      }
+      undo_reconciliation: {
+        Args: { p_reconciliation_id: string }
+        Returns: undefined
+      }
+      use_ai_action_context: {
+        Args: { p_context_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
       account_type: "asset" | "liability" | "equity" | "revenue" | "expense"
+      bill_status: "draft" | "open" | "partially_paid" | "paid" | "void"
+      cash_flow_activity: "cash" | "operating" | "investing" | "financing"
+      invoice_status: "draft" | "sent" | "partially_paid" | "paid" | "void"
+      recurrence_frequency: "daily" | "weekly" | "monthly" | "yearly"
+      rule_match_type: "contains" | "regex"
       transaction_status: "pending" | "cleared" | "reconciled"
     }
     CompositeTypes: {
@@ -600,6 +2144,11 @@ export const Constants = {
   public: {
     Enums: {
       account_type: ["asset", "liability", "equity", "revenue", "expense"],
+      bill_status: ["draft", "open", "partially_paid", "paid", "void"],
+      cash_flow_activity: ["cash", "operating", "investing", "financing"],
+      invoice_status: ["draft", "sent", "partially_paid", "paid", "void"],
+      recurrence_frequency: ["daily", "weekly", "monthly", "yearly"],
+      rule_match_type: ["contains", "regex"],
       transaction_status: ["pending", "cleared", "reconciled"],
     },
   },
@@ -0,0 +1,86 @@
+// Aged receivables and payables, grouped from the per-document rows of the
+// aged_receivables / aged_payables database functions.
+
+export type AgingKind = 'receivables' | 'payables';
+
+export type AgingBucket = 'current' | '1_30' | '31_60' | '61_90' | 'over_90';
+
+export const AGING_BUCKETS: { key: AgingBucket; label: string }[] = [
+  { key: 'current', label: 'Current' },
+  { key: '1_30', label: '1–30' },
+  { key: '31_60', label: '31–60' },
+  { key: '61_90', label: '61–90' },
+  { key: 'over_90', label: '90+' },
+];
+
+export interface AgingDocument {
+  party_id: string;
+  party_name: string;
+  credit_limit: number;
+  document_id: string;
+  document_number: string | null;
+  document_date: string;
+  due_date: string;
+  days_overdue: number;
+  bucket: string;
+  // In the base currency; document_open_amount is in the document's currency
+  open_amount: number;
+  currency: string;
+  document_open_amount: number;
+}
+
+export interface AgingParty {
+  party_id: string;
+  party_name: string;
+  credit_limit: number;
+  buckets: Record<AgingBucket, number>;
+  total: number;
+  documents: AgingDocument[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const emptyBuckets = (): Record<AgingBucket, number> =>
+  ({ current: 0, '1_30': 0, '31_60': 0, '61_90': 0, over_90: 0 });
+
+// One row per customer or vendor, largest balance first
+export function groupAging(documents: AgingDocument[]): AgingParty[] {
+  const parties = new Map<string, AgingParty>();
+
+  for (const document of documents) {
+    let party = parties.get(document.party_id);
+    if (!party) {
+      party = {
+        party_id: document.party_id,
+        party_name: document.party_name,
+        credit_limit: Number(document.credit_limit),
+        buckets: emptyBuckets(),
+        total: 0,
+        documents: [],
+      };
+      parties.set(document.party_id, party);
+    }
+
+    const bucket = document.bucket as AgingBucket;
+    party.buckets[bucket] = round(party.buckets[bucket] + Number(document.open_amount));
+    party.total = round(party.total + Number(document.open_amount));
+    party.documents.push(document);
+  }
+
+  for (const party of parties.values()) {
+    party.documents.sort((a, b) => a.due_date.localeCompare(b.due_date));
+  }
+  return [...parties.values()].sort((a, b) => b.total - a.total);
+}
+
+export function agingTotals(parties: AgingParty[]) {
+  const buckets = emptyBuckets();
+  for (const party of parties) {
+    for (const { key } of AGING_BUCKETS) buckets[key] = round(buckets[key] + party.buckets[key]);
+  }
+  return { buckets, total: round(parties.reduce((sum, party) => sum + party.total, 0)) };
+}
+
+// A credit limit of 0 means none was set
+export const isOverCreditLimit = (party: Pick<AgingParty, 'credit_limit' | 'total'>) =>
+  party.credit_limit > 0 && party.total > party.credit_limit;
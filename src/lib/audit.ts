@@ -0,0 +1,62 @@
+// Audit log entries as written by the audit_change trigger: the whole row
+// before and after each change.
+
+export const AUDITED_TABLES = [
+  { value: 'transactions', label: 'Transaction' },
+  { value: 'accounts', label: 'Account' },
+  { value: 'budgets', label: 'Budget' },
+  { value: 'customers', label: 'Customer' },
+  { value: 'vendors', label: 'Vendor' },
+  { value: 'categories', label: 'Category' },
+] as const;
+
+export const AUDIT_ACTORS = [
+  { value: 'user', label: 'You' },
+  { value: 'ai', label: 'AI assistant' },
+  { value: 'system', label: 'Recurring schedule' },
+] as const;
+
+export interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+type AuditData = Record<string, unknown> | null;
+
+// Columns every row has that say nothing about the change itself
+const BOOKKEEPING_FIELDS = new Set(['id', 'user_id', 'created_at', 'updated_at']);
+
+const asData = (value: unknown): AuditData =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : null;
+
+export const tableLabel = (table: string) =>
+  AUDITED_TABLES.find((entry) => entry.value === table)?.label || table;
+
+export const actorLabel = (actor: string) =>
+  AUDIT_ACTORS.find((entry) => entry.value === actor)?.label || actor;
+
+// What a person would call the record: its description or name, as of the change
+export function recordLabel(oldData: unknown, newData: unknown) {
+  const row = asData(newData) || asData(oldData);
+  const label = row?.description || row?.name;
+  return typeof label === 'string' && label ? label : 'Untitled';
+}
+
+// Fields set on an insert, cleared on a delete or different after an update
+export function auditChanges(oldData: unknown, newData: unknown): AuditChange[] {
+  const before = asData(oldData) || {};
+  const after = asData(newData) || {};
+
+  return [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .filter((field) => !BOOKKEEPING_FIELDS.has(field))
+    .filter((field) => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null))
+    .sort()
+    .map((field) => ({ field, before: before[field] ?? null, after: after[field] ?? null }));
+}
+
+export function formatAuditValue(value: unknown) {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
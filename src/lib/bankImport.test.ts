@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { applyCsvMapping, guessCsvMapping, guessDecimalSeparator, parseAmount, parseCsvRows } from './bankImport';
+
+describe('parseAmount', () => {
+  it('reads decimal points with thousands commas', () => {
+    expect(parseAmount('1,234.56')).toBe(1234.56);
+    expect(parseAmount('12.50')).toBe(12.5);
+    expect(parseAmount('$5')).toBe(5);
+    expect(parseAmount('1,234')).toBe(1234);
+  });
+
+  it('reads decimal commas with thousands points', () => {
+    expect(parseAmount('12,50', ',')).toBe(12.5);
+    expect(parseAmount('1.234,56', ',')).toBe(1234.56);
+    expect(parseAmount('1 234,56 €', ',')).toBe(1234.56);
+    expect(parseAmount('1.234', ',')).toBe(1234);
+  });
+
+  it('reads negative amounts in either format', () => {
+    expect(parseAmount('(12.00)')).toBe(-12);
+    expect(parseAmount('-12.00 ')).toBe(-12);
+    expect(parseAmount('12.00-')).toBe(-12);
+    expect(parseAmount('-1.234,56', ',')).toBe(-1234.56);
+    expect(parseAmount('(12,50)', ',')).toBe(-12.5);
+  });
+
+  it('rejects cells without a number', () => {
+    expect(parseAmount('')).toBeNull();
+    expect(parseAmount('Amount')).toBeNull();
+    expect(parseAmount('1.2.3')).toBeNull();
+    expect(parseAmount('1,2,3', ',')).toBeNull();
+  });
+});
+
+describe('guessDecimalSeparator', () => {
+  it('picks the comma only when amounts end in a comma and one or two digits', () => {
+    expect(guessDecimalSeparator(['12,50', '-1.234,56'])).toBe(',');
+    expect(guessDecimalSeparator(['12.50', '1,234.56'])).toBe('.');
+    expect(guessDecimalSeparator(['1,234', '12'])).toBe('.');
+    expect(guessDecimalSeparator([])).toBe('.');
+  });
+});
+
+describe('CSV import', () => {
+  it('imports a semicolon statement with decimal commas', () => {
+    const rows = parseCsvRows('Date;Description;Amount\n2025-01-15;Coffee;-3,50\n2025-01-16;Salary;1.234,56\n', ';');
+    const mapping = guessCsvMapping(rows, ';');
+
+    expect(mapping.decimalSeparator).toBe(',');
+    expect(applyCsvMapping(rows, mapping).lines.map((line) => line.amount)).toEqual([-3.5, 1234.56]);
+  });
+
+  it('imports a comma statement with decimal points', () => {
+    const rows = parseCsvRows('Date,Description,Amount\n2025-01-15,Coffee,-3.50\n2025-01-16,Salary,"1,234.56"\n', ',');
+    const mapping = guessCsvMapping(rows, ',');
+
+    expect(mapping.decimalSeparator).toBe('.');
+    expect(applyCsvMapping(rows, mapping).lines.map((line) => line.amount)).toEqual([-3.5, 1234.56]);
+  });
+
+  it('reads mappings saved without a decimal separator with decimal points', () => {
+    const rows = parseCsvRows('2025-01-16,Salary,"1,234.56"\n', ',');
+    const { decimalSeparator: _, ...saved } = guessCsvMapping(rows, ',');
+
+    expect(applyCsvMapping(rows, saved).lines[0].amount).toBe(1234.56);
+  });
+});
@@ -0,0 +1,340 @@
+// Bank and card statement parsing for the statement importer.
+// Every format is reduced to the same statement lines. Amounts are signed from
+// the account holder's side: positive is money into the account, negative is
+// money out, matching the sign of transactions.amount.
+
+export type StatementFormat = 'csv' | 'ofx' | 'qif' | 'camt053';
+
+export interface StatementLine {
+  date: string;
+  amount: number;
+  description: string;
+  reference: string | null;
+}
+
+export type CsvDateFormat = 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY';
+
+// "1,234.56" or "1.234,56"
+export type DecimalSeparator = '.' | ',';
+
+// Column indexes are zero-based. Either amountColumn, or debitColumn and
+// creditColumn (money out and money in), must be set.
+export interface CsvMapping {
+  delimiter: string;
+  hasHeader: boolean;
+  dateColumn: number;
+  dateFormat: CsvDateFormat;
+  // Mappings saved before this was added have none; they used '.'
+  decimalSeparator?: DecimalSeparator;
+  descriptionColumn: number;
+  amountColumn: number | null;
+  debitColumn: number | null;
+  creditColumn: number | null;
+  referenceColumn: number | null;
+  // Card exports often list charges as positive amounts
+  invertAmounts: boolean;
+}
+
+export const FORMAT_LABELS: Record<StatementFormat, string> = {
+  csv: 'CSV',
+  ofx: 'OFX / QFX',
+  qif: 'QIF',
+  camt053: 'CAMT.053',
+};
+
+export function detectFormat(fileName: string, text: string): StatementFormat {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  const head = text.slice(0, 2000);
+
+  if (extension === 'ofx' || extension === 'qfx' || /OFXHEADER|<OFX>/i.test(head)) return 'ofx';
+  if (extension === 'qif' || /^\s*!Type:/im.test(head)) return 'qif';
+  if (/camt\.053/i.test(head) || /<BkToCstmrStmt>/.test(head)) return 'camt053';
+  return 'csv';
+}
+
+// Statement amounts like "1,234.56", "(12.00)", "-12.00 " or "$5", or with a
+// decimal comma, "1.234,56" or "12,50 €". Thousands marks (the other one of
+// '.' and ',', spaces and apostrophes) are dropped.
+export function parseAmount(value: string, decimalSeparator: DecimalSeparator = '.'): number | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  const negative = /^\(.*\)$/.test(trimmed) || trimmed.startsWith('-') || trimmed.endsWith('-');
+  const thousandsSeparator = decimalSeparator === '.' ? ',' : '.';
+  const digits = trimmed
+    .replace(/[^\d.,]/g, '')
+    .split(thousandsSeparator).join('')
+    .replace(decimalSeparator, '.');
+  if (!/\d/.test(digits) || Number.isNaN(Number(digits))) return null;
+
+  const amount = Number(digits);
+  return negative ? -amount : amount;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const fullYear = (year: number) => (year < 100 ? (year < 70 ? 2000 + year : 1900 + year) : year);
+
+function isoDate(year: number, month: number, day: number) {
+  if (!year || month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return `${fullYear(year)}-${pad(month)}-${pad(day)}`;
+}
+
+export function parseDate(value: string, format: CsvDateFormat): string | null {
+  const parts = value.trim().split(/[^\d]+/).filter(Boolean).map(Number);
+  if (parts.length < 3) return null;
+
+  switch (format) {
+    case 'YYYY-MM-DD':
+      return isoDate(parts[0], parts[1], parts[2]);
+    case 'MM/DD/YYYY':
+      return isoDate(parts[2], parts[0], parts[1]);
+    case 'DD/MM/YYYY':
+      return isoDate(parts[2], parts[1], parts[0]);
+  }
+}
+
+// RFC 4180 style: quoted fields may contain the delimiter, newlines and "" escapes
+export function parseCsvRows(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some((cell) => cell.trim())) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  if (row.some((cell) => cell.trim())) rows.push(row);
+  return rows;
+}
+
+export function guessDelimiter(text: string) {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const counts = [',', ';', '\t', '|'].map((delimiter) => ({ delimiter, count: firstLine.split(delimiter).length }));
+  return counts.sort((a, b) => b.count - a.count)[0].delimiter;
+}
+
+// A decimal comma shows as one or two digits after the last ',' ("12,50",
+// "1.234,5"), where a thousands comma always has three ("1,234")
+export function guessDecimalSeparator(values: string[]): DecimalSeparator {
+  const endsWith = (pattern: RegExp) => values.some((value) => pattern.test(value.replace(/[^\d.,]/g, '')));
+  return endsWith(/,\d{1,2}$/) && !endsWith(/\.\d{1,2}$/) ? ',' : '.';
+}
+
+// Best guess at a mapping from the header row; the user can correct it
+export function guessCsvMapping(rows: string[][], delimiter: string): CsvMapping {
+  const header = (rows[0] || []).map((cell) => cell.trim().toLowerCase());
+  const find = (...names: string[]) => {
+    const index = header.findIndex((cell) => names.some((name) => cell.includes(name)));
+    return index === -1 ? null : index;
+  };
+
+  const hasHeader = header.length > 0 && header.every((cell) => parseAmount(cell) === null);
+  const debitColumn = find('debit', 'withdrawal', 'money out', 'paid out');
+  const creditColumn = find('credit', 'deposit', 'money in', 'paid in');
+  const amountColumn = find('amount') ?? (debitColumn !== null && creditColumn !== null ? null : 2);
+  const sample = rows[hasHeader ? 1 : 0]?.[find('date') ?? 0] || '';
+  const amountColumns = amountColumn !== null ? [amountColumn] : [debitColumn, creditColumn];
+  const amountCells = rows.slice(hasHeader ? 1 : 0).flatMap((row) => amountColumns.map((column) => row[column ?? -1] || ''));
+
+  return {
+    delimiter,
+    hasHeader,
+    dateColumn: find('date') ?? 0,
+    dateFormat: /^\d{4}/.test(sample.trim()) ? 'YYYY-MM-DD' : 'MM/DD/YYYY',
+    decimalSeparator: guessDecimalSeparator(amountCells),
+    descriptionColumn: find('description', 'payee', 'memo', 'details', 'narrative', 'name') ?? 1,
+    amountColumn,
+    debitColumn: amountColumn === null ? debitColumn : null,
+    creditColumn: amountColumn === null ? creditColumn : null,
+    referenceColumn: find('reference', 'ref', 'check', 'transaction id', 'fitid'),
+    invertAmounts: false,
+  };
+}
+
+export function applyCsvMapping(rows: string[][], mapping: CsvMapping) {
+  const lines: StatementLine[] = [];
+  const errors: string[] = [];
+
+  rows.slice(mapping.hasHeader ? 1 : 0).forEach((row, index) => {
+    const rowNumber = index + (mapping.hasHeader ? 2 : 1);
+    const date = parseDate(row[mapping.dateColumn] || '', mapping.dateFormat);
+
+    const cellAmount = (column: number | null) => parseAmount(row[column ?? -1] || '', mapping.decimalSeparator);
+    let amount: number | null;
+    if (mapping.amountColumn !== null) {
+      amount = cellAmount(mapping.amountColumn);
+    } else {
+      const out = cellAmount(mapping.debitColumn);
+      const into = cellAmount(mapping.creditColumn);
+      amount = out === null && into === null ? null : Math.abs(into ?? 0) - Math.abs(out ?? 0);
+    }
+
+    if (!date || amount === null) {
+      errors.push(`Row ${rowNumber}: ${!date ? 'unreadable date' : 'no amount'}`);
+      return;
+    }
+
+    const reference = mapping.referenceColumn !== null ? row[mapping.referenceColumn]?.trim() : '';
+    lines.push({
+      date,
+      amount: mapping.invertAmounts ? -amount : amount,
+      description: (row[mapping.descriptionColumn] || '').trim() || 'Imported transaction',
+      reference: reference || null,
+    });
+  });
+
+  return { lines, errors };
+}
+
+// OFX 1.x is SGML with optional closing tags; 2.x is XML. Reading each
+// <STMTTRN> block tag by tag handles both.
+export function parseOfx(text: string): StatementLine[] {
+  const blocks = text.split(/<STMTTRN>/i).slice(1).map((block) => block.split(/<\/STMTTRN>/i)[0]);
+  const tag = (block: string, name: string) => block.match(new RegExp(`<${name}>([^<\\r\\n]*)`, 'i'))?.[1].trim() || '';
+
+  return blocks.flatMap((block) => {
+    const posted = tag(block, 'DTPOSTED');
+    const date = isoDate(Number(posted.slice(0, 4)), Number(posted.slice(4, 6)), Number(posted.slice(6, 8)));
+    const amount = parseAmount(tag(block, 'TRNAMT'));
+    if (!date || amount === null) return [];
+
+    const name = tag(block, 'NAME');
+    const memo = tag(block, 'MEMO');
+    return [{
+      date,
+      amount,
+      description: [name, memo && memo !== name ? memo : ''].filter(Boolean).join(' - ') || 'Imported transaction',
+      reference: tag(block, 'FITID') || tag(block, 'CHECKNUM') || null,
+    }];
+  });
+}
+
+// QIF records are lines of <code><value> ending in "^". Dates are US ordered,
+// with "'" before two-digit years after 2000 (e.g. 1/15'24).
+export function parseQif(text: string): StatementLine[] {
+  const lines: StatementLine[] = [];
+  let record: Record<string, string> = {};
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || line.startsWith('!')) continue;
+
+    if (line === '^') {
+      const date = record.D ? parseDate(record.D.replace("'", '/'), 'MM/DD/YYYY') : null;
+      const amount = parseAmount(record.T || record.U || '');
+      if (date && amount !== null) {
+        lines.push({
+          date,
+          amount,
+          description: [record.P, record.M && record.M !== record.P ? record.M : ''].filter(Boolean).join(' - ') || 'Imported transaction',
+          reference: record.N || null,
+        });
+      }
+      record = {};
+    } else {
+      record[line[0]] = line.slice(1).trim();
+    }
+  }
+
+  return lines;
+}
+
+// ISO 20022 bank-to-customer statement: one <Ntry> per booked entry
+export function parseCamt053(text: string): StatementLine[] {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('The file is not valid XML');
+
+  const first = (parent: Element, ...path: string[]): Element | null => {
+    let node: Element | null = parent;
+    for (const name of path) {
+      node = node ? node.getElementsByTagNameNS('*', name)[0] || null : null;
+    }
+    return node;
+  };
+  const value = (parent: Element, ...path: string[]) => first(parent, ...path)?.textContent?.trim() || '';
+
+  return Array.from(doc.getElementsByTagNameNS('*', 'Ntry')).flatMap((entry) => {
+    const booked = value(entry, 'BookgDt', 'Dt') || value(entry, 'BookgDt', 'DtTm') || value(entry, 'ValDt', 'Dt');
+    const date = parseDate(booked.slice(0, 10), 'YYYY-MM-DD');
+    const amount = parseAmount(value(entry, 'Amt'));
+    if (!date || amount === null) return [];
+
+    const debit = value(entry, 'CdtDbtInd') === 'DBIT';
+    const description = value(entry, 'AddtlNtryInf')
+      || value(entry, 'RmtInf', 'Ustrd')
+      || value(entry, 'RltdPties', 'Nm')
+      || 'Imported transaction';
+
+    return [{
+      date,
+      amount: debit ? -Math.abs(amount) : Math.abs(amount),
+      description,
+      reference: value(entry, 'AcctSvcrRef') || value(entry, 'Refs', 'EndToEndId') || null,
+    }];
+  });
+}
+
+export function parseStatement(format: Exclude<StatementFormat, 'csv'>, text: string): StatementLine[] {
+  switch (format) {
+    case 'ofx':
+      return parseOfx(text);
+    case 'qif':
+      return parseQif(text);
+    case 'camt053':
+      return parseCamt053(text);
+  }
+}
+
+export interface ExistingTransaction {
+  transaction_date: string;
+  amount: number;
+  reference_number: string | null;
+}
+
+const duplicateKey = (date: string, amount: number, reference: string | null) =>
+  `${date}|${Number(amount).toFixed(2)}|${reference || ''}`;
+
+// Flags statement lines already recorded, matching on date, amount and
+// reference number. Each existing transaction matches at most one line, so two
+// identical purchases on the same day are only skipped if both were recorded.
+export function findDuplicates(lines: StatementLine[], existing: ExistingTransaction[]) {
+  const remaining = new Map<string, number>();
+  for (const transaction of existing) {
+    const key = duplicateKey(transaction.transaction_date, transaction.amount, transaction.reference_number);
+    remaining.set(key, (remaining.get(key) || 0) + 1);
+  }
+
+  return lines.map((line) => {
+    const key = duplicateKey(line.date, line.amount, line.reference);
+    const count = remaining.get(key) || 0;
+    if (count === 0) return false;
+    remaining.set(key, count - 1);
+    return true;
+  });
+}
@@ -0,0 +1,57 @@
+// Bill arithmetic and payment scheduling for the bill editor and vendor views.
+// As with invoices, the database recomputes every amount on save
+// (prepare_bill_line, refresh_bill_totals); these mirror it for live totals.
+import { addDays, today } from '@/lib/reports';
+import { splitTax, TaxComponent } from '@/lib/tax';
+
+export type BillStatus = 'draft' | 'open' | 'partially_paid' | 'paid' | 'void';
+
+export interface BillLineInput {
+  quantity: number;
+  unit_price: number;
+  // Entered by hand unless the line has a tax rate
+  tax_amount: number;
+  // Components of the line's tax rate or group, if it has one
+  tax?: TaxComponent[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// With inclusive prices the amount is what is left after the tax
+export function billLineAmounts(line: BillLineInput, inclusive = false) {
+  const gross = round(line.quantity * line.unit_price);
+  const tax = line.tax ? splitTax(line.tax, gross, inclusive).tax : round(line.tax_amount);
+  return { amount: inclusive ? round(gross - tax) : gross, tax };
+}
+
+export function billTotals(lines: BillLineInput[], inclusive = false) {
+  let subtotal = 0;
+  let tax = 0;
+  for (const line of lines) {
+    const amounts = billLineAmounts(line, inclusive);
+    subtotal += amounts.amount;
+    tax += amounts.tax;
+  }
+  return { subtotal: round(subtotal), tax: round(tax), total: round(subtotal + tax) };
+}
+
+export const BILL_STATUS_LABELS: Record<BillStatus, string> = {
+  draft: 'Draft',
+  open: 'Open',
+  partially_paid: 'Partially paid',
+  paid: 'Paid',
+  void: 'Void',
+};
+
+// Bills still to be paid, drafts included
+export const OPEN_BILL_STATUSES: BillStatus[] = ['draft', 'open', 'partially_paid'];
+
+export const isBillOverdue = (bill: { status: BillStatus; due_date: string }, asOf = today()) =>
+  (bill.status === 'open' || bill.status === 'partially_paid') && bill.due_date < asOf;
+
+// A scheduled payment date takes precedence over the due date
+export const plannedPaymentDate = (bill: { due_date: string; scheduled_payment_date: string | null }) =>
+  bill.scheduled_payment_date || bill.due_date;
+
+// Last day of the "due in the next N days" window; overdue bills are always included
+export const scheduleHorizon = (days: number, asOf = today()) => addDays(asOf, days);
@@ -0,0 +1,91 @@
+// Currencies and exchange rates. Amounts are in the user's base currency
+// unless a record says otherwise; the database converts documents with the
+// rate on their date (exchange_rate_on) and posts the journal in base.
+import { guessDelimiter, parseCsvRows } from '@/lib/bankImport';
+
+// Offered for the base currency and when adding rates; any ISO code works
+export const COMMON_CURRENCIES = [
+  'USD', 'EUR', 'GBP', 'CAD', 'AUD', 'NZD', 'JPY', 'CHF', 'CNY', 'HKD',
+  'SGD', 'INR', 'MXN', 'BRL', 'ZAR', 'SEK', 'NOK', 'DKK', 'PLN', 'AED',
+];
+
+export const isCurrencyCode = (value: string) => /^[A-Z]{3}$/.test(value);
+
+// Loaded from the profile once signed in (see Index); formatCurrency reads it
+let baseCurrency = 'USD';
+const listeners = new Set<() => void>();
+
+export const getBaseCurrency = () => baseCurrency;
+
+export function setBaseCurrency(code: string) {
+  if (code === baseCurrency) return;
+  baseCurrency = code;
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeBaseCurrency(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Units of the base currency one unit of the currency buys on rate_date
+export interface ExchangeRate {
+  currency: string;
+  rate_date: string;
+  rate: number;
+}
+
+// The base currency first, then every currency with a rate
+export function currencyOptions(rates: Pick<ExchangeRate, 'currency'>[], base = baseCurrency) {
+  return [base, ...new Set(rates.map((rate) => rate.currency).filter((currency) => currency !== base))];
+}
+
+// Latest rate on or before the date, as exchange_rate_on picks it
+export function rateOn(rates: ExchangeRate[], currency: string, date: string, base = baseCurrency) {
+  if (currency === base) return 1;
+  const match = rates
+    .filter((rate) => rate.currency === currency && rate.rate_date <= date)
+    .sort((a, b) => b.rate_date.localeCompare(a.rate_date))[0];
+  return match ? Number(match.rate) : null;
+}
+
+export const toBase = (amount: number, rate: number) => Math.round(amount * rate * 100) / 100;
+
+// A rates file is CSV with a date, a currency code and a rate per row, in
+// that order unless a header row names the columns. Dates are YYYY-MM-DD.
+export function parseRatesFile(text: string) {
+  const rows = parseCsvRows(text, guessDelimiter(text));
+  const header = (rows[0] || []).map((cell) => cell.trim().toLowerCase());
+  // An exact name wins so "rate_date" is not taken for the rate
+  const column = (name: string, fallback: number) => {
+    const exact = header.indexOf(name);
+    const index = exact !== -1 ? exact : header.findIndex((cell) => cell.includes(name));
+    return index === -1 ? fallback : index;
+  };
+  const hasHeader = header.some((cell) => ['date', 'currency', 'rate'].some((name) => cell.includes(name)));
+  const columns = { date: column('date', 0), currency: column('currency', 1), rate: column('rate', 2) };
+
+  const rates: ExchangeRate[] = [];
+  const errors: string[] = [];
+
+  rows.slice(hasHeader ? 1 : 0).forEach((row, index) => {
+    const rowNumber = index + (hasHeader ? 2 : 1);
+    const rate_date = (row[columns.date] || '').trim();
+    const currency = (row[columns.currency] || '').trim().toUpperCase();
+    const rate = Number((row[columns.rate] || '').trim());
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(rate_date)) {
+      errors.push(`Row ${rowNumber}: date must be YYYY-MM-DD`);
+    } else if (!isCurrencyCode(currency)) {
+      errors.push(`Row ${rowNumber}: "${currency}" is not a currency code`);
+    } else if (!Number.isFinite(rate) || rate <= 0) {
+      errors.push(`Row ${rowNumber}: rate must be a positive number`);
+    } else {
+      rates.push({ currency, rate_date, rate });
+    }
+  });
+
+  return { rates, errors };
+}
@@ -0,0 +1,59 @@
+// Invoice arithmetic for the invoice editor. The database recomputes every
+// amount on save (prepare_invoice_line, refresh_invoice_totals); these mirror
+// it so the editor can show totals as lines are typed.
+import { addDays, today } from '@/lib/reports';
+import { splitTax, TaxComponent } from '@/lib/tax';
+
+export type InvoiceStatus = 'draft' | 'sent' | 'partially_paid' | 'paid' | 'void';
+
+export interface InvoiceLineInput {
+  quantity: number;
+  unit_price: number;
+  // Percent, e.g. 8.25; ignored when the line has a tax rate
+  tax_rate: number;
+  // Components of the line's tax rate or group, if it has one
+  tax?: TaxComponent[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// With inclusive prices the amount is what is left after the tax
+export function lineAmounts(line: InvoiceLineInput, inclusive = false) {
+  const gross = round(line.quantity * line.unit_price);
+  let tax: number;
+  if (line.tax) {
+    tax = splitTax(line.tax, gross, inclusive).tax;
+  } else if (inclusive) {
+    tax = round(gross - round(gross / (1 + line.tax_rate / 100)));
+  } else {
+    tax = round(gross * line.tax_rate / 100);
+  }
+  return { amount: inclusive ? round(gross - tax) : gross, tax };
+}
+
+export function invoiceTotals(lines: InvoiceLineInput[], inclusive = false) {
+  let subtotal = 0;
+  let tax = 0;
+  for (const line of lines) {
+    const amounts = lineAmounts(line, inclusive);
+    subtotal += amounts.amount;
+    tax += amounts.tax;
+  }
+  return { subtotal: round(subtotal), tax: round(tax), total: round(subtotal + tax) };
+}
+
+export const dueDateFor = (issueDate: string, paymentTerms: number | null) => addDays(issueDate, paymentTerms ?? 30);
+
+export const STATUS_LABELS: Record<InvoiceStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  partially_paid: 'Partially paid',
+  paid: 'Paid',
+  void: 'Void',
+};
+
+// Invoices still awaiting payment, drafts included
+export const OPEN_STATUSES: InvoiceStatus[] = ['draft', 'sent', 'partially_paid'];
+
+export const isOverdue = (invoice: { status: InvoiceStatus; due_date: string }, asOf = today()) =>
+  (invoice.status === 'sent' || invoice.status === 'partially_paid') && invoice.due_date < asOf;
@@ -0,0 +1,30 @@
+// PostgREST returns at most max_rows (supabase/config.toml) rows per request,
+// so reads that may be longer go page by page.
+
+export const PAGE_SIZE = 1000;
+
+interface PageResult<T> {
+  data: T[] | null;
+  error: unknown;
+}
+
+// Read up to `limit` rows. `page` must build a fresh query with a stable order
+// (ending in a unique column) and return the rows from..to of it.
+export async function fetchPages<T>(
+  page: (from: number, to: number) => PromiseLike<PageResult<T>>,
+  limit = Infinity
+): Promise<T[]> {
+  const rows: T[] = [];
+
+  while (rows.length < limit) {
+    const from = rows.length;
+    const to = Math.min(from + PAGE_SIZE, limit) - 1;
+    const { data, error } = await page(from, to);
+    if (error) throw error;
+
+    rows.push(...(data || []));
+    if (!data || data.length < to - from + 1) break;
+  }
+
+  return rows;
+}
@@ -0,0 +1,30 @@
+// Fiscal years and period statuses. Periods themselves are created by the
+// database (ensure_fiscal_periods), which also enforces their status.
+
+export type PeriodStatus = 'open' | 'closed' | 'locked';
+
+export const PERIOD_STATUSES: { value: PeriodStatus; label: string; description: string }[] = [
+  { value: 'open', label: 'Open', description: 'Anything dated in the period can be recorded or changed' },
+  { value: 'closed', label: 'Closed', description: 'Only manual journal entries (adjustments) can be recorded' },
+  { value: 'locked', label: 'Locked', description: 'Nothing dated in the period can be recorded or changed' },
+];
+
+export const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+// A fiscal year is named by the calendar year it ends in: with a July start,
+// 2024-10-01 falls in FY2025
+export function fiscalYearOf(date: string, startMonth: number) {
+  const year = Number(date.slice(0, 4));
+  const month = Number(date.slice(5, 7));
+  return startMonth === 1 || month < startMonth ? year : year + 1;
+}
+
+export function fiscalYearLabel(fiscalYear: number, startMonth: number) {
+  if (startMonth === 1) return `FY${fiscalYear}`;
+  const first = MONTH_NAMES[startMonth - 1].slice(0, 3);
+  const last = MONTH_NAMES[(startMonth + 10) % 12].slice(0, 3);
+  return `FY${fiscalYear} (${first} ${fiscalYear - 1} – ${last} ${fiscalYear})`;
+}
@@ -0,0 +1,34 @@
+// Statement-balance arithmetic shared by the reconciliation screen and its
+// report. Mirrors public.statement_effect: statement balances are money held
+// for asset accounts and money owed for liability accounts such as cards.
+
+export interface ReconcilableTransaction {
+  id: string;
+  amount: number;
+  account_id: string;
+  payment_account_id: string | null;
+}
+
+export function statementEffect(transaction: ReconcilableTransaction, accountId: string, accountType: string) {
+  const effect = transaction.payment_account_id === accountId ? Number(transaction.amount) : -Number(transaction.amount);
+  return accountType === 'liability' ? -effect : effect;
+}
+
+// Totals that raise and lower the statement balance, both positive
+export function summarizeEffects(transactions: ReconcilableTransaction[], accountId: string, accountType: string) {
+  let increases = 0;
+  let decreases = 0;
+  for (const transaction of transactions) {
+    const effect = statementEffect(transaction, accountId, accountType);
+    if (effect > 0) increases += effect;
+    else decreases -= effect;
+  }
+  return { increases, decreases };
+}
+
+// What increases and decreases are called on the account's statements
+export const effectLabels = (accountType: string) => accountType === 'liability'
+  ? { increases: 'Charges', decreases: 'Payments and credits' }
+  : { increases: 'Deposits', decreases: 'Payments' };
+
+export const isBalanced = (difference: number) => Math.abs(difference) < 0.005;
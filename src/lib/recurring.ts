@@ -0,0 +1,91 @@
+// Recurring schedule dates for the schedule editor and previews. The database
+// decides when runs are generated (recurrence_date, prepare_recurring_schedule);
+// these mirror it so upcoming runs can be shown before a schedule is saved.
+import { addDays, addMonths, formatCurrency } from '@/lib/reports';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+export type RecurringKind = 'transaction' | 'bill';
+
+// CREATE_TRANSACTION or CREATE_BILL data each run is recorded from
+export interface RecurringTemplate {
+  amount?: number;
+  description?: string;
+  account_id?: string;
+  payment_account_id?: string;
+  vendor_id?: string;
+  lines?: { description: string; amount: number; tax_amount?: number; account_id?: string }[];
+  [key: string]: unknown;
+}
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval_count: number;
+  start_date: string;
+  end_date: string | null;
+  max_occurrences: number | null;
+  occurrences_count: number;
+  last_run_date: string | null;
+}
+
+export const FREQUENCY_OPTIONS: { value: RecurrenceFrequency; label: string; unit: string }[] = [
+  { value: 'daily', label: 'Daily', unit: 'day' },
+  { value: 'weekly', label: 'Weekly', unit: 'week' },
+  { value: 'monthly', label: 'Monthly', unit: 'month' },
+  { value: 'yearly', label: 'Yearly', unit: 'year' },
+];
+
+// The index-th run (0 for the first), counted from the start date so month-end
+// schedules come back to the 31st after a short month
+export function recurrenceDate(start: string, frequency: RecurrenceFrequency, interval: number, index: number) {
+  switch (frequency) {
+    case 'daily':
+      return addDays(start, index * interval);
+    case 'weekly':
+      return addDays(start, index * interval * 7);
+    case 'monthly':
+      return addMonths(start, index * interval);
+    case 'yearly':
+      return addMonths(start, index * interval * 12);
+  }
+}
+
+// The next runs still to come, oldest first
+export function upcomingRuns(rule: RecurrenceRule, count: number): string[] {
+  const after = rule.last_run_date || addDays(rule.start_date, -1);
+  const runs: string[] = [];
+
+  for (let index = 0; runs.length < count; index++) {
+    if (rule.max_occurrences !== null && rule.occurrences_count + runs.length >= rule.max_occurrences) break;
+
+    const date = recurrenceDate(rule.start_date, rule.frequency, rule.interval_count, index);
+    if (rule.end_date && date > rule.end_date) break;
+    if (date > after) runs.push(date);
+  }
+  return runs;
+}
+
+export function describeFrequency(frequency: RecurrenceFrequency, interval: number) {
+  const option = FREQUENCY_OPTIONS.find((o) => o.value === frequency);
+  if (!option) return frequency;
+  return interval === 1 ? option.label : `Every ${interval} ${option.unit}s`;
+}
+
+export function describeEnd(rule: Pick<RecurrenceRule, 'end_date' | 'max_occurrences'>) {
+  if (rule.max_occurrences) return `${rule.max_occurrences} runs`;
+  if (rule.end_date) return `until ${rule.end_date}`;
+  return 'no end date';
+}
+
+// What one run creates, from the schedule's template
+export function describeTemplate(kind: RecurringKind, template: RecurringTemplate) {
+  if (kind === 'bill') {
+    const total = (template.lines || []).reduce(
+      (sum, line) => sum + (Number(line.amount) || 0) + (Number(line.tax_amount) || 0),
+      0
+    );
+    return `Bill for ${formatCurrency(total)}`;
+  }
+
+  const amount = Number(template.amount) || 0;
+  return `${amount < 0 ? 'Expense' : 'Income'} of ${formatCurrency(Math.abs(amount))}${template.description ? ` · ${template.description}` : ''}`;
+}
@@ -0,0 +1,189 @@
+// Date ranges and formatting shared by the financial reports.
+// Dates are YYYY-MM-DD strings handled in UTC so ranges never drift a day.
+import { getBaseCurrency } from '@/lib/currency';
+
+export type ReportInterval = 'total' | 'month' | 'quarter' | 'year';
+export type ComparisonMode = 'none' | 'previous_period' | 'previous_year';
+
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+export const REPORT_PRESETS = [
+  { value: 'this_month', label: 'This month' },
+  { value: 'last_month', label: 'Last month' },
+  { value: 'this_quarter', label: 'This quarter' },
+  { value: 'last_quarter', label: 'Last quarter' },
+  { value: 'this_year', label: 'This year' },
+  { value: 'last_year', label: 'Last year' },
+  { value: 'custom', label: 'Custom' },
+] as const;
+
+export type ReportPreset = typeof REPORT_PRESETS[number]['value'];
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const toDate = (value: string) => new Date(`${value}T00:00:00Z`);
+
+export const toISODate = (date: Date) => date.toISOString().slice(0, 10);
+
+export const today = () => toISODate(new Date());
+
+export function addDays(value: string, days: number) {
+  const date = toDate(value);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toISODate(date);
+}
+
+// Same day n months later, clamped to the end of shorter months
+export function addMonths(value: string, months: number) {
+  const date = toDate(value);
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+  return toISODate(target);
+}
+
+const endOfMonth = (value: string) => addDays(addMonths(`${value.slice(0, 7)}-01`, 1), -1);
+
+const quarterStart = (value: string) => {
+  const month = Math.floor((Number(value.slice(5, 7)) - 1) / 3) * 3 + 1;
+  return `${value.slice(0, 4)}-${String(month).padStart(2, '0')}-01`;
+};
+
+export function presetRange(preset: ReportPreset, reference = today()): DateRange {
+  const monthStart = `${reference.slice(0, 7)}-01`;
+  const yearStart = `${reference.slice(0, 4)}-01-01`;
+
+  switch (preset) {
+    case 'last_month': {
+      const start = addMonths(monthStart, -1);
+      return { start, end: endOfMonth(start) };
+    }
+    case 'this_quarter': {
+      const start = quarterStart(reference);
+      return { start, end: endOfMonth(addMonths(start, 2)) };
+    }
+    case 'last_quarter': {
+      const start = addMonths(quarterStart(reference), -3);
+      return { start, end: endOfMonth(addMonths(start, 2)) };
+    }
+    case 'this_year':
+      return { start: yearStart, end: `${reference.slice(0, 4)}-12-31` };
+    case 'last_year': {
+      const year = Number(reference.slice(0, 4)) - 1;
+      return { start: `${year}-01-01`, end: `${year}-12-31` };
+    }
+    case 'this_month':
+    case 'custom':
+    default:
+      return { start: monthStart, end: endOfMonth(reference) };
+  }
+}
+
+// The range a report is compared against. Ranges starting on the 1st move back
+// by whole months (Q2 against Q1); other ranges by their length in days.
+export function comparisonRange(range: DateRange, mode: ComparisonMode): DateRange | null {
+  if (mode === 'none') return null;
+  if (mode === 'previous_year') {
+    return { start: addMonths(range.start, -12), end: addMonths(range.end, -12) };
+  }
+
+  if (range.start.endsWith('-01')) {
+    const [startYear, startMonth] = range.start.split('-').map(Number);
+    const [endYear, endMonth] = range.end.split('-').map(Number);
+    const span = (endYear - startYear) * 12 + (endMonth - startMonth) + 1;
+    const end = range.end === endOfMonth(range.end) ? endOfMonth(addMonths(range.end, -span)) : addMonths(range.end, -span);
+    return { start: addMonths(range.start, -span), end };
+  }
+
+  const days = Math.round((toDate(range.end).getTime() - toDate(range.start).getTime()) / 86_400_000) + 1;
+  return { start: addDays(range.start, -days), end: addDays(range.start, -1) };
+}
+
+export function formatShortDate(value: string) {
+  const date = toDate(value);
+  return `${MONTHS[date.getUTCMonth()]} ${date.getUTCDate()}, ${date.getUTCFullYear()}`;
+}
+
+export function formatRange(range: DateRange) {
+  return `${formatShortDate(range.start)} – ${formatShortDate(range.end)}`;
+}
+
+// Column heading for one report period
+export function periodLabel(range: DateRange, interval: ReportInterval) {
+  const date = toDate(range.start);
+  const year = date.getUTCFullYear();
+
+  switch (interval) {
+    case 'month':
+      return `${MONTHS[date.getUTCMonth()]} ${year}`;
+    case 'quarter':
+      return `Q${Math.floor(date.getUTCMonth() / 3) + 1} ${year}`;
+    case 'year':
+      return String(year);
+    default:
+      return formatRange(range);
+  }
+}
+
+// In the base currency unless another is given
+export const formatCurrency = (amount: number, currency = getBaseCurrency()) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+
+export const percentChange = (current: number, previous: number) =>
+  previous === 0 ? null : ((current - previous) / Math.abs(previous)) * 100;
+
+// Column periods for a range, matching how profit_and_loss splits it
+export function splitRange(range: DateRange, interval: ReportInterval): DateRange[] {
+  if (interval === 'total') return [range];
+
+  const months = interval === 'month' ? 1 : interval === 'quarter' ? 3 : 12;
+  const first = interval === 'month'
+    ? `${range.start.slice(0, 7)}-01`
+    : interval === 'quarter' ? quarterStart(range.start) : `${range.start.slice(0, 4)}-01-01`;
+
+  const periods: DateRange[] = [];
+  for (let start = first; start <= range.end; start = addMonths(start, months)) {
+    const end = addDays(addMonths(start, months), -1);
+    periods.push({
+      start: start < range.start ? range.start : start,
+      end: end > range.end ? range.end : end,
+    });
+  }
+  return periods;
+}
+
+export interface TreeAccount {
+  account_id: string | null;
+  account_name: string;
+  account_code: string | null;
+  parent_account_id?: string | null;
+}
+
+// Accounts in chart order with each child listed under its parent. Accounts
+// whose parent is not in the list are shown at the top level.
+export function orderAccountTree<T extends TreeAccount>(accounts: T[]): { account: T; depth: number }[] {
+  const byCode = (a: T, b: T) =>
+    (a.account_code || '').localeCompare(b.account_code || '') || a.account_name.localeCompare(b.account_name);
+  const ids = new Set(accounts.map((account) => account.account_id));
+  const children = (parentId: string | null) => accounts
+    .filter((account) => parentId === null
+      ? !account.parent_account_id || !ids.has(account.parent_account_id)
+      : account.parent_account_id === parentId)
+    .sort(byCode);
+
+  const ordered: { account: T; depth: number }[] = [];
+  const seen = new Set<T>();
+  const visit = (account: T, depth: number) => {
+    if (seen.has(account)) return;
+    seen.add(account);
+    ordered.push({ account, depth });
+    if (account.account_id) children(account.account_id).forEach((child) => visit(child, depth + 1));
+  };
+  children(null).forEach((account) => visit(account, 0));
+  // Accounts caught in a parent cycle are never reached from the top level
+  [...accounts].sort(byCode).forEach((account) => visit(account, 0));
+  return ordered;
+}
@@ -0,0 +1,33 @@
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+// Minimal text/event-stream reader for fetch responses (EventSource only supports GET)
+export async function readEventStream(response: Response, onEvent: (event: ServerSentEvent) => void) {
+  if (!response.body) throw new Error('Response has no body to stream');
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += value;
+    const blocks = buffer.split('\n\n');
+    buffer = blocks.pop() ?? '';
+
+    for (const block of blocks) {
+      let event = 'message';
+      const data: string[] = [];
+
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+      }
+
+      if (data.length > 0) onEvent({ event, data: data.join('\n') });
+    }
+  }
+}
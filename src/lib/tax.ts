@@ -0,0 +1,75 @@
+// Sales tax rates and groups. The database works out and posts every tax
+// (tax_components, prepare_invoice_line, prepare_bill_line); these mirror it
+// so the editors can show tax as lines are typed.
+
+export interface TaxGroupComponent {
+  tax_rate_id: string;
+  position: number;
+  is_compound: boolean;
+}
+
+export interface TaxRate {
+  id: string;
+  name: string;
+  // Percent, e.g. 8.25; 0 for a group
+  rate: number;
+  is_group: boolean;
+  is_active: boolean;
+  account_id: string | null;
+  components: TaxGroupComponent[];
+}
+
+// One rate as charged: a plain rate on its own or a member of a group
+export interface TaxComponent {
+  tax_rate_id: string;
+  rate: number;
+  is_compound: boolean;
+}
+
+// Selects tax_rates with their group members in the TaxRate shape
+export const TAX_RATE_SELECT =
+  'id, name, rate, is_group, is_active, account_id, components:tax_group_components!tax_group_components_group_id_fkey(tax_rate_id, position, is_compound)';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// A plain rate is its own single component; a group charges its members in order
+export function componentsOf(taxRate: TaxRate, rates: TaxRate[]): TaxComponent[] {
+  if (!taxRate.is_group) return [{ tax_rate_id: taxRate.id, rate: Number(taxRate.rate), is_compound: false }];
+
+  return [...taxRate.components]
+    .sort((a, b) => a.position - b.position)
+    .flatMap((component) => {
+      const member = rates.find((rate) => rate.id === component.tax_rate_id);
+      return member ? [{ tax_rate_id: member.id, rate: Number(member.rate), is_compound: component.is_compound }] : [];
+    });
+}
+
+// The tax each component charges on amount. With inclusive the amount already
+// includes the tax: the net is worked back from the combined rate and the last
+// component takes the rounding, so net plus tax is exactly the amount.
+export function splitTax(components: TaxComponent[], amount: number, inclusive = false) {
+  let multiplier = 1;
+  for (const component of components) {
+    multiplier += component.rate / 100 * (component.is_compound ? multiplier : 1);
+  }
+
+  const net = inclusive ? round(amount / multiplier) : amount;
+  let charged = 0;
+  const taxes = components.map((component, index) => {
+    const taxable = net + (component.is_compound ? charged : 0);
+    const tax = inclusive && index === components.length - 1
+      ? round(amount - net - charged)
+      : round(taxable * component.rate / 100);
+    charged = round(charged + tax);
+    return { ...component, taxable, tax };
+  });
+
+  return { net, tax: charged, taxes };
+}
+
+// Combined percentage, e.g. 14.975 for GST 5% + QST 9.975%
+export const effectiveRate = (components: TaxComponent[]) =>
+  Math.round(splitTax(components, 1000000).tax) / 10000;
+
+export const taxRateLabel = (taxRate: TaxRate, rates: TaxRate[]) =>
+  `${taxRate.name} (${effectiveRate(componentsOf(taxRate, rates))}%)`;
@@ -5,17 +5,24 @@ import { AccountingDashboard } from '@/components/dashboard/AccountingDashboard'
 import { BudgetManager } from '@/components/budget/BudgetManager';
 import { CustomerManager } from '@/components/customers/CustomerManager';
 import { VendorManager } from '@/components/vendors/VendorManager';
+import { ReportsView } from '@/components/reports/ReportsView';
+import { ReconciliationManager } from '@/components/reconciliation/ReconciliationManager';
+import { RecurringManager } from '@/components/recurring/RecurringManager';
 import { useChat } from '@/hooks/useChat';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { useBaseCurrency } from '@/hooks/useBaseCurrency';
+import { setBaseCurrency } from '@/lib/currency';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { MessageCircle, BarChart3, PiggyBank, Users, Truck } from 'lucide-react';
+import { MessageCircle, BarChart3, PiggyBank, Users, Truck, FileText, Scale, Repeat } from 'lucide-react';
 
 const Index = () => {
   const [activeTab, setActiveTab] = useState('chat');
   const [user, setUser] = useState<any>(null);
   const [loading, setLoading] = useState(true);
   const { toast } = useToast();
+  // Amounts everywhere are formatted in it, so the page re-renders when it changes
+  useBaseCurrency();
   
   const {
     conversations,
@@ -42,6 +49,15 @@ const Index = () => {
     return () => subscription.unsubscribe();
   }, []);
 
+  // Load the base currency and record any recurring transactions and bills that
+  // fell due since the last visit
+  useEffect(() => {
+    if (user) {
+      loadBaseCurrency();
+      runRecurringSchedules();
+    }
+  }, [user?.id]);
+
   const checkAuth = async () => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -53,6 +69,34 @@ const Index = () => {
     }
   };
 
+  const loadBaseCurrency = async () => {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('base_currency')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Loading the base currency failed:', error);
+      return;
+    }
+    if (data) setBaseCurrency(data.base_currency);
+  };
+
+  const runRecurringSchedules = async () => {
+    const { data, error } = await supabase.rpc('run_recurring_schedules');
+    if (error) {
+      console.error('Running recurring schedules failed:', error);
+      return;
+    }
+    if (data) {
+      toast({
+        title: "Recurring Transactions",
+        description: `Recorded ${data} scheduled ${data === 1 ? 'entry' : 'entries'} that fell due.`
+      });
+    }
+  };
+
   const signInWithGoogle = async () => {
     try {
       const { error } = await supabase.auth.signInWithOAuth({
@@ -180,7 +224,7 @@ const Index = () => {
         <Tabs value={activeTab} onValueChange={setActiveTab} className="h-full">
           {/* Tab Navigation */}
           <div className="border-b px-6 py-3 flex justify-between items-center">
-            <TabsList className="grid w-full max-w-2xl grid-cols-5">
+            <TabsList className="grid w-full max-w-5xl grid-cols-8">
               <TabsTrigger value="chat" className="flex items-center gap-2">
                 <MessageCircle className="h-4 w-4" />
                 AI Assistant
@@ -201,6 +245,18 @@ const Index = () => {
                 <Truck className="h-4 w-4" />
                 Vendors
               </TabsTrigger>
+              <TabsTrigger value="reports" className="flex items-center gap-2">
+                <FileText className="h-4 w-4" />
+                Reports
+              </TabsTrigger>
+              <TabsTrigger value="reconcile" className="flex items-center gap-2">
+                <Scale className="h-4 w-4" />
+                Reconcile
+              </TabsTrigger>
+              <TabsTrigger value="recurring" className="flex items-center gap-2">
+                <Repeat className="h-4 w-4" />
+                Recurring
+              </TabsTrigger>
             </TabsList>
             <button
               onClick={signOut}
@@ -234,6 +290,18 @@ const Index = () => {
           <TabsContent value="vendors" className="flex-1 m-0 p-6 overflow-auto">
             <VendorManager />
           </TabsContent>
+          
+          <TabsContent value="reports" className="flex-1 m-0 p-6 overflow-auto">
+            <ReportsView />
+          </TabsContent>
+          
+          <TabsContent value="reconcile" className="flex-1 m-0 p-6 overflow-auto">
+            <ReconciliationManager />
+          </TabsContent>
+          
+          <TabsContent value="recurring" className="flex-1 m-0 p-6 overflow-auto">
+            <RecurringManager />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
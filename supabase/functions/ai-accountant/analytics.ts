@@ -0,0 +1,243 @@
+// Spending analytics computed from the ledger, so the model narrates real
+// figures instead of estimating them. Negative transaction amounts are
+// spending and positive amounts are income, as everywhere else. Foreign
+// transactions count at their base-currency amount.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { fetchPages } from './paging.ts';
+
+export interface AnalysisTransaction {
+  amount: number;
+  transaction_date: string;
+  category_id: string | null;
+  vendor_id: string | null;
+  customer_id: string | null;
+  categories: { name: string } | null;
+  vendors: { name: string } | null;
+  customers: { name: string } | null;
+}
+
+export interface AnalysisOptions {
+  start_date?: string;
+  end_date?: string;
+  category_id?: string;
+  vendor_id?: string;
+  customer_id?: string;
+  // Months of history in the month-over-month trend, ending with end_date's month
+  months?: number;
+}
+
+export interface Breakdown {
+  id: string | null;
+  name: string;
+  amount: number;
+  previous_amount: number;
+  change: number;
+  change_pct: number | null;
+  share_pct: number;
+}
+
+const DEFAULT_TREND_MONTHS = 6;
+const MAX_TREND_MONTHS = 24;
+const TOP_MOVERS = 5;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const percentChange = (current: number, previous: number) =>
+  previous === 0 ? null : round(((current - previous) / previous) * 100);
+
+// Date helpers work on YYYY-MM-DD strings in UTC to avoid timezone drift
+const toDate = (value: string) => new Date(`${value}T00:00:00Z`);
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+export function addDays(value: string, days: number) {
+  const date = toDate(value);
+  date.setUTCDate(date.getUTCDate() + days);
+  return formatDate(date);
+}
+
+// Same day n months later, clamped to the end of shorter months (Mar 31 - 1 month = Feb 28)
+export function addMonths(value: string, months: number) {
+  const date = toDate(value);
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+  return formatDate(target);
+}
+
+const monthKey = (value: string) => value.slice(0, 7);
+const monthStart = (value: string) => `${monthKey(value)}-01`;
+
+// The period the analysis compares against. Periods starting on the 1st are
+// compared month-over-month (Oct 1-19 against Sep 1-19); others against the
+// same number of days immediately before.
+export function previousPeriod(start: string, end: string) {
+  if (start.endsWith('-01')) {
+    const [startYear, startMonth] = start.split('-').map(Number);
+    const [endYear, endMonth] = end.split('-').map(Number);
+    const span = (endYear - startYear) * 12 + (endMonth - startMonth) + 1;
+    return { start: addMonths(start, -span), end: addMonths(end, -span) };
+  }
+
+  const days = Math.round((toDate(end).getTime() - toDate(start).getTime()) / 86_400_000) + 1;
+  return { start: addDays(start, -days), end: addDays(start, -1) };
+}
+
+export function resolvePeriod(options: AnalysisOptions, today = formatDate(new Date())) {
+  const end = options.end_date || today;
+  const start = options.start_date || monthStart(end);
+  const months = Math.min(Math.max(Math.round(options.months || DEFAULT_TREND_MONTHS), 1), MAX_TREND_MONTHS);
+
+  return {
+    start,
+    end,
+    previous: previousPeriod(start, end),
+    trendStart: addMonths(monthStart(end), -(months - 1)),
+  };
+}
+
+function breakdown(
+  current: AnalysisTransaction[],
+  previous: AnalysisTransaction[],
+  key: (transaction: AnalysisTransaction) => { id: string | null; name: string },
+  value: (transaction: AnalysisTransaction) => number
+): Breakdown[] {
+  const groups = new Map<string, { id: string | null; name: string; amount: number; previous_amount: number }>();
+
+  const add = (transaction: AnalysisTransaction, field: 'amount' | 'previous_amount') => {
+    const amount = value(transaction);
+    if (amount === 0) return;
+
+    const { id, name } = key(transaction);
+    const group = groups.get(id ?? '') ?? { id, name, amount: 0, previous_amount: 0 };
+    group[field] += amount;
+    groups.set(id ?? '', group);
+  };
+
+  current.forEach((transaction) => add(transaction, 'amount'));
+  previous.forEach((transaction) => add(transaction, 'previous_amount'));
+
+  const total = [...groups.values()].reduce((sum, group) => sum + group.amount, 0);
+
+  return [...groups.values()]
+    .map((group) => ({
+      id: group.id,
+      name: group.name,
+      amount: round(group.amount),
+      previous_amount: round(group.previous_amount),
+      change: round(group.amount - group.previous_amount),
+      change_pct: percentChange(group.amount, group.previous_amount),
+      share_pct: total === 0 ? 0 : round((group.amount / total) * 100),
+    }))
+    .sort((a, b) => b.amount - a.amount);
+}
+
+const spending = (transaction: AnalysisTransaction) => (transaction.amount < 0 ? -Number(transaction.amount) : 0);
+const income = (transaction: AnalysisTransaction) => (transaction.amount > 0 ? Number(transaction.amount) : 0);
+const sum = (transactions: AnalysisTransaction[], value: (transaction: AnalysisTransaction) => number) =>
+  round(transactions.reduce((total, transaction) => total + value(transaction), 0));
+
+// Aggregate already-loaded transactions. `transactions` must cover the trend,
+// previous and current periods returned by resolvePeriod.
+export function analyzeSpending(transactions: AnalysisTransaction[], period: ReturnType<typeof resolvePeriod>) {
+  const within = (start: string, end: string) =>
+    transactions.filter((t) => t.transaction_date >= start && t.transaction_date <= end);
+
+  const current = within(period.start, period.end);
+  const previous = within(period.previous.start, period.previous.end);
+
+  const byCategory = breakdown(
+    current,
+    previous,
+    (t) => ({ id: t.category_id, name: t.categories?.name || 'Uncategorized' }),
+    spending
+  );
+  const byVendor = breakdown(
+    current,
+    previous,
+    (t) => ({ id: t.vendor_id, name: t.vendors?.name || 'No vendor' }),
+    spending
+  );
+  const byCustomer = breakdown(
+    current,
+    previous,
+    (t) => ({ id: t.customer_id, name: t.customers?.name || 'No customer' }),
+    income
+  );
+
+  const monthly: { month: string; spending: number; income: number; spending_change_pct: number | null }[] = [];
+  for (let month = period.trendStart; month <= period.end; month = addMonths(month, 1)) {
+    const inMonth = transactions.filter((t) => monthKey(t.transaction_date) === monthKey(month));
+    const monthSpending = sum(inMonth, spending);
+    const prior = monthly[monthly.length - 1];
+    monthly.push({
+      month: monthKey(month),
+      spending: monthSpending,
+      income: sum(inMonth, income),
+      spending_change_pct: prior ? percentChange(monthSpending, prior.spending) : null,
+    });
+  }
+
+  const topMovers = [
+    ...byCategory.map((item) => ({ type: 'category' as const, ...item })),
+    ...byVendor.filter((item) => item.id).map((item) => ({ type: 'vendor' as const, ...item })),
+  ]
+    .filter((item) => item.change !== 0)
+    .sort((a, b) => Math.abs(b.change) - Math.abs(a.change))
+    .slice(0, TOP_MOVERS)
+    .map(({ type, name, amount, previous_amount, change, change_pct }) => ({
+      type, name, amount, previous_amount, change, change_pct,
+    }));
+
+  const totalSpending = sum(current, spending);
+  const previousSpending = sum(previous, spending);
+  const totalIncome = sum(current, income);
+  const previousIncome = sum(previous, income);
+
+  return {
+    period: { start: period.start, end: period.end },
+    previous_period: period.previous,
+    transaction_count: current.length,
+    totals: {
+      spending: totalSpending,
+      income: totalIncome,
+      net: round(totalIncome - totalSpending),
+      previous_spending: previousSpending,
+      previous_income: previousIncome,
+      spending_change: round(totalSpending - previousSpending),
+      spending_change_pct: percentChange(totalSpending, previousSpending),
+      income_change_pct: percentChange(totalIncome, previousIncome),
+    },
+    by_category: byCategory,
+    by_vendor: byVendor,
+    by_customer: byCustomer,
+    monthly,
+    top_movers: topMovers,
+  };
+}
+
+export async function loadSpendingAnalysis(supabase: SupabaseClient, userId: string, options: AnalysisOptions) {
+  const period = resolvePeriod(options);
+  const from = [period.start, period.previous.start, period.trendStart].sort()[0];
+
+  const buildQuery = () => {
+    let query = supabase
+      .from('transactions')
+      .select('amount:base_amount, transaction_date, category_id, vendor_id, customer_id, categories(name), vendors(name), customers(name)')
+      .eq('user_id', userId)
+      .gte('transaction_date', from)
+      .lte('transaction_date', period.end)
+      .order('transaction_date', { ascending: true })
+      .order('id', { ascending: true });
+
+    if (options.category_id) query = query.eq('category_id', options.category_id);
+    if (options.vendor_id) query = query.eq('vendor_id', options.vendor_id);
+    if (options.customer_id) query = query.eq('customer_id', options.customer_id);
+    return query;
+  };
+
+  // Totals need every transaction in range, however many there are
+  const data = await fetchPages((start, end) => buildQuery().range(start, end));
+
+  return analyzeSpending(data as unknown as AnalysisTransaction[], period);
+}
@@ -0,0 +1,91 @@
+// Cross-user checks: the caller comes from the bearer token and can only reach
+// their own conversations. Run with `deno test`.
+
+import { assertEquals, assertRejects } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { AuthError, authenticate, type UserClientFactory } from './auth.ts';
+import { loadConversationContext } from './conversations.ts';
+
+const ALICE = '00000000-0000-0000-0000-00000000a11c';
+const BOB = '00000000-0000-0000-0000-000000000b0b';
+const TOKENS: Record<string, string> = { 'alice-token': ALICE, 'bob-token': BOB };
+
+interface Row {
+  [column: string]: unknown;
+}
+
+// Stands in for a client acting as `userId`: the rows it can see are filtered
+// the way row level security would filter them
+function fakeClient(userId: string | null, tables: Record<string, Row[]> = {}) {
+  const query = (rows: Row[]) => {
+    const builder = {
+      select: () => builder,
+      eq: (column: string, value: unknown) => query(rows.filter((row) => row[column] === value)),
+      order: () => builder,
+      limit: (count: number) => query(rows.slice(0, count)),
+      maybeSingle: () => Promise.resolve({ data: rows[0] ?? null, error: null }),
+      then: (resolve: (result: { data: Row[]; error: null }) => unknown) => resolve({ data: rows, error: null }),
+    };
+    return builder;
+  };
+
+  return {
+    auth: {
+      getUser: (token: string) => Promise.resolve(
+        TOKENS[token]
+          ? { data: { user: { id: TOKENS[token] } }, error: null }
+          : { data: { user: null }, error: { message: 'invalid JWT' } }
+      ),
+    },
+    from: (table: string) => query((tables[table] || []).filter((row) => row.user_id === undefined || row.user_id === userId)),
+  } as unknown as SupabaseClient;
+}
+
+const factory: UserClientFactory = (authorization) =>
+  fakeClient(TOKENS[authorization.slice('Bearer '.length)] ?? null);
+
+const request = (authorization?: string) =>
+  new Request('http://localhost/ai-accountant', {
+    method: 'POST',
+    headers: authorization ? { Authorization: authorization } : {},
+  });
+
+async function authError(promise: Promise<unknown>) {
+  return await assertRejects(() => promise, AuthError) as AuthError;
+}
+
+Deno.test('rejects a request without a bearer token', async () => {
+  assertEquals((await authError(authenticate(request(), undefined, factory))).status, 401);
+  assertEquals((await authError(authenticate(request('Basic alice-token'), undefined, factory))).status, 401);
+});
+
+Deno.test('rejects an invalid or expired token', async () => {
+  assertEquals((await authError(authenticate(request('Bearer forged-token'), undefined, factory))).status, 401);
+});
+
+Deno.test('takes the caller from the token', async () => {
+  const caller = await authenticate(request('Bearer alice-token'), undefined, factory);
+  assertEquals(caller.userId, ALICE);
+});
+
+Deno.test('accepts a body userId that matches the token', async () => {
+  const caller = await authenticate(request('Bearer alice-token'), ALICE, factory);
+  assertEquals(caller.userId, ALICE);
+});
+
+Deno.test('rejects a body userId for another user', async () => {
+  assertEquals((await authError(authenticate(request('Bearer alice-token'), BOB, factory))).status, 403);
+});
+
+Deno.test('rejects a conversation owned by another user', async () => {
+  const tables = {
+    conversations: [{ id: 'bob-conversation', user_id: BOB }],
+    messages: [{ conversation_id: 'bob-conversation', role: 'user', content: 'My salary is 9000', created_at: '2025-01-01' }],
+  };
+
+  const error = await authError(loadConversationContext({ userId: ALICE, db: fakeClient(ALICE, tables) }, 'bob-conversation', 'Hi'));
+  assertEquals(error.status, 403);
+
+  const own = await loadConversationContext({ userId: BOB, db: fakeClient(BOB, tables) }, 'bob-conversation', 'Hi');
+  assertEquals(own.history.length, 1);
+});
@@ -0,0 +1,53 @@
+// Caller identity. Every request must carry the user's access token; the user
+// comes from that token, never from the request body, and reads and ledger changes
+// go through a client acting as that user so row level security applies.
+
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+
+export interface Caller {
+  userId: string;
+  // Client authenticated as the caller; it can only see and change their rows
+  db: SupabaseClient;
+}
+
+export class AuthError extends Error {
+  constructor(message: string, readonly status: 401 | 403) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+// Builds a client that sends the caller's Authorization header. Swappable so
+// tests can stand in a fake client.
+export type UserClientFactory = (authorization: string) => SupabaseClient;
+
+export function createUserClientFactory(supabaseUrl: string, anonKey: string): UserClientFactory {
+  return (authorization) => createClient(supabaseUrl, anonKey, {
+    global: { headers: { Authorization: authorization } },
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
+
+export async function authenticate(
+  req: Request,
+  claimedUserId: unknown,
+  createUserClient: UserClientFactory
+): Promise<Caller> {
+  const authorization = req.headers.get('Authorization');
+  if (!authorization?.startsWith('Bearer ')) {
+    throw new AuthError('Missing bearer token', 401);
+  }
+
+  const db = createUserClient(authorization);
+  const { data, error } = await db.auth.getUser(authorization.slice('Bearer '.length).trim());
+  if (error || !data.user) {
+    throw new AuthError('Invalid or expired token', 401);
+  }
+
+  // Older clients still send userId in the body; it must be the token's user
+  if (claimedUserId !== undefined && claimedUserId !== null && claimedUserId !== data.user.id) {
+    throw new AuthError('Requests may only act on the signed-in user\'s books', 403);
+  }
+
+  return { userId: data.user.id, db };
+}
@@ -0,0 +1,196 @@
+// Categorization rules on the assistant's side. New transactions the model
+// records pick up the account, category and vendor of the first matching rule
+// (public.match_categorization_rules), and CATEGORIZE_TRANSACTIONS is expanded
+// into one UPDATE_TRANSACTION per existing transaction a rule would change, so
+// the batch goes through the usual approval flow with a preview table.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import type { QueryTable } from './queries.ts';
+import type { LedgerAction } from './tools.ts';
+
+export interface CategorizeSpec {
+  start_date?: string;
+  end_date?: string;
+  // Also re-check transactions that already have a category
+  include_categorized?: boolean;
+}
+
+interface RuleMatch {
+  item_index: number;
+  rule_id: string;
+  rule_name: string;
+  account_id: string | null;
+  category_id: string | null;
+  vendor_id: string | null;
+}
+
+interface CandidateTransaction {
+  id: string;
+  description: string;
+  amount: number;
+  transaction_date: string;
+  payment_account_id: string | null;
+  account_id: string;
+  category_id: string | null;
+  vendor_id: string | null;
+}
+
+const MAX_CATEGORIZE_ROWS = 200;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const RULE_FIELDS = ['account_id', 'category_id', 'vendor_id'] as const;
+
+async function matchRules(
+  db: SupabaseClient,
+  items: { description: string; amount: number; payment_account_id: string | null }[]
+) {
+  if (items.length === 0) return new Map<number, RuleMatch>();
+
+  const { data, error } = await db.rpc('match_categorization_rules', { p_items: items });
+  if (error) throw error;
+
+  return new Map(((data || []) as RuleMatch[]).map((match) => [match.item_index, match]));
+}
+
+// The fields of a transaction a rule would change
+function ruleChanges(match: RuleMatch, current: Partial<Record<typeof RULE_FIELDS[number], unknown>>) {
+  const changes: Record<string, string> = {};
+  for (const field of RULE_FIELDS) {
+    const value = match[field];
+    if (value && value !== current[field]) changes[field] = value;
+  }
+  return changes;
+}
+
+// Rules take precedence over the model's guess for new transactions: they are
+// the user's own standing instructions. "$ref" payment accounts are created in
+// the same batch, so no account-specific rule can match them.
+export async function applyRulesToNewTransactions(db: SupabaseClient, actions: LedgerAction[]) {
+  const creates = actions
+    .map((action, index) => ({ action, index }))
+    .filter(({ action }) => action.action === 'CREATE_TRANSACTION');
+
+  const matches = await matchRules(db, creates.map(({ action }) => {
+    const paymentAccountId = action.data.payment_account_id;
+    return {
+      description: String(action.data.description || ''),
+      amount: Number(action.data.amount) || 0,
+      payment_account_id: typeof paymentAccountId === 'string' && UUID_PATTERN.test(paymentAccountId) ? paymentAccountId : null,
+    };
+  }));
+
+  const result = [...actions];
+  creates.forEach(({ action, index }, i) => {
+    const match = matches.get(i);
+    if (match) result[index] = { ...action, data: { ...action.data, ...ruleChanges(match, action.data) } };
+  });
+  return result;
+}
+
+// UPDATE_TRANSACTION actions for existing transactions the rules would change,
+// plus a table previewing them. Reconciled transactions are left alone since
+// their accounts are locked.
+export async function planCategorization(db: SupabaseClient, userId: string, spec: CategorizeSpec) {
+  let query = db
+    .from('transactions')
+    .select('id, description, amount, transaction_date, payment_account_id, account_id, category_id, vendor_id')
+    .eq('user_id', userId)
+    .neq('status', 'reconciled')
+    .order('transaction_date', { ascending: false })
+    .limit(MAX_CATEGORIZE_ROWS + 1);
+
+  if (!spec.include_categorized) query = query.is('category_id', null);
+  if (spec.start_date) query = query.gte('transaction_date', spec.start_date);
+  if (spec.end_date) query = query.lte('transaction_date', spec.end_date);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const transactions = ((data || []) as CandidateTransaction[]).slice(0, MAX_CATEGORIZE_ROWS);
+  const matches = await matchRules(db, transactions.map((transaction) => ({
+    description: transaction.description,
+    amount: Number(transaction.amount),
+    payment_account_id: transaction.payment_account_id,
+  })));
+
+  const names = await loadNames(db, userId);
+  const actions: LedgerAction[] = [];
+  const table: QueryTable = {
+    title: 'Categorization preview',
+    columns: [
+      { key: 'date', label: 'Date', type: 'text' },
+      { key: 'description', label: 'Description', type: 'text' },
+      { key: 'amount', label: 'Amount', type: 'currency' },
+      { key: 'rule', label: 'Rule', type: 'text' },
+      { key: 'account', label: 'Account', type: 'text' },
+      { key: 'category', label: 'Category', type: 'text' },
+      { key: 'vendor', label: 'Vendor', type: 'text' },
+    ],
+    rows: [],
+    truncated: (data || []).length > MAX_CATEGORIZE_ROWS,
+  };
+
+  transactions.forEach((transaction, index) => {
+    const match = matches.get(index);
+    if (!match) return;
+
+    const changes = ruleChanges(match, transaction);
+    if (Object.keys(changes).length === 0) return;
+
+    actions.push({ action: 'UPDATE_TRANSACTION', data: { id: transaction.id, ...changes } });
+    table.rows.push({
+      date: transaction.transaction_date,
+      description: transaction.description,
+      amount: Number(transaction.amount),
+      rule: match.rule_name,
+      account: names.get(changes.account_id) || null,
+      category: names.get(changes.category_id) || null,
+      vendor: names.get(changes.vendor_id) || null,
+    });
+  });
+
+  return { actions, table };
+}
+
+// Rules worth creating from repeated manual categorizations, as a table
+export async function loadRuleSuggestions(db: SupabaseClient, userId: string): Promise<QueryTable | null> {
+  const { data, error } = await db.rpc('suggest_categorization_rules');
+  if (error) throw error;
+  if (!data || data.length === 0) return null;
+
+  const names = await loadNames(db, userId);
+  return {
+    title: 'Suggested categorization rules',
+    columns: [
+      { key: 'pattern', label: 'Description contains', type: 'text' },
+      { key: 'account', label: 'Account', type: 'text' },
+      { key: 'category', label: 'Category', type: 'text' },
+      { key: 'vendor', label: 'Vendor', type: 'text' },
+      { key: 'count', label: 'Transactions', type: 'number' },
+    ],
+    rows: data.map((suggestion: { pattern: string; account_id: string; category_id: string | null; vendor_id: string | null; transaction_count: number }) => ({
+      pattern: suggestion.pattern,
+      account: names.get(suggestion.account_id) || null,
+      category: suggestion.category_id ? names.get(suggestion.category_id) || null : null,
+      vendor: suggestion.vendor_id ? names.get(suggestion.vendor_id) || null : null,
+      count: suggestion.transaction_count,
+    })),
+    truncated: false,
+  };
+}
+
+// Account, category and vendor names by id, for preview tables
+async function loadNames(db: SupabaseClient, userId: string) {
+  const [accounts, categories, vendors] = await Promise.all([
+    db.from('accounts').select('id, name').eq('user_id', userId),
+    db.from('categories').select('id, name').eq('user_id', userId),
+    db.from('vendors').select('id, name').eq('user_id', userId),
+  ]);
+
+  const names = new Map<string | undefined, string>();
+  for (const result of [accounts, categories, vendors]) {
+    if (result.error) throw result.error;
+    for (const record of result.data || []) names.set(record.id, record.name);
+  }
+  return names;
+}
@@ -0,0 +1,197 @@
+// The chat flow run against the scripted mock model: invalid tool calls are
+// sent back for correction, and valid ones are proposed for review or recorded
+// straight away. Run with `deno test`.
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { finalizeResponse, requestActions, resolveProposal, type ChatServices } from './chat.ts';
+import { createMockProvider, type ChatMessage, type CompletionRequest, type ModelTurn } from './provider.ts';
+
+const USER = '00000000-0000-0000-0000-00000000a11c';
+const MEALS = '00000000-0000-0000-0000-0000000000e1';
+
+interface Row {
+  [column: string]: unknown;
+}
+
+// In-memory stand-in for a Supabase client: enough of the query builder for
+// this flow, with rpc results scripted per function and every call recorded
+function fakeDb(tables: Record<string, Row[]>, rpc: Record<string, (args: Row) => unknown> = {}) {
+  const rpcCalls: { name: string; args: Row }[] = [];
+
+  const from = (table: string) => {
+    const rows = (tables[table] ??= []);
+    const filters: ((row: Row) => boolean)[] = [];
+    let inserted: Row[] | null = null;
+    let patch: Row | null = null;
+
+    const run = () => {
+      if (inserted) return inserted;
+      const matched = rows.filter((row) => filters.every((filter) => filter(row)));
+      if (patch) matched.forEach((row) => Object.assign(row, patch));
+      return matched;
+    };
+    const filter = (test: (row: Row) => boolean) => {
+      filters.push(test);
+      return builder;
+    };
+
+    const builder = {
+      select: () => builder,
+      insert: (values: Row[]) => {
+        inserted = values.map((value) => ({ id: crypto.randomUUID(), ...value }));
+        rows.push(...inserted);
+        return builder;
+      },
+      update: (values: Row) => {
+        patch = values;
+        return builder;
+      },
+      eq: (column: string, value: unknown) => filter((row) => row[column] === value),
+      in: (column: string, values: unknown[]) => filter((row) => values.includes(row[column])),
+      order: () => builder,
+      limit: () => builder,
+      overrideTypes: () => builder,
+      maybeSingle: () => Promise.resolve({ data: run()[0] ?? null, error: null }),
+      single: () => {
+        const [row] = run();
+        return Promise.resolve(row ? { data: row, error: null } : { data: null, error: { message: 'No rows found' } });
+      },
+      then: (resolve: (result: { data: Row[]; error: null }) => unknown) => resolve({ data: run(), error: null }),
+    };
+    return builder;
+  };
+
+  const db = {
+    from,
+    rpc: (name: string, args: Row) => {
+      rpcCalls.push({ name, args });
+      return Promise.resolve({ data: rpc[name] ? rpc[name](args) : [], error: null });
+    },
+  } as unknown as SupabaseClient;
+
+  return { db, tables, rpcCalls };
+}
+
+const call = (name: string, args: Row) => ({ id: '', name, arguments: JSON.stringify(args) });
+
+const coffee = { amount: -4.5, description: 'Coffee', account_id: MEALS };
+
+const messages: ChatMessage[] = [
+  { role: 'system', content: 'You are an accountant.' },
+  { role: 'user', content: 'I bought a coffee for $4.50' },
+];
+
+// The books one user sees. execute_ledger_actions reports each action as recorded.
+function ledger(profile: Row = {}) {
+  return fakeDb({
+    profiles: [{ user_id: USER, base_currency: 'USD', auto_commit_enabled: false, auto_commit_threshold: 0, ...profile }],
+  }, {
+    execute_ledger_actions: (args) => (args.p_actions as Row[]).map((action, i) => ({
+      index: i + 1, action: action.action, ref: null, id: crypto.randomUUID(), data: action.data,
+    })),
+  });
+}
+
+function chatServices(script: Partial<ModelTurn>[] | ((request: CompletionRequest) => Partial<ModelTurn>)) {
+  const service = fakeDb({});
+  return { services: { provider: createMockProvider(script), serviceDb: service.db } as ChatServices, service };
+}
+
+Deno.test('sends invalid tool calls back to the model for correction', async () => {
+  const seen: ChatMessage[][] = [];
+  const { services: chat } = chatServices((request) => {
+    seen.push(request.messages);
+    return seen.length === 1
+      ? { toolCalls: [call('CREATE_TRANSACTION', { amount: -4.5, description: 'Coffee' })] }
+      : { content: 'Recorded your coffee.', toolCalls: [call('CREATE_TRANSACTION', coffee)] };
+  });
+
+  const reply = await requestActions(messages, { userId: USER, db: ledger().db }, chat);
+
+  assertEquals(reply.actions, [{ action: 'CREATE_TRANSACTION', data: coffee }]);
+  assertEquals(reply.content, 'Recorded your coffee.');
+
+  const feedback = seen[1].at(-1) as { role: 'tool'; content: string };
+  assertEquals(feedback.role, 'tool');
+  assertEquals(JSON.parse(feedback.content).error, 'Invalid arguments, nothing was recorded');
+});
+
+Deno.test('gives up when the model keeps sending invalid calls', async () => {
+  const { services: chat } = chatServices(() => ({ toolCalls: [call('CREATE_TRANSACTION', { description: 'Coffee' })] }));
+
+  const reply = await requestActions(messages, { userId: USER, db: ledger().db }, chat);
+
+  assertEquals(reply.actions, []);
+  assertEquals(reply.content.startsWith("I couldn't complete that request"), true);
+});
+
+Deno.test('proposes the actions for review when auto-commit is off', async () => {
+  const { db, tables, rpcCalls } = ledger();
+  const caller = { userId: USER, db };
+  const { services: chat } = chatServices([{ content: 'I will record the coffee.', toolCalls: [call('CREATE_TRANSACTION', coffee)] }]);
+
+  const reply = await requestActions(messages, caller, chat);
+  const result = await finalizeResponse(reply, caller, chat, { attachmentIds: [] }, null);
+
+  assertEquals(result.actionPerformed, false);
+  assertEquals(result.actionType, 'CREATE_TRANSACTION');
+  assertEquals(result.proposalId, tables.proposed_actions[0].id);
+  assertEquals(tables.proposed_actions[0].amount, 4.5);
+  assertEquals((tables.proposed_actions[0].payload as Row).actions, [{ action: 'CREATE_TRANSACTION', data: coffee }]);
+  assertEquals(rpcCalls.some(({ name }) => name === 'execute_ledger_actions'), false);
+});
+
+Deno.test('records actions under the auto-commit threshold with a service-written context', async () => {
+  const { db, rpcCalls } = ledger({ auto_commit_enabled: true, auto_commit_threshold: 10 });
+  const caller = { userId: USER, db };
+  const { services: chat, service } = chatServices([{ toolCalls: [call('CREATE_TRANSACTION', coffee)] }]);
+
+  const reply = await requestActions(messages, caller, chat);
+  const result = await finalizeResponse(reply, caller, chat, { conversationId: 'conversation-1', attachmentIds: [] }, null);
+
+  assertEquals(result.actionPerformed, true);
+  assertEquals(result.response.startsWith('✅ Transaction recorded successfully! Added expense of $4.50 for "Coffee".'), true);
+
+  const [context] = service.tables.ai_action_contexts;
+  assertEquals([context.user_id, context.conversation_id], [USER, 'conversation-1']);
+  const execute = rpcCalls.find(({ name }) => name === 'execute_ledger_actions');
+  assertEquals(execute?.args.p_context_id, context.id);
+});
+
+Deno.test('checks edits to a proposal before approving it', async () => {
+  const { db, tables, rpcCalls } = ledger();
+  const caller = { userId: USER, db };
+  const { services: chat } = chatServices([{ toolCalls: [call('CREATE_TRANSACTION', coffee)] }]);
+
+  const reply = await requestActions(messages, caller, chat);
+  const { proposalId } = await finalizeResponse(reply, caller, chat, { attachmentIds: [] }, null);
+  // The column default in the database
+  tables.proposed_actions[0].status = 'pending';
+
+  const invalid = await resolveProposal(caller, chat, proposalId!, 'approve', { amount: 'lots' });
+  assertEquals(invalid.response, 'The edited action is not valid. Nothing was recorded.');
+  assertEquals(tables.proposed_actions[0].status, 'pending');
+
+  const approved = await resolveProposal(caller, chat, proposalId!, 'approve', { amount: -5 });
+  assertEquals(approved.response.startsWith('✅ Transaction recorded successfully! Added expense of $5.00'), true);
+  assertEquals(tables.proposed_actions[0].status, 'approved');
+
+  const execute = rpcCalls.find(({ name }) => name === 'execute_ledger_actions');
+  assertEquals(execute?.args.p_actions, [{ action: 'CREATE_TRANSACTION', data: { ...coffee, amount: -5 } }]);
+});
+
+Deno.test('records nothing for a rejected proposal', async () => {
+  const { db, tables, rpcCalls } = ledger();
+  const caller = { userId: USER, db };
+  const { services: chat } = chatServices([{ toolCalls: [call('CREATE_TRANSACTION', coffee)] }]);
+
+  const reply = await requestActions(messages, caller, chat);
+  const { proposalId } = await finalizeResponse(reply, caller, chat, { attachmentIds: [] }, null);
+  // The column default in the database
+  tables.proposed_actions[0].status = 'pending';
+
+  const rejected = await resolveProposal(caller, chat, proposalId!, 'reject', undefined);
+  assertEquals(rejected.response, 'Rejected. Nothing was recorded.');
+  assertEquals(rpcCalls.some(({ name }) => name === 'execute_ledger_actions'), false);
+});
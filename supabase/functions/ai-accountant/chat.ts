@@ -0,0 +1,658 @@
+// The assistant's side of a chat message: asking the model for a reply,
+// answering its queries, and recording the actions it asks for or parking
+// them as a proposal for the user to approve.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { loadSpendingAnalysis } from './analytics.ts';
+import type { Caller } from './auth.ts';
+import { applyRulesToNewTransactions, loadRuleSuggestions, planCategorization } from './categorization.ts';
+import type { ChatMessage, ModelProvider } from './provider.ts';
+import { runLedgerQuery, type QueryTable } from './queries.ts';
+import { generateReport } from './reports.ts';
+import { MODEL_TOOLS, isQueryTool, isReportSpec, validateToolCalls, type LedgerAction } from './tools.ts';
+
+export interface ChatServices {
+  // The chat model for this request
+  provider: ModelProvider;
+  // Service role client; it only records the chat context of AI changes (see performActions)
+  serviceDb: SupabaseClient;
+}
+
+// Model turns allowed per message: query lookups plus corrections of invalid tool calls
+const MAX_MODEL_TURNS = 4;
+
+export interface ReplyHandlers {
+  onDelta?: (content: string) => void;
+  onStatus?: (message: string) => void;
+}
+
+// Ask the model for a reply. Query tools (ANALYZE_SPENDING, QUERY_LEDGER, GENERATE_REPORT) are
+// answered and the model continues from their results; tool calls with invalid
+// arguments are sent back with the validation errors so the model can correct them.
+export async function requestActions(
+  messages: ChatMessage[],
+  caller: Caller,
+  { provider }: ChatServices,
+  handlers: ReplyHandlers = {}
+) {
+  const conversation = [...messages];
+  // Ledger query results, shown to the user under the reply
+  const tables: QueryTable[] = [];
+  let content = '';
+  // Corrections of invalid calls are not streamed; they happen behind the status message
+  let streamTurn = true;
+
+  for (let turnNumber = 1; turnNumber <= MAX_MODEL_TURNS; turnNumber++) {
+    const turn = await provider.complete({
+      messages: conversation,
+      tools: MODEL_TOOLS,
+      onDelta: streamTurn ? handlers.onDelta : undefined,
+    });
+    content = turn.content || content;
+
+    if (turn.toolCalls.length === 0) return { content, actions: [] as LedgerAction[], tables };
+
+    const { actions, errors, valid } = validateToolCalls(turn.toolCalls);
+    const hasQueries = actions.some((action) => isQueryTool(action.action));
+    if (valid && !hasQueries) return { content, actions, tables };
+
+    let results: unknown[];
+    if (!valid) {
+      console.log(`Invalid tool arguments (turn ${turnNumber}):`, JSON.stringify(errors));
+      streamTurn = false;
+      results = errors.map((problems) => problems.length > 0
+        ? { error: 'Invalid arguments, nothing was recorded', problems }
+        : { error: 'Not run because other calls in this reply were invalid. Send it again with the corrected calls.' });
+    } else {
+      handlers.onStatus?.('Analyzing your ledger...');
+      streamTurn = true;
+      results = await Promise.all(actions.map((action) => isQueryTool(action.action)
+        ? runQuery(caller, action, tables)
+        : { error: 'Not run. Review the query results first, then call it again if it is still needed.' }));
+    }
+
+    conversation.push(
+      {
+        role: 'assistant',
+        content: turn.content || null,
+        tool_calls: turn.toolCalls.map((call) => ({
+          id: call.id,
+          type: 'function' as const,
+          function: { name: call.name, arguments: call.arguments },
+        })),
+      },
+      ...turn.toolCalls.map((call, i) => ({
+        role: 'tool' as const,
+        tool_call_id: call.id,
+        content: JSON.stringify(results[i]),
+      }))
+    );
+  }
+
+  return {
+    content: "I couldn't complete that request. Could you rephrase it or add the missing details?",
+    actions: [] as LedgerAction[],
+    tables,
+  };
+}
+
+// Run a read-only tool call; failures go back to the model as an error result.
+// Its data has already been validated against the tool's schema; the report
+// check below only narrows it to a ReportSpec.
+async function runQuery({ userId, db }: Caller, query: LedgerAction, tables: QueryTable[]) {
+  try {
+    switch (query.action) {
+      case 'ANALYZE_SPENDING':
+        return await loadSpendingAnalysis(db, userId, query.data);
+      case 'QUERY_LEDGER': {
+        const table = await runLedgerQuery(db, userId, query.data);
+        tables.push(table);
+        return table;
+      }
+      case 'GENERATE_REPORT': {
+        if (!isReportSpec(query.data)) return { error: 'Invalid report arguments' };
+        const table = await generateReport(db, query.data);
+        tables.push(table);
+        return table;
+      }
+      default:
+        return { error: `Unknown query ${query.action}` };
+    }
+  } catch (error) {
+    console.error('Error running query:', query.action, error);
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// Run any actions the model asked for and build the reply sent to the client.
+// Actions only ever run once the full completion has been received.
+export async function finalizeResponse(
+  reply: { content: string; actions: LedgerAction[]; tables: QueryTable[] },
+  caller: Caller,
+  services: ChatServices,
+  context: ActionContext,
+  // Transactions proposed from the message's attachments
+  extractedData: { proposed_transactions: unknown[] } | null
+) {
+  const { actions, tables, note, requiresReview } = await planActions(caller, reply.actions, reply.tables);
+  const content = note ? `${reply.content}\n\n${note}`.trim() : reply.content;
+  let actionResult = null;
+  let proposal = null;
+
+  if (actions.length > 0) {
+    const amount = await actionAmount(caller, actions);
+    if (!requiresReview && amount !== null && await shouldAutoCommit(caller, amount)) {
+      actionResult = await performActions(caller, services, actions, context);
+      console.log('Action result:', actionResult);
+    } else {
+      console.log('Proposing actions for review:', actions.map((a) => a.action));
+      proposal = await proposeActions(caller, actions, content, context, amount);
+    }
+  }
+
+  const finalResponse = actionResult ? actionResult.response : proposal ? proposal.response : content;
+
+  return {
+    response: finalResponse,
+    actionPerformed: !!actionResult,
+    actionType: actionResult?.action || proposal?.action,
+    proposalId: proposal?.id,
+    proposedTransactions: extractedData?.proposed_transactions || [],
+    tables,
+    // Persisted with the assistant message so later turns can refer back to it
+    metadata: {
+      ...(actionResult && !actionResult.error ? { action: actionResult.action, records: actionResult.records } : {}),
+      ...(proposal ? { action: proposal.action, proposal_id: proposal.id } : {}),
+      ...(extractedData?.proposed_transactions.length ? { proposed_transactions: extractedData.proposed_transactions } : {}),
+      ...(tables.length ? { tables } : {}),
+    }
+  };
+}
+
+// Turn the model's tool calls into the actions that will run: CATEGORIZE_TRANSACTIONS
+// becomes the updates it makes (always reviewed, with a preview table) and new
+// transactions pick up the user's categorization rules.
+async function planActions({ userId, db }: Caller, requested: LedgerAction[], queryTables: QueryTable[]) {
+  const actions: LedgerAction[] = [];
+  const tables = [...queryTables];
+  let note = '';
+  let requiresReview = false;
+
+  for (const action of requested) {
+    if (action.action !== 'CATEGORIZE_TRANSACTIONS') {
+      actions.push(action);
+      continue;
+    }
+
+    const plan = await planCategorization(db, userId, action.data);
+    if (plan.actions.length > 0) {
+      actions.push(...plan.actions);
+      tables.push(plan.table);
+      requiresReview = true;
+    } else {
+      note = 'None of your categorization rules would change any transactions.';
+    }
+
+    const suggestions = await loadRuleSuggestions(db, userId);
+    if (suggestions) {
+      tables.push(suggestions);
+      note = `${note} You have categorized some merchants the same way repeatedly; the suggested rules below can be added from Rules on the dashboard.`.trim();
+    }
+  }
+
+  return { actions: await applyRulesToNewTransactions(db, actions), tables, note, requiresReview };
+}
+
+// Total a batch of actions moves in the base currency, compared against the
+// auto-commit threshold. An update counts as the larger of the transaction's
+// current and new amount. null when an amount cannot be converted (no stored
+// rate, or the transaction to update was not found); the batch is then reviewed.
+async function actionAmount(caller: Caller, actions: LedgerAction[]) {
+  const { userId, db } = caller;
+  const baseCurrency = await loadBaseCurrency(caller);
+
+  const updateIds = actions
+    .filter(({ action, data }) => action === 'UPDATE_TRANSACTION' && typeof data.id === 'string' && !data.id.startsWith('$'))
+    .map(({ data }) => data.id as string);
+  const { data: updated } = updateIds.length > 0
+    ? await db.from('transactions').select('id, base_amount, exchange_rate').in('id', updateIds).eq('user_id', userId)
+    : { data: [] };
+
+  // Same defaults as set_exchange_rate: a transaction is in its payment
+  // account's currency, a bill in the base currency
+  const currencyOf = async (data: Record<string, unknown>, isTransaction: boolean) => {
+    if (typeof data.currency === 'string' && data.currency) return data.currency.toUpperCase();
+    const accountId = data.payment_account_id;
+    if (!isTransaction || typeof accountId !== 'string') return baseCurrency;
+
+    if (accountId.startsWith('$')) {
+      const created = actions.find(({ action, ref }) =>
+        action === 'CREATE_ACCOUNT' && ref && (accountId === `$${ref}` || accountId === `$${ref}.id`));
+      return typeof created?.data.currency === 'string' ? created.data.currency.toUpperCase() : baseCurrency;
+    }
+
+    const { data: account } = await db
+      .from('accounts')
+      .select('currency')
+      .eq('id', accountId)
+      .eq('user_id', userId)
+      .maybeSingle();
+    return account?.currency || baseCurrency;
+  };
+
+  const rateFor = async (data: Record<string, unknown>, isTransaction: boolean, date: unknown) => {
+    const currency = await currencyOf(data, isTransaction);
+    if (currency === baseCurrency) return 1;
+    if (typeof data.exchange_rate === 'number') return data.exchange_rate;
+
+    const { data: rate, error } = await db.rpc('exchange_rate_on', {
+      p_user_id: userId,
+      p_currency: currency,
+      p_date: typeof date === 'string' ? date : new Date().toISOString().slice(0, 10),
+    });
+    return error ? null : Number(rate);
+  };
+
+  let total = 0;
+  for (const { action, data } of actions) {
+    let amount: number | null;
+
+    if (action === 'CREATE_JOURNAL_ENTRY' && Array.isArray(data.lines)) {
+      // Journal entries are posted in the base currency
+      amount = (data.lines as { debit?: number }[]).reduce((sum, line) => sum + (Number(line.debit) || 0), 0);
+    } else if (action === 'UPDATE_TRANSACTION') {
+      const current = updated?.find((transaction) => transaction.id === data.id);
+      amount = current
+        ? Math.max(Math.abs(Number(current.base_amount)), Math.abs(Number(data.amount) || 0) * Number(current.exchange_rate))
+        : null;
+    } else {
+      // A recurring schedule counts as the amount of one run
+      const face = Array.isArray(data.lines)
+        ? (data.lines as { amount?: number; tax_amount?: number }[])
+          .reduce((sum, line) => sum + (Number(line.amount) || 0) + (Number(line.tax_amount) || 0), 0)
+        : Math.abs(Number(data.amount) || 0);
+      const isTransaction = action === 'CREATE_TRANSACTION' || (action === 'CREATE_RECURRING_SCHEDULE' && data.kind === 'transaction');
+      const rate = face === 0 ? 1 : await rateFor(data, isTransaction, data.transaction_date || data.bill_date || data.start_date);
+      amount = rate === null ? null : face * rate;
+    }
+
+    if (amount === null) return null;
+    total += amount;
+  }
+
+  return Math.round(total * 100) / 100;
+}
+
+export async function loadBaseCurrency({ userId, db }: Caller) {
+  const { data: profile } = await db
+    .from('profiles')
+    .select('base_currency')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  return profile?.base_currency || 'USD';
+}
+
+async function shouldAutoCommit({ userId, db }: Caller, amount: number) {
+  const { data: profile } = await db
+    .from('profiles')
+    .select('auto_commit_enabled, auto_commit_threshold')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  return !!profile?.auto_commit_enabled && amount < Number(profile.auto_commit_threshold);
+}
+
+// Park a batch of actions for the user to approve, edit or reject in the chat
+async function proposeActions(
+  { userId, db }: Caller,
+  actions: LedgerAction[],
+  modelResponse: string | undefined,
+  context: ActionContext,
+  amount: number | null
+) {
+  const { data: proposal, error } = await db
+    .from('proposed_actions')
+    .insert([{
+      user_id: userId,
+      conversation_id: context.conversationId || null,
+      action_type: batchActionType(actions),
+      payload: { actions, attachment_ids: context.attachmentIds, message_id: context.messageId || null },
+      amount: amount ?? null,
+    }])
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  const summary = modelResponse || 'Here is what I would record.';
+
+  return {
+    id: proposal.id,
+    action: proposal.action_type,
+    response: `${summary}\n\nNothing has been written yet. Review the proposed action below and approve, edit or reject it.`,
+  };
+}
+
+export async function resolveProposal(
+  caller: Caller,
+  services: ChatServices,
+  proposalId: string,
+  decision: 'approve' | 'reject',
+  // Edited data for each action, in order (a single object for one-action proposals)
+  editedData: Record<string, unknown>[] | Record<string, unknown> | undefined
+) {
+  const { userId, db } = caller;
+
+  const { data: proposal, error: proposalError } = await db
+    .from('proposed_actions')
+    .select('*')
+    .eq('id', proposalId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (proposalError) throw proposalError;
+  if (!proposal) throw new Error('Proposed action not found');
+  // Failed proposals stay open so the user can correct and retry them
+  if (proposal.status !== 'pending' && proposal.status !== 'failed') {
+    throw new Error(`This action was already ${proposal.status}`);
+  }
+
+  if (decision === 'reject') {
+    const { data: rejected, error } = await db
+      .from('proposed_actions')
+      .update({ status: 'rejected', result_response: 'Rejected. Nothing was recorded.', resolved_at: new Date().toISOString() })
+      .eq('id', proposalId)
+      .in('status', ['pending', 'failed'])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return { response: rejected.result_response, proposal: rejected };
+  }
+
+  // Proposals from before batching stored a single action under payload.data
+  const proposed: LedgerAction[] = proposal.payload.actions
+    || [{ action: proposal.action_type, data: proposal.payload.data || {} }];
+  const edits = Array.isArray(editedData) ? editedData : editedData ? [editedData] : [];
+  const actions = proposed.map((action, i) => ({ ...action, data: { ...action.data, ...(edits[i] || {}) } }));
+
+  // Edits are checked like the model's own tool calls; invalid ones leave the proposal open
+  const { errors, valid } = validateToolCalls(actions.map((action, i) => ({
+    id: `edit-${i}`,
+    name: action.action,
+    arguments: JSON.stringify({ ...(action.ref ? { ref: action.ref } : {}), ...action.data }),
+  })));
+  if (!valid) {
+    const problems = errors.flatMap((stepErrors, i) =>
+      stepErrors.map((problem) => actions.length > 1 ? `Step ${i + 1}: ${problem}` : problem));
+    return { response: 'The edited action is not valid. Nothing was recorded.', problems, proposal };
+  }
+
+  // Claim the proposal first so a double click cannot commit it twice
+  const { data: claimed, error: claimError } = await db
+    .from('proposed_actions')
+    .update({
+      status: 'approved',
+      payload: { actions, attachment_ids: proposal.payload.attachment_ids || [], message_id: proposal.payload.message_id || null },
+      resolved_at: new Date().toISOString()
+    })
+    .eq('id', proposalId)
+    .eq('status', proposal.status)
+    .select()
+    .maybeSingle();
+
+  if (claimError) throw claimError;
+  if (!claimed) throw new Error('This action is already being processed');
+
+  const result = await performActions(caller, services, actions, {
+    conversationId: proposal.conversation_id || undefined,
+    messageId: proposal.payload.message_id || undefined,
+    attachmentIds: proposal.payload.attachment_ids || [],
+  });
+
+  const { data: resolved, error: resolveError } = await db
+    .from('proposed_actions')
+    .update({ status: result.error ? 'failed' : 'approved', result_response: result.response })
+    .eq('id', proposalId)
+    .select()
+    .single();
+
+  if (resolveError) throw resolveError;
+  return { response: result.response, records: result.records, proposal: resolved };
+}
+
+// Link uploaded documents to the transaction or bill created from them
+async function linkAttachments(
+  { userId, db }: Caller,
+  attachmentIds: string[],
+  link: { transaction_id: string } | { bill_id: string }
+) {
+  if (attachmentIds.length === 0) return;
+
+  const { error } = await db
+    .from('attachments')
+    .update(link)
+    .in('id', attachmentIds)
+    .eq('user_id', userId);
+
+  if (error) console.error('Error linking attachments:', error);
+}
+
+export interface ActionContext {
+  conversationId?: string;
+  // The user message the actions came from, recorded in the audit log
+  messageId?: string;
+  attachmentIds: string[];
+}
+
+// One row of execute_ledger_actions' result, with "$ref.id" placeholders resolved
+interface ActionResult {
+  index: number;
+  action: string;
+  ref: string | null;
+  id: string;
+  data: Record<string, unknown>;
+}
+
+function batchActionType(actions: LedgerAction[]) {
+  return actions.length === 1 ? actions[0].action : 'MULTIPLE_ACTIONS';
+}
+
+// Run the actions in order inside one database transaction: either all of them
+// are recorded or, if any fails, none are.
+async function performActions(caller: Caller, { serviceDb }: ChatServices, actions: LedgerAction[], context: ActionContext) {
+  const { userId, db } = caller;
+  const action = batchActionType(actions);
+
+  console.log('Performing actions:', JSON.stringify(actions));
+
+  // Users cannot write contexts, so only runs started here are recorded as the AI's
+  const { data: auditContext, error: contextError } = await serviceDb
+    .from('ai_action_contexts')
+    .insert([{ user_id: userId, conversation_id: context.conversationId || null, message_id: context.messageId || null }])
+    .select('id')
+    .single();
+
+  if (contextError) throw contextError;
+
+  const { data, error } = await db.rpc('execute_ledger_actions', {
+    p_user_id: userId,
+    // attachment_ids is handled here rather than stored on the record
+    p_actions: actions.map(({ data: { attachment_ids: _attachmentIds, ...data }, ...rest }) => ({ ...rest, data })),
+    p_conversation_id: context.conversationId || null,
+    p_context_id: auditContext.id,
+  });
+
+  if (error) {
+    console.error('Error performing actions:', error);
+    return {
+      action,
+      records: [],
+      error: error.message,
+      response: `❌ Error performing ${actions.length === 1 ? 'action' : 'actions'}: ${error.message}\nNo changes were made.`
+    };
+  }
+
+  const results = data as ActionResult[];
+  const isDocumentRecord = (action: string) => action === 'CREATE_TRANSACTION' || action === 'CREATE_BILL';
+  const documentRecordCount = results.filter((result) => isDocumentRecord(result.action)).length;
+  const summaries: string[] = [];
+  const baseCurrency = await loadBaseCurrency(caller);
+
+  for (const result of results) {
+    const source = actions[result.index - 1];
+
+    if (isDocumentRecord(result.action)) {
+      // Uploaded documents only belong to a transaction or bill unambiguously when it is the only one
+      const sourceIds = source?.data.attachment_ids;
+      const attachmentIds = Array.isArray(sourceIds) && sourceIds.length
+        ? sourceIds as string[]
+        : documentRecordCount === 1 ? context.attachmentIds : [];
+      await linkAttachments(
+        caller,
+        attachmentIds,
+        result.action === 'CREATE_BILL' ? { bill_id: result.id } : { transaction_id: result.id }
+      );
+    }
+
+    summaries.push(await describeResult(db, result, baseCurrency));
+  }
+
+  const response = summaries.length === 1
+    ? `✅ ${summaries[0]}`
+    : `✅ All ${summaries.length} actions completed:\n${summaries
+      .map((summary, i) => `${i + 1}. ${summary.replace(/\n/g, '\n   ')}`)
+      .join('\n')}`;
+
+  return {
+    action,
+    records: results.map((result) => ({ action: result.action, id: result.id })),
+    response,
+  };
+}
+
+const money = (amount: number, currency: string) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+
+// One line describing what an executed action recorded. Journal lines are
+// always in the base currency; transactions and bills may be in another.
+async function describeResult(db: SupabaseClient, result: ActionResult, baseCurrency: string) {
+  const { action, id, data } = result;
+
+  switch (action) {
+    case 'CREATE_TRANSACTION':
+    case 'UPDATE_TRANSACTION': {
+      const posting = await describePosting(db, id, baseCurrency);
+      if (action === 'UPDATE_TRANSACTION' && data.amount === undefined) return `Transaction updated successfully!${posting}`;
+
+      const { data: transaction } = await db
+        .from('transactions')
+        .select('currency')
+        .eq('id', id)
+        .maybeSingle();
+      const amount = money(Math.abs(Number(data.amount)), transaction?.currency || baseCurrency);
+      const kind = Number(data.amount) > 0 ? 'income' : 'expense';
+
+      return action === 'CREATE_TRANSACTION'
+        ? `Transaction recorded successfully! Added ${kind} of ${amount} for "${data.description}".${posting}`
+        : `Transaction updated successfully! Modified ${kind} of ${amount}${data.description ? ` for "${data.description}"` : ''}.${posting}`;
+    }
+
+    case 'CREATE_JOURNAL_ENTRY': {
+      const lines = (data.lines || []) as { debit?: number }[];
+      const total = lines.reduce((sum, line) => sum + (Number(line.debit) || 0), 0);
+      return `Journal entry "${data.description}" posted with ${lines.length} lines totalling ${money(total, baseCurrency)}.${await describeEntry(db, id, baseCurrency)}`;
+    }
+
+    case 'CREATE_BILL': {
+      const { data: bill } = await db
+        .from('bills')
+        .select('total, currency, due_date, scheduled_payment_date')
+        .eq('id', id)
+        .maybeSingle();
+      if (!bill) return 'Bill entered.';
+
+      const schedule = bill.scheduled_payment_date ? ` Payment scheduled for ${bill.scheduled_payment_date}.` : '';
+      const total = money(Number(bill.total), bill.currency || baseCurrency);
+      return `Bill${data.bill_number ? ` ${data.bill_number}` : ''} entered for ${total}, due ${bill.due_date}.${schedule}${await describePosting(db, id, baseCurrency, 'bill')}`;
+    }
+
+    case 'SCHEDULE_BILL_PAYMENT':
+      return `Bill payment scheduled for ${data.scheduled_payment_date}.`;
+
+    case 'CREATE_RECURRING_SCHEDULE': {
+      const { data: schedule } = await db
+        .from('recurring_schedules')
+        .select('occurrences_count, next_run_date, last_error')
+        .eq('id', id)
+        .maybeSingle();
+      if (!schedule) return `Recurring schedule "${data.name}" created.`;
+
+      const recorded = schedule.occurrences_count > 0
+        ? ` Recorded ${schedule.occurrences_count} run${schedule.occurrences_count === 1 ? '' : 's'} already due.`
+        : '';
+      const next = schedule.next_run_date ? ` Next run: ${schedule.next_run_date}.` : ' No further runs are scheduled.';
+      const failed = schedule.last_error ? ` The first run could not be recorded: ${schedule.last_error}` : '';
+      const units: Record<string, string> = { daily: 'days', weekly: 'weeks', monthly: 'months', yearly: 'years' };
+      const frequency = String(data.frequency);
+      const repeats = Number(data.interval_count) > 1 ? `every ${data.interval_count} ${units[frequency]}` : frequency;
+      return `Recurring schedule "${data.name}" created (${repeats}).${recorded}${next}${failed}`;
+    }
+
+    case 'CREATE_BUDGET':
+      return `Budget "${data.name}" created successfully! Set limit of ${money(Number(data.amount), baseCurrency)} for ${data.budget_type} period.`;
+
+    case 'CREATE_CATEGORY':
+      return `Category "${data.name}" created successfully!`;
+
+    case 'CREATE_ACCOUNT':
+      return `Account "${data.name}" created successfully!`;
+
+    case 'CREATE_CUSTOMER':
+      return `Customer "${data.name}" created successfully!`;
+
+    case 'CREATE_VENDOR':
+      return `Vendor "${data.name}" created successfully!`;
+
+    default:
+      return `${action} completed.`;
+  }
+}
+
+// Summarize the journal lines posted for a transaction or bill, e.g. "Dr Travel $80.00 / Cr Cash $80.00"
+async function describePosting(
+  db: SupabaseClient,
+  sourceId: string,
+  baseCurrency: string,
+  sourceType: 'transaction' | 'bill' = 'transaction'
+) {
+  const { data: entry } = await db
+    .from('journal_entries')
+    .select('id')
+    .eq('source_type', sourceType)
+    .eq('source_id', sourceId)
+    .maybeSingle();
+
+  return entry ? describeEntry(db, entry.id, baseCurrency) : '';
+}
+
+async function describeEntry(db: SupabaseClient, entryId: string, baseCurrency: string) {
+  const { data: lines } = await db
+    .from('journal_lines')
+    .select('debit, credit, accounts!inner(name)')
+    .eq('journal_entry_id', entryId)
+    .order('debit', { ascending: false })
+    // A line has one account, which the embed returns as an object
+    .overrideTypes<{ debit: number; credit: number; accounts: { name: string } }[], { merge: false }>();
+
+  if (!lines || lines.length === 0) return '';
+
+  const posting = lines
+    .map((line) => line.debit > 0
+      ? `Dr ${line.accounts.name} ${money(Number(line.debit), baseCurrency)}`
+      : `Cr ${line.accounts.name} ${money(Number(line.credit), baseCurrency)}`)
+    .join(' / ');
+
+  return `\nJournal: ${posting}`;
+}
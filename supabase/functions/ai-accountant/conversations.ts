@@ -0,0 +1,53 @@
+// Loads what the model needs to continue a conversation, after checking the
+// conversation belongs to the caller.
+
+import { AuthError, type Caller } from './auth.ts';
+import { buildConversationHistory, type StoredMessage } from './memory.ts';
+
+// Token budgets for prior turns sent back to the model
+const HISTORY_TOKEN_BUDGET = 3000;
+const HISTORY_SUMMARY_TOKEN_BUDGET = 500;
+
+// Prior turns (trimmed to the token budget) and the transactions this conversation produced
+export async function loadConversationContext({ userId, db }: Caller, conversationId: string | undefined, latestMessage: string) {
+  if (!conversationId) return { history: [], conversationTransactions: [] };
+
+  const { data: conversation } = await db
+    .from('conversations')
+    .select('id')
+    .eq('id', conversationId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  // RLS hides other users' conversations, so this is also the cross-user check
+  if (!conversation) throw new AuthError('Conversation does not belong to the signed-in user', 403);
+
+  const { data: storedMessages } = await db
+    .from('messages')
+    .select('role, content, metadata, created_at')
+    .eq('conversation_id', conversationId)
+    .order('created_at', { ascending: true });
+
+  // The client stores the latest user message before calling us; it is sent separately
+  const prior = (storedMessages || []) as StoredMessage[];
+  const last = prior[prior.length - 1];
+  if (last && last.role === 'user' && last.content === latestMessage) {
+    prior.pop();
+  }
+
+  const { data: conversationTransactions } = await db
+    .from('transactions')
+    .select('id, amount, description, transaction_date, account_id, payment_account_id, category_id, customer_id, vendor_id, notes')
+    .eq('conversation_id', conversationId)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(10);
+
+  return {
+    history: buildConversationHistory(prior, {
+      maxTokens: HISTORY_TOKEN_BUDGET,
+      summaryTokens: HISTORY_SUMMARY_TOKEN_BUDGET,
+    }),
+    conversationTransactions: conversationTransactions || [],
+  };
+}
@@ -0,0 +1,83 @@
+// The plain-text receipt parser. Run with `deno test`.
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { parseReceiptText, proposeTransaction } from './extraction.ts';
+
+const receipt = (...lines: string[]) => parseReceiptText('receipt.txt', lines.join('\n'));
+
+Deno.test('reads a receipt with subtotal, tax and total', () => {
+  const document = receipt(
+    'Office Depot',
+    'Date: 2025-09-14',
+    'Receipt #A-1001',
+    'Paper 2 x 7.50      15.00',
+    'Subtotal            15.00',
+    'Tax                  1.20',
+    'Total               16.20',
+  );
+
+  assertEquals(document.vendor, 'Office Depot');
+  assertEquals(document.date, '2025-09-14');
+  assertEquals(document.invoice_number, 'A-1001');
+  assertEquals(document.line_items, [{ description: 'Paper', quantity: 2, unit_price: 7.5, amount: 15 }]);
+  assertEquals([document.subtotal, document.tax, document.total], [15, 1.2, 16.2]);
+});
+
+Deno.test('reads a total that mentions the tax as the total', () => {
+  const document = receipt(
+    'Corner Cafe',
+    '14.09.2025',
+    'Sandwich            3.75',
+    'VAT 20%             0.75',
+    'Total incl. VAT     4.50',
+  );
+
+  assertEquals(document.date, '2025-09-14');
+  assertEquals([document.subtotal, document.tax, document.total], [3.75, 0.75, 4.5]);
+  assertEquals(proposeTransaction(document)?.amount, -4.5);
+});
+
+Deno.test('derives the tax from a total that includes it', () => {
+  const document = receipt(
+    'Corner Cafe',
+    'Sandwich            3.75',
+    'Total incl. VAT     4.50',
+  );
+
+  assertEquals([document.subtotal, document.tax, document.total], [3.75, 0.75, 4.5]);
+});
+
+Deno.test('reads amount due and balance due as the total', () => {
+  assertEquals(receipt('Plumber', 'Call-out   80.00', 'Amount due incl. GST   88.00').total, 88);
+  assertEquals(receipt('Plumber', 'Call-out   80.00', 'Balance due   $1,080.00').total, 1080);
+});
+
+Deno.test('reads a tax total as tax', () => {
+  const document = receipt(
+    'Hardware Store',
+    'Hammer              20.00',
+    'Total VAT            4.00',
+    'Total               24.00',
+  );
+
+  assertEquals([document.tax, document.total], [4, 24]);
+});
+
+Deno.test('adds up several tax lines', () => {
+  const document = receipt(
+    'Hotel',
+    'Room               100.00',
+    'GST                  5.00',
+    'HST                  8.00',
+    'Total              113.00',
+  );
+
+  assertEquals([document.subtotal, document.tax, document.total], [100, 13, 113]);
+});
+
+Deno.test('totals the items when the receipt shows no total', () => {
+  const document = receipt('Market', 'Apples   2.50', 'Bread   3.00');
+
+  assertEquals(document.line_items.map((item) => item.description), ['Apples', 'Bread']);
+  assertEquals([document.subtotal, document.tax, document.total], [5.5, null, 5.5]);
+});
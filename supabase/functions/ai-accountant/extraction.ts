@@ -0,0 +1,346 @@
+// Receipt and invoice extraction for uploaded attachments.
+// The model-backed extractor handles PDFs and images; the text parser is a
+// deterministic stand-in for plain-text receipts and for tests.
+
+export interface AttachmentInput {
+  file_name: string;
+  mime_type: string;
+  content: Uint8Array;
+}
+
+export interface ExtractedLineItem {
+  description: string;
+  quantity: number;
+  unit_price: number | null;
+  amount: number;
+}
+
+export interface ExtractedDocument {
+  file_name: string;
+  document_type: 'receipt' | 'invoice' | 'unknown';
+  vendor: string | null;
+  date: string | null;
+  invoice_number: string | null;
+  line_items: ExtractedLineItem[];
+  subtotal: number | null;
+  tax: number | null;
+  total: number | null;
+  currency: string | null;
+}
+
+export interface ProposedTransaction {
+  amount: number;
+  description: string;
+  vendor: string | null;
+  transaction_date: string;
+  reference_number: string | null;
+  notes: string;
+  // The total split into net and tax, when the document shows its tax
+  net_amount: number | null;
+  tax_amount: number | null;
+  // The user's tax rate that charges that tax on the net amount
+  tax_rate_id: string | null;
+}
+
+// A tax rate or group as offered to the model, effective_rate in percent
+export interface TaxRateOption {
+  id: string;
+  name: string;
+  effective_rate: number;
+}
+
+export interface ReceiptExtractor {
+  extract(file: AttachmentInput): Promise<ExtractedDocument>;
+}
+
+const EXTRACTION_MODEL = 'google/gemma-3-27b-it';
+
+const EXTRACTION_PROMPT = `Extract the purchase details from this receipt or invoice.
+Respond with ONLY a JSON object of this shape:
+{
+  "document_type": "receipt" | "invoice" | "unknown",
+  "vendor": string | null,
+  "date": "YYYY-MM-DD" | null,
+  "invoice_number": string | null,
+  "line_items": [{ "description": string, "quantity": number, "unit_price": number | null, "amount": number }],
+  "subtotal": number | null,
+  "tax": number | null,
+  "total": number | null,
+  "currency": "ISO 4217 code" | null
+}
+Use plain numbers without currency symbols. Use null for anything you cannot read.`;
+
+export function isTextDocument(mimeType: string) {
+  return mimeType.startsWith('text/') || mimeType === 'application/csv';
+}
+
+export function encodeBase64(bytes: Uint8Array) {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function decodeBase64(data: string) {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+// Uses a multimodal model through OpenRouter. Plain-text files are sent inline,
+// images as image_url parts and PDFs as file parts.
+export function createModelExtractor(apiKey: string, model = EXTRACTION_MODEL): ReceiptExtractor {
+  return {
+    async extract(file) {
+      const dataUrl = `data:${file.mime_type};base64,${encodeBase64(file.content)}`;
+      let documentPart;
+      if (isTextDocument(file.mime_type)) {
+        documentPart = { type: 'text', text: new TextDecoder().decode(file.content) };
+      } else if (file.mime_type.startsWith('image/')) {
+        documentPart = { type: 'image_url', image_url: { url: dataUrl } };
+      } else {
+        documentPart = { type: 'file', file: { filename: file.file_name, file_data: dataUrl } };
+      }
+
+      const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+          'X-Title': 'AI Accountant',
+        },
+        body: JSON.stringify({
+          model,
+          messages: [
+            { role: 'user', content: [{ type: 'text', text: EXTRACTION_PROMPT }, documentPart] }
+          ],
+          temperature: 0,
+          max_tokens: 1500,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Extraction request failed with status ${response.status}`);
+      }
+
+      const aiData = await response.json();
+      const content: string = aiData.choices?.[0]?.message?.content ?? '';
+      return normalizeDocument(file.file_name, parseJsonObject(content));
+    }
+  };
+}
+
+const AMOUNT = String.raw`-?\$?\s*\d{1,3}(?:,\d{3})*(?:\.\d{2})|-?\$?\s*\d+(?:\.\d{2})`;
+const TRAILING_AMOUNT = new RegExp(`(${AMOUNT})\\s*$`);
+const TAX = /\b(tax|vat|gst|hst)\b/i;
+const TAX_TOTAL = /\b(total\s+(tax|vat|gst|hst)|(tax|vat|gst|hst)\s+total)\b/i;
+const SUMMARY_LINE = /\b(sub\s*-?total|total|tax|vat|gst|hst|balance|amount due|change|cash|card|visa|mastercard|tip)\b/i;
+
+// Deterministic parser for plain-text receipts, e.g.
+//   Office Depot
+//   Date: 2025-09-14
+//   Paper 2 x 7.50      15.00
+//   Subtotal            15.00
+//   Tax                  1.20
+//   Total               16.20
+export function createTextReceiptParser(): ReceiptExtractor {
+  return {
+    async extract(file) {
+      const text = new TextDecoder().decode(file.content);
+      return parseReceiptText(file.file_name, text);
+    }
+  };
+}
+
+export function parseReceiptText(fileName: string, text: string): ExtractedDocument {
+  const lines = text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+
+  const document: ExtractedDocument = {
+    file_name: fileName,
+    document_type: /invoice/i.test(text) ? 'invoice' : 'receipt',
+    vendor: null,
+    date: null,
+    invoice_number: null,
+    line_items: [],
+    subtotal: null,
+    tax: null,
+    total: null,
+    currency: /€|\bEUR\b/.test(text) ? 'EUR' : /£|\bGBP\b/.test(text) ? 'GBP' : /\$|\bUSD\b/.test(text) ? 'USD' : null,
+  };
+
+  for (const line of lines) {
+    const amountMatch = line.match(TRAILING_AMOUNT);
+    const amount = amountMatch ? parseAmount(amountMatch[1]) : null;
+
+    if (!document.date) {
+      document.date = parseDate(line);
+      if (document.date && amount === null) continue;
+    }
+
+    const invoiceNumber = line.match(/\b(?:invoice|inv|receipt)\s*(?:no\.?|number|#)\s*[:#]?\s*([A-Z0-9-]+)/i);
+    if (invoiceNumber && !document.invoice_number) {
+      document.invoice_number = invoiceNumber[1];
+      continue;
+    }
+
+    if (!document.vendor && amount === null && /[a-z]/i.test(line)) {
+      document.vendor = line;
+      continue;
+    }
+
+    if (amount === null) continue;
+
+    // Totals come before tax so "Total incl. VAT" is read as the total; a
+    // line that totals the tax alone ("Total VAT", "Tax total") is still tax
+    if (/\bsub\s*-?total\b/i.test(line)) {
+      document.subtotal = amount;
+    } else if (/\b(total|amount due|balance due)\b/i.test(line) && !TAX_TOTAL.test(line)) {
+      document.total = amount;
+    } else if (TAX.test(line)) {
+      document.tax = (document.tax ?? 0) + amount;
+    } else if (!SUMMARY_LINE.test(line)) {
+      const label = line.slice(0, amountMatch!.index).trim();
+      const quantityMatch = label.match(/^(.*?)\s+(\d+(?:\.\d+)?)\s*[x@]\s*\$?(\d+(?:\.\d+)?)$/i);
+      document.line_items.push(quantityMatch
+        ? { description: quantityMatch[1], quantity: Number(quantityMatch[2]), unit_price: Number(quantityMatch[3]), amount }
+        : { description: label, quantity: 1, unit_price: amount, amount });
+    }
+  }
+
+  return fillTotals(document);
+}
+
+// The tax rate whose tax on the net amount comes closest to the tax shown,
+// allowing a cent of rounding per percentage point charged
+export function matchTaxRate(net: number, tax: number, taxRates: TaxRateOption[]) {
+  let best: { id: string; difference: number } | null = null;
+  for (const taxRate of taxRates) {
+    const rate = Number(taxRate.effective_rate);
+    const difference = Math.abs(round(net * rate / 100) - tax);
+    if (rate > 0 && difference <= Math.max(0.02, rate / 100) && (!best || difference < best.difference)) {
+      best = { id: taxRate.id, difference };
+    }
+  }
+  return best?.id ?? null;
+}
+
+// Turn an extracted document into a transaction the user can confirm. The
+// total stays the amount paid; the tax in it is split out against the
+// matching tax rate when the document shows one.
+export function proposeTransaction(document: ExtractedDocument, taxRates: TaxRateOption[] = []): ProposedTransaction | null {
+  if (document.total === null) return null;
+
+  const total = Math.abs(document.total);
+  const tax = document.tax !== null && document.tax > 0 && document.tax < total ? round(document.tax) : null;
+  const net = tax !== null ? round(total - tax) : null;
+
+  const itemSummary = document.line_items.map((item) => item.description).filter(Boolean).slice(0, 3).join(', ');
+  const description = [document.vendor, itemSummary].filter(Boolean).join(' - ') || document.file_name;
+  const notes = [
+    `Extracted from ${document.file_name}`,
+    document.tax !== null ? `tax ${document.tax.toFixed(2)}` : null,
+    document.currency ? `currency ${document.currency}` : null,
+  ].filter(Boolean).join('; ');
+
+  return {
+    amount: -total,
+    description,
+    vendor: document.vendor,
+    transaction_date: document.date ?? new Date().toISOString().split('T')[0],
+    reference_number: document.invoice_number,
+    notes,
+    net_amount: net,
+    tax_amount: tax,
+    tax_rate_id: net !== null && tax !== null ? matchTaxRate(net, tax, taxRates) : null,
+  };
+}
+
+function fillTotals(document: ExtractedDocument): ExtractedDocument {
+  const itemsTotal = document.line_items.reduce((sum, item) => sum + item.amount, 0);
+
+  if (document.subtotal === null && document.line_items.length > 0) {
+    document.subtotal = round(itemsTotal);
+  }
+  if (document.total === null && document.subtotal !== null) {
+    document.total = round(document.subtotal + (document.tax ?? 0));
+  }
+  if (document.tax === null && document.total !== null && document.subtotal !== null && document.total > document.subtotal) {
+    document.tax = round(document.total - document.subtotal);
+  }
+
+  return document;
+}
+
+function normalizeDocument(fileName: string, raw: Record<string, unknown> | null): ExtractedDocument {
+  const items = Array.isArray(raw?.line_items) ? raw.line_items as Record<string, unknown>[] : [];
+
+  return fillTotals({
+    file_name: fileName,
+    document_type: raw?.document_type === 'invoice' || raw?.document_type === 'receipt' ? raw.document_type : 'unknown',
+    vendor: typeof raw?.vendor === 'string' && raw.vendor ? raw.vendor : null,
+    date: typeof raw?.date === 'string' ? parseDate(raw.date) : null,
+    invoice_number: typeof raw?.invoice_number === 'string' && raw.invoice_number ? raw.invoice_number : null,
+    line_items: items
+      .map((item) => ({
+        description: String(item.description ?? ''),
+        quantity: toNumber(item.quantity) ?? 1,
+        unit_price: toNumber(item.unit_price),
+        amount: toNumber(item.amount) ?? 0,
+      }))
+      .filter((item) => item.description || item.amount),
+    subtotal: toNumber(raw?.subtotal),
+    tax: toNumber(raw?.tax),
+    total: toNumber(raw?.total),
+    currency: typeof raw?.currency === 'string' && /^[A-Z]{3}$/.test(raw.currency) ? raw.currency : null,
+  });
+}
+
+function parseJsonObject(content: string): Record<string, unknown> | null {
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+
+  try {
+    return JSON.parse(content.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+}
+
+function parseAmount(value: string) {
+  return round(Number(value.replace(/[$,\s]/g, '')));
+}
+
+function toNumber(value: unknown) {
+  if (typeof value === 'number' && Number.isFinite(value)) return round(value);
+  if (typeof value === 'string' && value.trim()) {
+    const parsed = Number(value.replace(/[^0-9.-]/g, ''));
+    return Number.isFinite(parsed) ? round(parsed) : null;
+  }
+  return null;
+}
+
+function parseDate(text: string) {
+  const iso = text.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+
+  // Assume US month/day order for slashes and day.month order for dots
+  const us = text.match(/\b(\d{1,2})\/(\d{1,2})\/(\d{2,4})\b/);
+  if (us) return toIsoDate(us[3], us[1], us[2]);
+
+  const eu = text.match(/\b(\d{1,2})\.(\d{1,2})\.(\d{2,4})\b/);
+  if (eu) return toIsoDate(eu[3], eu[2], eu[1]);
+
+  return null;
+}
+
+function toIsoDate(year: string, month: string, day: string) {
+  const fullYear = year.length === 2 ? `20${year}` : year;
+  return `${fullYear}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
+
+function round(value: number) {
+  return Math.round(value * 100) / 100;
+}
@@ -1,6 +1,20 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import {
+  createModelExtractor,
+  createTextReceiptParser,
+  isTextDocument,
+  proposeTransaction,
+  type ExtractedDocument,
+  type ReceiptExtractor,
+  type TaxRateOption,
+} from './extraction.ts';
+import { AuthError, authenticate, createUserClientFactory, type Caller } from './auth.ts';
+import { finalizeResponse, loadBaseCurrency, requestActions, resolveProposal, type ActionContext, type ChatServices } from './chat.ts';
+import { loadConversationContext } from './conversations.ts';
+import { createMockProvider, createOpenRouterProvider, type ChatMessage, type ModelProvider } from './provider.ts';
+import { createEventStream } from './streaming.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -9,9 +23,29 @@ const corsHeaders = {
 
 const openRouterApiKey = Deno.env.get('OPENROUTER_API_KEY');
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
 
-const supabase = createClient(supabaseUrl, supabaseServiceKey);
+// Each request gets a client acting as the caller (see auth.ts)
+const createUserClient = createUserClientFactory(supabaseUrl, supabaseAnonKey);
+
+// The service role only records the chat context of AI changes (see performActions in chat.ts)
+const serviceClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+  auth: { persistSession: false, autoRefreshToken: false },
+});
+
+// RECEIPT_EXTRACTOR=local swaps in the deterministic text parser for offline local runs
+const textReceiptParser = createTextReceiptParser();
+const receiptExtractor: ReceiptExtractor = Deno.env.get('RECEIPT_EXTRACTOR') === 'local' || !openRouterApiKey
+  ? textReceiptParser
+  : createModelExtractor(openRouterApiKey);
+
+// AI_PROVIDER=mock replays the turns in MOCK_MODEL_TURNS instead of calling OpenRouter, for offline local runs.
+// Each request gets its own provider, so every request replays the script from its first turn.
+function createModelProvider(): ModelProvider {
+  return Deno.env.get('AI_PROVIDER') === 'mock'
+    ? createMockProvider(JSON.parse(Deno.env.get('MOCK_MODEL_TURNS') || '[]'))
+    : createOpenRouterProvider(openRouterApiKey!, Deno.env.get('OPENROUTER_MODEL') || undefined);
+}
 
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -19,63 +53,131 @@ serve(async (req) => {
   }
 
   try {
-    const { message, conversationId, userId, attachments } = await req.json();
+    const body = await req.json();
+    const caller = await authenticate(req, body.userId, createUserClient);
+    const { userId, db } = caller;
+    const services: ChatServices = { provider: createModelProvider(), serviceDb: serviceClient };
+
+    // Approve / reject a previously proposed action
+    if (body.proposalId) {
+      if (body.decision !== 'approve' && body.decision !== 'reject') {
+        return new Response(JSON.stringify({ error: 'decision must be "approve" or "reject"' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const result = await resolveProposal(caller, services, body.proposalId, body.decision, body.data);
+      return new Response(JSON.stringify(result), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { message, conversationId, messageId, attachments, stream } = body;
     
     console.log('AI Accountant request:', { message, conversationId, userId, attachments });
 
     let context = '';
     let extractedData = null;
 
-    // Process attachments if provided
-    if (attachments && attachments.length > 0) {
-      console.log('Processing attachments:', attachments.length);
-      extractedData = await processAttachments(attachments, userId);
-      if (extractedData) {
-        context = `\n\nAttachment Analysis:\n${JSON.stringify(extractedData, null, 2)}`;
-      }
-    }
+    // Record recurring transactions and bills that have fallen due, so the context below is current
+    const { error: recurringError } = await db.rpc('run_recurring_schedules');
+    if (recurringError) console.error('Error running recurring schedules:', recurringError);
 
     // Get user's recent transactions and accounts for context
-    const { data: accounts } = await supabase
+    const { data: accounts } = await db
       .from('accounts')
       .select('*')
       .eq('user_id', userId)
       .limit(10);
 
-    const { data: categories } = await supabase
+    const { data: categories } = await db
       .from('categories')
       .select('*')
       .eq('user_id', userId)
       .limit(10);
 
-    const { data: customers } = await supabase
+    const { data: customers } = await db
       .from('customers')
       .select('*')
       .eq('user_id', userId)
       .eq('is_active', true)
       .limit(10);
 
-    const { data: vendors } = await supabase
+    const { data: vendors } = await db
       .from('vendors')
       .select('*')
       .eq('user_id', userId)
       .eq('is_active', true)
       .limit(10);
 
-    const { data: recentTransactions } = await supabase
+    const { data: unpaidBills } = await db
+      .from('bills')
+      .select('id, bill_number, due_date, scheduled_payment_date, balance_due, currency, vendors!inner(name)')
+      .eq('user_id', userId)
+      .in('status', ['open', 'partially_paid'])
+      .order('due_date')
+      .limit(10)
+      // A bill has one vendor, which the embed returns as an object
+      .overrideTypes<{
+        id: string;
+        bill_number: string | null;
+        due_date: string;
+        scheduled_payment_date: string | null;
+        balance_due: number;
+        currency: string | null;
+        vendors: { name: string };
+      }[], { merge: false }>();
+
+    const { data: taxRates } = await db
+      .from('tax_rates')
+      .select('id, name, effective_rate')
+      .eq('user_id', userId)
+      .eq('is_active', true)
+      .order('name');
+
+    const { data: protectedPeriods } = await db
+      .from('fiscal_periods')
+      .select('name, start_date, end_date, status')
+      .eq('user_id', userId)
+      .neq('status', 'open')
+      .order('start_date', { ascending: false })
+      .limit(12);
+
+    // Process attachments if provided
+    if (attachments && attachments.length > 0) {
+      console.log('Processing attachments:', attachments.length);
+      extractedData = await processAttachments(caller, attachments, vendors || [], taxRates || []);
+      if (extractedData.documents.length > 0) {
+        context = `\n\nAttachment Analysis:\n${JSON.stringify(extractedData, null, 2)}
+
+The user uploaded the documents above. Summarize what was extracted (vendor, date, line items, tax, total) and present each proposed transaction.
+Ask the user to confirm or correct it before recording. Only call CREATE_TRANSACTION (or CREATE_BILL for a vendor invoice still to be paid) once the user confirms,
+and include the proposal's attachment_id in attachment_ids so the document is linked to the transaction or bill.`;
+      }
+    }
+
+    const { data: recentTransactions } = await db
       .from('transactions')
-      .select('*, accounts(name), categories(name), customers(name), vendors(name)')
+      .select('*, account:accounts!transactions_account_id_fkey(name), payment_account:accounts!transactions_payment_account_id_fkey(name), categories(name), customers(name), vendors(name)')
       .eq('user_id', userId)
       .order('created_at', { ascending: false })
       .limit(5);
 
+    const { history, conversationTransactions } = await loadConversationContext(caller, conversationId, message);
+    const baseCurrency = await loadBaseCurrency(caller);
+
     const systemPrompt = `You are an AI Accounting Assistant with deep understanding of accounting principles. You can perform actual database operations to help users manage their finances.
 
-Available accounts: ${JSON.stringify(accounts?.map(a => ({ id: a.id, name: a.name, type: a.account_type })))}
+Available accounts: ${JSON.stringify(accounts?.map(a => ({ id: a.id, name: a.name, type: a.account_type, ...(a.currency ? { currency: a.currency } : {}) })))}
 Available categories: ${JSON.stringify(categories?.map(c => ({ id: c.id, name: c.name, color: c.color })))}
 Available customers: ${JSON.stringify(customers?.map(c => ({ id: c.id, name: c.name, type: c.customer_type })))}
 Available vendors: ${JSON.stringify(vendors?.map(v => ({ id: v.id, name: v.name, type: v.vendor_type })))}
+Tax rates: ${JSON.stringify(taxRates?.map(t => ({ id: t.id, name: t.name, rate: Number(t.effective_rate) })))}
+Closed and locked periods (latest first): ${JSON.stringify(protectedPeriods || [])}
+Unpaid bills: ${JSON.stringify(unpaidBills?.map(b => ({ id: b.id, vendor: b.vendors.name, bill_number: b.bill_number, due_date: b.due_date, scheduled_payment_date: b.scheduled_payment_date, balance_due: b.balance_due, currency: b.currency })))}
 Recent transactions: ${JSON.stringify(recentTransactions?.slice(0, 3))}
+Transactions created in this conversation (newest first): ${JSON.stringify(conversationTransactions)}
 
 ${context}
 
@@ -84,6 +186,9 @@ CRITICAL ACCOUNTING RULES:
 2. INCOME/REVENUE is money coming IN (sales, payments received) - use POSITIVE amounts and REVENUE accounts
 3. When someone says "I paid $X for Y" or "I bought X for $Y" - this is an EXPENSE (negative amount)
 4. When someone says "I received $X" or "I earned $X" - this is INCOME (positive amount)
+5. Every transaction is posted as a balanced double entry between account_id and payment_account_id.
+   payment_account_id is the asset or liability account the money moved through (Cash, Bank Account, a credit card).
+   It defaults to Cash when omitted. Money out debits account_id and credits payment_account_id; money in does the reverse.
 
 Account Types:
 - asset: Cash, Bank Account, Accounts Receivable
@@ -97,90 +202,101 @@ Customer & Vendor Management:
 - Use vendor_id when recording purchases or vendor payments
 - Create customers/vendors when mentioned but not in the available list
 
-You can perform these actions:
-1. CREATE_TRANSACTION - Record new transactions
-2. CREATE_BUDGET - Set up budgets
-3. CREATE_CATEGORY - Add new categories
-4. CREATE_ACCOUNT - Add new accounts
-5. CREATE_CUSTOMER - Add new customers/clients
-6. CREATE_VENDOR - Add new vendors/suppliers
-7. UPDATE_TRANSACTION - Modify existing transactions
-8. ANALYZE_SPENDING - Provide financial insights
-
-When users ask you to record transactions or perform actions, respond with a JSON object containing:
-{
-  "action": "ACTION_TYPE",
-  "data": { /* relevant data */ },
-  "response": "Human readable response"
-}
-
-For CREATE_TRANSACTION, include: amount (negative for expenses, positive for income), description, account_id (expense account for expenses, revenue account for income), category_id, customer_id (optional), vendor_id (optional), transaction_date, notes
-For UPDATE_TRANSACTION, include: id, amount, description, account_id, category_id, customer_id, vendor_id, transaction_date, notes
-For CREATE_BUDGET, include: name, amount, budget_type, category_id, start_date, end_date
-For CREATE_CATEGORY, include: name, description, color
-For CREATE_ACCOUNT, include: name, account_type, code
-For CREATE_CUSTOMER, include: name, email, phone, company_name, customer_type ('customer' or 'client')
-For CREATE_VENDOR, include: name, email, phone, company_name, vendor_type ('vendor' or 'supplier')
-
-If you cannot perform an action or need more information, just provide a helpful response without the action structure.`;
-
-    const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openRouterApiKey}`,
-        'Content-Type': 'application/json',
-        'HTTP-Referer': 'https://tgshonwmthturuxeceqr.supabase.co',
-        'X-Title': 'AI Accountant',
-      },
-      body: JSON.stringify({
-        model: 'google/gemma-3-27b-it',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: message }
-        ],
-        temperature: 0.7,
-        max_tokens: 1500,
-      }),
-    });
+Record changes by calling the tools provided (CREATE_TRANSACTION, UPDATE_TRANSACTION, CATEGORIZE_TRANSACTIONS, CREATE_JOURNAL_ENTRY,
+CREATE_BILL, SCHEDULE_BILL_PAYMENT, CREATE_RECURRING_SCHEDULE, CREATE_BUDGET, CREATE_CATEGORY, CREATE_ACCOUNT, CREATE_CUSTOMER, CREATE_VENDOR). Call every tool the message needs,
+in the order they should run, and reply with a short message describing what will be recorded.
+Tool calls are shown to the user as a proposal to approve, edit or reject before anything is written
+(unless the amount is below their auto-commit threshold), and they run together: if one fails, none are recorded.
+To use a record created by an earlier call in the same reply, give that call a "ref" and pass "$<ref>.id" where its id is needed,
+e.g. CREATE_VENDOR { "ref": "acme", "name": "Acme" } then CREATE_TRANSACTION { "vendor_id": "$acme.id", ... }.
+If a tool call is rejected as invalid, correct the arguments and call the tools again.
+
+Vendor Bills:
+- A vendor invoice that has not been paid yet is a bill: call CREATE_BILL with its lines coded to expense accounts, not CREATE_TRANSACTION.
+  CREATE_TRANSACTION is for purchases that are already paid.
+- To plan when a bill is paid ("pay it on the 15th from the bank account"), set scheduled_payment_date and payment_account_id on CREATE_BILL,
+  or call SCHEDULE_BILL_PAYMENT with the id of an unpaid bill.
+
+Recurring Transactions:
+- For anything that repeats ("record $1,200 rent on the 1st every month", "Netflix $15.49 monthly", "payroll every other Friday"),
+  call CREATE_RECURRING_SCHEDULE once instead of creating the individual transactions. Use kind "bill" when each occurrence is a bill to pay later.
+- start_date is the first run: for "on the 1st every month" use the next 1st (today if today is the 1st). Runs due today or earlier are recorded straight away.
+
+Currencies:
+- The books are kept in ${baseCurrency}. Amounts without a currency are in ${baseCurrency}, and reports, queries and budgets are in ${baseCurrency}.
+- For an amount in another currency ("paid €200 for the hotel"), pass the amount in that currency and set currency to its code (EUR) on
+  CREATE_TRANSACTION or CREATE_BILL. It is converted with the stored exchange rate for the date; only pass exchange_rate
+  (${baseCurrency} per 1 unit) when the user states the rate. An account with a currency only takes amounts in that currency.
+
+Sales Tax:
+- A receipt or sale that includes sales tax, VAT or GST is one transaction for the total paid or received, with tax_rate_id set to
+  the matching tax rate. The database splits the total into net and tax and posts the tax to the rate's account; never record the tax separately.
+  An uploaded receipt's proposal gives the split (net_amount, tax_amount) and the matching tax_rate_id when one fits.
+- On CREATE_BILL, set tax_rate_id on each taxed line instead of tax_amount, with line amounts before tax
+  (or tax_inclusive true when the amounts include the tax).
+- If the tax on a document matches none of the tax rates, say so and record the tax in the line's tax_amount (bills) or leave the tax out.
+
+Closed Periods:
+- Nothing can be recorded, changed or deleted with a date inside a locked period. In a closed period only CREATE_JOURNAL_ENTRY adjustments are accepted.
+- Before creating or updating a record dated in one of the closed or locked periods listed above, tell the user the period is closed.
+  Offer to record the correction dated in the current open period instead, or ask them to reopen the period first.
+
+The user's categorization rules are applied to new transactions automatically and can override the account, category and vendor you choose.
+To categorize existing transactions in bulk ("help me categorize my transactions"), call CATEGORIZE_TRANSACTIONS; the changes are previewed for the user to approve.
+
+For questions about spending, income, vendors, customers or trends, call ANALYZE_SPENDING and answer only from the figures it returns.
+For questions about specific history ("how much did I spend on travel in Q2?", "income by customer this year"), call QUERY_LEDGER.
+To produce a financial statement ("Generate P&L report", "profit and loss by month this year", "balance sheet at June 30", "trial balance", "where did my cash go this quarter?", "who owes me money?", "what do I owe my vendors?", "how much sales tax do I owe for Q3?"), call GENERATE_REPORT.
+Query and report results are shown to the user as a table under your reply, so state the key figures rather than repeating every row.
+Never estimate or invent amounts; if a query or analysis returns no data for the period, say so.
+
+Earlier turns of this conversation are included before the latest message. When the user refers back ("actually make that $60", "delete the last one", "yes, record it"),
+resolve the reference from those turns and the transactions created in this conversation, and use the existing record's id with UPDATE_TRANSACTION instead of creating a duplicate.
+
+If you cannot perform an action or need more information, just provide a helpful response without calling any tools.`;
+
+    const modelMessages: ChatMessage[] = [
+      { role: 'system', content: systemPrompt },
+      ...history,
+      { role: 'user', content: message }
+    ];
+
+    const actionContext: ActionContext = {
+      conversationId,
+      messageId,
+      attachmentIds: (attachments || []).map((attachment: { id: string }) => attachment.id),
+    };
 
-    const aiData = await response.json();
-    const aiResponse = aiData.choices[0].message.content;
+    if (stream) {
+      return createEventStream(corsHeaders, async (send) => {
+        const reply = await requestActions(modelMessages, caller, services, {
+          onDelta: (delta) => send('delta', { content: delta }),
+          onStatus: (message) => send('status', { message }),
+        });
 
-    console.log('AI Response:', aiResponse);
+        console.log('AI Response:', reply);
+        if (reply.actions.length > 0) send('status', { message: 'Working on it...' });
 
-    // Try to parse as JSON to see if it's an action
-    let actionResult = null;
-    try {
-      // Clean the response by removing markdown code blocks if present
-      let cleanResponse = aiResponse.trim();
-      if (cleanResponse.startsWith('```json')) {
-        cleanResponse = cleanResponse.replace(/```json\n?/g, '').replace(/\n?```$/g, '');
-      } else if (cleanResponse.startsWith('```')) {
-        cleanResponse = cleanResponse.replace(/```\n?/g, '').replace(/\n?```$/g, '');
-      }
-      
-      const parsedResponse = JSON.parse(cleanResponse);
-      if (parsedResponse.action) {
-        console.log('Performing action:', parsedResponse.action);
-        actionResult = await performAction(parsedResponse, userId);
-        console.log('Action result:', actionResult);
-      }
-    } catch (error) {
-      console.log('Not a JSON action, treating as regular response:', error.message);
-      // Not a JSON action, just a regular response
+        send('done', await finalizeResponse(reply, caller, services, actionContext, extractedData));
+      });
     }
 
-    const finalResponse = actionResult ? actionResult.response : aiResponse;
+    const reply = await requestActions(modelMessages, caller, services);
 
-    return new Response(JSON.stringify({ 
-      response: finalResponse,
-      actionPerformed: !!actionResult,
-      actionType: actionResult?.action
-    }), {
+    console.log('AI Response:', reply);
+
+    return new Response(JSON.stringify(await finalizeResponse(reply, caller, services, actionContext, extractedData)), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
 
   } catch (error) {
+    if (error instanceof AuthError) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: error.status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
     console.error('Error in ai-accountant function:', error);
     return new Response(JSON.stringify({ 
       error: error.message,
@@ -192,206 +308,61 @@ If you cannot perform an action or need more information, just provide a helpful
   }
 });
 
-async function processAttachments(attachments: any[], userId: string) {
-  // For now, return placeholder data. In a full implementation, 
-  // this would use OCR/document parsing to extract transaction data
+async function processAttachments(
+  { userId, db }: Caller,
+  attachments: { id: string }[],
+  vendors: { id: string; name: string }[],
+  taxRates: TaxRateOption[]
+) {
   console.log('Processing attachments for user:', userId);
-  
-  // Placeholder for attachment processing
-  return {
-    detected_transactions: [
-      {
-        amount: 150.00,
-        description: "Office supplies from receipt",
-        vendor: "Office Depot",
-        date: new Date().toISOString().split('T')[0]
-      }
-    ]
-  };
-}
 
-async function performAction(parsedResponse: any, userId: string) {
-  const { action, data } = parsedResponse;
-  
-  console.log('Performing action:', action, data);
+  // Only read attachment records that belong to the caller
+  const { data: records, error: recordsError } = await db
+    .from('attachments')
+    .select('id, file_name, file_path, mime_type')
+    .in('id', attachments.map((attachment) => attachment.id))
+    .eq('user_id', userId);
 
-  try {
-    switch (action) {
-      case 'CREATE_TRANSACTION':
-        console.log('Creating transaction with data:', data);
-        const { data: transaction, error: transactionError } = await supabase
-          .from('transactions')
-          .insert([{
-            user_id: userId,
-            amount: data.amount,
-            description: data.description,
-            account_id: data.account_id,
-            category_id: data.category_id,
-            customer_id: data.customer_id || null,
-            vendor_id: data.vendor_id || null,
-            transaction_date: data.transaction_date || new Date().toISOString().split('T')[0],
-            notes: data.notes || '',
-            status: 'cleared'
-          }])
-          .select()
-          .single();
-
-        if (transactionError) {
-          console.error('Transaction creation error:', transactionError);
-          throw transactionError;
-        }
-        
-        console.log('Transaction created successfully:', transaction);
-        
-        return {
-          action: 'CREATE_TRANSACTION',
-          response: `✅ Transaction recorded successfully! Added ${data.amount > 0 ? 'income' : 'expense'} of $${Math.abs(data.amount)} for "${data.description}".`
-        };
-
-      case 'UPDATE_TRANSACTION':
-        console.log('Updating transaction with data:', data);
-        const { data: updatedTransaction, error: updateError } = await supabase
-          .from('transactions')
-          .update({
-            amount: data.amount,
-            description: data.description,
-            account_id: data.account_id,
-            category_id: data.category_id,
-            customer_id: data.customer_id || null,
-            vendor_id: data.vendor_id || null,
-            transaction_date: data.transaction_date,
-            notes: data.notes || ''
-          })
-          .eq('id', data.id)
-          .eq('user_id', userId)
-          .select()
-          .single();
-
-        if (updateError) {
-          console.error('Transaction update error:', updateError);
-          throw updateError;
-        }
-        
-        console.log('Transaction updated successfully:', updatedTransaction);
-        
-        return {
-          action: 'UPDATE_TRANSACTION',
-          response: `✅ Transaction updated successfully! Modified ${data.amount > 0 ? 'income' : 'expense'} of $${Math.abs(data.amount)} for "${data.description}".`
-        };
-
-      case 'CREATE_BUDGET':
-        const { data: budget, error: budgetError } = await supabase
-          .from('budgets')
-          .insert([{
-            user_id: userId,
-            name: data.name,
-            amount: data.amount,
-            budget_type: data.budget_type,
-            category_id: data.category_id,
-            start_date: data.start_date,
-            end_date: data.end_date
-          }])
-          .select()
-          .single();
-
-        if (budgetError) throw budgetError;
-
-        return {
-          action: 'CREATE_BUDGET',
-          response: `✅ Budget "${data.name}" created successfully! Set limit of $${data.amount} for ${data.budget_type} period.`
-        };
-
-      case 'CREATE_CATEGORY':
-        const { data: category, error: categoryError } = await supabase
-          .from('categories')
-          .insert([{
-            user_id: userId,
-            name: data.name,
-            description: data.description,
-            color: data.color || '#6366f1'
-          }])
-          .select()
-          .single();
-
-        if (categoryError) throw categoryError;
-
-        return {
-          action: 'CREATE_CATEGORY',
-          response: `✅ Category "${data.name}" created successfully!`
-        };
-
-      case 'CREATE_ACCOUNT':
-        const { data: account, error: accountError } = await supabase
-          .from('accounts')
-          .insert([{
-            user_id: userId,
-            name: data.name,
-            account_type: data.account_type,
-            code: data.code
-          }])
-          .select()
-          .single();
-
-        if (accountError) throw accountError;
-
-        return {
-          action: 'CREATE_ACCOUNT',
-          response: `✅ Account "${data.name}" created successfully!`
-        };
-
-      case 'CREATE_CUSTOMER':
-        const { data: customer, error: customerError } = await supabase
-          .from('customers')
-          .insert([{
-            user_id: userId,
-            name: data.name,
-            email: data.email || null,
-            phone: data.phone || null,
-            company_name: data.company_name || null,
-            customer_type: data.customer_type || 'customer'
-          }])
-          .select()
-          .single();
-
-        if (customerError) throw customerError;
-
-        return {
-          action: 'CREATE_CUSTOMER',
-          response: `✅ Customer "${data.name}" created successfully!`
-        };
-
-      case 'CREATE_VENDOR':
-        const { data: vendor, error: vendorError } = await supabase
-          .from('vendors')
-          .insert([{
-            user_id: userId,
-            name: data.name,
-            email: data.email || null,
-            phone: data.phone || null,
-            company_name: data.company_name || null,
-            vendor_type: data.vendor_type || 'vendor'
-          }])
-          .select()
-          .single();
-
-        if (vendorError) throw vendorError;
-
-        return {
-          action: 'CREATE_VENDOR',
-          response: `✅ Vendor "${data.name}" created successfully!`
-        };
-
-      default:
-        return {
-          action: action,
-          response: parsedResponse.response || "Action completed successfully."
-        };
+  if (recordsError) throw recordsError;
+
+  const documents: (ExtractedDocument & { attachment_id: string })[] = [];
+  const failed: string[] = [];
+
+  for (const record of records || []) {
+    try {
+      const { data: blob, error: downloadError } = await db.storage
+        .from('attachments')
+        .download(record.file_path);
+
+      if (downloadError) throw downloadError;
+
+      const file = {
+        file_name: record.file_name,
+        mime_type: record.mime_type || blob.type || 'application/octet-stream',
+        content: new Uint8Array(await blob.arrayBuffer()),
+      };
+
+      let document = isTextDocument(file.mime_type) ? await textReceiptParser.extract(file) : null;
+      // Fall back to the model when the text parser could not find a total
+      if (!document || document.total === null) {
+        document = await receiptExtractor.extract(file);
+      }
+      documents.push({ ...document, attachment_id: record.id });
+    } catch (error) {
+      console.error('Error extracting attachment:', record.file_name, error);
+      failed.push(record.file_name);
     }
-  } catch (error) {
-    console.error('Error performing action:', error);
-    return {
-      action: action,
-      response: `❌ Error performing action: ${error.message}`
-    };
   }
-}
\ No newline at end of file
+
+  const proposed_transactions = documents
+    .map((document) => {
+      const proposal = proposeTransaction(document, taxRates);
+      if (!proposal) return null;
+
+      const vendor = vendors.find((v) => proposal.vendor && v.name.toLowerCase() === proposal.vendor.toLowerCase());
+      return { ...proposal, vendor_id: vendor?.id || null, attachment_id: document.attachment_id };
+    })
+    .filter(Boolean);
+
+  return { documents, proposed_transactions, failed };
+}
@@ -0,0 +1,92 @@
+// Conversation memory: turns stored messages into chat history that fits a
+// token budget. Recent turns are kept verbatim; older turns are condensed into
+// a short summary so references like "that transaction" still resolve.
+
+export interface StoredMessage {
+  role: string;
+  content: string;
+  metadata?: Record<string, unknown> | null;
+  created_at: string;
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface HistoryOptions {
+  maxTokens: number;
+  summaryTokens: number;
+}
+
+const SUMMARY_SNIPPET_LENGTH = 160;
+
+// Rough estimate (about four characters per token) that is good enough for budgeting
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / 4);
+}
+
+export function buildConversationHistory(messages: StoredMessage[], options: HistoryOptions): ChatMessage[] {
+  const turns = messages
+    .filter((message) => message.role === 'user' || message.role === 'assistant')
+    .map((message) => ({
+      role: message.role as 'user' | 'assistant',
+      content: withMetadata(message),
+    }));
+
+  // Walk back from the newest turn until the budget is spent
+  const recent: ChatMessage[] = [];
+  let used = 0;
+  let index = turns.length - 1;
+  for (; index >= 0; index--) {
+    const cost = estimateTokens(turns[index].content);
+    if (used + cost > options.maxTokens && recent.length > 0) break;
+    recent.unshift(turns[index]);
+    used += cost;
+  }
+
+  const older = turns.slice(0, index + 1);
+  if (older.length === 0) return recent;
+
+  return [summarize(older, options.summaryTokens), ...recent];
+}
+
+// Condense older turns newest-first so the most relevant context survives the cut
+function summarize(turns: ChatMessage[], maxTokens: number): ChatMessage {
+  const lines: string[] = [];
+  let used = 0;
+  let omitted = 0;
+
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const text = turns[i].content.replace(/\s+/g, ' ').trim();
+    const snippet = text.length > SUMMARY_SNIPPET_LENGTH ? `${text.slice(0, SUMMARY_SNIPPET_LENGTH)}...` : text;
+    const line = `- ${turns[i].role}: ${snippet}`;
+    const cost = estimateTokens(line);
+
+    if (used + cost > maxTokens) {
+      omitted = i + 1;
+      break;
+    }
+    lines.unshift(line);
+    used += cost;
+  }
+
+  const header = omitted > 0
+    ? `Summary of earlier conversation (${omitted} older messages omitted):`
+    : 'Summary of earlier conversation:';
+
+  return { role: 'system', content: [header, ...lines].join('\n') };
+}
+
+// Append what the turn did so ids of created records stay visible to the model
+function withMetadata(message: StoredMessage) {
+  const metadata = message.metadata;
+  if (!metadata || Object.keys(metadata).length === 0) return message.content;
+
+  // Query result tables can be large; the model only needs to know what was shown
+  const { tables, ...details } = metadata;
+  const compact = Array.isArray(tables)
+    ? { ...details, tables_shown: tables.map((table: { title?: string }) => table.title) }
+    : details;
+  return `${message.content}\n[details: ${JSON.stringify(compact)}]`;
+}
@@ -0,0 +1,102 @@
+// Chat model access behind a small interface, so the function can talk to
+// OpenRouter in production and to a scripted mock model in tests.
+
+import { readCompletionStream } from './streaming.ts';
+import type { ToolDefinition } from './tools.ts';
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  // JSON-encoded arguments exactly as the model produced them
+  arguments: string;
+}
+
+export type ChatMessage =
+  | { role: 'system' | 'user'; content: string }
+  | {
+    role: 'assistant';
+    content: string | null;
+    tool_calls?: { id: string; type: 'function'; function: { name: string; arguments: string } }[];
+  }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  tools?: ToolDefinition[];
+  // Receives content fragments as they arrive; without it the reply is fetched in one piece
+  onDelta?: (content: string) => void;
+}
+
+export interface ModelTurn {
+  content: string;
+  toolCalls: ToolCall[];
+}
+
+export interface ModelProvider {
+  complete(request: CompletionRequest): Promise<ModelTurn>;
+}
+
+export function createOpenRouterProvider(apiKey: string, model = 'google/gemma-3-27b-it'): ModelProvider {
+  return {
+    async complete({ messages, tools, onDelta }) {
+      const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+          'HTTP-Referer': 'https://tgshonwmthturuxeceqr.supabase.co',
+          'X-Title': 'AI Accountant',
+        },
+        body: JSON.stringify({
+          model,
+          messages,
+          temperature: 0.7,
+          max_tokens: 1500,
+          stream: !!onDelta,
+          ...(tools?.length ? { tools, tool_choice: 'auto' } : {}),
+        }),
+      });
+
+      if (onDelta) return readCompletionStream(response, onDelta);
+
+      if (!response.ok) {
+        throw new Error(`Model request failed with status ${response.status}`);
+      }
+
+      const data = await response.json();
+      const message = data.choices?.[0]?.message ?? {};
+
+      return {
+        content: message.content || '',
+        toolCalls: (message.tool_calls || []).map((call: { id: string; function: { name: string; arguments?: string } }) => ({
+          id: call.id,
+          name: call.function.name,
+          arguments: call.function.arguments || '{}',
+        })),
+      };
+    },
+  };
+}
+
+// Replays canned turns in order. Pass a function instead to choose each turn
+// from the request, e.g. to answer a validation error with a corrected call.
+export function createMockProvider(
+  script: Partial<ModelTurn>[] | ((request: CompletionRequest) => Partial<ModelTurn> | Promise<Partial<ModelTurn>>)
+): ModelProvider {
+  let next = 0;
+
+  return {
+    async complete(request) {
+      const turn = typeof script === 'function' ? await script(request) : script[next++];
+      if (!turn) throw new Error('Mock model has no scripted turns left');
+
+      const content = turn.content || '';
+      if (content) request.onDelta?.(content);
+
+      return {
+        content,
+        toolCalls: (turn.toolCalls || []).map((call, i) => ({ ...call, id: call.id || `mock_call_${next}_${i}` })),
+      };
+    },
+  };
+}
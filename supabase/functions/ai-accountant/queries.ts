@@ -0,0 +1,211 @@
+// Natural-language ledger queries. The model describes what it wants as a
+// query spec (validated against the QUERY_LEDGER tool schema); this module
+// runs it against the caller's transactions and returns a table for the chat.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { fetchPages } from './paging.ts';
+
+export type GroupBy = 'account' | 'category' | 'customer' | 'vendor' | 'status' | 'month' | 'quarter' | 'year';
+export type Aggregate = 'sum' | 'count' | 'average' | 'min' | 'max';
+
+export interface LedgerQuerySpec {
+  title?: string;
+  start_date?: string;
+  end_date?: string;
+  account_id?: string;
+  category_id?: string;
+  customer_id?: string;
+  vendor_id?: string;
+  status?: 'pending' | 'cleared' | 'reconciled';
+  // expense = money out (shown as positive amounts), income = money in
+  kind?: 'expense' | 'income';
+  group_by?: GroupBy;
+  aggregate?: Aggregate;
+}
+
+export interface QueryColumn {
+  key: string;
+  label: string;
+  type: 'text' | 'currency' | 'number';
+}
+
+export interface QueryTable {
+  title: string;
+  columns: QueryColumn[];
+  rows: Record<string, string | number | null>[];
+  // Set when more transactions matched than were read
+  truncated: boolean;
+}
+
+interface QueryTransaction {
+  amount: number;
+  transaction_date: string;
+  status: string;
+  account_id: string;
+  category_id: string | null;
+  customer_id: string | null;
+  vendor_id: string | null;
+  account: { name: string } | null;
+  categories: { name: string } | null;
+  customers: { name: string } | null;
+  vendors: { name: string } | null;
+}
+
+const MAX_QUERY_ROWS = 5000;
+const MAX_GROUPS = 100;
+
+const GROUP_LABELS: Record<GroupBy, string> = {
+  account: 'Account',
+  category: 'Category',
+  customer: 'Customer',
+  vendor: 'Vendor',
+  status: 'Status',
+  month: 'Month',
+  quarter: 'Quarter',
+  year: 'Year',
+};
+
+const AGGREGATE_LABELS: Record<Aggregate, string> = {
+  sum: 'Total',
+  count: 'Transactions',
+  average: 'Average',
+  min: 'Smallest',
+  max: 'Largest',
+};
+
+const TIME_GROUPS = new Set<GroupBy>(['month', 'quarter', 'year']);
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function groupKey(transaction: QueryTransaction, groupBy: GroupBy) {
+  const date = transaction.transaction_date;
+
+  switch (groupBy) {
+    case 'account':
+      return transaction.account?.name || 'Unknown account';
+    case 'category':
+      return transaction.categories?.name || 'Uncategorized';
+    case 'customer':
+      return transaction.customers?.name || 'No customer';
+    case 'vendor':
+      return transaction.vendors?.name || 'No vendor';
+    case 'status':
+      return transaction.status;
+    case 'month':
+      return date.slice(0, 7);
+    case 'quarter':
+      return `${date.slice(0, 4)}-Q${Math.floor((Number(date.slice(5, 7)) - 1) / 3) + 1}`;
+    case 'year':
+      return date.slice(0, 4);
+  }
+}
+
+function aggregate(values: number[], kind: Aggregate) {
+  if (kind === 'count') return values.length;
+  if (values.length === 0) return null;
+
+  switch (kind) {
+    case 'sum':
+      return round(values.reduce((total, value) => total + value, 0));
+    case 'average':
+      return round(values.reduce((total, value) => total + value, 0) / values.length);
+    case 'min':
+      return round(Math.min(...values));
+    case 'max':
+      return round(Math.max(...values));
+  }
+}
+
+export function describeQuery(spec: LedgerQuerySpec) {
+  const measure = spec.kind === 'expense' ? 'Spending' : spec.kind === 'income' ? 'Income' : 'Net amount';
+  const what = spec.aggregate === 'count' ? 'Transactions' : spec.aggregate && spec.aggregate !== 'sum'
+    ? `${AGGREGATE_LABELS[spec.aggregate]} ${measure.toLowerCase()}`
+    : measure;
+  const by = spec.group_by ? ` by ${spec.group_by}` : '';
+  const range = spec.start_date || spec.end_date
+    ? `, ${spec.start_date || 'beginning'} to ${spec.end_date || 'today'}`
+    : '';
+  return `${what}${by}${range}`;
+}
+
+// Group and aggregate transactions that already match the spec's filters
+export function buildQueryTable(transactions: QueryTransaction[], spec: LedgerQuerySpec, truncated = false): QueryTable {
+  const kind = spec.aggregate || 'sum';
+  // Spending is reported as positive amounts
+  const value = (transaction: QueryTransaction) =>
+    spec.kind === 'expense' ? -Number(transaction.amount) : Number(transaction.amount);
+
+  const valueColumn: QueryColumn = {
+    key: 'value',
+    label: AGGREGATE_LABELS[kind],
+    type: kind === 'count' ? 'number' : 'currency',
+  };
+  const countColumn: QueryColumn = { key: 'count', label: 'Transactions', type: 'number' };
+  const extraColumns = kind === 'count' ? [] : [countColumn];
+
+  if (!spec.group_by) {
+    return {
+      title: spec.title || describeQuery(spec),
+      columns: [valueColumn, ...extraColumns],
+      rows: [{ value: aggregate(transactions.map(value), kind), count: transactions.length }],
+      truncated,
+    };
+  }
+
+  const groupBy = spec.group_by;
+  const groups = new Map<string, number[]>();
+  for (const transaction of transactions) {
+    const key = groupKey(transaction, groupBy);
+    groups.set(key, [...(groups.get(key) || []), value(transaction)]);
+  }
+
+  const rows = [...groups.entries()].map(([group, values]) => ({
+    group,
+    value: aggregate(values, kind),
+    count: values.length,
+  }));
+
+  // Periods read best in date order; everything else largest first
+  rows.sort((a, b) => TIME_GROUPS.has(groupBy)
+    ? a.group.localeCompare(b.group)
+    : (b.value ?? 0) - (a.value ?? 0));
+
+  return {
+    title: spec.title || describeQuery(spec),
+    columns: [{ key: 'group', label: GROUP_LABELS[groupBy], type: 'text' }, valueColumn, ...extraColumns],
+    rows: rows.slice(0, MAX_GROUPS),
+    truncated: truncated || rows.length > MAX_GROUPS,
+  };
+}
+
+// Run a validated spec against the user's transactions, in the base currency
+export async function runLedgerQuery(supabase: SupabaseClient, userId: string, spec: LedgerQuerySpec) {
+  const buildQuery = () => {
+    let query = supabase
+      .from('transactions')
+      .select('amount:base_amount, transaction_date, status, account_id, category_id, customer_id, vendor_id, account:accounts!transactions_account_id_fkey(name), categories(name), customers(name), vendors(name)')
+      .eq('user_id', userId)
+      .order('transaction_date', { ascending: true })
+      .order('id', { ascending: true });
+
+    if (spec.start_date) query = query.gte('transaction_date', spec.start_date);
+    if (spec.end_date) query = query.lte('transaction_date', spec.end_date);
+    // An account matches on either side of the posting (e.g. "paid with the credit card")
+    if (spec.account_id) query = query.or(`account_id.eq.${spec.account_id},payment_account_id.eq.${spec.account_id}`);
+    if (spec.category_id) query = query.eq('category_id', spec.category_id);
+    if (spec.customer_id) query = query.eq('customer_id', spec.customer_id);
+    if (spec.vendor_id) query = query.eq('vendor_id', spec.vendor_id);
+    if (spec.status) query = query.eq('status', spec.status);
+    if (spec.kind === 'expense') query = query.lt('amount', 0);
+    if (spec.kind === 'income') query = query.gt('amount', 0);
+    return query;
+  };
+
+  // One row past the cap tells whether more transactions matched
+  const data = await fetchPages((from, to) => buildQuery().range(from, to), MAX_QUERY_ROWS + 1);
+
+  const transactions = data as unknown as QueryTransaction[];
+  const truncated = transactions.length > MAX_QUERY_ROWS;
+
+  return buildQueryTable(truncated ? transactions.slice(0, MAX_QUERY_ROWS) : transactions, spec, truncated);
+}
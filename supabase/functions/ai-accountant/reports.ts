@@ -0,0 +1,512 @@
+// Financial statements requested from chat (GENERATE_REPORT). Figures come from
+// the same database functions as the Reports tab and are returned as a table
+// shown under the assistant's reply.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { addDays, addMonths, previousPeriod, resolvePeriod } from './analytics.ts';
+import type { QueryColumn, QueryTable } from './queries.ts';
+
+export type ReportInterval = 'total' | 'month' | 'quarter' | 'year';
+
+export interface ReportSpec {
+  report: 'profit_and_loss' | 'balance_sheet' | 'trial_balance' | 'cash_flow' | 'aged_receivables' | 'aged_payables' | 'tax_return';
+  start_date?: string;
+  end_date?: string;
+  interval?: ReportInterval;
+  compare?: 'previous_period' | 'previous_year';
+}
+
+export interface ProfitAndLossRow {
+  account_id: string;
+  account_name: string;
+  account_code: string | null;
+  account_type: string;
+  period_start: string;
+  period_end: string;
+  amount: number;
+}
+
+export interface BalanceSheetRow {
+  account_id: string | null;
+  account_name: string;
+  account_code: string | null;
+  account_type: string;
+  parent_account_id: string | null;
+  balance: number;
+  total_balance: number;
+}
+
+export interface TrialBalanceRow {
+  account_id: string;
+  account_name: string;
+  account_code: string | null;
+  account_type: string;
+  debit: number;
+  credit: number;
+}
+
+export interface CashFlowRow {
+  section: string;
+  account_id: string | null;
+  account_name: string;
+  account_code: string | null;
+  amount: number;
+}
+
+export interface AgingRow {
+  party_id: string;
+  party_name: string;
+  credit_limit: number;
+  document_id: string;
+  document_number: string | null;
+  document_date: string;
+  due_date: string;
+  days_overdue: number;
+  bucket: string;
+  open_amount: number;
+}
+
+export interface TaxReturnRow {
+  period_start: string;
+  period_end: string;
+  tax_rate_id: string | null;
+  tax_name: string;
+  rate: number | null;
+  taxable_sales: number;
+  tax_collected: number;
+  taxable_purchases: number;
+  tax_paid: number;
+  net_tax: number;
+}
+
+interface Period {
+  start: string;
+  end: string;
+}
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const INTERVAL_MONTHS: Record<Exclude<ReportInterval, 'total'>, number> = { month: 1, quarter: 3, year: 12 };
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const endOfMonth = (value: string) => addDays(addMonths(`${value.slice(0, 7)}-01`, 1), -1);
+
+// Column periods, split the way profit_and_loss splits them
+export function splitPeriod(period: Period, interval: ReportInterval): Period[] {
+  if (interval === 'total') return [period];
+
+  const months = INTERVAL_MONTHS[interval];
+  const month = Number(period.start.slice(5, 7));
+  const firstMonth = interval === 'month' ? month : interval === 'quarter' ? Math.floor((month - 1) / 3) * 3 + 1 : 1;
+  const first = `${period.start.slice(0, 4)}-${String(firstMonth).padStart(2, '0')}-01`;
+
+  const periods: Period[] = [];
+  for (let start = first; start <= period.end; start = addMonths(start, months)) {
+    const end = addDays(addMonths(start, months), -1);
+    periods.push({ start: start < period.start ? period.start : start, end: end > period.end ? period.end : end });
+  }
+  return periods;
+}
+
+// Whole-month periods compare against whole months, so Q2 ends on Mar 31 rather than Mar 30
+export function comparisonPeriod(period: Period, compare: NonNullable<ReportSpec['compare']>): Period {
+  const previous = compare === 'previous_year'
+    ? { start: addMonths(period.start, -12), end: addMonths(period.end, -12) }
+    : previousPeriod(period.start, period.end);
+
+  return period.start.endsWith('-01') && period.end === endOfMonth(period.end)
+    ? { ...previous, end: endOfMonth(previous.end) }
+    : previous;
+}
+
+function periodLabel(period: Period, interval: ReportInterval) {
+  const month = Number(period.start.slice(5, 7));
+  const year = period.start.slice(0, 4);
+
+  switch (interval) {
+    case 'month':
+      return `${MONTHS[month - 1]} ${year}`;
+    case 'quarter':
+      return `Q${Math.floor((month - 1) / 3) + 1} ${year}`;
+    case 'year':
+      return year;
+    default:
+      return `${period.start} to ${period.end}`;
+  }
+}
+
+// Lay out profit_and_loss rows as a statement: revenue accounts, expense
+// accounts, their totals and net income, one column per period
+export function buildProfitAndLossTable(
+  rows: ProfitAndLossRow[],
+  period: Period,
+  interval: ReportInterval,
+  comparison?: { rows: ProfitAndLossRow[]; period: Period; label: string },
+): QueryTable {
+  const periods = splitPeriod(period, interval);
+  const showTotal = periods.length > 1;
+
+  const columns: QueryColumn[] = [
+    { key: 'account', label: 'Account', type: 'text' },
+    ...periods.map((p) => ({ key: p.start, label: periodLabel(p, interval), type: 'currency' as const })),
+    ...(showTotal ? [{ key: 'total', label: 'Total', type: 'currency' as const }] : []),
+    ...(comparison
+      ? [
+          { key: 'comparison', label: comparison.label, type: 'currency' as const },
+          { key: 'change', label: 'Change', type: 'currency' as const },
+        ]
+      : []),
+  ];
+
+  type Line = Record<string, number> & { total: number; comparison: number };
+  const emptyLine = (): Line => {
+    const line = { total: 0, comparison: 0 } as Line;
+    for (const p of periods) line[p.start] = 0;
+    return line;
+  };
+
+  const accounts = new Map<string, { name: string; code: string | null; type: string; line: Line }>();
+  const entry = (row: ProfitAndLossRow) => {
+    if (!accounts.has(row.account_id)) {
+      accounts.set(row.account_id, { name: row.account_name, code: row.account_code, type: row.account_type, line: emptyLine() });
+    }
+    return accounts.get(row.account_id)!.line;
+  };
+
+  for (const row of rows) {
+    const line = entry(row);
+    line[row.period_start] = (line[row.period_start] || 0) + Number(row.amount);
+    line.total += Number(row.amount);
+  }
+  for (const row of comparison?.rows || []) entry(row).comparison += Number(row.amount);
+
+  const keys = [...periods.map((p) => p.start), 'total', 'comparison'];
+  const sum = (lines: Line[], sign = 1, base = emptyLine()) => {
+    for (const line of lines) for (const key of keys) base[key] += sign * line[key];
+    return base;
+  };
+  const toRow = (account: string, line: Line) => {
+    const row: QueryTable['rows'][number] = { account };
+    for (const p of periods) row[p.start] = round(line[p.start]);
+    if (showTotal) row.total = round(line.total);
+    if (comparison) {
+      row.comparison = round(line.comparison);
+      row.change = round(line.total - line.comparison);
+    }
+    return row;
+  };
+
+  const sorted = [...accounts.values()].sort((a, b) =>
+    (a.code || '').localeCompare(b.code || '') || a.name.localeCompare(b.name));
+  const section = (type: string) => sorted.filter((account) => account.type === type);
+  const revenue = section('revenue');
+  const expenses = section('expense');
+  const label = (account: { name: string; code: string | null }) => account.code ? `${account.code} ${account.name}` : account.name;
+
+  const revenueTotal = sum(revenue.map((account) => account.line));
+  const expenseTotal = sum(expenses.map((account) => account.line));
+
+  return {
+    title: `Profit & Loss, ${period.start} to ${period.end}${comparison ? ` vs ${comparison.period.start} to ${comparison.period.end}` : ''}`,
+    columns,
+    rows: [
+      ...revenue.map((account) => toRow(label(account), account.line)),
+      toRow('Total revenue', revenueTotal),
+      ...expenses.map((account) => toRow(label(account), account.line)),
+      toRow('Total expenses', expenseTotal),
+      toRow('Net income', sum([expenseTotal], -1, sum([revenueTotal]))),
+    ],
+    truncated: false,
+  };
+}
+
+type NamedAccount = { account_code: string | null; account_name: string };
+
+const byCode = (a: NamedAccount, b: NamedAccount) =>
+  (a.account_code || '').localeCompare(b.account_code || '') || a.account_name.localeCompare(b.account_name);
+
+const accountLabel = (row: NamedAccount) =>
+  row.account_code ? `${row.account_code} ${row.account_name}` : row.account_name;
+
+// Rows in chart order with children under their parent, indented by depth
+function orderTree(rows: BalanceSheetRow[]) {
+  const ids = new Set(rows.map((row) => row.account_id));
+  const ordered: { row: BalanceSheetRow; depth: number }[] = [];
+  const seen = new Set<BalanceSheetRow>();
+  const visit = (row: BalanceSheetRow, depth: number) => {
+    if (seen.has(row)) return;
+    seen.add(row);
+    ordered.push({ row, depth });
+    rows.filter((child) => row.account_id && child.parent_account_id === row.account_id)
+      .sort(byCode)
+      .forEach((child) => visit(child, depth + 1));
+  };
+  rows.filter((row) => !row.parent_account_id || !ids.has(row.parent_account_id)).sort(byCode).forEach((row) => visit(row, 0));
+  [...rows].sort(byCode).forEach((row) => visit(row, 0));
+  return ordered;
+}
+
+// Assets, liabilities and equity with child accounts rolled into their parents.
+// Zero balances are left out to keep the chat table short.
+export function buildBalanceSheetTable(rows: BalanceSheetRow[], asOf: string): QueryTable {
+  const sections = [
+    { type: 'asset', total: 'Total assets' },
+    { type: 'liability', total: 'Total liabilities' },
+    { type: 'equity', total: 'Total equity' },
+  ];
+
+  const totals: Record<string, number> = {};
+  const tableRows: QueryTable['rows'] = [];
+  for (const section of sections) {
+    const accounts = rows.filter((row) => row.account_type === section.type);
+    const ids = new Set(accounts.map((row) => row.account_id));
+    totals[section.type] = accounts
+      .filter((row) => !row.parent_account_id || !ids.has(row.parent_account_id))
+      .reduce((sum, row) => sum + Number(row.total_balance), 0);
+
+    for (const { row, depth } of orderTree(accounts)) {
+      if (Number(row.total_balance) === 0) continue;
+      tableRows.push({ account: `${'\u2003'.repeat(depth)}${accountLabel(row)}`, balance: round(Number(row.total_balance)) });
+    }
+    tableRows.push({ account: section.total, balance: round(totals[section.type]) });
+  }
+  tableRows.push({ account: 'Total liabilities and equity', balance: round(totals.liability + totals.equity) });
+
+  const difference = round(totals.asset - totals.liability - totals.equity);
+  return {
+    title: `Balance Sheet as of ${asOf}${difference !== 0 ? ` (out of balance by ${difference.toFixed(2)})` : ''}`,
+    columns: [
+      { key: 'account', label: 'Account', type: 'text' },
+      { key: 'balance', label: 'Balance', type: 'currency' },
+    ],
+    rows: tableRows,
+    truncated: false,
+  };
+}
+
+export function buildTrialBalanceTable(rows: TrialBalanceRow[], asOf: string): QueryTable {
+  const totalDebit = rows.reduce((sum, row) => sum + Number(row.debit), 0);
+  const totalCredit = rows.reduce((sum, row) => sum + Number(row.credit), 0);
+  const balanced = Math.abs(totalDebit - totalCredit) < 0.005;
+
+  return {
+    title: `Trial Balance as of ${asOf}${balanced ? '' : ' (debits and credits do not match)'}`,
+    columns: [
+      { key: 'account', label: 'Account', type: 'text' },
+      { key: 'debit', label: 'Debit', type: 'currency' },
+      { key: 'credit', label: 'Credit', type: 'currency' },
+    ],
+    rows: [
+      ...[...rows].sort(byCode).map((row) => ({
+        account: accountLabel(row),
+        debit: Number(row.debit) > 0 ? round(Number(row.debit)) : null,
+        credit: Number(row.credit) > 0 ? round(Number(row.credit)) : null,
+      })),
+      { account: 'Total', debit: round(totalDebit), credit: round(totalCredit) },
+    ],
+    truncated: false,
+  };
+}
+
+// Operating, investing and financing sections from cash_flow_statement rows,
+// reconciled to the opening and closing cash balances
+export function buildCashFlowTable(rows: CashFlowRow[], period: Period): QueryTable {
+  const sections = [
+    { key: 'operating', total: 'Net cash from operating activities' },
+    { key: 'investing', total: 'Net cash from investing activities' },
+    { key: 'financing', total: 'Net cash from financing activities' },
+  ];
+  const amountOf = (section: string) =>
+    rows.filter((row) => row.section === section).reduce((sum, row) => sum + Number(row.amount), 0);
+
+  const tableRows: QueryTable['rows'] = [];
+  let netChange = 0;
+  for (const section of sections) {
+    const lines = rows
+      .filter((row) => row.section === section.key)
+      .sort((a, b) => Number(!!a.account_id) - Number(!!b.account_id) || byCode(a, b));
+    for (const row of lines) {
+      tableRows.push({
+        line: row.account_id ? `Change in ${row.account_name}` : row.account_name,
+        amount: round(Number(row.amount)),
+      });
+    }
+    netChange += amountOf(section.key);
+    tableRows.push({ line: section.total, amount: round(amountOf(section.key)) });
+  }
+
+  return {
+    title: `Cash Flow Statement, ${period.start} to ${period.end}`,
+    columns: [
+      { key: 'line', label: 'Line', type: 'text' },
+      { key: 'amount', label: 'Amount', type: 'currency' },
+    ],
+    rows: [
+      ...tableRows,
+      { line: 'Net change in cash', amount: round(netChange) },
+      { line: 'Cash at beginning of period', amount: round(amountOf('beginning_cash')) },
+      { line: 'Cash at end of period', amount: round(amountOf('ending_cash')) },
+    ],
+    truncated: false,
+  };
+}
+
+const AGING_COLUMNS: QueryColumn[] = [
+  { key: 'current', label: 'Current', type: 'currency' },
+  { key: '1_30', label: '1–30', type: 'currency' },
+  { key: '31_60', label: '31–60', type: 'currency' },
+  { key: '61_90', label: '61–90', type: 'currency' },
+  { key: 'over_90', label: '90+', type: 'currency' },
+];
+
+// Customers or vendors by days past due, each followed by the invoices or bills
+// behind their balance. Customers over their credit limit are flagged.
+export function buildAgingTable(rows: AgingRow[], asOf: string, kind: 'receivables' | 'payables'): QueryTable {
+  const parties = new Map<string, AgingRow[]>();
+  for (const row of rows) parties.set(row.party_id, [...(parties.get(row.party_id) || []), row]);
+
+  const emptyBuckets = () => Object.fromEntries(AGING_COLUMNS.map((column) => [column.key, 0])) as Record<string, number>;
+  const totals = emptyBuckets();
+  const summaries = [...parties.values()].map((documents) => {
+    const buckets = emptyBuckets();
+    for (const document of documents) {
+      buckets[document.bucket] += Number(document.open_amount);
+      totals[document.bucket] += Number(document.open_amount);
+    }
+    const total = documents.reduce((sum, document) => sum + Number(document.open_amount), 0);
+    return { documents, buckets, total };
+  }).sort((a, b) => b.total - a.total);
+
+  const amounts = (buckets: Record<string, number>, total: number) => ({
+    ...Object.fromEntries(AGING_COLUMNS.map((column) => [column.key, buckets[column.key] ? round(buckets[column.key]) : null])),
+    total: round(total),
+  });
+
+  const tableRows: QueryTable['rows'] = [];
+  for (const { documents, buckets, total } of summaries) {
+    const { party_name, credit_limit } = documents[0];
+    const overLimit = kind === 'receivables' && Number(credit_limit) > 0 && total > Number(credit_limit);
+    tableRows.push({
+      name: overLimit ? `${party_name} (over credit limit ${round(Number(credit_limit))})` : party_name,
+      ...amounts(buckets, total),
+    });
+    for (const document of [...documents].sort((a, b) => a.due_date.localeCompare(b.due_date))) {
+      tableRows.push({
+        name: `\u2003${document.document_number || 'No number'}, due ${document.due_date}`,
+        ...amounts({ [document.bucket]: Number(document.open_amount) }, Number(document.open_amount)),
+      });
+    }
+  }
+
+  return {
+    title: `${kind === 'receivables' ? 'Aged Receivables' : 'Aged Payables'} as of ${asOf}`,
+    columns: [
+      { key: 'name', label: kind === 'receivables' ? 'Customer' : 'Vendor', type: 'text' },
+      ...AGING_COLUMNS,
+      { key: 'total', label: 'Total', type: 'currency' },
+    ],
+    rows: [...tableRows, { name: 'Total', ...amounts(totals, summaries.reduce((sum, party) => sum + party.total, 0)) }],
+    truncated: false,
+  };
+}
+
+const TAX_RETURN_FIGURES = ['taxable_sales', 'tax_collected', 'taxable_purchases', 'tax_paid', 'net_tax'] as const;
+
+// Tax collected and paid per tax rate, grouped by filing period, ending with
+// the net tax owed (or refundable, when negative) for the whole range
+export function buildTaxReturnTable(rows: TaxReturnRow[], period: Period, interval: ReportInterval): QueryTable {
+  const figures = (group: TaxReturnRow[]) => Object.fromEntries(TAX_RETURN_FIGURES.map((key) => [
+    key,
+    round(group.reduce((sum, row) => sum + Number(row[key]), 0)),
+  ]));
+
+  const tableRows: QueryTable['rows'] = [];
+  for (const taxPeriod of splitPeriod(period, interval)) {
+    const group = rows.filter((row) => row.period_start === taxPeriod.start);
+    if (group.length === 0) continue;
+
+    const label = periodLabel(taxPeriod, interval);
+    for (const row of group) {
+      tableRows.push({
+        tax: `${interval === 'total' ? '' : `${label}: `}${row.tax_name}${row.rate !== null ? ` (${Number(row.rate)}%)` : ''}`,
+        ...figures([row]),
+      });
+    }
+    if (interval !== 'total') tableRows.push({ tax: `Total for ${label}`, ...figures(group) });
+  }
+
+  const net = rows.reduce((sum, row) => sum + Number(row.net_tax), 0);
+  return {
+    title: `Sales Tax Return, ${period.start} to ${period.end}`,
+    columns: [
+      { key: 'tax', label: 'Tax', type: 'text' },
+      { key: 'taxable_sales', label: 'Taxable sales', type: 'currency' },
+      { key: 'tax_collected', label: 'Tax collected', type: 'currency' },
+      { key: 'taxable_purchases', label: 'Taxable purchases', type: 'currency' },
+      { key: 'tax_paid', label: 'Tax paid', type: 'currency' },
+      { key: 'net_tax', label: 'Net tax', type: 'currency' },
+    ],
+    rows: [...tableRows, { tax: net >= 0 ? 'Net tax owed' : 'Net tax refundable', ...figures(rows) }],
+    truncated: false,
+  };
+}
+
+async function loadProfitAndLoss(db: SupabaseClient, period: Period, interval: ReportInterval) {
+  const { data, error } = await db.rpc('profit_and_loss', {
+    p_start_date: period.start,
+    p_end_date: period.end,
+    p_interval: interval,
+  });
+  if (error) throw error;
+  return (data || []) as ProfitAndLossRow[];
+}
+
+// Run a validated GENERATE_REPORT call. Dates default to the current month to date;
+// the balance sheet, trial balance and aging reports are as of the end date.
+export async function generateReport(db: SupabaseClient, spec: ReportSpec): Promise<QueryTable> {
+  const { start, end } = resolvePeriod(spec);
+  const period = { start, end };
+  const interval = spec.interval || 'total';
+
+  switch (spec.report) {
+    case 'profit_and_loss': {
+      const rows = await loadProfitAndLoss(db, period, interval);
+      if (!spec.compare) return buildProfitAndLossTable(rows, period, interval);
+
+      const previous = comparisonPeriod(period, spec.compare);
+      return buildProfitAndLossTable(rows, period, interval, {
+        rows: await loadProfitAndLoss(db, previous, 'total'),
+        period: previous,
+        label: spec.compare === 'previous_year' ? 'Prior year' : 'Prior period',
+      });
+    }
+    case 'cash_flow': {
+      const { data, error } = await db.rpc('cash_flow_statement', { p_start_date: start, p_end_date: end });
+      if (error) throw error;
+      return buildCashFlowTable((data || []) as CashFlowRow[], period);
+    }
+    case 'balance_sheet': {
+      const { data, error } = await db.rpc('balance_sheet', { p_as_of: end });
+      if (error) throw error;
+      return buildBalanceSheetTable((data || []) as BalanceSheetRow[], end);
+    }
+    case 'trial_balance': {
+      const { data, error } = await db.rpc('trial_balance', { p_as_of: end });
+      if (error) throw error;
+      return buildTrialBalanceTable((data || []) as TrialBalanceRow[], end);
+    }
+    case 'aged_receivables':
+    case 'aged_payables': {
+      const { data, error } = await db.rpc(spec.report, { p_as_of: end });
+      if (error) throw error;
+      return buildAgingTable((data || []) as AgingRow[], end, spec.report === 'aged_receivables' ? 'receivables' : 'payables');
+    }
+    case 'tax_return': {
+      const { data, error } = await db.rpc('tax_return', { p_start_date: start, p_end_date: end, p_interval: interval });
+      if (error) throw error;
+      return buildTaxReturnTable((data || []) as TaxReturnRow[], period, interval);
+    }
+    default:
+      throw new Error(`Unknown report ${spec.report}`);
+  }
+}
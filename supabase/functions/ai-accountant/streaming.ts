@@ -0,0 +1,97 @@
+// Server-sent events: reading OpenRouter's token stream and writing our own
+// event stream back to the browser.
+
+import type { ModelTurn, ToolCall } from './provider.ts';
+
+export type SendEvent = (event: string, data: unknown) => void;
+
+// Wrap a producer in a text/event-stream Response. Errors are reported as an
+// `error` event because the status code has already been sent.
+export function createEventStream(
+  headers: Record<string, string>,
+  produce: (send: SendEvent) => Promise<void>
+) {
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: SendEvent = (event, data) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      try {
+        await produce(send);
+      } catch (error) {
+        console.error('Error while streaming response:', error);
+        send('error', { message: error instanceof Error ? error.message : String(error) });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      ...headers,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
+
+// Read an OpenAI-compatible streaming completion, calling onDelta for each
+// content fragment. Resolves with the full text and any tool calls, whose
+// arguments arrive in pieces, once the stream ends.
+export async function readCompletionStream(
+  response: Response,
+  onDelta: (content: string) => void
+): Promise<ModelTurn> {
+  if (!response.ok || !response.body) {
+    throw new Error(`Model request failed with status ${response.status}`);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let fullText = '';
+  const toolCalls: ToolCall[] = [];
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += value;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      // Skip blank lines and keep-alive comments (": OPENROUTER PROCESSING")
+      if (!line.startsWith('data: ')) continue;
+
+      const payload = line.slice('data: '.length).trim();
+      if (payload === '[DONE]') return { content: fullText, toolCalls: toolCalls.filter(Boolean) };
+
+      try {
+        const chunk = JSON.parse(payload);
+        const delta = chunk.choices?.[0]?.delta;
+        const content: string | undefined = delta?.content;
+        if (content) {
+          fullText += content;
+          onDelta(content);
+        }
+
+        for (const part of delta?.tool_calls ?? []) {
+          const index: number = part.index ?? toolCalls.length;
+          const call = toolCalls[index] ??= { id: `call_${index}`, name: '', arguments: '' };
+          if (part.id) call.id = part.id;
+          if (part.function?.name) call.name = part.function.name;
+          if (part.function?.arguments) call.arguments += part.function.arguments;
+        }
+      } catch {
+        // Ignore malformed chunks rather than aborting the whole stream
+      }
+    }
+  }
+
+  return { content: fullText, toolCalls: toolCalls.filter(Boolean) };
+}
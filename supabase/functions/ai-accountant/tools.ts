@@ -0,0 +1,535 @@
+// Ledger actions exposed to the model as function tools. Tool arguments are
+// validated against these schemas before anything reaches the database, and
+// the problems found are sent back to the model so it can correct the call.
+
+import type { ToolCall } from './provider.ts';
+import type { ReportSpec } from './reports.ts';
+
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minItems?: number;
+  enum?: string[];
+  format?: 'uuid' | 'date';
+  minimum?: number;
+}
+
+export interface ToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: JsonSchema;
+  };
+}
+
+// One validated tool call: a ledger change as executed by execute_ledger_actions,
+// or a read-only query answered before the model replies
+export interface LedgerAction {
+  ref?: string;
+  action: string;
+  data: Record<string, unknown>;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// Same placeholder syntax resolve_action_refs understands: "$acme" or "$acme.id"
+const REF_PATTERN = /^\$([A-Za-z0-9_-]+)(?:\.id)?$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const CURRENCY_PATTERN = /^[A-Za-z]{3}$/;
+
+const id = (description: string): JsonSchema => ({ type: 'string', format: 'uuid', description });
+const date = (description: string): JsonSchema => ({ type: 'string', format: 'date', description });
+const text = (description: string): JsonSchema => ({ type: 'string', description });
+const exchangeRate: JsonSchema = {
+  type: 'number',
+  description: 'Units of the base currency per 1 unit of the currency, only when the user states the rate. Defaults to the stored rate for the date',
+};
+const lineTaxRate = id('Tax rate or group from the tax rates list charged on the line; its tax is worked out from amount, so tax_amount is then ignored');
+
+const ACTION_TOOLS: Record<string, { description: string; properties: Record<string, JsonSchema>; required: string[] }> = {
+  CREATE_TRANSACTION: {
+    description: 'Record a new income or expense transaction.',
+    properties: {
+      amount: { type: 'number', description: 'Negative for expenses (money out), positive for income (money in)' },
+      description: text('What the transaction was for'),
+      account_id: id('Expense account for expenses, revenue account for income'),
+      payment_account_id: id('Asset or liability account the money moved through (Cash, Bank Account, a credit card). Defaults to Cash'),
+      category_id: id('Category for reporting'),
+      customer_id: id('Customer, for sales or customer payments'),
+      vendor_id: id('Vendor, for purchases or vendor payments'),
+      transaction_date: date('Date of the transaction (YYYY-MM-DD). Defaults to today'),
+      currency: text('Three-letter currency code when the amount is not in the base currency, e.g. EUR. Defaults to the payment account\'s currency'),
+      exchange_rate: exchangeRate,
+      tax_rate_id: id('Tax rate or group included in the amount, e.g. the sales tax on a receipt. The amount stays the total paid; the tax is split out of it'),
+      notes: text('Optional notes'),
+      attachment_ids: { type: 'array', items: id('Uploaded document id'), description: 'Ids of the uploaded documents the transaction came from' },
+    },
+    required: ['amount', 'description', 'account_id'],
+  },
+  UPDATE_TRANSACTION: {
+    description: 'Change an existing transaction. Only the fields given are updated.',
+    properties: {
+      id: id('Id of the transaction to change'),
+      amount: { type: 'number', description: 'Negative for expenses, positive for income' },
+      description: text('What the transaction was for'),
+      account_id: id('Expense or revenue account'),
+      payment_account_id: id('Asset or liability account the money moved through'),
+      category_id: id('Category for reporting'),
+      customer_id: id('Customer'),
+      vendor_id: id('Vendor'),
+      transaction_date: date('Date of the transaction (YYYY-MM-DD)'),
+      tax_rate_id: id('Tax rate or group included in the amount'),
+      notes: text('Notes'),
+    },
+    required: ['id'],
+  },
+  CATEGORIZE_TRANSACTIONS: {
+    description: 'Apply the user\'s categorization rules to existing transactions, e.g. "help me categorize my transactions". ' +
+      'The changes the rules would make are shown to the user as a preview to approve.',
+    properties: {
+      start_date: date('Only transactions on or after this date (YYYY-MM-DD)'),
+      end_date: date('Only transactions on or before this date (YYYY-MM-DD)'),
+      include_categorized: { type: 'boolean', description: 'Also re-check transactions that already have a category. Defaults to false' },
+    },
+    required: [],
+  },
+  CREATE_JOURNAL_ENTRY: {
+    description: 'Post a multi-line journal entry (splits, accruals, depreciation). Total debits must equal total credits.',
+    properties: {
+      description: text('What the entry records'),
+      entry_date: date('Date of the entry (YYYY-MM-DD). Defaults to today'),
+      reference_number: text('Optional reference, e.g. an invoice number'),
+      lines: {
+        type: 'array',
+        minItems: 2,
+        description: 'Entry lines; each line has either a debit or a credit',
+        items: {
+          type: 'object',
+          properties: {
+            account_id: id('Account the line posts to'),
+            debit: { type: 'number', minimum: 0, description: 'Debit amount, or 0' },
+            credit: { type: 'number', minimum: 0, description: 'Credit amount, or 0' },
+            description: text('Optional line description'),
+          },
+          required: ['account_id'],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ['description', 'lines'],
+  },
+  CREATE_BILL: {
+    description: 'Enter a vendor bill to pay later (accounts payable), e.g. from an uploaded vendor invoice. ' +
+      'Posts each line to its expense account against Accounts Payable.',
+    properties: {
+      vendor_id: id('Vendor the bill is from'),
+      bill_number: text('The vendor\'s invoice number'),
+      bill_date: date('Date on the bill (YYYY-MM-DD). Defaults to today'),
+      due_date: date('When the bill is due (YYYY-MM-DD). Defaults to the bill date plus the vendor\'s payment terms'),
+      lines: {
+        type: 'array',
+        minItems: 1,
+        description: 'Line items, each coded to an expense account',
+        items: {
+          type: 'object',
+          properties: {
+            description: text('What the line is for'),
+            amount: { type: 'number', minimum: 0, description: 'Line amount, before tax unless tax_inclusive is true' },
+            tax_amount: { type: 'number', minimum: 0, description: 'Tax charged on the line, or 0' },
+            tax_rate_id: lineTaxRate,
+            account_id: id('Expense account the line is coded to'),
+          },
+          required: ['description', 'amount', 'account_id'],
+          additionalProperties: false,
+        },
+      },
+      scheduled_payment_date: date('When to pay the bill (YYYY-MM-DD), if the user wants the payment scheduled'),
+      payment_account_id: id('Asset or liability account the bill will be paid from. Defaults to Cash'),
+      currency: text('Three-letter currency code the bill is in when it is not the base currency, e.g. EUR'),
+      exchange_rate: exchangeRate,
+      tax_inclusive: { type: 'boolean', description: 'True when line amounts already include the tax of their tax_rate_id. Defaults to false' },
+      notes: text('Optional notes'),
+      attachment_ids: { type: 'array', items: id('Uploaded document id'), description: 'Ids of the uploaded documents the bill came from' },
+    },
+    required: ['vendor_id', 'lines'],
+  },
+  SCHEDULE_BILL_PAYMENT: {
+    description: 'Schedule (or reschedule) the payment of an unpaid bill.',
+    properties: {
+      bill_id: id('Id of the bill to pay'),
+      scheduled_payment_date: date('When to pay it (YYYY-MM-DD)'),
+      payment_account_id: id('Asset or liability account to pay from'),
+    },
+    required: ['bill_id', 'scheduled_payment_date'],
+  },
+  CREATE_RECURRING_SCHEDULE: {
+    description: 'Set up a transaction or bill that repeats, e.g. "record $1,200 rent on the 1st every month". ' +
+      'Each run is recorded automatically on its date, with the same fields as CREATE_TRANSACTION (kind transaction) ' +
+      'or CREATE_BILL (kind bill).',
+    properties: {
+      name: text('Short name for the schedule, e.g. "Office rent"'),
+      kind: { type: 'string', enum: ['transaction', 'bill'], description: 'transaction = paid on the day; bill = entered as a bill to pay later' },
+      frequency: { type: 'string', enum: ['daily', 'weekly', 'monthly', 'yearly'], description: 'How often it repeats' },
+      interval_count: { type: 'integer', minimum: 1, description: 'Repeat every N days, weeks, months or years. Defaults to 1' },
+      start_date: date('Date of the first run (YYYY-MM-DD); later runs keep its day of the month, e.g. the next 1st for "on the 1st"'),
+      end_date: date('No runs after this date (YYYY-MM-DD). Omit to repeat until stopped'),
+      max_occurrences: { type: 'integer', minimum: 1, description: 'Stop after this many runs' },
+      amount: { type: 'number', description: 'Transactions: negative for expenses (money out), positive for income (money in)' },
+      description: text('Transactions: what each transaction is for'),
+      account_id: id('Transactions: expense account for expenses, revenue account for income'),
+      payment_account_id: id('Account the money moves through, or bills are paid from. Defaults to Cash'),
+      category_id: id('Transactions: category for reporting'),
+      customer_id: id('Transactions: customer, for recurring income'),
+      tax_rate_id: id('Transactions: tax rate or group included in the amount'),
+      vendor_id: id('Vendor; required for bills'),
+      notes: text('Optional notes'),
+      lines: {
+        type: 'array',
+        minItems: 1,
+        description: 'Bills: line items, each coded to an expense account',
+        items: {
+          type: 'object',
+          properties: {
+            description: text('What the line is for'),
+            amount: { type: 'number', minimum: 0, description: 'Line amount before tax' },
+            tax_amount: { type: 'number', minimum: 0, description: 'Tax charged on the line, or 0' },
+            tax_rate_id: lineTaxRate,
+            account_id: id('Expense account the line is coded to'),
+          },
+          required: ['description', 'amount', 'account_id'],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ['name', 'kind', 'frequency', 'start_date'],
+  },
+  CREATE_BUDGET: {
+    description: 'Set up a spending budget.',
+    properties: {
+      name: text('Budget name'),
+      amount: { type: 'number', minimum: 0, description: 'Budget limit' },
+      budget_type: { type: 'string', enum: ['monthly', 'quarterly', 'yearly'], description: 'Budget period' },
+      category_id: id('Category the budget tracks'),
+      account_id: id('Account the budget tracks'),
+      start_date: date('First day of the budget (YYYY-MM-DD)'),
+      end_date: date('Last day of the budget (YYYY-MM-DD)'),
+    },
+    required: ['name', 'amount', 'budget_type', 'start_date', 'end_date'],
+  },
+  CREATE_CATEGORY: {
+    description: 'Add a transaction category.',
+    properties: {
+      name: text('Category name'),
+      description: text('Optional description'),
+      color: text('Hex color, e.g. #6366f1'),
+    },
+    required: ['name'],
+  },
+  CREATE_ACCOUNT: {
+    description: 'Add an account to the chart of accounts.',
+    properties: {
+      name: text('Account name'),
+      account_type: { type: 'string', enum: ['asset', 'liability', 'equity', 'revenue', 'expense'], description: 'Account type' },
+      code: text('Optional account code, e.g. 6100'),
+      parent_account_id: id('Optional parent account'),
+      currency: text('Three-letter currency code for a bank, card or loan account held in a foreign currency, e.g. EUR'),
+    },
+    required: ['name', 'account_type'],
+  },
+  CREATE_CUSTOMER: {
+    description: 'Add a customer or client.',
+    properties: {
+      name: text('Customer name'),
+      email: text('Email address'),
+      phone: text('Phone number'),
+      company_name: text('Company name'),
+      customer_type: { type: 'string', enum: ['customer', 'client'], description: 'Defaults to customer' },
+    },
+    required: ['name'],
+  },
+  CREATE_VENDOR: {
+    description: 'Add a vendor or supplier.',
+    properties: {
+      name: text('Vendor name'),
+      email: text('Email address'),
+      phone: text('Phone number'),
+      company_name: text('Company name'),
+      vendor_type: { type: 'string', enum: ['vendor', 'supplier'], description: 'Defaults to vendor' },
+    },
+    required: ['name'],
+  },
+};
+
+const REF_PROPERTY: JsonSchema = {
+  type: 'string',
+  description: 'Optional name for the record this call creates. Later calls in the same reply can use "$<ref>.id" wherever its id is needed',
+};
+
+export const LEDGER_TOOLS: ToolDefinition[] = Object.entries(ACTION_TOOLS).map(([name, tool]) => ({
+  type: 'function',
+  function: {
+    name,
+    description: tool.description,
+    parameters: {
+      type: 'object',
+      properties: { ref: REF_PROPERTY, ...tool.properties },
+      required: tool.required,
+      additionalProperties: false,
+    },
+  },
+}));
+
+// Read-only tools. Their results are sent back to the model, which then answers from them.
+export const QUERY_TOOLS: ToolDefinition[] = [
+  {
+    type: 'function',
+    function: {
+      name: 'ANALYZE_SPENDING',
+      description: 'Compute spending and income figures from the ledger: totals, spend by category and vendor, income by customer, ' +
+        'change against the previous period, a month-over-month trend and the biggest movers. Call this for any question about spending.',
+      parameters: {
+        type: 'object',
+        properties: {
+          start_date: date('First day of the period (YYYY-MM-DD). Defaults to the first of the current month'),
+          end_date: date('Last day of the period (YYYY-MM-DD). Defaults to today'),
+          category_id: id('Only include this category'),
+          vendor_id: id('Only include this vendor'),
+          customer_id: id('Only include this customer'),
+          months: { type: 'integer', minimum: 1, description: 'Months in the month-over-month trend. Defaults to 6' },
+        },
+        additionalProperties: false,
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'QUERY_LEDGER',
+      description: 'Look up transaction history, e.g. "how much did I spend on travel in Q2?" or "income by customer this year". ' +
+        'Filters, groups and aggregates the ledger and shows the result to the user as a table.',
+      parameters: {
+        type: 'object',
+        properties: {
+          title: text('Short heading for the result table'),
+          start_date: date('First day to include (YYYY-MM-DD)'),
+          end_date: date('Last day to include (YYYY-MM-DD)'),
+          account_id: id('Only transactions posted to this account, on either side'),
+          category_id: id('Only this category'),
+          customer_id: id('Only this customer'),
+          vendor_id: id('Only this vendor'),
+          status: { type: 'string', enum: ['pending', 'cleared', 'reconciled'], description: 'Only this status' },
+          kind: {
+            type: 'string',
+            enum: ['expense', 'income'],
+            description: 'expense = money out, reported as positive amounts; income = money in. Omit for the net of both',
+          },
+          group_by: {
+            type: 'string',
+            enum: ['account', 'category', 'customer', 'vendor', 'status', 'month', 'quarter', 'year'],
+            description: 'Split the result into one row per group. Omit for a single total',
+          },
+          aggregate: {
+            type: 'string',
+            enum: ['sum', 'count', 'average', 'min', 'max'],
+            description: 'How to combine amounts. Defaults to sum',
+          },
+        },
+        additionalProperties: false,
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'GENERATE_REPORT',
+      description: 'Produce a financial statement, aging report or sales tax return, e.g. "Generate P&L report for Q3" or "Who owes me money?". ' +
+        'The statement is shown to the user as a table.',
+      parameters: {
+        type: 'object',
+        properties: {
+          report: {
+            type: 'string',
+            enum: ['profit_and_loss', 'balance_sheet', 'trial_balance', 'cash_flow', 'aged_receivables', 'aged_payables', 'tax_return'],
+            description: 'profit_and_loss = income statement for a period; cash_flow = statement of cash flows for a period; ' +
+              'balance_sheet and trial_balance = balances as of end_date; ' +
+              'aged_receivables = unpaid customer invoices by days past due as of end_date; ' +
+              'aged_payables = unpaid vendor bills by days past due as of end_date; ' +
+              'tax_return = sales tax collected vs paid per tax rate for a period (use interval for monthly or quarterly filings)',
+          },
+          start_date: date('First day of the report period (YYYY-MM-DD). Defaults to the first of the current month'),
+          end_date: date('Last day of the report period, or the as-of date for balance_sheet, trial_balance and the aging reports (YYYY-MM-DD). Defaults to today'),
+          interval: {
+            type: 'string',
+            enum: ['total', 'month', 'quarter', 'year'],
+            description: 'Split the period into monthly, quarterly or yearly columns. Defaults to total',
+          },
+          compare: {
+            type: 'string',
+            enum: ['previous_period', 'previous_year'],
+            description: 'Add a comparison column for the previous period or the same period last year',
+          },
+        },
+        required: ['report'],
+        additionalProperties: false,
+      },
+    },
+  },
+];
+
+export const MODEL_TOOLS = [...LEDGER_TOOLS, ...QUERY_TOOLS];
+
+const QUERY_TOOL_NAMES = new Set(QUERY_TOOLS.map((tool) => tool.function.name));
+
+export const isQueryTool = (name: string) => QUERY_TOOL_NAMES.has(name);
+
+const SCHEMAS = new Map(MODEL_TOOLS.map((tool) => [tool.function.name, tool.function.parameters]));
+
+// GENERATE_REPORT's arguments, checked against the tool's schema
+export function isReportSpec(data: unknown): data is ReportSpec {
+  return validateValue(SCHEMAS.get('GENERATE_REPORT')!, data, '', new Set()).length === 0;
+}
+
+const fieldPath = (path: string, key: string) => (path ? `${path}.${key}` : key);
+
+// Check a value against a schema. `refs` holds the refs defined by earlier calls,
+// which uuid fields may point at instead of a literal id.
+export function validateValue(schema: JsonSchema, value: unknown, path: string, refs: Set<string>): string[] {
+  const label = path || 'arguments';
+
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return [`${label} must be an object`];
+
+      const record = value as Record<string, unknown>;
+      const required = schema.required || [];
+      const errors = required
+        .filter((key) => record[key] === undefined || record[key] === null)
+        .map((key) => `${fieldPath(path, key)} is required`);
+
+      for (const [key, field] of Object.entries(record)) {
+        const property = schema.properties?.[key];
+        if (!property) {
+          if (schema.additionalProperties === false) errors.push(`${fieldPath(path, key)} is not a known field`);
+          continue;
+        }
+        // Optional fields may be sent as null
+        if (field === null || field === undefined) continue;
+        errors.push(...validateValue(property, field, fieldPath(path, key), refs));
+      }
+      return errors;
+    }
+
+    case 'array': {
+      if (!Array.isArray(value)) return [`${label} must be an array`];
+      const errors = schema.minItems && value.length < schema.minItems
+        ? [`${label} needs at least ${schema.minItems} items`]
+        : [];
+      value.forEach((item, i) => {
+        if (schema.items) errors.push(...validateValue(schema.items, item, `${label}[${i}]`, refs));
+      });
+      return errors;
+    }
+
+    case 'number':
+    case 'integer': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) return [`${label} must be a number`];
+      if (schema.type === 'integer' && !Number.isInteger(value)) return [`${label} must be a whole number`];
+      if (schema.minimum !== undefined && value < schema.minimum) return [`${label} must be at least ${schema.minimum}`];
+      return [];
+    }
+
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${label} must be true or false`];
+
+    case 'string': {
+      if (typeof value !== 'string') return [`${label} must be a string`];
+      if (schema.enum && !schema.enum.includes(value)) return [`${label} must be one of: ${schema.enum.join(', ')}`];
+
+      if (schema.format === 'uuid' && !UUID_PATTERN.test(value)) {
+        const ref = value.match(REF_PATTERN)?.[1];
+        if (!ref) return [`${label} must be an id from the lists provided or a "$<ref>.id" reference`];
+        if (!refs.has(ref)) return [`${label} refers to "${value}" but no earlier call in this reply has ref "${ref}"`];
+      }
+
+      if (schema.format === 'date' && (!DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value)))) {
+        return [`${label} must be a date formatted YYYY-MM-DD`];
+      }
+      return [];
+    }
+  }
+}
+
+// Checks a schema cannot express
+function validateAction(action: string, data: Record<string, unknown>): string[] {
+  if (typeof data.start_date === 'string' && typeof data.end_date === 'string' && data.start_date > data.end_date) {
+    return ['start_date must not be after end_date'];
+  }
+  if (typeof data.bill_date === 'string' && typeof data.due_date === 'string' && data.bill_date > data.due_date) {
+    return ['due_date must not be before bill_date'];
+  }
+  if (typeof data.currency === 'string' && !CURRENCY_PATTERN.test(data.currency)) {
+    return ['currency must be a three-letter currency code, e.g. EUR'];
+  }
+  if (data.exchange_rate !== undefined && !(Number(data.exchange_rate) > 0)) {
+    return ['exchange_rate must be greater than 0'];
+  }
+  if (action === 'CREATE_RECURRING_SCHEDULE') {
+    const needed = data.kind === 'bill' ? ['vendor_id', 'lines'] : ['amount', 'description', 'account_id'];
+    return needed.filter((key) => data[key] === undefined || data[key] === null).map((key) => `${key} is required for a recurring ${data.kind}`);
+  }
+  if (action !== 'CREATE_JOURNAL_ENTRY' || !Array.isArray(data.lines)) return [];
+
+  const errors: string[] = [];
+  let debits = 0;
+  let credits = 0;
+
+  (data.lines as { debit?: number; credit?: number }[]).forEach((line, i) => {
+    const debit = Number(line.debit) || 0;
+    const credit = Number(line.credit) || 0;
+    if ((debit > 0) === (credit > 0)) errors.push(`lines[${i}] must have either a debit or a credit`);
+    debits += debit;
+    credits += credit;
+  });
+
+  if (Math.abs(debits - credits) > 0.005) {
+    errors.push(`lines are unbalanced: debits ${debits.toFixed(2)} do not equal credits ${credits.toFixed(2)}`);
+  }
+  return errors;
+}
+
+// Validate a reply's tool calls in order. `errors[i]` lists the problems with
+// `toolCalls[i]`; actions are only returned, one per call, when every call is valid.
+export function validateToolCalls(toolCalls: ToolCall[]) {
+  const refs = new Set<string>();
+  const actions: LedgerAction[] = [];
+
+  const errors = toolCalls.map((call) => {
+    const schema = SCHEMAS.get(call.name);
+    if (!schema) return [`Unknown tool "${call.name}"`];
+
+    let args: Record<string, unknown>;
+    try {
+      args = JSON.parse(call.arguments || '{}');
+    } catch {
+      return ['arguments are not valid JSON'];
+    }
+
+    const problems = validateValue(schema, args, '', refs);
+    if (problems.length === 0) problems.push(...validateAction(call.name, args));
+
+    const { ref, ...data } = args ?? {};
+    if (typeof ref === 'string' && refs.has(ref)) problems.push(`ref "${ref}" is already used by an earlier call`);
+    if (problems.length > 0) return problems;
+
+    if (typeof ref === 'string' && ref) refs.add(ref);
+    actions.push({ ...(typeof ref === 'string' && ref ? { ref } : {}), action: call.name, data });
+    return [];
+  });
+
+  const valid = errors.every((problems) => problems.length === 0);
+  return { actions: valid ? actions : [], errors, valid };
+}
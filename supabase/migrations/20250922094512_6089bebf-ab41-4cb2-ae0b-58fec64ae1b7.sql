@@ -0,0 +1,263 @@
+-- Double-entry journal behind the transactions table.
+-- Every transaction now posts a balanced journal entry: one side is the
+-- transaction's account (expense, revenue, ...) and the other side is the
+-- payment account the money moved through (cash, bank, card, ...).
+
+-- Account the money was paid from / received into
+ALTER TABLE public.transactions
+ADD COLUMN payment_account_id UUID REFERENCES public.accounts(id) ON DELETE RESTRICT;
+
+-- Create journal entries table
+CREATE TABLE public.journal_entries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  entry_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  description TEXT NOT NULL,
+  reference_number TEXT,
+  source_type TEXT NOT NULL DEFAULT 'manual' CHECK (source_type IN ('manual', 'transaction')),
+  source_id UUID,
+  conversation_id UUID REFERENCES public.conversations(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(source_type, source_id)
+);
+
+-- Create journal lines table (one row per debit or credit)
+CREATE TABLE public.journal_lines (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  journal_entry_id UUID NOT NULL REFERENCES public.journal_entries(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  account_id UUID NOT NULL REFERENCES public.accounts(id) ON DELETE RESTRICT,
+  debit DECIMAL(15,2) NOT NULL DEFAULT 0,
+  credit DECIMAL(15,2) NOT NULL DEFAULT 0,
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (debit >= 0 AND credit >= 0),
+  CHECK ((debit = 0) <> (credit = 0))
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.journal_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.journal_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own journal entries" ON public.journal_entries
+  FOR ALL USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own journal lines" ON public.journal_lines
+  FOR ALL USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_journal_entries_updated_at
+  BEFORE UPDATE ON public.journal_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Debits must equal credits for every entry. Deferred so that all lines of
+-- an entry can be written before the check runs at commit.
+CREATE OR REPLACE FUNCTION public.check_journal_entry_balanced()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_entry_id UUID := COALESCE(NEW.journal_entry_id, OLD.journal_entry_id);
+  v_debits NUMERIC;
+  v_credits NUMERIC;
+BEGIN
+  SELECT COALESCE(SUM(debit), 0), COALESCE(SUM(credit), 0)
+  INTO v_debits, v_credits
+  FROM public.journal_lines
+  WHERE journal_entry_id = v_entry_id;
+
+  IF v_debits <> v_credits THEN
+    RAISE EXCEPTION 'Journal entry % is not balanced: debits % <> credits %', v_entry_id, v_debits, v_credits;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE CONSTRAINT TRIGGER check_journal_entry_balanced
+  AFTER INSERT OR UPDATE OR DELETE ON public.journal_lines
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_journal_entry_balanced();
+
+-- Default the payment account to the user's Cash account
+CREATE OR REPLACE FUNCTION public.set_transaction_payment_account()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.payment_account_id IS NULL THEN
+    SELECT id INTO NEW.payment_account_id
+    FROM public.accounts
+    WHERE user_id = NEW.user_id
+    AND account_type = 'asset'
+    ORDER BY (code = '1000') DESC NULLS LAST, code NULLS LAST, created_at
+    LIMIT 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_transaction_payment_account
+  BEFORE INSERT OR UPDATE ON public.transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_transaction_payment_account();
+
+-- (Re)build the journal entry for a transaction.
+-- Negative amounts (money out):  Dr account_id, Cr payment_account_id
+-- Positive amounts (money in):   Dr payment_account_id, Cr account_id
+CREATE OR REPLACE FUNCTION public.post_transaction_journal(p_transaction public.transactions)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry_id UUID;
+  v_amount NUMERIC := ABS(p_transaction.amount);
+  v_debit_account UUID;
+  v_credit_account UUID;
+BEGIN
+  IF p_transaction.amount < 0 THEN
+    v_debit_account := p_transaction.account_id;
+    v_credit_account := p_transaction.payment_account_id;
+  ELSE
+    v_debit_account := p_transaction.payment_account_id;
+    v_credit_account := p_transaction.account_id;
+  END IF;
+
+  INSERT INTO public.journal_entries (
+    user_id, entry_date, description, reference_number, source_type, source_id, conversation_id
+  ) VALUES (
+    p_transaction.user_id,
+    p_transaction.transaction_date,
+    p_transaction.description,
+    p_transaction.reference_number,
+    'transaction',
+    p_transaction.id,
+    p_transaction.conversation_id
+  )
+  ON CONFLICT (source_type, source_id) DO UPDATE SET
+    entry_date = EXCLUDED.entry_date,
+    description = EXCLUDED.description,
+    reference_number = EXCLUDED.reference_number,
+    conversation_id = EXCLUDED.conversation_id
+  RETURNING id INTO v_entry_id;
+
+  DELETE FROM public.journal_lines WHERE journal_entry_id = v_entry_id;
+
+  IF v_amount = 0 OR v_debit_account IS NULL OR v_credit_account IS NULL THEN
+    RETURN v_entry_id;
+  END IF;
+
+  INSERT INTO public.journal_lines (journal_entry_id, user_id, account_id, debit, credit, description) VALUES
+    (v_entry_id, p_transaction.user_id, v_debit_account, v_amount, 0, p_transaction.description),
+    (v_entry_id, p_transaction.user_id, v_credit_account, 0, v_amount, p_transaction.description);
+
+  RETURN v_entry_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_transaction_journal()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM public.journal_entries
+    WHERE source_type = 'transaction' AND source_id = OLD.id;
+    RETURN OLD;
+  END IF;
+
+  PERFORM public.post_transaction_journal(NEW);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_transaction_journal
+  AFTER INSERT OR UPDATE OR DELETE ON public.transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_transaction_journal();
+
+-- Post a multi-line journal entry in one statement.
+-- p_lines: [{ "account_id": uuid, "debit": number, "credit": number, "description": text }]
+CREATE OR REPLACE FUNCTION public.create_journal_entry(
+  p_user_id UUID,
+  p_entry_date DATE,
+  p_description TEXT,
+  p_lines JSONB,
+  p_reference_number TEXT DEFAULT NULL,
+  p_conversation_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_entry_id UUID;
+BEGIN
+  IF jsonb_array_length(p_lines) < 2 THEN
+    RAISE EXCEPTION 'A journal entry needs at least two lines';
+  END IF;
+
+  INSERT INTO public.journal_entries (user_id, entry_date, description, reference_number, conversation_id)
+  VALUES (p_user_id, COALESCE(p_entry_date, CURRENT_DATE), p_description, p_reference_number, p_conversation_id)
+  RETURNING id INTO v_entry_id;
+
+  INSERT INTO public.journal_lines (journal_entry_id, user_id, account_id, debit, credit, description)
+  SELECT
+    v_entry_id,
+    p_user_id,
+    (line ->> 'account_id')::UUID,
+    COALESCE((line ->> 'debit')::NUMERIC, 0),
+    COALESCE((line ->> 'credit')::NUMERIC, 0),
+    COALESCE(line ->> 'description', p_description)
+  FROM jsonb_array_elements(p_lines) AS line;
+
+  -- Check now rather than at commit so the caller gets a clear error
+  SET CONSTRAINTS public.check_journal_entry_balanced IMMEDIATE;
+  SET CONSTRAINTS public.check_journal_entry_balanced DEFERRED;
+
+  RETURN v_entry_id;
+END;
+$$;
+
+-- Migrate existing single-amount transactions into the journal.
+-- User triggers are disabled so updated_at and budget totals are untouched.
+ALTER TABLE public.transactions DISABLE TRIGGER USER;
+
+UPDATE public.transactions t
+SET payment_account_id = (
+  SELECT a.id
+  FROM public.accounts a
+  WHERE a.user_id = t.user_id
+  AND a.account_type = 'asset'
+  ORDER BY (a.code = '1000') DESC NULLS LAST, a.code NULLS LAST, a.created_at
+  LIMIT 1
+)
+WHERE t.payment_account_id IS NULL;
+
+ALTER TABLE public.transactions ENABLE TRIGGER USER;
+
+SELECT public.post_transaction_journal(t) FROM public.transactions t;
+
+-- Create indexes for better performance
+CREATE INDEX idx_journal_entries_user_id ON public.journal_entries(user_id);
+CREATE INDEX idx_journal_entries_date ON public.journal_entries(entry_date);
+CREATE INDEX idx_journal_entries_source ON public.journal_entries(source_type, source_id);
+CREATE INDEX idx_journal_lines_entry_id ON public.journal_lines(journal_entry_id);
+CREATE INDEX idx_journal_lines_account_id ON public.journal_lines(account_id);
+CREATE INDEX idx_journal_lines_user_id ON public.journal_lines(user_id);
+CREATE INDEX idx_transactions_payment_account_id ON public.transactions(payment_account_id);
+
+-- Enable realtime for the journal so dashboards refresh on new postings
+ALTER PUBLICATION supabase_realtime ADD TABLE public.journal_lines;
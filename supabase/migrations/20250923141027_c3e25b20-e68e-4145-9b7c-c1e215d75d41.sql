@@ -0,0 +1,49 @@
+-- Chat attachments are uploaded before the AI creates a transaction from them,
+-- so they belong to a user and message first and get linked to a transaction later.
+ALTER TABLE public.attachments
+ALTER COLUMN transaction_id DROP NOT NULL,
+ADD COLUMN user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+ADD COLUMN conversation_id UUID REFERENCES public.conversations(id) ON DELETE SET NULL,
+ADD COLUMN message_id UUID REFERENCES public.messages(id) ON DELETE SET NULL;
+
+UPDATE public.attachments a
+SET user_id = t.user_id
+FROM public.transactions t
+WHERE t.id = a.transaction_id;
+
+ALTER TABLE public.attachments ALTER COLUMN user_id SET NOT NULL;
+
+-- Replace the transaction-based policy with an ownership-based one
+DROP POLICY "Users can manage attachments for their transactions" ON public.attachments;
+
+CREATE POLICY "Users can manage their own attachments" ON public.attachments
+  FOR ALL USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX idx_attachments_user_id ON public.attachments(user_id);
+CREATE INDEX idx_attachments_transaction_id ON public.attachments(transaction_id);
+CREATE INDEX idx_attachments_message_id ON public.attachments(message_id);
+
+-- Private storage bucket for uploaded receipts and invoices.
+-- Files live under <user_id>/<conversation_id>/...
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('attachments', 'attachments', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload their own attachment files" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'attachments'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can view their own attachment files" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'attachments'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can delete their own attachment files" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'attachments'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
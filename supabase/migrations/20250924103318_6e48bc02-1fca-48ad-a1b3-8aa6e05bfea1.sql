@@ -0,0 +1,7 @@
+-- Structured details about what an assistant turn did (actions performed,
+-- records created, proposals made) so later turns can refer back to them.
+ALTER TABLE public.messages
+ADD COLUMN metadata JSONB;
+
+CREATE INDEX idx_messages_conversation_created ON public.messages(conversation_id, created_at);
+CREATE INDEX idx_transactions_conversation_id ON public.transactions(conversation_id);
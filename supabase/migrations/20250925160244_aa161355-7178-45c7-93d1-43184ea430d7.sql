@@ -0,0 +1,36 @@
+-- Ledger actions proposed by the AI wait here until the user approves them
+CREATE TABLE public.proposed_actions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE,
+  action_type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  amount NUMERIC,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'failed')),
+  result_response TEXT,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.proposed_actions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own proposed actions" ON public.proposed_actions
+  FOR ALL USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_proposed_actions_updated_at
+  BEFORE UPDATE ON public.proposed_actions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_proposed_actions_user_id ON public.proposed_actions(user_id);
+CREATE INDEX idx_proposed_actions_conversation_id ON public.proposed_actions(conversation_id);
+
+-- Per-user auto-commit setting: actions below the threshold skip review
+ALTER TABLE public.profiles
+ADD COLUMN auto_commit_enabled BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN auto_commit_threshold NUMERIC NOT NULL DEFAULT 0 CHECK (auto_commit_threshold >= 0);
+
+ALTER TABLE public.proposed_actions REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.proposed_actions;
@@ -0,0 +1,203 @@
+-- Execute an ordered list of AI ledger actions all-or-nothing.
+-- Each action may carry a "ref"; later actions refer to the record it created
+-- with the string "$<ref>.id" anywhere in their data, e.g.
+--   [{ "ref": "acme", "action": "CREATE_VENDOR", "data": { "name": "Acme" } },
+--    { "action": "CREATE_TRANSACTION", "data": { "vendor_id": "$acme.id", ... } }]
+-- The function runs in a single database transaction, so any failure rolls
+-- back every action in the batch.
+
+-- Replace "$ref.id" placeholders with ids created earlier in the batch
+CREATE OR REPLACE FUNCTION public.resolve_action_refs(p_value JSONB, p_refs JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_ref TEXT;
+BEGIN
+  CASE jsonb_typeof(p_value)
+    WHEN 'object' THEN
+      RETURN COALESCE(
+        (SELECT jsonb_object_agg(key, public.resolve_action_refs(value, p_refs)) FROM jsonb_each(p_value)),
+        '{}'::jsonb
+      );
+    WHEN 'array' THEN
+      RETURN COALESCE(
+        (SELECT jsonb_agg(public.resolve_action_refs(value, p_refs) ORDER BY ordinality)
+         FROM jsonb_array_elements(p_value) WITH ORDINALITY),
+        '[]'::jsonb
+      );
+    WHEN 'string' THEN
+      v_ref := substring(p_value #>> '{}' FROM '^\$([A-Za-z0-9_-]+)(?:\.id)?$');
+      IF v_ref IS NULL THEN
+        RETURN p_value;
+      END IF;
+      IF NOT p_refs ? v_ref THEN
+        RAISE EXCEPTION 'Unknown reference "%"', p_value #>> '{}';
+      END IF;
+      RETURN p_refs -> v_ref;
+    ELSE
+      RETURN p_value;
+  END CASE;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.execute_ledger_actions(
+  p_user_id UUID,
+  p_actions JSONB,
+  p_conversation_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_item JSONB;
+  v_action TEXT;
+  v_data JSONB;
+  v_id UUID;
+  v_index INTEGER := 0;
+  v_refs JSONB := '{}'::jsonb;
+  v_results JSONB := '[]'::jsonb;
+BEGIN
+  IF jsonb_typeof(p_actions) <> 'array' OR jsonb_array_length(p_actions) = 0 THEN
+    RAISE EXCEPTION 'Expected a non-empty list of actions';
+  END IF;
+
+  FOR v_item IN SELECT value FROM jsonb_array_elements(p_actions) LOOP
+    v_index := v_index + 1;
+    v_action := v_item ->> 'action';
+    v_id := NULL;
+
+    BEGIN
+      v_data := public.resolve_action_refs(COALESCE(v_item -> 'data', '{}'::jsonb), v_refs);
+
+      CASE v_action
+        WHEN 'CREATE_TRANSACTION' THEN
+          INSERT INTO public.transactions (
+            user_id, amount, description, account_id, payment_account_id, category_id,
+            customer_id, vendor_id, transaction_date, notes, conversation_id, status
+          ) VALUES (
+            p_user_id,
+            (v_data ->> 'amount')::NUMERIC,
+            v_data ->> 'description',
+            (v_data ->> 'account_id')::UUID,
+            NULLIF(v_data ->> 'payment_account_id', '')::UUID,
+            NULLIF(v_data ->> 'category_id', '')::UUID,
+            NULLIF(v_data ->> 'customer_id', '')::UUID,
+            NULLIF(v_data ->> 'vendor_id', '')::UUID,
+            COALESCE(NULLIF(v_data ->> 'transaction_date', '')::DATE, CURRENT_DATE),
+            COALESCE(v_data ->> 'notes', ''),
+            p_conversation_id,
+            'cleared'
+          )
+          RETURNING id INTO v_id;
+
+        WHEN 'UPDATE_TRANSACTION' THEN
+          -- Only the fields present in data are changed
+          UPDATE public.transactions SET
+            amount = CASE WHEN v_data ? 'amount' THEN (v_data ->> 'amount')::NUMERIC ELSE amount END,
+            description = CASE WHEN v_data ? 'description' THEN v_data ->> 'description' ELSE description END,
+            account_id = CASE WHEN v_data ? 'account_id' THEN (v_data ->> 'account_id')::UUID ELSE account_id END,
+            payment_account_id = CASE WHEN v_data ? 'payment_account_id' THEN NULLIF(v_data ->> 'payment_account_id', '')::UUID ELSE payment_account_id END,
+            category_id = CASE WHEN v_data ? 'category_id' THEN NULLIF(v_data ->> 'category_id', '')::UUID ELSE category_id END,
+            customer_id = CASE WHEN v_data ? 'customer_id' THEN NULLIF(v_data ->> 'customer_id', '')::UUID ELSE customer_id END,
+            vendor_id = CASE WHEN v_data ? 'vendor_id' THEN NULLIF(v_data ->> 'vendor_id', '')::UUID ELSE vendor_id END,
+            transaction_date = CASE WHEN v_data ? 'transaction_date' THEN (v_data ->> 'transaction_date')::DATE ELSE transaction_date END,
+            notes = CASE WHEN v_data ? 'notes' THEN v_data ->> 'notes' ELSE notes END
+          WHERE id = (v_data ->> 'id')::UUID
+          AND user_id = p_user_id
+          RETURNING id INTO v_id;
+
+          IF v_id IS NULL THEN
+            RAISE EXCEPTION 'Transaction % not found', v_data ->> 'id';
+          END IF;
+
+        WHEN 'CREATE_JOURNAL_ENTRY' THEN
+          v_id := public.create_journal_entry(
+            p_user_id,
+            NULLIF(v_data ->> 'entry_date', '')::DATE,
+            v_data ->> 'description',
+            v_data -> 'lines',
+            v_data ->> 'reference_number',
+            p_conversation_id
+          );
+
+        WHEN 'CREATE_BUDGET' THEN
+          INSERT INTO public.budgets (user_id, name, amount, budget_type, category_id, account_id, start_date, end_date)
+          VALUES (
+            p_user_id,
+            v_data ->> 'name',
+            (v_data ->> 'amount')::NUMERIC,
+            v_data ->> 'budget_type',
+            NULLIF(v_data ->> 'category_id', '')::UUID,
+            NULLIF(v_data ->> 'account_id', '')::UUID,
+            (v_data ->> 'start_date')::DATE,
+            (v_data ->> 'end_date')::DATE
+          )
+          RETURNING id INTO v_id;
+
+        WHEN 'CREATE_CATEGORY' THEN
+          INSERT INTO public.categories (user_id, name, description, color)
+          VALUES (p_user_id, v_data ->> 'name', v_data ->> 'description', COALESCE(v_data ->> 'color', '#6366f1'))
+          RETURNING id INTO v_id;
+
+        WHEN 'CREATE_ACCOUNT' THEN
+          INSERT INTO public.accounts (user_id, name, account_type, code, parent_account_id)
+          VALUES (
+            p_user_id,
+            v_data ->> 'name',
+            (v_data ->> 'account_type')::public.account_type,
+            NULLIF(v_data ->> 'code', ''),
+            NULLIF(v_data ->> 'parent_account_id', '')::UUID
+          )
+          RETURNING id INTO v_id;
+
+        WHEN 'CREATE_CUSTOMER' THEN
+          INSERT INTO public.customers (user_id, name, email, phone, company_name, customer_type)
+          VALUES (
+            p_user_id,
+            v_data ->> 'name',
+            NULLIF(v_data ->> 'email', ''),
+            NULLIF(v_data ->> 'phone', ''),
+            NULLIF(v_data ->> 'company_name', ''),
+            COALESCE(NULLIF(v_data ->> 'customer_type', ''), 'customer')
+          )
+          RETURNING id INTO v_id;
+
+        WHEN 'CREATE_VENDOR' THEN
+          INSERT INTO public.vendors (user_id, name, email, phone, company_name, vendor_type)
+          VALUES (
+            p_user_id,
+            v_data ->> 'name',
+            NULLIF(v_data ->> 'email', ''),
+            NULLIF(v_data ->> 'phone', ''),
+            NULLIF(v_data ->> 'company_name', ''),
+            COALESCE(NULLIF(v_data ->> 'vendor_type', ''), 'vendor')
+          )
+          RETURNING id INTO v_id;
+
+        ELSE
+          RAISE EXCEPTION 'Unsupported action "%"', v_action;
+      END CASE;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE EXCEPTION 'Action % (%) failed: %', v_index, v_action, SQLERRM;
+    END;
+
+    IF v_item ? 'ref' THEN
+      v_refs := v_refs || jsonb_build_object(v_item ->> 'ref', v_id);
+    END IF;
+
+    v_results := v_results || jsonb_build_array(jsonb_build_object(
+      'index', v_index,
+      'action', v_action,
+      'ref', v_item ->> 'ref',
+      'id', v_id,
+      'data', v_data
+    ));
+  END LOOP;
+
+  RETURN v_results;
+END;
+$$;
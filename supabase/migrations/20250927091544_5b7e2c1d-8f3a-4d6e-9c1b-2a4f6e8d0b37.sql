@@ -0,0 +1,6 @@
+-- ai-accountant now runs as the signed-in user instead of the service role, so
+-- row level security governs every read and write it makes.
+-- post_transaction_journal is SECURITY DEFINER and takes a whole transaction
+-- row, so calling it directly over RPC could post journal lines into any
+-- user's books. Only the sync_transaction_journal trigger needs it.
+REVOKE EXECUTE ON FUNCTION public.post_transaction_journal(public.transactions) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,78 @@
+-- Profit & loss figures from the journal.
+-- Returns one row per revenue or expense account per column period, for the
+-- signed-in user. Revenue is reported as credits less debits and expenses as
+-- debits less credits, so both are positive in the normal case.
+-- p_interval splits the range into 'month', 'quarter' or 'year' columns
+-- (clipped to the range), or 'total' for a single column.
+CREATE OR REPLACE FUNCTION public.profit_and_loss(
+  p_start_date DATE,
+  p_end_date DATE,
+  p_interval TEXT DEFAULT 'total'
+)
+RETURNS TABLE (
+  account_id UUID,
+  account_name TEXT,
+  account_code TEXT,
+  account_type public.account_type,
+  parent_account_id UUID,
+  period_start DATE,
+  period_end DATE,
+  amount NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_step INTERVAL;
+BEGIN
+  IF p_start_date IS NULL OR p_end_date IS NULL OR p_start_date > p_end_date THEN
+    RAISE EXCEPTION 'Invalid report period % to %', p_start_date, p_end_date;
+  END IF;
+
+  IF p_interval NOT IN ('month', 'quarter', 'year', 'total') THEN
+    RAISE EXCEPTION 'Unsupported report interval "%"', p_interval;
+  END IF;
+
+  v_step := CASE p_interval
+    WHEN 'month' THEN INTERVAL '1 month'
+    WHEN 'quarter' THEN INTERVAL '3 months'
+    WHEN 'year' THEN INTERVAL '1 year'
+  END;
+
+  RETURN QUERY
+  WITH periods AS (
+    SELECT
+      GREATEST(p::DATE, p_start_date) AS period_start,
+      LEAST((p + v_step - INTERVAL '1 day')::DATE, p_end_date) AS period_end
+    FROM generate_series(
+      date_trunc(CASE WHEN p_interval = 'total' THEN 'day' ELSE p_interval END, p_start_date::TIMESTAMP),
+      p_end_date::TIMESTAMP,
+      COALESCE(v_step, INTERVAL '1 day')
+    ) AS p
+    WHERE p_interval <> 'total'
+    UNION ALL
+    SELECT p_start_date, p_end_date
+    WHERE p_interval = 'total'
+  )
+  SELECT
+    a.id,
+    a.name,
+    a.code,
+    a.account_type,
+    a.parent_account_id,
+    pr.period_start,
+    pr.period_end,
+    SUM(CASE WHEN a.account_type = 'revenue' THEN jl.credit - jl.debit ELSE jl.debit - jl.credit END)
+  FROM periods pr
+  JOIN public.journal_entries je
+    ON je.entry_date BETWEEN pr.period_start AND pr.period_end
+    AND je.user_id = auth.uid()
+  JOIN public.journal_lines jl ON jl.journal_entry_id = je.id
+  JOIN public.accounts a ON a.id = jl.account_id
+  WHERE a.account_type IN ('revenue', 'expense')
+  GROUP BY a.id, a.name, a.code, a.account_type, a.parent_account_id, pr.period_start, pr.period_end;
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_journal_entries_user_date ON public.journal_entries(user_id, entry_date);
@@ -0,0 +1,131 @@
+-- Balance sheet and trial balance from the journal, for the signed-in user.
+
+-- Balance sheet as of a date. One row per asset, liability and equity account
+-- with its own balance and the balance rolled up from its child accounts
+-- (parent_account_id, within the same account type). Balances are positive on
+-- the account's normal side: debits for assets, credits for the rest.
+-- Two computed equity rows without an account_id carry earnings that have not
+-- been closed to an equity account: retained earnings from earlier years and
+-- current-year earnings (revenue less expenses since January 1 of p_as_of's year).
+CREATE OR REPLACE FUNCTION public.balance_sheet(p_as_of DATE)
+RETURNS TABLE (
+  account_id UUID,
+  account_name TEXT,
+  account_code TEXT,
+  account_type public.account_type,
+  parent_account_id UUID,
+  balance NUMERIC,
+  total_balance NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_year_start DATE;
+BEGIN
+  IF p_as_of IS NULL THEN
+    RAISE EXCEPTION 'A balance sheet date is required';
+  END IF;
+
+  v_year_start := date_trunc('year', p_as_of)::DATE;
+
+  RETURN QUERY
+  WITH RECURSIVE sheet_accounts AS (
+    SELECT a.id, a.name, a.code, a.account_type, a.parent_account_id, a.is_active
+    FROM public.accounts a
+    WHERE a.user_id = auth.uid()
+      AND a.account_type IN ('asset', 'liability', 'equity')
+  ),
+  own AS (
+    SELECT
+      sa.id,
+      COALESCE(SUM(CASE WHEN sa.account_type = 'asset' THEN jl.debit - jl.credit ELSE jl.credit - jl.debit END), 0) AS balance
+    FROM sheet_accounts sa
+    LEFT JOIN (
+      public.journal_lines jl
+      JOIN public.journal_entries je ON je.id = jl.journal_entry_id AND je.entry_date <= p_as_of
+    ) ON jl.account_id = sa.id
+    GROUP BY sa.id
+  ),
+  -- Every account paired with itself and each of its ancestors of the same type.
+  -- The depth bound stops a parent_account_id cycle from recursing forever.
+  ancestry AS (
+    SELECT sa.id AS descendant_id, sa.id AS ancestor_id, 0 AS depth
+    FROM sheet_accounts sa
+    UNION ALL
+    SELECT an.descendant_id, parent.id, an.depth + 1
+    FROM ancestry an
+    JOIN sheet_accounts child ON child.id = an.ancestor_id
+    JOIN sheet_accounts parent ON parent.id = child.parent_account_id AND parent.account_type = child.account_type
+    WHERE an.depth < 20
+  ),
+  rolled AS (
+    SELECT an.ancestor_id AS id, SUM(o.balance) AS total_balance
+    FROM ancestry an
+    JOIN own o ON o.id = an.descendant_id
+    GROUP BY an.ancestor_id
+  ),
+  earnings AS (
+    SELECT
+      COALESCE(SUM(jl.credit - jl.debit) FILTER (WHERE je.entry_date < v_year_start), 0) AS retained,
+      COALESCE(SUM(jl.credit - jl.debit) FILTER (WHERE je.entry_date >= v_year_start), 0) AS current_year
+    FROM public.journal_entries je
+    JOIN public.journal_lines jl ON jl.journal_entry_id = je.id
+    JOIN public.accounts a ON a.id = jl.account_id
+    WHERE je.user_id = auth.uid()
+      AND je.entry_date <= p_as_of
+      AND a.account_type IN ('revenue', 'expense')
+  )
+  SELECT sa.id, sa.name, sa.code, sa.account_type, sa.parent_account_id, o.balance, r.total_balance
+  FROM sheet_accounts sa
+  JOIN own o ON o.id = sa.id
+  JOIN rolled r ON r.id = sa.id
+  WHERE sa.is_active OR r.total_balance <> 0
+  UNION ALL
+  SELECT NULL, 'Retained earnings', NULL, 'equity'::public.account_type, NULL, e.retained, e.retained
+  FROM earnings e
+  UNION ALL
+  SELECT NULL, 'Current year earnings', NULL, 'equity'::public.account_type, NULL, e.current_year, e.current_year
+  FROM earnings e;
+END;
+$$;
+
+-- Trial balance as of a date: every account with postings, its net balance
+-- shown in the debit or credit column. Total debits equal total credits when
+-- the journal is in balance.
+CREATE OR REPLACE FUNCTION public.trial_balance(p_as_of DATE)
+RETURNS TABLE (
+  account_id UUID,
+  account_name TEXT,
+  account_code TEXT,
+  account_type public.account_type,
+  debit NUMERIC,
+  credit NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF p_as_of IS NULL THEN
+    RAISE EXCEPTION 'A trial balance date is required';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    a.id,
+    a.name,
+    a.code,
+    a.account_type,
+    GREATEST(SUM(jl.debit - jl.credit), 0),
+    GREATEST(SUM(jl.credit - jl.debit), 0)
+  FROM public.journal_entries je
+  JOIN public.journal_lines jl ON jl.journal_entry_id = je.id
+  JOIN public.accounts a ON a.id = jl.account_id
+  WHERE je.user_id = auth.uid()
+    AND je.entry_date <= p_as_of
+  GROUP BY a.id, a.name, a.code, a.account_type
+  HAVING SUM(jl.debit) <> SUM(jl.credit);
+END;
+$$;
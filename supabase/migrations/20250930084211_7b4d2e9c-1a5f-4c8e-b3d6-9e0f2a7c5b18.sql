@@ -0,0 +1,123 @@
+-- Statement of cash flows (indirect method).
+
+-- Where an account's movements appear on the cash flow statement.
+-- 'cash' marks the accounts whose balance is cash itself (Cash, bank accounts).
+-- Revenue and expense accounts are always reported through net income.
+CREATE TYPE public.cash_flow_activity AS ENUM ('cash', 'operating', 'investing', 'financing');
+
+-- NULL uses the default for the account type: equity is financing, everything
+-- else operating
+ALTER TABLE public.accounts ADD COLUMN cash_flow_activity public.cash_flow_activity;
+
+UPDATE public.accounts
+SET cash_flow_activity = 'cash'
+WHERE account_type = 'asset'
+AND code IN ('1000', '1010');
+
+-- New users' Cash and Bank Account are cash accounts
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (user_id, display_name)
+  VALUES (NEW.id, COALESCE(NEW.raw_user_meta_data ->> 'full_name', NEW.email));
+
+  -- Create default accounts
+  INSERT INTO public.accounts (user_id, name, code, account_type, cash_flow_activity) VALUES
+    (NEW.id, 'Cash', '1000', 'asset', 'cash'),
+    (NEW.id, 'Bank Account', '1010', 'asset', 'cash'),
+    (NEW.id, 'Accounts Receivable', '1200', 'asset', NULL),
+    (NEW.id, 'Accounts Payable', '2000', 'liability', NULL),
+    (NEW.id, 'Owner Equity', '3000', 'equity', NULL),
+    (NEW.id, 'Revenue', '4000', 'revenue', NULL),
+    (NEW.id, 'Operating Expenses', '5000', 'expense', NULL);
+
+  -- Create default categories
+  INSERT INTO public.categories (user_id, name, description, color) VALUES
+    (NEW.id, 'Office Supplies', 'Office equipment and supplies', '#ef4444'),
+    (NEW.id, 'Travel', 'Business travel expenses', '#f97316'),
+    (NEW.id, 'Marketing', 'Marketing and advertising', '#8b5cf6'),
+    (NEW.id, 'Software', 'Software subscriptions and licenses', '#06b6d4'),
+    (NEW.id, 'Utilities', 'Office utilities', '#10b981'),
+    (NEW.id, 'Sales', 'Revenue from sales', '#22c55e'),
+    (NEW.id, 'Services', 'Revenue from services', '#3b82f6');
+
+  RETURN NEW;
+END;
+$$;
+
+-- Cash flow statement for the signed-in user over a period.
+-- Rows by section:
+--   'operating'      net income (account_id NULL), then the change in each
+--                    operating balance-sheet account
+--   'investing', 'financing'  the change in each account of that activity
+--   'beginning_cash', 'ending_cash'  cash balance before and at the end of the period
+-- Every balance-sheet line's cash effect is credits less debits: an increase
+-- in receivables (a debit) used cash, an increase in payables (a credit) kept it.
+-- Accounts with no movement in the period are left out.
+CREATE OR REPLACE FUNCTION public.cash_flow_statement(p_start_date DATE, p_end_date DATE)
+RETURNS TABLE (
+  section TEXT,
+  account_id UUID,
+  account_name TEXT,
+  account_code TEXT,
+  amount NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF p_start_date IS NULL OR p_end_date IS NULL OR p_start_date > p_end_date THEN
+    RAISE EXCEPTION 'Invalid report period % to %', p_start_date, p_end_date;
+  END IF;
+
+  RETURN QUERY
+  WITH classified AS (
+    SELECT
+      a.id,
+      a.name,
+      a.code,
+      CASE
+        WHEN a.account_type IN ('revenue', 'expense') THEN 'net_income'
+        WHEN a.cash_flow_activity IS NOT NULL THEN a.cash_flow_activity::TEXT
+        WHEN a.account_type = 'equity' THEN 'financing'
+        ELSE 'operating'
+      END AS activity
+    FROM public.accounts a
+    WHERE a.user_id = auth.uid()
+  ),
+  lines AS (
+    SELECT c.id, c.name, c.code, c.activity, je.entry_date, jl.debit, jl.credit
+    FROM public.journal_entries je
+    JOIN public.journal_lines jl ON jl.journal_entry_id = je.id
+    JOIN classified c ON c.id = jl.account_id
+    WHERE je.user_id = auth.uid()
+      AND je.entry_date <= p_end_date
+  )
+  SELECT 'operating'::TEXT, NULL::UUID, 'Net income'::TEXT, NULL::TEXT,
+    COALESCE(SUM(l.credit - l.debit), 0)
+  FROM lines l
+  WHERE l.activity = 'net_income'
+    AND l.entry_date >= p_start_date
+  UNION ALL
+  SELECT l.activity, l.id, l.name, l.code, SUM(l.credit - l.debit)
+  FROM lines l
+  WHERE l.activity IN ('operating', 'investing', 'financing')
+    AND l.entry_date >= p_start_date
+  GROUP BY l.activity, l.id, l.name, l.code
+  HAVING SUM(l.credit - l.debit) <> 0
+  UNION ALL
+  SELECT 'beginning_cash'::TEXT, NULL::UUID, 'Cash at beginning of period'::TEXT, NULL::TEXT,
+    COALESCE(SUM(l.debit - l.credit) FILTER (WHERE l.entry_date < p_start_date), 0)
+  FROM lines l
+  WHERE l.activity = 'cash'
+  UNION ALL
+  SELECT 'ending_cash'::TEXT, NULL::UUID, 'Cash at end of period'::TEXT, NULL::TEXT,
+    COALESCE(SUM(l.debit - l.credit), 0)
+  FROM lines l
+  WHERE l.activity = 'cash';
+END;
+$$;
@@ -0,0 +1,28 @@
+-- Bank statement import.
+-- CSV statements differ by bank, so the column mapping chosen for an account
+-- is saved and reused the next time a statement is imported into it.
+CREATE TABLE public.bank_import_mappings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  account_id UUID NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  mapping JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(account_id)
+);
+
+ALTER TABLE public.bank_import_mappings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own bank import mappings" ON public.bank_import_mappings
+  FOR ALL USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_bank_import_mappings_updated_at
+  BEFORE UPDATE ON public.bank_import_mappings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_bank_import_mappings_user_id ON public.bank_import_mappings(user_id);
+
+-- Duplicate detection looks up existing transactions by date
+CREATE INDEX idx_transactions_user_date ON public.transactions(user_id, transaction_date);
@@ -0,0 +1,379 @@
+-- Bank reconciliation.
+-- A reconciliation matches an account's transactions against a bank or card
+-- statement. While it is in progress the user ticks items off, which marks them
+-- 'cleared'; completing it requires the cleared balance to equal the statement
+-- ending balance and locks those transactions as 'reconciled'.
+
+CREATE TABLE public.reconciliations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  account_id UUID NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  statement_date DATE NOT NULL,
+  beginning_balance NUMERIC(15,2) NOT NULL,
+  ending_balance NUMERIC(15,2) NOT NULL,
+  cleared_increases NUMERIC(15,2) NOT NULL DEFAULT 0,
+  cleared_decreases NUMERIC(15,2) NOT NULL DEFAULT 0,
+  transaction_count INTEGER NOT NULL DEFAULT 0,
+  completed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(account_id, statement_date)
+);
+
+ALTER TABLE public.reconciliations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own reconciliations" ON public.reconciliations
+  FOR ALL USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX idx_reconciliations_account_id ON public.reconciliations(account_id, statement_date);
+
+ALTER TABLE public.transactions
+ADD COLUMN reconciliation_id UUID REFERENCES public.reconciliations(id) ON DELETE RESTRICT;
+
+-- Only a completed reconciliation marks a transaction reconciled
+ALTER TABLE public.transactions
+ADD CONSTRAINT transactions_reconciled_has_reconciliation
+CHECK (status <> 'reconciled' OR reconciliation_id IS NOT NULL);
+
+CREATE INDEX idx_transactions_reconciliation_id ON public.transactions(reconciliation_id);
+
+-- Reconciled transactions are locked: anything that changes the books (amount,
+-- date, accounts, status) or deleting them is rejected. Descriptions, notes
+-- and categories can still be edited. undo_reconciliation lifts the lock for
+-- its own transaction through the app.undo_reconciliation setting.
+CREATE OR REPLACE FUNCTION public.protect_reconciled_transaction()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status <> 'reconciled' OR current_setting('app.undo_reconciliation', true) = 'on' THEN
+    RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RAISE EXCEPTION 'Transaction "%" is reconciled and cannot be deleted', OLD.description;
+  END IF;
+
+  IF NEW.amount IS DISTINCT FROM OLD.amount
+    OR NEW.transaction_date IS DISTINCT FROM OLD.transaction_date
+    OR NEW.account_id IS DISTINCT FROM OLD.account_id
+    OR NEW.payment_account_id IS DISTINCT FROM OLD.payment_account_id
+    OR NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.reconciliation_id IS DISTINCT FROM OLD.reconciliation_id THEN
+    RAISE EXCEPTION 'Transaction "%" is reconciled; undo the reconciliation before changing its amount, date, accounts or status', OLD.description;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_reconciled_transaction
+  BEFORE UPDATE OR DELETE ON public.transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_reconciled_transaction();
+
+-- How a transaction moves an account's statement balance. Statement balances
+-- are what the bank shows: money held for asset accounts, money owed for
+-- liability accounts such as credit cards.
+CREATE OR REPLACE FUNCTION public.statement_effect(
+  p_transaction public.transactions,
+  p_account_id UUID,
+  p_account_type public.account_type
+)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    (CASE WHEN p_transaction.payment_account_id = p_account_id THEN p_transaction.amount ELSE -p_transaction.amount END)
+    * (CASE WHEN p_account_type = 'liability' THEN -1 ELSE 1 END);
+$$;
+
+-- Complete a reconciliation of p_account_id against a statement.
+-- The beginning balance is the previous reconciliation's ending balance, or
+-- p_opening_balance for the account's first reconciliation. Every transaction
+-- in p_transaction_ids must belong to the account, be unreconciled and dated
+-- on or before the statement date, and together they must bring the beginning
+-- balance to p_ending_balance.
+CREATE OR REPLACE FUNCTION public.complete_reconciliation(
+  p_account_id UUID,
+  p_statement_date DATE,
+  p_ending_balance NUMERIC,
+  p_transaction_ids UUID[],
+  p_opening_balance NUMERIC DEFAULT 0
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_account public.accounts;
+  v_previous public.reconciliations;
+  v_beginning NUMERIC;
+  v_increases NUMERIC;
+  v_decreases NUMERIC;
+  v_count INTEGER;
+  v_id UUID;
+BEGIN
+  SELECT * INTO v_account
+  FROM public.accounts
+  WHERE id = p_account_id AND user_id = v_user_id;
+
+  IF v_account.id IS NULL THEN
+    RAISE EXCEPTION 'Account % not found', p_account_id;
+  END IF;
+  IF v_account.account_type NOT IN ('asset', 'liability') THEN
+    RAISE EXCEPTION 'Only asset and liability accounts can be reconciled';
+  END IF;
+
+  SELECT * INTO v_previous
+  FROM public.reconciliations
+  WHERE account_id = p_account_id
+  ORDER BY statement_date DESC
+  LIMIT 1;
+
+  IF v_previous.id IS NOT NULL AND p_statement_date <= v_previous.statement_date THEN
+    RAISE EXCEPTION 'Statement date must be after the last reconciliation (%)', v_previous.statement_date;
+  END IF;
+
+  v_beginning := COALESCE(v_previous.ending_balance, p_opening_balance, 0);
+
+  SELECT
+    COUNT(*),
+    COALESCE(SUM(public.statement_effect(t, p_account_id, v_account.account_type))
+      FILTER (WHERE public.statement_effect(t, p_account_id, v_account.account_type) > 0), 0),
+    COALESCE(SUM(-public.statement_effect(t, p_account_id, v_account.account_type))
+      FILTER (WHERE public.statement_effect(t, p_account_id, v_account.account_type) < 0), 0)
+  INTO v_count, v_increases, v_decreases
+  FROM public.transactions t
+  WHERE t.id = ANY(COALESCE(p_transaction_ids, '{}'))
+    AND t.user_id = v_user_id
+    AND (t.account_id = p_account_id OR t.payment_account_id = p_account_id)
+    AND t.status <> 'reconciled'
+    AND t.transaction_date <= p_statement_date;
+
+  IF v_count <> COALESCE(cardinality(p_transaction_ids), 0) THEN
+    RAISE EXCEPTION 'Some transactions are already reconciled, belong to another account or are dated after the statement';
+  END IF;
+
+  IF abs(p_ending_balance - (v_beginning + v_increases - v_decreases)) >= 0.005 THEN
+    RAISE EXCEPTION 'Cleared balance % does not match the statement ending balance %',
+      v_beginning + v_increases - v_decreases, p_ending_balance;
+  END IF;
+
+  INSERT INTO public.reconciliations (
+    user_id, account_id, statement_date, beginning_balance, ending_balance,
+    cleared_increases, cleared_decreases, transaction_count
+  ) VALUES (
+    v_user_id, p_account_id, p_statement_date, v_beginning, p_ending_balance,
+    v_increases, v_decreases, v_count
+  )
+  RETURNING id INTO v_id;
+
+  UPDATE public.transactions
+  SET status = 'reconciled', reconciliation_id = v_id
+  WHERE id = ANY(p_transaction_ids);
+
+  RETURN v_id;
+END;
+$$;
+
+-- Undo an account's most recent reconciliation: its transactions go back to
+-- 'cleared' and the reconciliation report is removed
+CREATE OR REPLACE FUNCTION public.undo_reconciliation(p_reconciliation_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_reconciliation public.reconciliations;
+BEGIN
+  SELECT * INTO v_reconciliation
+  FROM public.reconciliations
+  WHERE id = p_reconciliation_id AND user_id = auth.uid();
+
+  IF v_reconciliation.id IS NULL THEN
+    RAISE EXCEPTION 'Reconciliation % not found', p_reconciliation_id;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.reconciliations
+    WHERE account_id = v_reconciliation.account_id
+      AND statement_date > v_reconciliation.statement_date
+  ) THEN
+    RAISE EXCEPTION 'Only the most recent reconciliation of an account can be undone';
+  END IF;
+
+  PERFORM set_config('app.undo_reconciliation', 'on', true);
+
+  UPDATE public.transactions
+  SET status = 'cleared', reconciliation_id = NULL
+  WHERE reconciliation_id = p_reconciliation_id;
+
+  PERFORM set_config('app.undo_reconciliation', 'off', true);
+
+  DELETE FROM public.reconciliations WHERE id = p_reconciliation_id;
+END;
+$$;
+
+-- Transactions recorded from chat start out pending like any other until they
+-- are cleared against a statement (previously they were created as 'cleared')
+CREATE OR REPLACE FUNCTION public.execute_ledger_actions(
+  p_user_id UUID,
+  p_actions JSONB,
+  p_conversation_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_item JSONB;
+  v_action TEXT;
+  v_data JSONB;
+  v_id UUID;
+  v_index INTEGER := 0;
+  v_refs JSONB := '{}'::jsonb;
+  v_results JSONB := '[]'::jsonb;
+BEGIN
+  IF jsonb_typeof(p_actions) <> 'array' OR jsonb_array_length(p_actions) = 0 THEN
+    RAISE EXCEPTION 'Expected a non-empty list of actions';
+  END IF;
+
+  FOR v_item IN SELECT value FROM jsonb_array_elements(p_actions) LOOP
+    v_index := v_index + 1;
+    v_action := v_item ->> 'action';
+    v_id := NULL;
+
+    BEGIN
+      v_data := public.resolve_action_refs(COALESCE(v_item -> 'data', '{}'::jsonb), v_refs);
+
+      CASE v_action
+        WHEN 'CREATE_TRANSACTION' THEN
+          INSERT INTO public.transactions (
+            user_id, amount, description, account_id, payment_account_id, category_id,
+            customer_id, vendor_id, transaction_date, notes, conversation_id
+          ) VALUES (
+            p_user_id,
+            (v_data ->> 'amount')::NUMERIC,
+            v_data ->> 'description',
+            (v_data ->> 'account_id')::UUID,
+            NULLIF(v_data ->> 'payment_account_id', '')::UUID,
+            NULLIF(v_data ->> 'category_id', '')::UUID,
+            NULLIF(v_data ->> 'customer_id', '')::UUID,
+            NULLIF(v_data ->> 'vendor_id', '')::UUID,
+            COALESCE(NULLIF(v_data ->> 'transaction_date', '')::DATE, CURRENT_DATE),
+            COALESCE(v_data ->> 'notes', ''),
+            p_conversation_id
+          )
+          RETURNING id INTO v_id;
+
+        WHEN 'UPDATE_TRANSACTION' THEN
+          -- Only the fields present in data are changed
+          UPDATE public.transactions SET
+            amount = CASE WHEN v_data ? 'amount' THEN (v_data ->> 'amount')::NUMERIC ELSE amount END,
+            description = CASE WHEN v_data ? 'description' THEN v_data ->> 'description' ELSE description END,
+            account_id = CASE WHEN v_data ? 'account_id' THEN (v_data ->> 'account_id')::UUID ELSE account_id END,
+            payment_account_id = CASE WHEN v_data ? 'payment_account_id' THEN NULLIF(v_data ->> 'payment_account_id', '')::UUID ELSE payment_account_id END,
+            category_id = CASE WHEN v_data ? 'category_id' THEN NULLIF(v_data ->> 'category_id', '')::UUID ELSE category_id END,
+            customer_id = CASE WHEN v_data ? 'customer_id' THEN NULLIF(v_data ->> 'customer_id', '')::UUID ELSE customer_id END,
+            vendor_id = CASE WHEN v_data ? 'vendor_id' THEN NULLIF(v_data ->> 'vendor_id', '')::UUID ELSE vendor_id END,
+            transaction_date = CASE WHEN v_data ? 'transaction_date' THEN (v_data ->> 'transaction_date')::DATE ELSE transaction_date END,
+            notes = CASE WHEN v_data ? 'notes' THEN v_data ->> 'notes' ELSE notes END
+          WHERE id = (v_data ->> 'id')::UUID
+          AND user_id = p_user_id
+          RETURNING id INTO v_id;
+
+          IF v_id IS NULL THEN
+            RAISE EXCEPTION 'Transaction % not found', v_data ->> 'id';
+          END IF;
+
+        WHEN 'CREATE_JOURNAL_ENTRY' THEN
+          v_id := public.create_journal_entry(
+            p_user_id,
+            NULLIF(v_data ->> 'entry_date', '')::DATE,
+            v_data ->> 'description',
+            v_data -> 'lines',
+            v_data ->> 'reference_number',
+            p_conversation_id
+          );
+
+        WHEN 'CREATE_BUDGET' THEN
+          INSERT INTO public.budgets (user_id, name, amount, budget_type, category_id, account_id, start_date, end_date)
+          VALUES (
+            p_user_id,
+            v_data ->> 'name',
+            (v_data ->> 'amount')::NUMERIC,
+            v_data ->> 'budget_type',
+            NULLIF(v_data ->> 'category_id', '')::UUID,
+            NULLIF(v_data ->> 'account_id', '')::UUID,
+            (v_data ->> 'start_date')::DATE,
+            (v_data ->> 'end_date')::DATE
+          )
+          RETURNING id INTO v_id;
+
+        WHEN 'CREATE_CATEGORY' THEN
+          INSERT INTO public.categories (user_id, name, description, color)
+          VALUES (p_user_id, v_data ->> 'name', v_data ->> 'description', COALESCE(v_data ->> 'color', '#6366f1'))
+          RETURNING id INTO v_id;
+
+        WHEN 'CREATE_ACCOUNT' THEN
+          INSERT INTO public.accounts (user_id, name, account_type, code, parent_account_id)
+          VALUES (
+            p_user_id,
+            v_data ->> 'name',
+            (v_data ->> 'account_type')::public.account_type,
+            NULLIF(v_data ->> 'code', ''),
+            NULLIF(v_data ->> 'parent_account_id', '')::UUID
+          )
+          RETURNING id INTO v_id;
+
+        WHEN 'CREATE_CUSTOMER' THEN
+          INSERT INTO public.customers (user_id, name, email, phone, company_name, customer_type)
+          VALUES (
+            p_user_id,
+            v_data ->> 'name',
+            NULLIF(v_data ->> 'email', ''),
+            NULLIF(v_data ->> 'phone', ''),
+            NULLIF(v_data ->> 'company_name', ''),
+            COALESCE(NULLIF(v_data ->> 'customer_type', ''), 'customer')
+          )
+          RETURNING id INTO v_id;
+
+        WHEN 'CREATE_VENDOR' THEN
+          INSERT INTO public.vendors (user_id, name, email, phone, company_name, vendor_type)
+          VALUES (
+            p_user_id,
+            v_data ->> 'name',
+            NULLIF(v_data ->> 'email', ''),
+            NULLIF(v_data ->> 'phone', ''),
+            NULLIF(v_data ->> 'company_name', ''),
+            COALESCE(NULLIF(v_data ->> 'vendor_type', ''), 'vendor')
+          )
+          RETURNING id INTO v_id;
+
+        ELSE
+          RAISE EXCEPTION 'Unsupported action "%"', v_action;
+      END CASE;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE EXCEPTION 'Action % (%) failed: %', v_index, v_action, SQLERRM;
+    END;
+
+    IF v_item ? 'ref' THEN
+      v_refs := v_refs || jsonb_build_object(v_item ->> 'ref', v_id);
+    END IF;
+
+    v_results := v_results || jsonb_build_array(jsonb_build_object(
+      'index', v_index,
+      'action', v_action,
+      'ref', v_item ->> 'ref',
+      'id', v_id,
+      'data', v_data
+    ));
+  END LOOP;
+
+  RETURN v_results;
+END;
+$$;
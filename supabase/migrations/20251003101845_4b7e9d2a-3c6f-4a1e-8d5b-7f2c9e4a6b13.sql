@@ -0,0 +1,183 @@
+-- Categorization rules.
+-- A rule matches transactions by description (case-insensitive "contains" or a
+-- regular expression), optionally narrowed to an amount range and the bank or
+-- card account the money moved through, and sets the expense/revenue account,
+-- category and vendor. Rules are applied when statements are imported and when
+-- the assistant records or recategorizes transactions; the first matching
+-- active rule by priority wins.
+CREATE TYPE public.rule_match_type AS ENUM ('contains', 'regex');
+
+-- Lowercased letters and single spaces only, so "UBER *TRIP 8812" and
+-- "Uber Trip" compare equal in "contains" rules
+CREATE OR REPLACE FUNCTION public.normalize_description(p_description TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT btrim(regexp_replace(lower(coalesce(p_description, '')), '[^a-z]+', ' ', 'g'));
+$$;
+
+CREATE TABLE public.categorization_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  match_type public.rule_match_type NOT NULL DEFAULT 'contains',
+  pattern TEXT NOT NULL,
+  min_amount NUMERIC(15,2),
+  max_amount NUMERIC(15,2),
+  -- Only match transactions through this bank or card account
+  payment_account_id UUID REFERENCES public.accounts(id) ON DELETE CASCADE,
+  set_account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL,
+  set_category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+  set_vendor_id UUID REFERENCES public.vendors(id) ON DELETE SET NULL,
+  priority INTEGER NOT NULL DEFAULT 100,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT categorization_rules_pattern_check
+    -- Evaluating a regex pattern rejects invalid ones when the rule is saved
+    CHECK (CASE WHEN match_type = 'regex' THEN pattern <> '' AND ('' ~* pattern) IS NOT NULL ELSE public.normalize_description(pattern) <> '' END),
+  CONSTRAINT categorization_rules_amount_range_check
+    CHECK (min_amount IS NULL OR max_amount IS NULL OR min_amount <= max_amount)
+);
+
+ALTER TABLE public.categorization_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own categorization rules" ON public.categorization_rules
+  FOR ALL USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_categorization_rules_updated_at
+  BEFORE UPDATE ON public.categorization_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_categorization_rules_user_id ON public.categorization_rules(user_id, priority);
+
+CREATE OR REPLACE FUNCTION public.rule_matches_description(p_rule public.categorization_rules, p_description TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_rule.match_type
+    WHEN 'regex' THEN coalesce(p_description, '') ~* p_rule.pattern
+    ELSE public.normalize_description(p_description) LIKE '%' || public.normalize_description(p_rule.pattern) || '%'
+  END;
+$$;
+
+-- Whether a rule applies to a transaction. Amount ranges compare the absolute
+-- amount, so "between 5 and 20" means the same for money in and money out.
+CREATE OR REPLACE FUNCTION public.rule_matches(
+  p_rule public.categorization_rules,
+  p_description TEXT,
+  p_amount NUMERIC,
+  p_payment_account_id UUID
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT public.rule_matches_description(p_rule, p_description)
+    AND (p_rule.min_amount IS NULL OR abs(p_amount) >= p_rule.min_amount)
+    AND (p_rule.max_amount IS NULL OR abs(p_amount) <= p_rule.max_amount)
+    AND (p_rule.payment_account_id IS NULL OR p_rule.payment_account_id = p_payment_account_id);
+$$;
+
+-- First matching rule for each item of p_items, a JSON array of
+-- { "description", "amount", "payment_account_id" }. item_index is the
+-- zero-based position in p_items; items no rule matches are left out.
+CREATE OR REPLACE FUNCTION public.match_categorization_rules(p_items JSONB)
+RETURNS TABLE (
+  item_index INTEGER,
+  rule_id UUID,
+  rule_name TEXT,
+  account_id UUID,
+  category_id UUID,
+  vendor_id UUID
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    (items.ordinality - 1)::INTEGER,
+    rule.id,
+    rule.name,
+    rule.set_account_id,
+    rule.set_category_id,
+    rule.set_vendor_id
+  FROM jsonb_array_elements(p_items) WITH ORDINALITY AS items(item, ordinality)
+  CROSS JOIN LATERAL (
+    SELECT r.*
+    FROM public.categorization_rules r
+    WHERE r.user_id = auth.uid()
+      AND r.is_active
+      AND public.rule_matches(
+        r,
+        items.item ->> 'description',
+        coalesce((items.item ->> 'amount')::NUMERIC, 0),
+        NULLIF(items.item ->> 'payment_account_id', '')::UUID
+      )
+    ORDER BY r.priority, r.created_at
+    LIMIT 1
+  ) rule
+  ORDER BY 1;
+$$;
+
+-- Rules worth creating, learned from how the user has categorized transactions
+-- by hand. Descriptions are grouped by their first two words once normalized
+-- ("STARBUCKS STORE #1234" -> "starbucks store"); a group is suggested when at
+-- least p_min_count transactions and 80% of the group share the same account,
+-- category and vendor, and no active rule already covers it.
+CREATE OR REPLACE FUNCTION public.suggest_categorization_rules(p_min_count INTEGER DEFAULT 3)
+RETURNS TABLE (
+  pattern TEXT,
+  account_id UUID,
+  category_id UUID,
+  vendor_id UUID,
+  transaction_count INTEGER,
+  example_description TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH keyed AS (
+    SELECT
+      t.description,
+      t.account_id,
+      t.category_id,
+      t.vendor_id,
+      array_to_string((string_to_array(public.normalize_description(t.description), ' '))[1:2], ' ') AS key
+    FROM public.transactions t
+    WHERE t.user_id = auth.uid()
+      AND (t.category_id IS NOT NULL OR t.vendor_id IS NOT NULL)
+  ),
+  groups AS (
+    SELECT
+      k.key,
+      k.account_id,
+      k.category_id,
+      k.vendor_id,
+      count(*)::INTEGER AS matches,
+      sum(count(*)) OVER (PARTITION BY k.key) AS group_total,
+      row_number() OVER (PARTITION BY k.key ORDER BY count(*) DESC) AS group_rank,
+      max(k.description) AS example_description
+    FROM keyed k
+    WHERE length(k.key) >= 3
+    GROUP BY k.key, k.account_id, k.category_id, k.vendor_id
+  )
+  SELECT g.key, g.account_id, g.category_id, g.vendor_id, g.matches, g.example_description
+  FROM groups g
+  WHERE g.group_rank = 1
+    AND g.matches >= p_min_count
+    AND g.matches >= 0.8 * g.group_total
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.categorization_rules r
+      WHERE r.user_id = auth.uid()
+        AND r.is_active
+        AND public.rule_matches_description(r, g.example_description)
+    )
+  ORDER BY g.matches DESC, g.key;
+$$;
@@ -0,0 +1,477 @@
+-- Customer invoices.
+-- An invoice is a draft until it is sent. Sent invoices post to the journal
+-- (Dr Accounts Receivable, Cr revenue per line, Cr Sales Tax Payable) and are
+-- settled by payments: each payment is a transaction moving money from
+-- receivables into a bank or cash account, linked to the invoice through
+-- invoice_payments. Totals, status and the customer's balance are maintained
+-- by triggers, so they stay right however lines and payments are changed.
+CREATE TYPE public.invoice_status AS ENUM ('draft', 'sent', 'partially_paid', 'paid', 'void');
+
+CREATE TABLE public.invoices (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES public.customers(id) ON DELETE RESTRICT,
+  -- Numbered INV-0001, INV-0002, ... when left empty
+  invoice_number TEXT NOT NULL DEFAULT '',
+  issue_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  -- Defaults to issue_date plus the customer's payment terms
+  due_date DATE NOT NULL,
+  status public.invoice_status NOT NULL DEFAULT 'draft',
+  -- Accounts Receivable (1200) when not given
+  receivable_account_id UUID REFERENCES public.accounts(id) ON DELETE RESTRICT,
+  subtotal NUMERIC(15,2) NOT NULL DEFAULT 0,
+  tax_total NUMERIC(15,2) NOT NULL DEFAULT 0,
+  total NUMERIC(15,2) NOT NULL DEFAULT 0,
+  amount_paid NUMERIC(15,2) NOT NULL DEFAULT 0,
+  balance_due NUMERIC(15,2) NOT NULL DEFAULT 0,
+  notes TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  voided_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, invoice_number),
+  CHECK (due_date >= issue_date)
+);
+
+CREATE TABLE public.invoice_lines (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  description TEXT NOT NULL,
+  quantity NUMERIC(15,4) NOT NULL DEFAULT 1,
+  unit_price NUMERIC(15,2) NOT NULL DEFAULT 0,
+  -- Percent, e.g. 8.25
+  tax_rate NUMERIC(7,4) NOT NULL DEFAULT 0 CHECK (tax_rate >= 0),
+  -- Set from quantity, unit_price and tax_rate
+  amount NUMERIC(15,2) NOT NULL DEFAULT 0,
+  tax_amount NUMERIC(15,2) NOT NULL DEFAULT 0,
+  revenue_account_id UUID REFERENCES public.accounts(id) ON DELETE RESTRICT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.invoice_payments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE RESTRICT,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- The receipt; deleting it removes the payment from the invoice
+  transaction_id UUID NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  amount NUMERIC(15,2) NOT NULL CHECK (amount > 0),
+  payment_date DATE NOT NULL,
+  -- Whether the receipt was recorded for this payment rather than matched to an existing one
+  created_transaction BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoice_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoice_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own invoices" ON public.invoices
+  FOR ALL USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own invoice lines" ON public.invoice_lines
+  FOR ALL USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own invoice payments" ON public.invoice_payments
+  FOR ALL USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_invoices_updated_at
+  BEFORE UPDATE ON public.invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_invoices_customer_id ON public.invoices(customer_id, status);
+CREATE INDEX idx_invoices_user_due_date ON public.invoices(user_id, due_date);
+CREATE INDEX idx_invoice_lines_invoice_id ON public.invoice_lines(invoice_id);
+CREATE INDEX idx_invoice_payments_invoice_id ON public.invoice_payments(invoice_id);
+CREATE INDEX idx_invoice_payments_transaction_id ON public.invoice_payments(transaction_id);
+
+ALTER TABLE public.journal_entries DROP CONSTRAINT journal_entries_source_type_check;
+ALTER TABLE public.journal_entries
+ADD CONSTRAINT journal_entries_source_type_check CHECK (source_type IN ('manual', 'transaction', 'invoice'));
+
+-- The user's account with the given code, created if it does not exist yet.
+-- Used for the control accounts documents post to.
+CREATE OR REPLACE FUNCTION public.ensure_account(
+  p_user_id UUID,
+  p_code TEXT,
+  p_name TEXT,
+  p_account_type public.account_type
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_account_id UUID;
+BEGIN
+  SELECT id INTO v_account_id
+  FROM public.accounts
+  WHERE user_id = p_user_id AND code = p_code
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF v_account_id IS NULL THEN
+    INSERT INTO public.accounts (user_id, name, code, account_type)
+    VALUES (p_user_id, p_name, p_code, p_account_type)
+    RETURNING id INTO v_account_id;
+  END IF;
+
+  RETURN v_account_id;
+END;
+$$;
+
+-- Line amounts are always derived, never trusted from the client
+CREATE OR REPLACE FUNCTION public.prepare_invoice_line()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.amount := round(NEW.quantity * NEW.unit_price, 2);
+  NEW.tax_amount := round(NEW.amount * NEW.tax_rate / 100, 2);
+
+  IF NEW.revenue_account_id IS NULL THEN
+    SELECT id INTO NEW.revenue_account_id
+    FROM public.accounts
+    WHERE user_id = NEW.user_id AND account_type = 'revenue'
+    ORDER BY (code = '4000') DESC NULLS LAST, code NULLS LAST, created_at
+    LIMIT 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_invoice_line
+  BEFORE INSERT OR UPDATE ON public.invoice_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_invoice_line();
+
+-- Defaults, balance due and status for an invoice. Draft and void are set by
+-- the user; every other status follows from what has been paid.
+CREATE OR REPLACE FUNCTION public.prepare_invoice()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_terms INTEGER;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.invoice_number = '' THEN
+      SELECT 'INV-' || lpad((COALESCE(MAX(NULLIF(regexp_replace(invoice_number, '\D', '', 'g'), '')::BIGINT), 0) + 1)::TEXT, 4, '0')
+      INTO NEW.invoice_number
+      FROM public.invoices
+      WHERE user_id = NEW.user_id;
+    END IF;
+
+    IF NEW.receivable_account_id IS NULL THEN
+      NEW.receivable_account_id := public.ensure_account(NEW.user_id, '1200', 'Accounts Receivable', 'asset');
+    END IF;
+  END IF;
+
+  IF NEW.due_date IS NULL THEN
+    SELECT COALESCE(payment_terms, 30) INTO v_terms
+    FROM public.customers
+    WHERE id = NEW.customer_id;
+
+    NEW.due_date := NEW.issue_date + COALESCE(v_terms, 30);
+  END IF;
+
+  NEW.balance_due := NEW.total - NEW.amount_paid;
+
+  IF NEW.status = 'void' THEN
+    IF NEW.amount_paid > 0 THEN
+      RAISE EXCEPTION 'Invoice % has payments applied; remove them before voiding it', NEW.invoice_number;
+    END IF;
+    NEW.voided_at := COALESCE(NEW.voided_at, now());
+  ELSIF NEW.status = 'draft' THEN
+    IF NEW.amount_paid > 0 THEN
+      RAISE EXCEPTION 'Invoice % has payments applied and cannot return to draft', NEW.invoice_number;
+    END IF;
+  ELSE
+    NEW.sent_at := COALESCE(NEW.sent_at, now());
+    NEW.status := CASE
+      WHEN NEW.amount_paid > 0 AND NEW.balance_due <= 0 THEN 'paid'
+      WHEN NEW.amount_paid > 0 THEN 'partially_paid'
+      ELSE 'sent'
+    END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_invoice
+  BEFORE INSERT OR UPDATE ON public.invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_invoice();
+
+-- Recompute an invoice's totals from its lines and payments
+CREATE OR REPLACE FUNCTION public.refresh_invoice_totals(p_invoice_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.invoices i SET
+    subtotal = lines.subtotal,
+    tax_total = lines.tax_total,
+    total = lines.subtotal + lines.tax_total,
+    amount_paid = payments.amount_paid
+  FROM
+    (SELECT COALESCE(SUM(amount), 0) AS subtotal, COALESCE(SUM(tax_amount), 0) AS tax_total
+     FROM public.invoice_lines WHERE invoice_id = p_invoice_id) lines,
+    (SELECT COALESCE(SUM(amount), 0) AS amount_paid
+     FROM public.invoice_payments WHERE invoice_id = p_invoice_id) payments
+  WHERE i.id = p_invoice_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_invoice_totals()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.refresh_invoice_totals(OLD.invoice_id);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND (TG_OP = 'INSERT' OR NEW.invoice_id <> OLD.invoice_id) THEN
+    PERFORM public.refresh_invoice_totals(NEW.invoice_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_invoice_line_totals
+  AFTER INSERT OR UPDATE OR DELETE ON public.invoice_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_invoice_totals();
+
+CREATE TRIGGER sync_invoice_payment_totals
+  AFTER INSERT OR UPDATE OR DELETE ON public.invoice_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_invoice_totals();
+
+-- Payments only go against sent invoices and never beyond what is owed
+CREATE OR REPLACE FUNCTION public.check_invoice_payment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice public.invoices;
+BEGIN
+  SELECT * INTO v_invoice FROM public.invoices WHERE id = NEW.invoice_id;
+
+  IF v_invoice.status IN ('draft', 'void') THEN
+    RAISE EXCEPTION 'Payments can only be applied to sent invoices (% is %)', v_invoice.invoice_number, v_invoice.status;
+  END IF;
+
+  IF NEW.amount > v_invoice.balance_due + CASE WHEN TG_OP = 'UPDATE' THEN OLD.amount ELSE 0 END THEN
+    RAISE EXCEPTION 'Payment of % is more than the % due on invoice %', NEW.amount, v_invoice.balance_due, v_invoice.invoice_number;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_invoice_payment
+  BEFORE INSERT OR UPDATE ON public.invoice_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_invoice_payment();
+
+-- (Re)build the journal entry for an invoice: nothing while it is a draft or
+-- void, otherwise Dr receivables for the total, Cr each line's revenue account
+-- and Cr Sales Tax Payable for the tax.
+CREATE OR REPLACE FUNCTION public.post_invoice_journal(p_invoice public.invoices)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry_id UUID;
+  v_description TEXT;
+BEGIN
+  IF p_invoice.status IN ('draft', 'void') OR p_invoice.total = 0 THEN
+    DELETE FROM public.journal_entries
+    WHERE source_type = 'invoice' AND source_id = p_invoice.id;
+    RETURN NULL;
+  END IF;
+
+  SELECT 'Invoice ' || p_invoice.invoice_number || ' - ' || name INTO v_description
+  FROM public.customers
+  WHERE id = p_invoice.customer_id;
+
+  INSERT INTO public.journal_entries (user_id, entry_date, description, reference_number, source_type, source_id)
+  VALUES (p_invoice.user_id, p_invoice.issue_date, v_description, p_invoice.invoice_number, 'invoice', p_invoice.id)
+  ON CONFLICT (source_type, source_id) DO UPDATE SET
+    entry_date = EXCLUDED.entry_date,
+    description = EXCLUDED.description,
+    reference_number = EXCLUDED.reference_number
+  RETURNING id INTO v_entry_id;
+
+  DELETE FROM public.journal_lines WHERE journal_entry_id = v_entry_id;
+
+  INSERT INTO public.journal_lines (journal_entry_id, user_id, account_id, debit, credit, description)
+  VALUES (v_entry_id, p_invoice.user_id, p_invoice.receivable_account_id, p_invoice.total, 0, v_description);
+
+  INSERT INTO public.journal_lines (journal_entry_id, user_id, account_id, debit, credit, description)
+  SELECT v_entry_id, p_invoice.user_id, l.revenue_account_id, 0, SUM(l.amount), v_description
+  FROM public.invoice_lines l
+  WHERE l.invoice_id = p_invoice.id
+  GROUP BY l.revenue_account_id
+  HAVING SUM(l.amount) > 0;
+
+  IF p_invoice.tax_total > 0 THEN
+    INSERT INTO public.journal_lines (journal_entry_id, user_id, account_id, debit, credit, description)
+    VALUES (
+      v_entry_id,
+      p_invoice.user_id,
+      public.ensure_account(p_invoice.user_id, '2200', 'Sales Tax Payable', 'liability'),
+      0,
+      p_invoice.tax_total,
+      v_description
+    );
+  END IF;
+
+  RETURN v_entry_id;
+END;
+$$;
+
+-- A customer's balance is what they owe on sent invoices
+CREATE OR REPLACE FUNCTION public.refresh_customer_balance(p_customer_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.customers c
+  SET balance = (
+    SELECT COALESCE(SUM(i.balance_due), 0)
+    FROM public.invoices i
+    WHERE i.customer_id = c.id AND i.status NOT IN ('draft', 'void')
+  )
+  WHERE c.id = p_customer_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_invoice()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM public.journal_entries
+    WHERE source_type = 'invoice' AND source_id = OLD.id;
+    PERFORM public.refresh_customer_balance(OLD.customer_id);
+    RETURN OLD;
+  END IF;
+
+  PERFORM public.post_invoice_journal(NEW);
+  PERFORM public.refresh_customer_balance(NEW.customer_id);
+  IF TG_OP = 'UPDATE' AND OLD.customer_id <> NEW.customer_id THEN
+    PERFORM public.refresh_customer_balance(OLD.customer_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_invoice
+  AFTER INSERT OR UPDATE OR DELETE ON public.invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_invoice();
+
+-- Apply a payment to an invoice. Without p_transaction_id the receipt is
+-- recorded as a new transaction into p_payment_account_id (Cash by default);
+-- with it, an existing deposit (e.g. an imported bank line) is matched instead
+-- and moved onto the receivables account so the sale is not counted twice.
+CREATE OR REPLACE FUNCTION public.record_invoice_payment(
+  p_invoice_id UUID,
+  p_amount NUMERIC,
+  p_payment_date DATE DEFAULT CURRENT_DATE,
+  p_payment_account_id UUID DEFAULT NULL,
+  p_transaction_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_invoice public.invoices;
+  v_transaction_id UUID := p_transaction_id;
+  v_payment_id UUID;
+BEGIN
+  SELECT * INTO v_invoice
+  FROM public.invoices
+  WHERE id = p_invoice_id AND user_id = v_user_id;
+
+  IF v_invoice.id IS NULL THEN
+    RAISE EXCEPTION 'Invoice % not found', p_invoice_id;
+  END IF;
+
+  IF v_transaction_id IS NULL THEN
+    INSERT INTO public.transactions (
+      user_id, amount, description, transaction_date, reference_number,
+      account_id, payment_account_id, customer_id
+    ) VALUES (
+      v_user_id, p_amount, 'Payment for invoice ' || v_invoice.invoice_number, p_payment_date, v_invoice.invoice_number,
+      v_invoice.receivable_account_id, p_payment_account_id, v_invoice.customer_id
+    )
+    RETURNING id INTO v_transaction_id;
+  ELSE
+    UPDATE public.transactions
+    SET account_id = v_invoice.receivable_account_id,
+        customer_id = v_invoice.customer_id
+    WHERE id = v_transaction_id AND user_id = v_user_id AND amount >= p_amount;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Transaction % not found or smaller than the payment', v_transaction_id;
+    END IF;
+  END IF;
+
+  INSERT INTO public.invoice_payments (invoice_id, user_id, transaction_id, amount, payment_date, created_transaction)
+  VALUES (p_invoice_id, v_user_id, v_transaction_id, p_amount, p_payment_date, p_transaction_id IS NULL)
+  RETURNING id INTO v_payment_id;
+
+  RETURN v_payment_id;
+END;
+$$;
+
+-- Take a payment off its invoice, deleting the receipt if it was recorded for it
+CREATE OR REPLACE FUNCTION public.remove_invoice_payment(p_payment_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_payment public.invoice_payments;
+BEGIN
+  SELECT * INTO v_payment
+  FROM public.invoice_payments
+  WHERE id = p_payment_id AND user_id = auth.uid();
+
+  IF v_payment.id IS NULL THEN
+    RAISE EXCEPTION 'Payment % not found', p_payment_id;
+  END IF;
+
+  DELETE FROM public.invoice_payments WHERE id = p_payment_id;
+
+  IF v_payment.created_transaction THEN
+    DELETE FROM public.transactions WHERE id = v_payment.transaction_id;
+  END IF;
+END;
+$$;
+
+-- Refresh the customer cards when invoices change
+ALTER PUBLICATION supabase_realtime ADD TABLE public.invoices;
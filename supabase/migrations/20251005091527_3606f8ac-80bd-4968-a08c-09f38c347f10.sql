@@ -0,0 +1,631 @@
+-- Vendor bills (accounts payable).
+-- A bill is a draft until it is entered as open. Open bills post to the
+-- journal (Dr each line's expense account, Cr Accounts Payable) and are settled
+-- by payments: each payment is a transaction moving money out of a bank or
+-- cash account against payables, linked to the bill through bill_payments.
+-- Totals, status and the vendor's balance are maintained by triggers, as for
+-- invoices. A payment can be scheduled ahead of time on the bill itself.
+CREATE TYPE public.bill_status AS ENUM ('draft', 'open', 'partially_paid', 'paid', 'void');
+
+CREATE TABLE public.bills (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  vendor_id UUID NOT NULL REFERENCES public.vendors(id) ON DELETE RESTRICT,
+  -- The vendor's own invoice number
+  bill_number TEXT,
+  bill_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  -- Defaults to bill_date plus the vendor's payment terms
+  due_date DATE NOT NULL,
+  status public.bill_status NOT NULL DEFAULT 'draft',
+  -- Accounts Payable (2000) when not given
+  payable_account_id UUID REFERENCES public.accounts(id) ON DELETE RESTRICT,
+  subtotal NUMERIC(15,2) NOT NULL DEFAULT 0,
+  tax_total NUMERIC(15,2) NOT NULL DEFAULT 0,
+  total NUMERIC(15,2) NOT NULL DEFAULT 0,
+  amount_paid NUMERIC(15,2) NOT NULL DEFAULT 0,
+  balance_due NUMERIC(15,2) NOT NULL DEFAULT 0,
+  -- When the payment is planned and the account it will be paid from
+  scheduled_payment_date DATE,
+  payment_account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL,
+  notes TEXT,
+  voided_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (due_date >= bill_date)
+);
+
+CREATE TABLE public.bill_lines (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  bill_id UUID NOT NULL REFERENCES public.bills(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  description TEXT NOT NULL,
+  quantity NUMERIC(15,4) NOT NULL DEFAULT 1,
+  unit_price NUMERIC(15,2) NOT NULL DEFAULT 0,
+  -- Set from quantity and unit_price
+  amount NUMERIC(15,2) NOT NULL DEFAULT 0,
+  -- Tax charged by the vendor, expensed with the line
+  tax_amount NUMERIC(15,2) NOT NULL DEFAULT 0 CHECK (tax_amount >= 0),
+  expense_account_id UUID REFERENCES public.accounts(id) ON DELETE RESTRICT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.bill_payments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  bill_id UUID NOT NULL REFERENCES public.bills(id) ON DELETE RESTRICT,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- The payment out; deleting it removes the payment from the bill
+  transaction_id UUID NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  amount NUMERIC(15,2) NOT NULL CHECK (amount > 0),
+  payment_date DATE NOT NULL,
+  -- Whether the payment was recorded for this bill rather than matched to an existing one
+  created_transaction BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Vendor invoices uploaded in chat can be kept with the bill made from them
+ALTER TABLE public.attachments
+ADD COLUMN bill_id UUID REFERENCES public.bills(id) ON DELETE SET NULL;
+
+ALTER TABLE public.bills ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bill_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bill_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own bills" ON public.bills
+  FOR ALL USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own bill lines" ON public.bill_lines
+  FOR ALL USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own bill payments" ON public.bill_payments
+  FOR ALL USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_bills_updated_at
+  BEFORE UPDATE ON public.bills
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_bills_vendor_id ON public.bills(vendor_id, status);
+CREATE INDEX idx_bills_user_due_date ON public.bills(user_id, due_date);
+CREATE INDEX idx_bill_lines_bill_id ON public.bill_lines(bill_id);
+CREATE INDEX idx_bill_payments_bill_id ON public.bill_payments(bill_id);
+CREATE INDEX idx_bill_payments_transaction_id ON public.bill_payments(transaction_id);
+CREATE INDEX idx_attachments_bill_id ON public.attachments(bill_id);
+
+ALTER TABLE public.journal_entries DROP CONSTRAINT journal_entries_source_type_check;
+ALTER TABLE public.journal_entries
+ADD CONSTRAINT journal_entries_source_type_check CHECK (source_type IN ('manual', 'transaction', 'invoice', 'bill'));
+
+CREATE OR REPLACE FUNCTION public.prepare_bill_line()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.amount := round(NEW.quantity * NEW.unit_price, 2);
+
+  IF NEW.expense_account_id IS NULL THEN
+    SELECT id INTO NEW.expense_account_id
+    FROM public.accounts
+    WHERE user_id = NEW.user_id AND account_type = 'expense'
+    ORDER BY (code = '5000') DESC NULLS LAST, code NULLS LAST, created_at
+    LIMIT 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_bill_line
+  BEFORE INSERT OR UPDATE ON public.bill_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_bill_line();
+
+-- Defaults, balance due and status for a bill. Draft and void are set by the
+-- user; every other status follows from what has been paid.
+CREATE OR REPLACE FUNCTION public.prepare_bill()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_terms INTEGER;
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.payable_account_id IS NULL THEN
+    NEW.payable_account_id := public.ensure_account(NEW.user_id, '2000', 'Accounts Payable', 'liability');
+  END IF;
+
+  IF NEW.due_date IS NULL THEN
+    SELECT COALESCE(payment_terms, 30) INTO v_terms
+    FROM public.vendors
+    WHERE id = NEW.vendor_id;
+
+    NEW.due_date := NEW.bill_date + COALESCE(v_terms, 30);
+  END IF;
+
+  NEW.balance_due := NEW.total - NEW.amount_paid;
+
+  IF NEW.status = 'void' THEN
+    IF NEW.amount_paid > 0 THEN
+      RAISE EXCEPTION 'Bill % has payments applied; remove them before voiding it', COALESCE(NEW.bill_number, NEW.id::TEXT);
+    END IF;
+    NEW.voided_at := COALESCE(NEW.voided_at, now());
+  ELSIF NEW.status = 'draft' THEN
+    IF NEW.amount_paid > 0 THEN
+      RAISE EXCEPTION 'Bill % has payments applied and cannot return to draft', COALESCE(NEW.bill_number, NEW.id::TEXT);
+    END IF;
+  ELSE
+    NEW.status := CASE
+      WHEN NEW.amount_paid > 0 AND NEW.balance_due <= 0 THEN 'paid'
+      WHEN NEW.amount_paid > 0 THEN 'partially_paid'
+      ELSE 'open'
+    END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_bill
+  BEFORE INSERT OR UPDATE ON public.bills
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_bill();
+
+-- Recompute a bill's totals from its lines and payments
+CREATE OR REPLACE FUNCTION public.refresh_bill_totals(p_bill_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.bills b SET
+    subtotal = lines.subtotal,
+    tax_total = lines.tax_total,
+    total = lines.subtotal + lines.tax_total,
+    amount_paid = payments.amount_paid
+  FROM
+    (SELECT COALESCE(SUM(amount), 0) AS subtotal, COALESCE(SUM(tax_amount), 0) AS tax_total
+     FROM public.bill_lines WHERE bill_id = p_bill_id) lines,
+    (SELECT COALESCE(SUM(amount), 0) AS amount_paid
+     FROM public.bill_payments WHERE bill_id = p_bill_id) payments
+  WHERE b.id = p_bill_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_bill_totals()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.refresh_bill_totals(OLD.bill_id);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND (TG_OP = 'INSERT' OR NEW.bill_id <> OLD.bill_id) THEN
+    PERFORM public.refresh_bill_totals(NEW.bill_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_bill_line_totals
+  AFTER INSERT OR UPDATE OR DELETE ON public.bill_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_bill_totals();
+
+CREATE TRIGGER sync_bill_payment_totals
+  AFTER INSERT OR UPDATE OR DELETE ON public.bill_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_bill_totals();
+
+-- Payments only go against open bills and never beyond what is owed
+CREATE OR REPLACE FUNCTION public.check_bill_payment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_bill public.bills;
+BEGIN
+  SELECT * INTO v_bill FROM public.bills WHERE id = NEW.bill_id;
+
+  IF v_bill.status IN ('draft', 'void') THEN
+    RAISE EXCEPTION 'Payments can only be applied to open bills (this bill is %)', v_bill.status;
+  END IF;
+
+  IF NEW.amount > v_bill.balance_due + CASE WHEN TG_OP = 'UPDATE' THEN OLD.amount ELSE 0 END THEN
+    RAISE EXCEPTION 'Payment of % is more than the % due on the bill', NEW.amount, v_bill.balance_due;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_bill_payment
+  BEFORE INSERT OR UPDATE ON public.bill_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_bill_payment();
+
+-- (Re)build the journal entry for a bill: nothing while it is a draft or void,
+-- otherwise Dr each line's expense account (tax included) and Cr payables for
+-- the total.
+CREATE OR REPLACE FUNCTION public.post_bill_journal(p_bill public.bills)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry_id UUID;
+  v_description TEXT;
+BEGIN
+  IF p_bill.status IN ('draft', 'void') OR p_bill.total = 0 THEN
+    DELETE FROM public.journal_entries
+    WHERE source_type = 'bill' AND source_id = p_bill.id;
+    RETURN NULL;
+  END IF;
+
+  SELECT 'Bill ' || COALESCE(p_bill.bill_number || ' ', '') || '- ' || name INTO v_description
+  FROM public.vendors
+  WHERE id = p_bill.vendor_id;
+
+  INSERT INTO public.journal_entries (user_id, entry_date, description, reference_number, source_type, source_id)
+  VALUES (p_bill.user_id, p_bill.bill_date, v_description, p_bill.bill_number, 'bill', p_bill.id)
+  ON CONFLICT (source_type, source_id) DO UPDATE SET
+    entry_date = EXCLUDED.entry_date,
+    description = EXCLUDED.description,
+    reference_number = EXCLUDED.reference_number
+  RETURNING id INTO v_entry_id;
+
+  DELETE FROM public.journal_lines WHERE journal_entry_id = v_entry_id;
+
+  INSERT INTO public.journal_lines (journal_entry_id, user_id, account_id, debit, credit, description)
+  SELECT v_entry_id, p_bill.user_id, l.expense_account_id, SUM(l.amount + l.tax_amount), 0, v_description
+  FROM public.bill_lines l
+  WHERE l.bill_id = p_bill.id
+  GROUP BY l.expense_account_id
+  HAVING SUM(l.amount + l.tax_amount) > 0;
+
+  INSERT INTO public.journal_lines (journal_entry_id, user_id, account_id, debit, credit, description)
+  VALUES (v_entry_id, p_bill.user_id, p_bill.payable_account_id, 0, p_bill.total, v_description);
+
+  RETURN v_entry_id;
+END;
+$$;
+
+-- A vendor's balance is what is still owed on open bills
+CREATE OR REPLACE FUNCTION public.refresh_vendor_balance(p_vendor_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.vendors v
+  SET balance = (
+    SELECT COALESCE(SUM(b.balance_due), 0)
+    FROM public.bills b
+    WHERE b.vendor_id = v.id AND b.status NOT IN ('draft', 'void')
+  )
+  WHERE v.id = p_vendor_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_bill()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM public.journal_entries
+    WHERE source_type = 'bill' AND source_id = OLD.id;
+    PERFORM public.refresh_vendor_balance(OLD.vendor_id);
+    RETURN OLD;
+  END IF;
+
+  PERFORM public.post_bill_journal(NEW);
+  PERFORM public.refresh_vendor_balance(NEW.vendor_id);
+  IF TG_OP = 'UPDATE' AND OLD.vendor_id <> NEW.vendor_id THEN
+    PERFORM public.refresh_vendor_balance(OLD.vendor_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_bill
+  AFTER INSERT OR UPDATE OR DELETE ON public.bills
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_bill();
+
+-- Pay a bill. Without p_transaction_id the payment is recorded as a new
+-- transaction out of p_payment_account_id (the bill's scheduled account, or
+-- Cash); with it, an existing payment (e.g. an imported bank line) is matched
+-- instead and moved onto the payables account so the expense is not counted twice.
+CREATE OR REPLACE FUNCTION public.record_bill_payment(
+  p_bill_id UUID,
+  p_amount NUMERIC,
+  p_payment_date DATE DEFAULT CURRENT_DATE,
+  p_payment_account_id UUID DEFAULT NULL,
+  p_transaction_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_bill public.bills;
+  v_vendor_name TEXT;
+  v_transaction_id UUID := p_transaction_id;
+  v_payment_id UUID;
+BEGIN
+  SELECT * INTO v_bill
+  FROM public.bills
+  WHERE id = p_bill_id AND user_id = v_user_id;
+
+  IF v_bill.id IS NULL THEN
+    RAISE EXCEPTION 'Bill % not found', p_bill_id;
+  END IF;
+
+  IF v_transaction_id IS NULL THEN
+    SELECT name INTO v_vendor_name FROM public.vendors WHERE id = v_bill.vendor_id;
+
+    INSERT INTO public.transactions (
+      user_id, amount, description, transaction_date, reference_number,
+      account_id, payment_account_id, vendor_id
+    ) VALUES (
+      v_user_id, -p_amount, 'Payment to ' || v_vendor_name || COALESCE(' for bill ' || v_bill.bill_number, ''), p_payment_date, v_bill.bill_number,
+      v_bill.payable_account_id, COALESCE(p_payment_account_id, v_bill.payment_account_id), v_bill.vendor_id
+    )
+    RETURNING id INTO v_transaction_id;
+  ELSE
+    UPDATE public.transactions
+    SET account_id = v_bill.payable_account_id,
+        vendor_id = v_bill.vendor_id
+    WHERE id = v_transaction_id AND user_id = v_user_id AND amount <= -p_amount;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Transaction % not found or smaller than the payment', v_transaction_id;
+    END IF;
+  END IF;
+
+  INSERT INTO public.bill_payments (bill_id, user_id, transaction_id, amount, payment_date, created_transaction)
+  VALUES (p_bill_id, v_user_id, v_transaction_id, p_amount, p_payment_date, p_transaction_id IS NULL)
+  RETURNING id INTO v_payment_id;
+
+  RETURN v_payment_id;
+END;
+$$;
+
+-- Take a payment off its bill, deleting the payment transaction if it was recorded for it
+CREATE OR REPLACE FUNCTION public.remove_bill_payment(p_payment_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_payment public.bill_payments;
+BEGIN
+  SELECT * INTO v_payment
+  FROM public.bill_payments
+  WHERE id = p_payment_id AND user_id = auth.uid();
+
+  IF v_payment.id IS NULL THEN
+    RAISE EXCEPTION 'Payment % not found', p_payment_id;
+  END IF;
+
+  DELETE FROM public.bill_payments WHERE id = p_payment_id;
+
+  IF v_payment.created_transaction THEN
+    DELETE FROM public.transactions WHERE id = v_payment.transaction_id;
+  END IF;
+END;
+$$;
+
+-- Bills can be entered and scheduled from chat
+CREATE OR REPLACE FUNCTION public.execute_ledger_actions(
+  p_user_id UUID,
+  p_actions JSONB,
+  p_conversation_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_item JSONB;
+  v_action TEXT;
+  v_data JSONB;
+  v_id UUID;
+  v_index INTEGER := 0;
+  v_refs JSONB := '{}'::jsonb;
+  v_results JSONB := '[]'::jsonb;
+BEGIN
+  IF jsonb_typeof(p_actions) <> 'array' OR jsonb_array_length(p_actions) = 0 THEN
+    RAISE EXCEPTION 'Expected a non-empty list of actions';
+  END IF;
+
+  FOR v_item IN SELECT value FROM jsonb_array_elements(p_actions) LOOP
+    v_index := v_index + 1;
+    v_action := v_item ->> 'action';
+    v_id := NULL;
+
+    BEGIN
+      v_data := public.resolve_action_refs(COALESCE(v_item -> 'data', '{}'::jsonb), v_refs);
+
+      CASE v_action
+        WHEN 'CREATE_TRANSACTION' THEN
+          INSERT INTO public.transactions (
+            user_id, amount, description, account_id, payment_account_id, category_id,
+            customer_id, vendor_id, transaction_date, notes, conversation_id
+          ) VALUES (
+            p_user_id,
+            (v_data ->> 'amount')::NUMERIC,
+            v_data ->> 'description',
+            (v_data ->> 'account_id')::UUID,
+            NULLIF(v_data ->> 'payment_account_id', '')::UUID,
+            NULLIF(v_data ->> 'category_id', '')::UUID,
+            NULLIF(v_data ->> 'customer_id', '')::UUID,
+            NULLIF(v_data ->> 'vendor_id', '')::UUID,
+            COALESCE(NULLIF(v_data ->> 'transaction_date', '')::DATE, CURRENT_DATE),
+            COALESCE(v_data ->> 'notes', ''),
+            p_conversation_id
+          )
+          RETURNING id INTO v_id;
+
+        WHEN 'UPDATE_TRANSACTION' THEN
+          -- Only the fields present in data are changed
+          UPDATE public.transactions SET
+            amount = CASE WHEN v_data ? 'amount' THEN (v_data ->> 'amount')::NUMERIC ELSE amount END,
+            description = CASE WHEN v_data ? 'description' THEN v_data ->> 'description' ELSE description END,
+            account_id = CASE WHEN v_data ? 'account_id' THEN (v_data ->> 'account_id')::UUID ELSE account_id END,
+            payment_account_id = CASE WHEN v_data ? 'payment_account_id' THEN NULLIF(v_data ->> 'payment_account_id', '')::UUID ELSE payment_account_id END,
+            category_id = CASE WHEN v_data ? 'category_id' THEN NULLIF(v_data ->> 'category_id', '')::UUID ELSE category_id END,
+            customer_id = CASE WHEN v_data ? 'customer_id' THEN NULLIF(v_data ->> 'customer_id', '')::UUID ELSE customer_id END,
+            vendor_id = CASE WHEN v_data ? 'vendor_id' THEN NULLIF(v_data ->> 'vendor_id', '')::UUID ELSE vendor_id END,
+            transaction_date = CASE WHEN v_data ? 'transaction_date' THEN (v_data ->> 'transaction_date')::DATE ELSE transaction_date END,
+            notes = CASE WHEN v_data ? 'notes' THEN v_data ->> 'notes' ELSE notes END
+          WHERE id = (v_data ->> 'id')::UUID
+          AND user_id = p_user_id
+          RETURNING id INTO v_id;
+
+          IF v_id IS NULL THEN
+            RAISE EXCEPTION 'Transaction % not found', v_data ->> 'id';
+          END IF;
+
+        WHEN 'CREATE_JOURNAL_ENTRY' THEN
+          v_id := public.create_journal_entry(
+            p_user_id,
+            NULLIF(v_data ->> 'entry_date', '')::DATE,
+            v_data ->> 'description',
+            v_data -> 'lines',
+            v_data ->> 'reference_number',
+            p_conversation_id
+          );
+
+        WHEN 'CREATE_BILL' THEN
+          INSERT INTO public.bills (
+            user_id, vendor_id, bill_number, bill_date, due_date, status,
+            scheduled_payment_date, payment_account_id, notes
+          ) VALUES (
+            p_user_id,
+            (v_data ->> 'vendor_id')::UUID,
+            NULLIF(v_data ->> 'bill_number', ''),
+            COALESCE(NULLIF(v_data ->> 'bill_date', '')::DATE, CURRENT_DATE),
+            NULLIF(v_data ->> 'due_date', '')::DATE,
+            'open',
+            NULLIF(v_data ->> 'scheduled_payment_date', '')::DATE,
+            NULLIF(v_data ->> 'payment_account_id', '')::UUID,
+            NULLIF(v_data ->> 'notes', '')
+          )
+          RETURNING id INTO v_id;
+
+          INSERT INTO public.bill_lines (bill_id, user_id, position, description, quantity, unit_price, tax_amount, expense_account_id)
+          SELECT
+            v_id,
+            p_user_id,
+            (line.ordinality - 1)::INTEGER,
+            line.value ->> 'description',
+            1,
+            (line.value ->> 'amount')::NUMERIC,
+            COALESCE((line.value ->> 'tax_amount')::NUMERIC, 0),
+            NULLIF(line.value ->> 'account_id', '')::UUID
+          FROM jsonb_array_elements(v_data -> 'lines') WITH ORDINALITY AS line(value, ordinality);
+
+        WHEN 'SCHEDULE_BILL_PAYMENT' THEN
+          UPDATE public.bills SET
+            scheduled_payment_date = (v_data ->> 'scheduled_payment_date')::DATE,
+            payment_account_id = CASE WHEN v_data ? 'payment_account_id' THEN NULLIF(v_data ->> 'payment_account_id', '')::UUID ELSE payment_account_id END
+          WHERE id = (v_data ->> 'bill_id')::UUID
+          AND user_id = p_user_id
+          AND status IN ('draft', 'open', 'partially_paid')
+          RETURNING id INTO v_id;
+
+          IF v_id IS NULL THEN
+            RAISE EXCEPTION 'Unpaid bill % not found', v_data ->> 'bill_id';
+          END IF;
+
+        WHEN 'CREATE_BUDGET' THEN
+          INSERT INTO public.budgets (user_id, name, amount, budget_type, category_id, account_id, start_date, end_date)
+          VALUES (
+            p_user_id,
+            v_data ->> 'name',
+            (v_data ->> 'amount')::NUMERIC,
+            v_data ->> 'budget_type',
+            NULLIF(v_data ->> 'category_id', '')::UUID,
+            NULLIF(v_data ->> 'account_id', '')::UUID,
+            (v_data ->> 'start_date')::DATE,
+            (v_data ->> 'end_date')::DATE
+          )
+          RETURNING id INTO v_id;
+
+        WHEN 'CREATE_CATEGORY' THEN
+          INSERT INTO public.categories (user_id, name, description, color)
+          VALUES (p_user_id, v_data ->> 'name', v_data ->> 'description', COALESCE(v_data ->> 'color', '#6366f1'))
+          RETURNING id INTO v_id;
+
+        WHEN 'CREATE_ACCOUNT' THEN
+          INSERT INTO public.accounts (user_id, name, account_type, code, parent_account_id)
+          VALUES (
+            p_user_id,
+            v_data ->> 'name',
+            (v_data ->> 'account_type')::public.account_type,
+            NULLIF(v_data ->> 'code', ''),
+            NULLIF(v_data ->> 'parent_account_id', '')::UUID
+          )
+          RETURNING id INTO v_id;
+
+        WHEN 'CREATE_CUSTOMER' THEN
+          INSERT INTO public.customers (user_id, name, email, phone, company_name, customer_type)
+          VALUES (
+            p_user_id,
+            v_data ->> 'name',
+            NULLIF(v_data ->> 'email', ''),
+            NULLIF(v_data ->> 'phone', ''),
+            NULLIF(v_data ->> 'company_name', ''),
+            COALESCE(NULLIF(v_data ->> 'customer_type', ''), 'customer')
+          )
+          RETURNING id INTO v_id;
+
+        WHEN 'CREATE_VENDOR' THEN
+          INSERT INTO public.vendors (user_id, name, email, phone, company_name, vendor_type)
+          VALUES (
+            p_user_id,
+            v_data ->> 'name',
+            NULLIF(v_data ->> 'email', ''),
+            NULLIF(v_data ->> 'phone', ''),
+            NULLIF(v_data ->> 'company_name', ''),
+            COALESCE(NULLIF(v_data ->> 'vendor_type', ''), 'vendor')
+          )
+          RETURNING id INTO v_id;
+
+        ELSE
+          RAISE EXCEPTION 'Unsupported action "%"', v_action;
+      END CASE;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE EXCEPTION 'Action % (%) failed: %', v_index, v_action, SQLERRM;
+    END;
+
+    IF v_item ? 'ref' THEN
+      v_refs := v_refs || jsonb_build_object(v_item ->> 'ref', v_id);
+    END IF;
+
+    v_results := v_results || jsonb_build_array(jsonb_build_object(
+      'index', v_index,
+      'action', v_action,
+      'ref', v_item ->> 'ref',
+      'id', v_id,
+      'data', v_data
+    ));
+  END LOOP;
+
+  RETURN v_results;
+END;
+$$;
+
+-- Refresh the vendor cards and payment schedule when bills change
+ALTER PUBLICATION supabase_realtime ADD TABLE public.bills;
@@ -0,0 +1,116 @@
+-- Aged receivables and payables.
+-- One row per invoice or bill with an open amount as of p_as_of: documents
+-- dated on or before that day, less the payments made by then. Rows carry the
+-- aging bucket their due date falls in, so the customer and vendor totals can
+-- drill straight into the documents behind them.
+
+-- current (not yet due), 1_30, 31_60, 61_90 or over_90 days past due
+CREATE OR REPLACE FUNCTION public.aging_bucket(p_due_date DATE, p_as_of DATE)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_as_of - p_due_date <= 0 THEN 'current'
+    WHEN p_as_of - p_due_date <= 30 THEN '1_30'
+    WHEN p_as_of - p_due_date <= 60 THEN '31_60'
+    WHEN p_as_of - p_due_date <= 90 THEN '61_90'
+    ELSE 'over_90'
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.aged_receivables(p_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS TABLE (
+  party_id UUID,
+  party_name TEXT,
+  credit_limit NUMERIC,
+  document_id UUID,
+  document_number TEXT,
+  document_date DATE,
+  due_date DATE,
+  days_overdue INTEGER,
+  bucket TEXT,
+  open_amount NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF p_as_of IS NULL THEN
+    RAISE EXCEPTION 'An aging date is required';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.name,
+    COALESCE(c.credit_limit, 0),
+    i.id,
+    i.invoice_number,
+    i.issue_date,
+    i.due_date,
+    GREATEST(p_as_of - i.due_date, 0),
+    public.aging_bucket(i.due_date, p_as_of),
+    i.total - COALESCE(paid.amount, 0)
+  FROM public.invoices i
+  JOIN public.customers c ON c.id = i.customer_id
+  LEFT JOIN LATERAL (
+    SELECT SUM(p.amount) AS amount
+    FROM public.invoice_payments p
+    WHERE p.invoice_id = i.id AND p.payment_date <= p_as_of
+  ) paid ON true
+  WHERE i.user_id = auth.uid()
+    AND i.status NOT IN ('draft', 'void')
+    AND i.issue_date <= p_as_of
+    AND i.total - COALESCE(paid.amount, 0) > 0;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.aged_payables(p_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS TABLE (
+  party_id UUID,
+  party_name TEXT,
+  credit_limit NUMERIC,
+  document_id UUID,
+  document_number TEXT,
+  document_date DATE,
+  due_date DATE,
+  days_overdue INTEGER,
+  bucket TEXT,
+  open_amount NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF p_as_of IS NULL THEN
+    RAISE EXCEPTION 'An aging date is required';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    v.id,
+    v.name,
+    COALESCE(v.credit_limit, 0),
+    b.id,
+    b.bill_number,
+    b.bill_date,
+    b.due_date,
+    GREATEST(p_as_of - b.due_date, 0),
+    public.aging_bucket(b.due_date, p_as_of),
+    b.total - COALESCE(paid.amount, 0)
+  FROM public.bills b
+  JOIN public.vendors v ON v.id = b.vendor_id
+  LEFT JOIN LATERAL (
+    SELECT SUM(p.amount) AS amount
+    FROM public.bill_payments p
+    WHERE p.bill_id = b.id AND p.payment_date <= p_as_of
+  ) paid ON true
+  WHERE b.user_id = auth.uid()
+    AND b.status NOT IN ('draft', 'void')
+    AND b.bill_date <= p_as_of
+    AND b.total - COALESCE(paid.amount, 0) > 0;
+END;
+$$;
@@ -0,0 +1,459 @@
+-- Recurring transactions and bills (rent, subscriptions, payroll).
+-- A schedule holds a template in the shape CREATE_TRANSACTION or CREATE_BILL
+-- takes in execute_ledger_actions, and how often to repeat it. Due runs are
+-- generated by run_recurring_schedules, which the app calls when it opens and
+-- the assistant calls before each reply. Each run is recorded in
+-- recurring_runs, keyed by schedule and date, so running it again never
+-- posts the same occurrence twice.
+CREATE TYPE public.recurrence_frequency AS ENUM ('daily', 'weekly', 'monthly', 'yearly');
+
+CREATE TABLE public.recurring_schedules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- What each run creates: a transaction or a bill
+  kind TEXT NOT NULL DEFAULT 'transaction' CHECK (kind IN ('transaction', 'bill')),
+  -- CREATE_TRANSACTION or CREATE_BILL data, without the date
+  template JSONB NOT NULL DEFAULT '{}'::jsonb,
+  frequency public.recurrence_frequency NOT NULL DEFAULT 'monthly',
+  -- Every N days, weeks, months or years
+  interval_count INTEGER NOT NULL DEFAULT 1 CHECK (interval_count > 0),
+  -- The first run; later runs keep its day of the month, clamped to short months
+  start_date DATE NOT NULL,
+  -- End conditions: no runs after end_date, or after max_occurrences runs
+  end_date DATE,
+  max_occurrences INTEGER CHECK (max_occurrences > 0),
+  occurrences_count INTEGER NOT NULL DEFAULT 0,
+  last_run_date DATE,
+  -- Why the last attempt to generate a run failed, until one succeeds
+  last_error TEXT,
+  -- Maintained by prepare_recurring_schedule; null once the schedule has ended
+  next_run_date DATE,
+  -- Paused schedules keep their next run but generate nothing
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE TABLE public.recurring_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  schedule_id UUID NOT NULL REFERENCES public.recurring_schedules(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  run_date DATE NOT NULL,
+  -- What the run created. Deleting it keeps the run, so it is not generated again.
+  transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+  bill_id UUID REFERENCES public.bills(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(schedule_id, run_date)
+);
+
+ALTER TABLE public.recurring_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recurring_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own recurring schedules" ON public.recurring_schedules
+  FOR ALL USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own recurring runs" ON public.recurring_runs
+  FOR ALL USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_recurring_schedules_updated_at
+  BEFORE UPDATE ON public.recurring_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_recurring_schedules_next_run ON public.recurring_schedules(user_id, next_run_date) WHERE is_active;
+CREATE INDEX idx_recurring_runs_schedule_id ON public.recurring_runs(schedule_id, run_date);
+
+-- The p_index-th run (0 for the first) counted from p_start. Months and years
+-- are added to the start date rather than to the previous run, so a schedule
+-- on the 31st runs on the 30th in April and the 31st again in May.
+CREATE OR REPLACE FUNCTION public.recurrence_date(
+  p_start DATE,
+  p_frequency public.recurrence_frequency,
+  p_interval INTEGER,
+  p_index INTEGER
+)
+RETURNS DATE
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_frequency
+    WHEN 'daily' THEN p_start + p_index * p_interval
+    WHEN 'weekly' THEN p_start + p_index * p_interval * 7
+    WHEN 'monthly' THEN (p_start + make_interval(months => p_index * p_interval))::DATE
+    ELSE (p_start + make_interval(years => p_index * p_interval))::DATE
+  END;
+$$;
+
+-- First run of a schedule after p_after
+CREATE OR REPLACE FUNCTION public.next_recurrence_date(
+  p_start DATE,
+  p_frequency public.recurrence_frequency,
+  p_interval INTEGER,
+  p_after DATE
+)
+RETURNS DATE
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_months INTEGER := (EXTRACT(YEAR FROM p_after)::INTEGER - EXTRACT(YEAR FROM p_start)::INTEGER) * 12
+    + EXTRACT(MONTH FROM p_after)::INTEGER - EXTRACT(MONTH FROM p_start)::INTEGER;
+  v_index INTEGER;
+BEGIN
+  -- Start just before the answer and step forward
+  v_index := GREATEST(CASE p_frequency
+    WHEN 'daily' THEN (p_after - p_start) / p_interval
+    WHEN 'weekly' THEN (p_after - p_start) / (7 * p_interval)
+    WHEN 'monthly' THEN v_months / p_interval
+    ELSE v_months / (12 * p_interval)
+  END - 1, 0);
+
+  WHILE public.recurrence_date(p_start, p_frequency, p_interval, v_index) <= p_after LOOP
+    v_index := v_index + 1;
+  END LOOP;
+
+  RETURN public.recurrence_date(p_start, p_frequency, p_interval, v_index);
+END;
+$$;
+
+-- Check the template and work out the next run from the last one
+CREATE OR REPLACE FUNCTION public.prepare_recurring_schedule()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.kind = 'transaction' AND NOT NEW.template ?& ARRAY['amount', 'description', 'account_id'] THEN
+    RAISE EXCEPTION 'A recurring transaction needs an amount, description and account';
+  END IF;
+
+  IF NEW.kind = 'bill' AND (NOT NEW.template ? 'vendor_id' OR jsonb_typeof(NEW.template -> 'lines') IS DISTINCT FROM 'array') THEN
+    RAISE EXCEPTION 'A recurring bill needs a vendor and lines';
+  END IF;
+
+  NEW.next_run_date := public.next_recurrence_date(
+    NEW.start_date, NEW.frequency, NEW.interval_count, COALESCE(NEW.last_run_date, NEW.start_date - 1)
+  );
+
+  IF (NEW.end_date IS NOT NULL AND NEW.next_run_date > NEW.end_date)
+    OR (NEW.max_occurrences IS NOT NULL AND NEW.occurrences_count >= NEW.max_occurrences) THEN
+    NEW.next_run_date := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_recurring_schedule
+  BEFORE INSERT OR UPDATE ON public.recurring_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_recurring_schedule();
+
+-- Generate every run due on or before p_as_of (for one schedule, or all of
+-- the caller's active schedules) and return how many were created. Schedules
+-- are locked while they run and runs are unique per date, so overlapping or
+-- repeated calls never post an occurrence twice. A schedule whose template no
+-- longer works (e.g. its account was deleted) keeps the error in last_error
+-- and does not stop the others.
+CREATE OR REPLACE FUNCTION public.run_recurring_schedules(
+  p_as_of DATE DEFAULT CURRENT_DATE,
+  p_schedule_id UUID DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_schedule public.recurring_schedules;
+  v_run_id UUID;
+  v_record_id UUID;
+  v_schedule_created INTEGER;
+  v_created INTEGER := 0;
+BEGIN
+  FOR v_schedule IN
+    SELECT *
+    FROM public.recurring_schedules
+    WHERE user_id = auth.uid()
+      AND is_active
+      AND next_run_date <= p_as_of
+      AND (p_schedule_id IS NULL OR id = p_schedule_id)
+    ORDER BY next_run_date
+    FOR UPDATE
+  LOOP
+    v_schedule_created := 0;
+    BEGIN
+      WHILE v_schedule.next_run_date IS NOT NULL AND v_schedule.next_run_date <= p_as_of LOOP
+        v_run_id := NULL;
+
+        INSERT INTO public.recurring_runs (schedule_id, user_id, run_date)
+        VALUES (v_schedule.id, v_schedule.user_id, v_schedule.next_run_date)
+        ON CONFLICT (schedule_id, run_date) DO NOTHING
+        RETURNING id INTO v_run_id;
+
+        IF v_run_id IS NOT NULL THEN
+          v_record_id := (public.execute_ledger_actions(
+            v_schedule.user_id,
+            jsonb_build_array(CASE v_schedule.kind
+              WHEN 'bill' THEN jsonb_build_object(
+                'action', 'CREATE_BILL',
+                'data', v_schedule.template || jsonb_build_object('bill_date', v_schedule.next_run_date)
+              )
+              ELSE jsonb_build_object(
+                'action', 'CREATE_TRANSACTION',
+                'data', v_schedule.template || jsonb_build_object('transaction_date', v_schedule.next_run_date)
+              )
+            END)
+          ) -> 0 ->> 'id')::UUID;
+
+          UPDATE public.recurring_runs
+          SET transaction_id = CASE WHEN v_schedule.kind = 'transaction' THEN v_record_id END,
+              bill_id = CASE WHEN v_schedule.kind = 'bill' THEN v_record_id END
+          WHERE id = v_run_id;
+
+          v_schedule_created := v_schedule_created + 1;
+        END IF;
+
+        UPDATE public.recurring_schedules
+        SET last_run_date = v_schedule.next_run_date,
+            occurrences_count = occurrences_count + CASE WHEN v_run_id IS NULL THEN 0 ELSE 1 END,
+            last_error = NULL
+        WHERE id = v_schedule.id
+        RETURNING * INTO v_schedule;
+      END LOOP;
+
+      v_created := v_created + v_schedule_created;
+    EXCEPTION WHEN OTHERS THEN
+      UPDATE public.recurring_schedules SET last_error = SQLERRM WHERE id = v_schedule.id;
+    END;
+  END LOOP;
+
+  RETURN v_created;
+END;
+$$;
+
+-- Schedules can be set up from chat ("record $1,200 rent on the 1st every month")
+CREATE OR REPLACE FUNCTION public.execute_ledger_actions(
+  p_user_id UUID,
+  p_actions JSONB,
+  p_conversation_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_item JSONB;
+  v_action TEXT;
+  v_data JSONB;
+  v_id UUID;
+  v_index INTEGER := 0;
+  v_refs JSONB := '{}'::jsonb;
+  v_results JSONB := '[]'::jsonb;
+BEGIN
+  IF jsonb_typeof(p_actions) <> 'array' OR jsonb_array_length(p_actions) = 0 THEN
+    RAISE EXCEPTION 'Expected a non-empty list of actions';
+  END IF;
+
+  FOR v_item IN SELECT value FROM jsonb_array_elements(p_actions) LOOP
+    v_index := v_index + 1;
+    v_action := v_item ->> 'action';
+    v_id := NULL;
+
+    BEGIN
+      v_data := public.resolve_action_refs(COALESCE(v_item -> 'data', '{}'::jsonb), v_refs);
+
+      CASE v_action
+        WHEN 'CREATE_TRANSACTION' THEN
+          INSERT INTO public.transactions (
+            user_id, amount, description, account_id, payment_account_id, category_id,
+            customer_id, vendor_id, transaction_date, notes, conversation_id
+          ) VALUES (
+            p_user_id,
+            (v_data ->> 'amount')::NUMERIC,
+            v_data ->> 'description',
+            (v_data ->> 'account_id')::UUID,
+            NULLIF(v_data ->> 'payment_account_id', '')::UUID,
+            NULLIF(v_data ->> 'category_id', '')::UUID,
+            NULLIF(v_data ->> 'customer_id', '')::UUID,
+            NULLIF(v_data ->> 'vendor_id', '')::UUID,
+            COALESCE(NULLIF(v_data ->> 'transaction_date', '')::DATE, CURRENT_DATE),
+            COALESCE(v_data ->> 'notes', ''),
+            p_conversation_id
+          )
+          RETURNING id INTO v_id;
+
+        WHEN 'UPDATE_TRANSACTION' THEN
+          -- Only the fields present in data are changed
+          UPDATE public.transactions SET
+            amount = CASE WHEN v_data ? 'amount' THEN (v_data ->> 'amount')::NUMERIC ELSE amount END,
+            description = CASE WHEN v_data ? 'description' THEN v_data ->> 'description' ELSE description END,
+            account_id = CASE WHEN v_data ? 'account_id' THEN (v_data ->> 'account_id')::UUID ELSE account_id END,
+            payment_account_id = CASE WHEN v_data ? 'payment_account_id' THEN NULLIF(v_data ->> 'payment_account_id', '')::UUID ELSE payment_account_id END,
+            category_id = CASE WHEN v_data ? 'category_id' THEN NULLIF(v_data ->> 'category_id', '')::UUID ELSE category_id END,
+            customer_id = CASE WHEN v_data ? 'customer_id' THEN NULLIF(v_data ->> 'customer_id', '')::UUID ELSE customer_id END,
+            vendor_id = CASE WHEN v_data ? 'vendor_id' THEN NULLIF(v_data ->> 'vendor_id', '')::UUID ELSE vendor_id END,
+            transaction_date = CASE WHEN v_data ? 'transaction_date' THEN (v_data ->> 'transaction_date')::DATE ELSE transaction_date END,
+            notes = CASE WHEN v_data ? 'notes' THEN v_data ->> 'notes' ELSE notes END
+          WHERE id = (v_data ->> 'id')::UUID
+          AND user_id = p_user_id
+          RETURNING id INTO v_id;
+
+          IF v_id IS NULL THEN
+            RAISE EXCEPTION 'Transaction % not found', v_data ->> 'id';
+          END IF;
+
+        WHEN 'CREATE_JOURNAL_ENTRY' THEN
+          v_id := public.create_journal_entry(
+            p_user_id,
+            NULLIF(v_data ->> 'entry_date', '')::DATE,
+            v_data ->> 'description',
+            v_data -> 'lines',
+            v_data ->> 'reference_number',
+            p_conversation_id
+          );
+
+        WHEN 'CREATE_BILL' THEN
+          INSERT INTO public.bills (
+            user_id, vendor_id, bill_number, bill_date, due_date, status,
+            scheduled_payment_date, payment_account_id, notes
+          ) VALUES (
+            p_user_id,
+            (v_data ->> 'vendor_id')::UUID,
+            NULLIF(v_data ->> 'bill_number', ''),
+            COALESCE(NULLIF(v_data ->> 'bill_date', '')::DATE, CURRENT_DATE),
+            NULLIF(v_data ->> 'due_date', '')::DATE,
+            'open',
+            NULLIF(v_data ->> 'scheduled_payment_date', '')::DATE,
+            NULLIF(v_data ->> 'payment_account_id', '')::UUID,
+            NULLIF(v_data ->> 'notes', '')
+          )
+          RETURNING id INTO v_id;
+
+          INSERT INTO public.bill_lines (bill_id, user_id, position, description, quantity, unit_price, tax_amount, expense_account_id)
+          SELECT
+            v_id,
+            p_user_id,
+            (line.ordinality - 1)::INTEGER,
+            line.value ->> 'description',
+            1,
+            (line.value ->> 'amount')::NUMERIC,
+            COALESCE((line.value ->> 'tax_amount')::NUMERIC, 0),
+            NULLIF(line.value ->> 'account_id', '')::UUID
+          FROM jsonb_array_elements(v_data -> 'lines') WITH ORDINALITY AS line(value, ordinality);
+
+        WHEN 'SCHEDULE_BILL_PAYMENT' THEN
+          UPDATE public.bills SET
+            scheduled_payment_date = (v_data ->> 'scheduled_payment_date')::DATE,
+            payment_account_id = CASE WHEN v_data ? 'payment_account_id' THEN NULLIF(v_data ->> 'payment_account_id', '')::UUID ELSE payment_account_id END
+          WHERE id = (v_data ->> 'bill_id')::UUID
+          AND user_id = p_user_id
+          AND status IN ('draft', 'open', 'partially_paid')
+          RETURNING id INTO v_id;
+
+          IF v_id IS NULL THEN
+            RAISE EXCEPTION 'Unpaid bill % not found', v_data ->> 'bill_id';
+          END IF;
+
+        WHEN 'CREATE_RECURRING_SCHEDULE' THEN
+          -- Everything but the schedule fields is the template each run is created from
+          INSERT INTO public.recurring_schedules (
+            user_id, name, kind, template, frequency, interval_count, start_date, end_date, max_occurrences
+          ) VALUES (
+            p_user_id,
+            v_data ->> 'name',
+            COALESCE(NULLIF(v_data ->> 'kind', ''), 'transaction'),
+            v_data - ARRAY['name', 'kind', 'frequency', 'interval_count', 'start_date', 'end_date', 'max_occurrences'],
+            (v_data ->> 'frequency')::public.recurrence_frequency,
+            COALESCE((v_data ->> 'interval_count')::INTEGER, 1),
+            (v_data ->> 'start_date')::DATE,
+            NULLIF(v_data ->> 'end_date', '')::DATE,
+            (v_data ->> 'max_occurrences')::INTEGER
+          )
+          RETURNING id INTO v_id;
+
+          -- Runs already due (e.g. a schedule starting today) are created straight away
+          PERFORM public.run_recurring_schedules(CURRENT_DATE, v_id);
+
+        WHEN 'CREATE_BUDGET' THEN
+          INSERT INTO public.budgets (user_id, name, amount, budget_type, category_id, account_id, start_date, end_date)
+          VALUES (
+            p_user_id,
+            v_data ->> 'name',
+            (v_data ->> 'amount')::NUMERIC,
+            v_data ->> 'budget_type',
+            NULLIF(v_data ->> 'category_id', '')::UUID,
+            NULLIF(v_data ->> 'account_id', '')::UUID,
+            (v_data ->> 'start_date')::DATE,
+            (v_data ->> 'end_date')::DATE
+          )
+          RETURNING id INTO v_id;
+
+        WHEN 'CREATE_CATEGORY' THEN
+          INSERT INTO public.categories (user_id, name, description, color)
+          VALUES (p_user_id, v_data ->> 'name', v_data ->> 'description', COALESCE(v_data ->> 'color', '#6366f1'))
+          RETURNING id INTO v_id;
+
+        WHEN 'CREATE_ACCOUNT' THEN
+          INSERT INTO public.accounts (user_id, name, account_type, code, parent_account_id)
+          VALUES (
+            p_user_id,
+            v_data ->> 'name',
+            (v_data ->> 'account_type')::public.account_type,
+            NULLIF(v_data ->> 'code', ''),
+            NULLIF(v_data ->> 'parent_account_id', '')::UUID
+          )
+          RETURNING id INTO v_id;
+
+        WHEN 'CREATE_CUSTOMER' THEN
+          INSERT INTO public.customers (user_id, name, email, phone, company_name, customer_type)
+          VALUES (
+            p_user_id,
+            v_data ->> 'name',
+            NULLIF(v_data ->> 'email', ''),
+            NULLIF(v_data ->> 'phone', ''),
+            NULLIF(v_data ->> 'company_name', ''),
+            COALESCE(NULLIF(v_data ->> 'customer_type', ''), 'customer')
+          )
+          RETURNING id INTO v_id;
+
+        WHEN 'CREATE_VENDOR' THEN
+          INSERT INTO public.vendors (user_id, name, email, phone, company_name, vendor_type)
+          VALUES (
+            p_user_id,
+            v_data ->> 'name',
+            NULLIF(v_data ->> 'email', ''),
+            NULLIF(v_data ->> 'phone', ''),
+            NULLIF(v_data ->> 'company_name', ''),
+            COALESCE(NULLIF(v_data ->> 'vendor_type', ''), 'vendor')
+          )
+          RETURNING id INTO v_id;
+
+        ELSE
+          RAISE EXCEPTION 'Unsupported action "%"', v_action;
+      END CASE;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE EXCEPTION 'Action % (%) failed: %', v_index, v_action, SQLERRM;
+    END;
+
+    IF v_item ? 'ref' THEN
+      v_refs := v_refs || jsonb_build_object(v_item ->> 'ref', v_id);
+    END IF;
+
+    v_results := v_results || jsonb_build_array(jsonb_build_object(
+      'index', v_index,
+      'action', v_action,
+      'ref', v_item ->> 'ref',
+      'id', v_id,
+      'data', v_data
+    ));
+  END LOOP;
+
+  RETURN v_results;
+END;
+$$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.recurring_schedules;
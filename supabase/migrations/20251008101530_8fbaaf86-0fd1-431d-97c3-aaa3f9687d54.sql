@@ -0,0 +1,1161 @@
+-- Multi-currency.
+-- Each user keeps their books in a base currency. Transactions, invoices and
+-- bills can be in another currency: they carry the currency code and the rate
+-- (base units per unit of the currency) taken from exchange_rates on their
+-- date, and the journal converts them to base, so every report built on the
+-- journal is in base currency. Journal lines on asset and liability accounts
+-- keep the foreign amount as well, which lets payments settle receivables and
+-- payables at the document's rate (the difference is a realized exchange
+-- gain or loss) and lets period-end revaluation restate foreign balances at
+-- the closing rate (an unrealized gain or loss).
+
+ALTER TABLE public.profiles
+ADD COLUMN base_currency TEXT NOT NULL DEFAULT 'USD' CHECK (base_currency ~ '^[A-Z]{3}$');
+
+-- The currency an account holds (a foreign bank account, a card billed in
+-- euros). Left empty the account takes amounts in any currency, as
+-- receivables and payables do.
+ALTER TABLE public.accounts
+ADD COLUMN currency TEXT CHECK (currency ~ '^[A-Z]{3}$');
+
+-- Both are filled in by set_exchange_rate when not given
+ALTER TABLE public.transactions
+ADD COLUMN currency TEXT CHECK (currency ~ '^[A-Z]{3}$'),
+ADD COLUMN exchange_rate NUMERIC(18,8) CHECK (exchange_rate > 0);
+
+ALTER TABLE public.invoices
+ADD COLUMN currency TEXT CHECK (currency ~ '^[A-Z]{3}$'),
+ADD COLUMN exchange_rate NUMERIC(18,8) CHECK (exchange_rate > 0);
+
+ALTER TABLE public.bills
+ADD COLUMN currency TEXT CHECK (currency ~ '^[A-Z]{3}$'),
+ADD COLUMN exchange_rate NUMERIC(18,8) CHECK (exchange_rate > 0);
+
+-- Existing records are all in the base currency. Triggers are held off so
+-- reconciled transactions can be backfilled too.
+ALTER TABLE public.transactions DISABLE TRIGGER USER;
+UPDATE public.transactions SET currency = 'USD', exchange_rate = 1;
+ALTER TABLE public.transactions ENABLE TRIGGER USER;
+
+ALTER TABLE public.invoices DISABLE TRIGGER USER;
+UPDATE public.invoices SET currency = 'USD', exchange_rate = 1;
+ALTER TABLE public.invoices ENABLE TRIGGER USER;
+
+ALTER TABLE public.bills DISABLE TRIGGER USER;
+UPDATE public.bills SET currency = 'USD', exchange_rate = 1;
+ALTER TABLE public.bills ENABLE TRIGGER USER;
+
+-- The amount in base currency, for analytics and budgets that add up transactions
+ALTER TABLE public.transactions
+ADD COLUMN base_amount NUMERIC(15,2) GENERATED ALWAYS AS (round(amount * COALESCE(exchange_rate, 1), 2)) STORED;
+
+-- Foreign currency behind a journal line; foreign_amount is signed like the
+-- line (positive for a debit, negative for a credit)
+ALTER TABLE public.journal_lines
+ADD COLUMN currency TEXT,
+ADD COLUMN foreign_amount NUMERIC(15,2);
+
+CREATE INDEX idx_journal_lines_currency ON public.journal_lines(user_id, account_id, currency) WHERE currency IS NOT NULL;
+
+ALTER TABLE public.journal_entries DROP CONSTRAINT journal_entries_source_type_check;
+ALTER TABLE public.journal_entries
+ADD CONSTRAINT journal_entries_source_type_check CHECK (source_type IN ('manual', 'transaction', 'invoice', 'bill', 'revaluation'));
+
+-- How many units of the base currency one unit of the currency buys on a date
+CREATE TABLE public.exchange_rates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  currency TEXT NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+  rate_date DATE NOT NULL,
+  rate NUMERIC(18,8) NOT NULL CHECK (rate > 0),
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'import')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, currency, rate_date)
+);
+
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own exchange rates" ON public.exchange_rates
+  FOR ALL USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_exchange_rates_updated_at
+  BEFORE UPDATE ON public.exchange_rates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.base_currency(p_user_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE((SELECT base_currency FROM public.profiles WHERE user_id = p_user_id), 'USD');
+$$;
+
+-- The latest rate on or before p_date; 1 for the base currency
+CREATE OR REPLACE FUNCTION public.exchange_rate_on(p_user_id UUID, p_currency TEXT, p_date DATE)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_rate NUMERIC;
+BEGIN
+  IF p_currency IS NULL OR p_currency = public.base_currency(p_user_id) THEN
+    RETURN 1;
+  END IF;
+
+  SELECT rate INTO v_rate
+  FROM public.exchange_rates
+  WHERE user_id = p_user_id AND currency = p_currency AND rate_date <= p_date
+  ORDER BY rate_date DESC
+  LIMIT 1;
+
+  IF v_rate IS NULL THEN
+    RAISE EXCEPTION 'No % exchange rate on or before %; add one under Exchange Rates', p_currency, p_date;
+  END IF;
+
+  RETURN v_rate;
+END;
+$$;
+
+-- Currency and rate for a transaction, invoice or bill. TG_ARGV[0] is the
+-- column holding the document date. A transaction defaults to the currency of
+-- the account the money moved through, everything else to the base currency.
+-- The rate is looked up unless one was given, and again when the currency or
+-- date changes without a new rate.
+CREATE OR REPLACE FUNCTION public.set_exchange_rate()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_date DATE := (to_jsonb(NEW) ->> TG_ARGV[0])::DATE;
+  v_base TEXT := public.base_currency(NEW.user_id);
+  v_account_currency TEXT;
+BEGIN
+  IF TG_TABLE_NAME = 'transactions' THEN
+    SELECT currency INTO v_account_currency
+    FROM public.accounts
+    WHERE id = (to_jsonb(NEW) ->> 'payment_account_id')::UUID;
+  END IF;
+
+  NEW.currency := upper(COALESCE(NULLIF(NEW.currency, ''), v_account_currency, v_base));
+
+  IF v_account_currency IS NOT NULL AND v_account_currency <> NEW.currency THEN
+    RAISE EXCEPTION 'The payment account holds %, so the transaction cannot be in %', v_account_currency, NEW.currency;
+  END IF;
+
+  IF NEW.currency = v_base THEN
+    NEW.exchange_rate := 1;
+  ELSIF NEW.exchange_rate IS NULL THEN
+    NEW.exchange_rate := public.exchange_rate_on(NEW.user_id, NEW.currency, v_date);
+  ELSIF TG_OP = 'UPDATE' THEN
+    IF NEW.exchange_rate = OLD.exchange_rate
+      AND (NEW.currency IS DISTINCT FROM OLD.currency OR v_date <> (to_jsonb(OLD) ->> TG_ARGV[0])::DATE) THEN
+      NEW.exchange_rate := public.exchange_rate_on(NEW.user_id, NEW.currency, v_date);
+    END IF;
+  END IF;
+
+  -- Payments were settled at the document's rate
+  IF TG_OP = 'UPDATE' AND TG_TABLE_NAME <> 'transactions' THEN
+    IF (to_jsonb(OLD) ->> 'amount_paid')::NUMERIC > 0
+      AND (NEW.currency IS DISTINCT FROM OLD.currency OR NEW.exchange_rate IS DISTINCT FROM OLD.exchange_rate) THEN
+      RAISE EXCEPTION 'Payments have been applied; remove them before changing the currency or exchange rate';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Named to run after set_transaction_payment_account has picked the account
+CREATE TRIGGER set_transaction_rate
+  BEFORE INSERT OR UPDATE ON public.transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_exchange_rate('transaction_date');
+
+CREATE TRIGGER set_invoice_rate
+  BEFORE INSERT OR UPDATE ON public.invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_exchange_rate('issue_date');
+
+CREATE TRIGGER set_bill_rate
+  BEFORE INSERT OR UPDATE ON public.bills
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_exchange_rate('bill_date');
+
+-- Once anything is posted the books are in the base currency for good
+CREATE OR REPLACE FUNCTION public.protect_base_currency()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.base_currency := upper(NEW.base_currency);
+
+  IF NEW.base_currency <> OLD.base_currency
+    AND EXISTS (SELECT 1 FROM public.journal_entries WHERE user_id = NEW.user_id) THEN
+    RAISE EXCEPTION 'The base currency cannot be changed once entries have been posted';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_base_currency
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_base_currency();
+
+CREATE OR REPLACE FUNCTION public.protect_account_currency()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.currency := upper(NULLIF(NEW.currency, ''));
+
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.currency IS DISTINCT FROM OLD.currency
+      AND EXISTS (SELECT 1 FROM public.journal_lines WHERE account_id = NEW.id) THEN
+      RAISE EXCEPTION 'Account % already has entries; its currency cannot be changed', NEW.name;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_account_currency
+  BEFORE INSERT OR UPDATE ON public.accounts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_account_currency();
+
+-- The currency a journal line on p_account_id keeps, given the document's
+-- foreign currency (NULL when it is in base). Only asset and liability
+-- accounts hold foreign balances, and an account set to one currency only
+-- holds that one.
+CREATE OR REPLACE FUNCTION public.journal_line_currency(p_account_id UUID, p_currency TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT p_currency
+  FROM public.accounts
+  WHERE id = p_account_id
+    AND p_currency IS NOT NULL
+    AND account_type IN ('asset', 'liability')
+    AND (currency IS NULL OR currency = p_currency);
+$$;
+
+-- (Re)build the journal entry for a transaction, in base currency.
+-- Negative amounts (money out):  Dr account_id, Cr payment_account_id
+-- Positive amounts (money in):   Dr payment_account_id, Cr account_id
+-- A payment of a foreign invoice or bill clears receivables or payables at the
+-- document's rate; the difference from today's rate goes to Realized
+-- Exchange Gain/Loss.
+CREATE OR REPLACE FUNCTION public.post_transaction_journal(p_transaction public.transactions)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry_id UUID;
+  v_foreign NUMERIC := ABS(p_transaction.amount);
+  v_currency TEXT := NULLIF(p_transaction.currency, public.base_currency(p_transaction.user_id));
+  -- Payment account side at the transaction's rate, account side at the settled rate
+  v_moved NUMERIC := round(ABS(p_transaction.amount) * COALESCE(p_transaction.exchange_rate, 1), 2);
+  v_settled NUMERIC := v_moved;
+  v_settled_foreign NUMERIC;
+  v_settled_base NUMERIC;
+  v_debit_account UUID;
+  v_credit_account UUID;
+  v_debit NUMERIC;
+  v_credit NUMERIC;
+BEGIN
+  INSERT INTO public.journal_entries (
+    user_id, entry_date, description, reference_number, source_type, source_id, conversation_id
+  ) VALUES (
+    p_transaction.user_id,
+    p_transaction.transaction_date,
+    p_transaction.description,
+    p_transaction.reference_number,
+    'transaction',
+    p_transaction.id,
+    p_transaction.conversation_id
+  )
+  ON CONFLICT (source_type, source_id) DO UPDATE SET
+    entry_date = EXCLUDED.entry_date,
+    description = EXCLUDED.description,
+    reference_number = EXCLUDED.reference_number,
+    conversation_id = EXCLUDED.conversation_id
+  RETURNING id INTO v_entry_id;
+
+  DELETE FROM public.journal_lines WHERE journal_entry_id = v_entry_id;
+
+  IF v_foreign = 0 OR p_transaction.account_id IS NULL OR p_transaction.payment_account_id IS NULL THEN
+    RETURN v_entry_id;
+  END IF;
+
+  IF v_currency IS NOT NULL THEN
+    SELECT COALESCE(SUM(s.amount), 0), COALESCE(SUM(round(s.amount * s.exchange_rate, 2)), 0)
+    INTO v_settled_foreign, v_settled_base
+    FROM (
+      SELECT p.amount, i.exchange_rate
+      FROM public.invoice_payments p
+      JOIN public.invoices i ON i.id = p.invoice_id
+      WHERE p.transaction_id = p_transaction.id AND i.currency = p_transaction.currency
+      UNION ALL
+      SELECT p.amount, b.exchange_rate
+      FROM public.bill_payments p
+      JOIN public.bills b ON b.id = p.bill_id
+      WHERE p.transaction_id = p_transaction.id AND b.currency = p_transaction.currency
+    ) s;
+
+    IF v_settled_foreign > 0 THEN
+      v_settled := v_settled_base + round(GREATEST(v_foreign - v_settled_foreign, 0) * p_transaction.exchange_rate, 2);
+    END IF;
+  END IF;
+
+  IF p_transaction.amount < 0 THEN
+    v_debit_account := p_transaction.account_id;
+    v_debit := v_settled;
+    v_credit_account := p_transaction.payment_account_id;
+    v_credit := v_moved;
+  ELSE
+    v_debit_account := p_transaction.payment_account_id;
+    v_debit := v_moved;
+    v_credit_account := p_transaction.account_id;
+    v_credit := v_settled;
+  END IF;
+
+  INSERT INTO public.journal_lines (journal_entry_id, user_id, account_id, debit, credit, description, currency, foreign_amount)
+  SELECT v_entry_id, p_transaction.user_id, line.account_id, line.debit, line.credit, p_transaction.description,
+    line.currency, CASE WHEN line.currency IS NOT NULL THEN line.foreign_amount END
+  FROM (VALUES
+    (v_debit_account, v_debit, 0::NUMERIC, public.journal_line_currency(v_debit_account, v_currency), v_foreign),
+    (v_credit_account, 0::NUMERIC, v_credit, public.journal_line_currency(v_credit_account, v_currency), -v_foreign)
+  ) AS line(account_id, debit, credit, currency, foreign_amount)
+  WHERE line.debit > 0 OR line.credit > 0;
+
+  IF v_debit <> v_credit THEN
+    INSERT INTO public.journal_lines (journal_entry_id, user_id, account_id, debit, credit, description)
+    VALUES (
+      v_entry_id,
+      p_transaction.user_id,
+      public.ensure_account(p_transaction.user_id, '4900', 'Realized Exchange Gain/Loss', 'revenue'),
+      GREATEST(v_credit - v_debit, 0),
+      GREATEST(v_debit - v_credit, 0),
+      'Exchange difference: ' || p_transaction.description
+    );
+  END IF;
+
+  RETURN v_entry_id;
+END;
+$$;
+
+-- Applying or removing a payment changes the rate its transaction settles at
+CREATE OR REPLACE FUNCTION public.repost_payment_transaction()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- A transaction deleted along with its payment is no longer visible here
+  PERFORM public.post_transaction_journal(t)
+  FROM public.transactions t
+  WHERE t.id IN (
+    CASE WHEN TG_OP <> 'DELETE' THEN NEW.transaction_id END,
+    CASE WHEN TG_OP <> 'INSERT' THEN OLD.transaction_id END
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER repost_invoice_payment_transaction
+  AFTER INSERT OR UPDATE OR DELETE ON public.invoice_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.repost_payment_transaction();
+
+CREATE TRIGGER repost_bill_payment_transaction
+  AFTER INSERT OR UPDATE OR DELETE ON public.bill_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.repost_payment_transaction();
+
+REVOKE EXECUTE ON FUNCTION public.repost_payment_transaction() FROM PUBLIC, anon, authenticated;
+
+-- (Re)build the journal entry for an invoice in base currency: revenue and
+-- tax at the invoice's rate, receivables for their sum so rounding never
+-- unbalances the entry.
+CREATE OR REPLACE FUNCTION public.post_invoice_journal(p_invoice public.invoices)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry_id UUID;
+  v_description TEXT;
+  v_rate NUMERIC := COALESCE(p_invoice.exchange_rate, 1);
+  v_currency TEXT := NULLIF(p_invoice.currency, public.base_currency(p_invoice.user_id));
+  v_line_currency TEXT := public.journal_line_currency(p_invoice.receivable_account_id, v_currency);
+  v_receivable NUMERIC;
+BEGIN
+  IF p_invoice.status IN ('draft', 'void') OR p_invoice.total = 0 THEN
+    DELETE FROM public.journal_entries
+    WHERE source_type = 'invoice' AND source_id = p_invoice.id;
+    RETURN NULL;
+  END IF;
+
+  SELECT 'Invoice ' || p_invoice.invoice_number || ' - ' || name INTO v_description
+  FROM public.customers
+  WHERE id = p_invoice.customer_id;
+
+  INSERT INTO public.journal_entries (user_id, entry_date, description, reference_number, source_type, source_id)
+  VALUES (p_invoice.user_id, p_invoice.issue_date, v_description, p_invoice.invoice_number, 'invoice', p_invoice.id)
+  ON CONFLICT (source_type, source_id) DO UPDATE SET
+    entry_date = EXCLUDED.entry_date,
+    description = EXCLUDED.description,
+    reference_number = EXCLUDED.reference_number
+  RETURNING id INTO v_entry_id;
+
+  DELETE FROM public.journal_lines WHERE journal_entry_id = v_entry_id;
+
+  INSERT INTO public.journal_lines (journal_entry_id, user_id, account_id, debit, credit, description)
+  SELECT v_entry_id, p_invoice.user_id, l.revenue_account_id, 0, round(SUM(l.amount) * v_rate, 2), v_description
+  FROM public.invoice_lines l
+  WHERE l.invoice_id = p_invoice.id
+  GROUP BY l.revenue_account_id
+  HAVING round(SUM(l.amount) * v_rate, 2) > 0;
+
+  IF round(p_invoice.tax_total * v_rate, 2) > 0 THEN
+    INSERT INTO public.journal_lines (journal_entry_id, user_id, account_id, debit, credit, description)
+    VALUES (
+      v_entry_id,
+      p_invoice.user_id,
+      public.ensure_account(p_invoice.user_id, '2200', 'Sales Tax Payable', 'liability'),
+      0,
+      round(p_invoice.tax_total * v_rate, 2),
+      v_description
+    );
+  END IF;
+
+  SELECT SUM(credit) INTO v_receivable FROM public.journal_lines WHERE journal_entry_id = v_entry_id;
+
+  INSERT INTO public.journal_lines (journal_entry_id, user_id, account_id, debit, credit, description, currency, foreign_amount)
+  VALUES (
+    v_entry_id,
+    p_invoice.user_id,
+    p_invoice.receivable_account_id,
+    v_receivable,
+    0,
+    v_description,
+    v_line_currency,
+    CASE WHEN v_line_currency IS NOT NULL THEN p_invoice.total END
+  );
+
+  RETURN v_entry_id;
+END;
+$$;
+
+-- (Re)build the journal entry for a bill in base currency: expenses at the
+-- bill's rate, payables for their sum.
+CREATE OR REPLACE FUNCTION public.post_bill_journal(p_bill public.bills)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry_id UUID;
+  v_description TEXT;
+  v_rate NUMERIC := COALESCE(p_bill.exchange_rate, 1);
+  v_currency TEXT := NULLIF(p_bill.currency, public.base_currency(p_bill.user_id));
+  v_line_currency TEXT := public.journal_line_currency(p_bill.payable_account_id, v_currency);
+  v_payable NUMERIC;
+BEGIN
+  IF p_bill.status IN ('draft', 'void') OR p_bill.total = 0 THEN
+    DELETE FROM public.journal_entries
+    WHERE source_type = 'bill' AND source_id = p_bill.id;
+    RETURN NULL;
+  END IF;
+
+  SELECT 'Bill ' || COALESCE(p_bill.bill_number || ' ', '') || '- ' || name INTO v_description
+  FROM public.vendors
+  WHERE id = p_bill.vendor_id;
+
+  INSERT INTO public.journal_entries (user_id, entry_date, description, reference_number, source_type, source_id)
+  VALUES (p_bill.user_id, p_bill.bill_date, v_description, p_bill.bill_number, 'bill', p_bill.id)
+  ON CONFLICT (source_type, source_id) DO UPDATE SET
+    entry_date = EXCLUDED.entry_date,
+    description = EXCLUDED.description,
+    reference_number = EXCLUDED.reference_number
+  RETURNING id INTO v_entry_id;
+
+  DELETE FROM public.journal_lines WHERE journal_entry_id = v_entry_id;
+
+  INSERT INTO public.journal_lines (journal_entry_id, user_id, account_id, debit, credit, description)
+  SELECT v_entry_id, p_bill.user_id, l.expense_account_id, round(SUM(l.amount + l.tax_amount) * v_rate, 2), 0, v_description
+  FROM public.bill_lines l
+  WHERE l.bill_id = p_bill.id
+  GROUP BY l.expense_account_id
+  HAVING round(SUM(l.amount + l.tax_amount) * v_rate, 2) > 0;
+
+  SELECT SUM(debit) INTO v_payable FROM public.journal_lines WHERE journal_entry_id = v_entry_id;
+
+  INSERT INTO public.journal_lines (journal_entry_id, user_id, account_id, debit, credit, description, currency, foreign_amount)
+  VALUES (
+    v_entry_id,
+    p_bill.user_id,
+    p_bill.payable_account_id,
+    0,
+    v_payable,
+    v_description,
+    v_line_currency,
+    CASE WHEN v_line_currency IS NOT NULL THEN -p_bill.total END
+  );
+
+  RETURN v_entry_id;
+END;
+$$;
+
+-- Customer and vendor balances are in base currency at the documents' rates
+CREATE OR REPLACE FUNCTION public.refresh_customer_balance(p_customer_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.customers c
+  SET balance = (
+    SELECT COALESCE(SUM(round(i.balance_due * COALESCE(i.exchange_rate, 1), 2)), 0)
+    FROM public.invoices i
+    WHERE i.customer_id = c.id AND i.status NOT IN ('draft', 'void')
+  )
+  WHERE c.id = p_customer_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_vendor_balance(p_vendor_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.vendors v
+  SET balance = (
+    SELECT COALESCE(SUM(round(b.balance_due * COALESCE(b.exchange_rate, 1), 2)), 0)
+    FROM public.bills b
+    WHERE b.vendor_id = v.id AND b.status NOT IN ('draft', 'void')
+  )
+  WHERE v.id = p_vendor_id;
+$$;
+
+-- A payment is in the currency of the invoice or bill it settles
+CREATE OR REPLACE FUNCTION public.check_invoice_payment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice public.invoices;
+  v_currency TEXT;
+BEGIN
+  SELECT * INTO v_invoice FROM public.invoices WHERE id = NEW.invoice_id;
+
+  IF v_invoice.status IN ('draft', 'void') THEN
+    RAISE EXCEPTION 'Payments can only be applied to sent invoices (% is %)', v_invoice.invoice_number, v_invoice.status;
+  END IF;
+
+  IF NEW.amount > v_invoice.balance_due + CASE WHEN TG_OP = 'UPDATE' THEN OLD.amount ELSE 0 END THEN
+    RAISE EXCEPTION 'Payment of % is more than the % due on invoice %', NEW.amount, v_invoice.balance_due, v_invoice.invoice_number;
+  END IF;
+
+  SELECT currency INTO v_currency FROM public.transactions WHERE id = NEW.transaction_id;
+  IF v_currency IS DISTINCT FROM v_invoice.currency THEN
+    RAISE EXCEPTION 'Invoice % is in %, but the payment is in %', v_invoice.invoice_number, v_invoice.currency, v_currency;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.check_bill_payment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_bill public.bills;
+  v_currency TEXT;
+BEGIN
+  SELECT * INTO v_bill FROM public.bills WHERE id = NEW.bill_id;
+
+  IF v_bill.status IN ('draft', 'void') THEN
+    RAISE EXCEPTION 'Payments can only be applied to open bills (this bill is %)', v_bill.status;
+  END IF;
+
+  IF NEW.amount > v_bill.balance_due + CASE WHEN TG_OP = 'UPDATE' THEN OLD.amount ELSE 0 END THEN
+    RAISE EXCEPTION 'Payment of % is more than the % due on the bill', NEW.amount, v_bill.balance_due;
+  END IF;
+
+  SELECT currency INTO v_currency FROM public.transactions WHERE id = NEW.transaction_id;
+  IF v_currency IS DISTINCT FROM v_bill.currency THEN
+    RAISE EXCEPTION 'The bill is in %, but the payment is in %', v_bill.currency, v_currency;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Receipts recorded for an invoice are in the invoice's currency
+CREATE OR REPLACE FUNCTION public.record_invoice_payment(
+  p_invoice_id UUID,
+  p_amount NUMERIC,
+  p_payment_date DATE DEFAULT CURRENT_DATE,
+  p_payment_account_id UUID DEFAULT NULL,
+  p_transaction_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_invoice public.invoices;
+  v_transaction_id UUID := p_transaction_id;
+  v_payment_id UUID;
+BEGIN
+  SELECT * INTO v_invoice
+  FROM public.invoices
+  WHERE id = p_invoice_id AND user_id = v_user_id;
+
+  IF v_invoice.id IS NULL THEN
+    RAISE EXCEPTION 'Invoice % not found', p_invoice_id;
+  END IF;
+
+  IF v_transaction_id IS NULL THEN
+    INSERT INTO public.transactions (
+      user_id, amount, description, transaction_date, reference_number,
+      account_id, payment_account_id, customer_id, currency
+    ) VALUES (
+      v_user_id, p_amount, 'Payment for invoice ' || v_invoice.invoice_number, p_payment_date, v_invoice.invoice_number,
+      v_invoice.receivable_account_id, p_payment_account_id, v_invoice.customer_id, v_invoice.currency
+    )
+    RETURNING id INTO v_transaction_id;
+  ELSE
+    UPDATE public.transactions
+    SET account_id = v_invoice.receivable_account_id,
+        customer_id = v_invoice.customer_id
+    WHERE id = v_transaction_id AND user_id = v_user_id AND amount >= p_amount;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Transaction % not found or smaller than the payment', v_transaction_id;
+    END IF;
+  END IF;
+
+  INSERT INTO public.invoice_payments (invoice_id, user_id, transaction_id, amount, payment_date, created_transaction)
+  VALUES (p_invoice_id, v_user_id, v_transaction_id, p_amount, p_payment_date, p_transaction_id IS NULL)
+  RETURNING id INTO v_payment_id;
+
+  RETURN v_payment_id;
+END;
+$$;
+
+-- Payments recorded for a bill are in the bill's currency
+CREATE OR REPLACE FUNCTION public.record_bill_payment(
+  p_bill_id UUID,
+  p_amount NUMERIC,
+  p_payment_date DATE DEFAULT CURRENT_DATE,
+  p_payment_account_id UUID DEFAULT NULL,
+  p_transaction_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_bill public.bills;
+  v_vendor_name TEXT;
+  v_transaction_id UUID := p_transaction_id;
+  v_payment_id UUID;
+BEGIN
+  SELECT * INTO v_bill
+  FROM public.bills
+  WHERE id = p_bill_id AND user_id = v_user_id;
+
+  IF v_bill.id IS NULL THEN
+    RAISE EXCEPTION 'Bill % not found', p_bill_id;
+  END IF;
+
+  IF v_transaction_id IS NULL THEN
+    SELECT name INTO v_vendor_name FROM public.vendors WHERE id = v_bill.vendor_id;
+
+    INSERT INTO public.transactions (
+      user_id, amount, description, transaction_date, reference_number,
+      account_id, payment_account_id, vendor_id, currency
+    ) VALUES (
+      v_user_id, -p_amount, 'Payment to ' || v_vendor_name || COALESCE(' for bill ' || v_bill.bill_number, ''), p_payment_date, v_bill.bill_number,
+      v_bill.payable_account_id, COALESCE(p_payment_account_id, v_bill.payment_account_id), v_bill.vendor_id, v_bill.currency
+    )
+    RETURNING id INTO v_transaction_id;
+  ELSE
+    UPDATE public.transactions
+    SET account_id = v_bill.payable_account_id,
+        vendor_id = v_bill.vendor_id
+    WHERE id = v_transaction_id AND user_id = v_user_id AND amount <= -p_amount;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Transaction % not found or smaller than the payment', v_transaction_id;
+    END IF;
+  END IF;
+
+  INSERT INTO public.bill_payments (bill_id, user_id, transaction_id, amount, payment_date, created_transaction)
+  VALUES (p_bill_id, v_user_id, v_transaction_id, p_amount, p_payment_date, p_transaction_id IS NULL)
+  RETURNING id INTO v_payment_id;
+
+  RETURN v_payment_id;
+END;
+$$;
+
+-- Budgets track spending in base currency
+CREATE OR REPLACE FUNCTION public.update_budget_spent_amounts()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  UPDATE public.budgets
+  SET spent_amount = (
+    SELECT COALESCE(SUM(ABS(t.base_amount)), 0)
+    FROM public.transactions t
+    WHERE t.category_id = budgets.category_id
+    AND t.user_id = budgets.user_id
+    AND t.transaction_date BETWEEN budgets.start_date AND budgets.end_date
+    AND t.amount < 0 -- Only expenses (negative amounts)
+  )
+  WHERE user_id = COALESCE(NEW.user_id, OLD.user_id)
+  AND category_id IS NOT NULL;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$function$;
+
+-- Aging is in base currency at each document's rate; the document's own
+-- currency and open amount come along for the drill-down
+DROP FUNCTION public.aged_receivables(DATE);
+DROP FUNCTION public.aged_payables(DATE);
+
+CREATE OR REPLACE FUNCTION public.aged_receivables(p_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS TABLE (
+  party_id UUID,
+  party_name TEXT,
+  credit_limit NUMERIC,
+  document_id UUID,
+  document_number TEXT,
+  document_date DATE,
+  due_date DATE,
+  days_overdue INTEGER,
+  bucket TEXT,
+  open_amount NUMERIC,
+  currency TEXT,
+  document_open_amount NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF p_as_of IS NULL THEN
+    RAISE EXCEPTION 'An aging date is required';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.name,
+    COALESCE(c.credit_limit, 0),
+    i.id,
+    i.invoice_number,
+    i.issue_date,
+    i.due_date,
+    GREATEST(p_as_of - i.due_date, 0),
+    public.aging_bucket(i.due_date, p_as_of),
+    round((i.total - COALESCE(paid.amount, 0)) * COALESCE(i.exchange_rate, 1), 2),
+    i.currency,
+    i.total - COALESCE(paid.amount, 0)
+  FROM public.invoices i
+  JOIN public.customers c ON c.id = i.customer_id
+  LEFT JOIN LATERAL (
+    SELECT SUM(p.amount) AS amount
+    FROM public.invoice_payments p
+    WHERE p.invoice_id = i.id AND p.payment_date <= p_as_of
+  ) paid ON true
+  WHERE i.user_id = auth.uid()
+    AND i.status NOT IN ('draft', 'void')
+    AND i.issue_date <= p_as_of
+    AND i.total - COALESCE(paid.amount, 0) > 0;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.aged_payables(p_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS TABLE (
+  party_id UUID,
+  party_name TEXT,
+  credit_limit NUMERIC,
+  document_id UUID,
+  document_number TEXT,
+  document_date DATE,
+  due_date DATE,
+  days_overdue INTEGER,
+  bucket TEXT,
+  open_amount NUMERIC,
+  currency TEXT,
+  document_open_amount NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF p_as_of IS NULL THEN
+    RAISE EXCEPTION 'An aging date is required';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    v.id,
+    v.name,
+    COALESCE(v.credit_limit, 0),
+    b.id,
+    b.bill_number,
+    b.bill_date,
+    b.due_date,
+    GREATEST(p_as_of - b.due_date, 0),
+    public.aging_bucket(b.due_date, p_as_of),
+    round((b.total - COALESCE(paid.amount, 0)) * COALESCE(b.exchange_rate, 1), 2),
+    b.currency,
+    b.total - COALESCE(paid.amount, 0)
+  FROM public.bills b
+  JOIN public.vendors v ON v.id = b.vendor_id
+  LEFT JOIN LATERAL (
+    SELECT SUM(p.amount) AS amount
+    FROM public.bill_payments p
+    WHERE p.bill_id = b.id AND p.payment_date <= p_as_of
+  ) paid ON true
+  WHERE b.user_id = auth.uid()
+    AND b.status NOT IN ('draft', 'void')
+    AND b.bill_date <= p_as_of
+    AND b.total - COALESCE(paid.amount, 0) > 0;
+END;
+$$;
+
+-- Restate every foreign balance at the rate on p_as_of. Returns one row per
+-- account and currency whose book value is off; with p_post the differences
+-- are posted as one entry against Unrealized Exchange Gain/Loss. The
+-- adjustment lines keep the currency with a foreign amount of zero, so
+-- running it again for the same date finds nothing left to adjust.
+CREATE OR REPLACE FUNCTION public.revalue_foreign_balances(
+  p_as_of DATE DEFAULT CURRENT_DATE,
+  p_post BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+  account_id UUID,
+  account_name TEXT,
+  currency TEXT,
+  foreign_balance NUMERIC,
+  exchange_rate NUMERIC,
+  book_balance NUMERIC,
+  revalued_balance NUMERIC,
+  adjustment NUMERIC
+)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_entry_id UUID;
+  v_fx_account_id UUID;
+  v_description TEXT := 'Foreign currency revaluation ' || p_as_of;
+  v_row RECORD;
+BEGIN
+  IF p_as_of IS NULL THEN
+    RAISE EXCEPTION 'A revaluation date is required';
+  END IF;
+
+  FOR v_row IN
+    SELECT l.account_id, a.name, l.currency, SUM(l.foreign_amount) AS foreign_balance, SUM(l.debit - l.credit) AS book_balance
+    FROM public.journal_lines l
+    JOIN public.journal_entries e ON e.id = l.journal_entry_id
+    JOIN public.accounts a ON a.id = l.account_id
+    WHERE l.user_id = v_user_id
+      AND l.currency IS NOT NULL
+      AND e.entry_date <= p_as_of
+    GROUP BY l.account_id, a.name, l.currency
+    ORDER BY a.name, l.currency
+  LOOP
+    account_id := v_row.account_id;
+    account_name := v_row.name;
+    currency := v_row.currency;
+    foreign_balance := v_row.foreign_balance;
+    exchange_rate := public.exchange_rate_on(v_user_id, v_row.currency, p_as_of);
+    book_balance := v_row.book_balance;
+    revalued_balance := round(v_row.foreign_balance * exchange_rate, 2);
+    adjustment := revalued_balance - v_row.book_balance;
+
+    CONTINUE WHEN adjustment = 0;
+
+    IF p_post THEN
+      IF v_entry_id IS NULL THEN
+        INSERT INTO public.journal_entries (user_id, entry_date, description, source_type)
+        VALUES (v_user_id, p_as_of, v_description, 'revaluation')
+        RETURNING id INTO v_entry_id;
+
+        v_fx_account_id := public.ensure_account(v_user_id, '4910', 'Unrealized Exchange Gain/Loss', 'revenue');
+      END IF;
+
+      INSERT INTO public.journal_lines (journal_entry_id, user_id, account_id, debit, credit, description, currency, foreign_amount)
+      VALUES
+        (v_entry_id, v_user_id, v_row.account_id, GREATEST(adjustment, 0), GREATEST(-adjustment, 0), v_description, v_row.currency, 0),
+        (v_entry_id, v_user_id, v_fx_account_id, GREATEST(-adjustment, 0), GREATEST(adjustment, 0), v_description, NULL, NULL);
+    END IF;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+-- Foreign amounts and rates can be entered from chat
+CREATE OR REPLACE FUNCTION public.execute_ledger_actions(
+  p_user_id UUID,
+  p_actions JSONB,
+  p_conversation_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_item JSONB;
+  v_action TEXT;
+  v_data JSONB;
+  v_id UUID;
+  v_index INTEGER := 0;
+  v_refs JSONB := '{}'::jsonb;
+  v_results JSONB := '[]'::jsonb;
+BEGIN
+  IF jsonb_typeof(p_actions) <> 'array' OR jsonb_array_length(p_actions) = 0 THEN
+    RAISE EXCEPTION 'Expected a non-empty list of actions';
+  END IF;
+
+  FOR v_item IN SELECT value FROM jsonb_array_elements(p_actions) LOOP
+    v_index := v_index + 1;
+    v_action := v_item ->> 'action';
+    v_id := NULL;
+
+    BEGIN
+      v_data := public.resolve_action_refs(COALESCE(v_item -> 'data', '{}'::jsonb), v_refs);
+
+      CASE v_action
+        WHEN 'CREATE_TRANSACTION' THEN
+          INSERT INTO public.transactions (
+            user_id, amount, description, account_id, payment_account_id, category_id,
+            customer_id, vendor_id, transaction_date, notes, conversation_id, currency, exchange_rate
+          ) VALUES (
+            p_user_id,
+            (v_data ->> 'amount')::NUMERIC,
+            v_data ->> 'description',
+            (v_data ->> 'account_id')::UUID,
+            NULLIF(v_data ->> 'payment_account_id', '')::UUID,
+            NULLIF(v_data ->> 'category_id', '')::UUID,
+            NULLIF(v_data ->> 'customer_id', '')::UUID,
+            NULLIF(v_data ->> 'vendor_id', '')::UUID,
+            COALESCE(NULLIF(v_data ->> 'transaction_date', '')::DATE, CURRENT_DATE),
+            COALESCE(v_data ->> 'notes', ''),
+            p_conversation_id,
+            NULLIF(upper(v_data ->> 'currency'), ''),
+            NULLIF(v_data ->> 'exchange_rate', '')::NUMERIC
+          )
+          RETURNING id INTO v_id;
+
+        WHEN 'UPDATE_TRANSACTION' THEN
+          -- Only the fields present in data are changed
+          UPDATE public.transactions SET
+            amount = CASE WHEN v_data ? 'amount' THEN (v_data ->> 'amount')::NUMERIC ELSE amount END,
+            description = CASE WHEN v_data ? 'description' THEN v_data ->> 'description' ELSE description END,
+            account_id = CASE WHEN v_data ? 'account_id' THEN (v_data ->> 'account_id')::UUID ELSE account_id END,
+            payment_account_id = CASE WHEN v_data ? 'payment_account_id' THEN NULLIF(v_data ->> 'payment_account_id', '')::UUID ELSE payment_account_id END,
+            category_id = CASE WHEN v_data ? 'category_id' THEN NULLIF(v_data ->> 'category_id', '')::UUID ELSE category_id END,
+            customer_id = CASE WHEN v_data ? 'customer_id' THEN NULLIF(v_data ->> 'customer_id', '')::UUID ELSE customer_id END,
+            vendor_id = CASE WHEN v_data ? 'vendor_id' THEN NULLIF(v_data ->> 'vendor_id', '')::UUID ELSE vendor_id END,
+            transaction_date = CASE WHEN v_data ? 'transaction_date' THEN (v_data ->> 'transaction_date')::DATE ELSE transaction_date END,
+            notes = CASE WHEN v_data ? 'notes' THEN v_data ->> 'notes' ELSE notes END
+          WHERE id = (v_data ->> 'id')::UUID
+          AND user_id = p_user_id
+          RETURNING id INTO v_id;
+
+          IF v_id IS NULL THEN
+            RAISE EXCEPTION 'Transaction % not found', v_data ->> 'id';
+          END IF;
+
+        WHEN 'CREATE_JOURNAL_ENTRY' THEN
+          v_id := public.create_journal_entry(
+            p_user_id,
+            NULLIF(v_data ->> 'entry_date', '')::DATE,
+            v_data ->> 'description',
+            v_data -> 'lines',
+            v_data ->> 'reference_number',
+            p_conversation_id
+          );
+
+        WHEN 'CREATE_BILL' THEN
+          INSERT INTO public.bills (
+            user_id, vendor_id, bill_number, bill_date, due_date, status,
+            scheduled_payment_date, payment_account_id, notes, currency, exchange_rate
+          ) VALUES (
+            p_user_id,
+            (v_data ->> 'vendor_id')::UUID,
+            NULLIF(v_data ->> 'bill_number', ''),
+            COALESCE(NULLIF(v_data ->> 'bill_date', '')::DATE, CURRENT_DATE),
+            NULLIF(v_data ->> 'due_date', '')::DATE,
+            'open',
+            NULLIF(v_data ->> 'scheduled_payment_date', '')::DATE,
+            NULLIF(v_data ->> 'payment_account_id', '')::UUID,
+            NULLIF(v_data ->> 'notes', ''),
+            NULLIF(upper(v_data ->> 'currency'), ''),
+            NULLIF(v_data ->> 'exchange_rate', '')::NUMERIC
+          )
+          RETURNING id INTO v_id;
+
+          INSERT INTO public.bill_lines (bill_id, user_id, position, description, quantity, unit_price, tax_amount, expense_account_id)
+          SELECT
+            v_id,
+            p_user_id,
+            (line.ordinality - 1)::INTEGER,
+            line.value ->> 'description',
+            1,
+            (line.value ->> 'amount')::NUMERIC,
+            COALESCE((line.value ->> 'tax_amount')::NUMERIC, 0),
+            NULLIF(line.value ->> 'account_id', '')::UUID
+          FROM jsonb_array_elements(v_data -> 'lines') WITH ORDINALITY AS line(value, ordinality);
+
+        WHEN 'SCHEDULE_BILL_PAYMENT' THEN
+          UPDATE public.bills SET
+            scheduled_payment_date = (v_data ->> 'scheduled_payment_date')::DATE,
+            payment_account_id = CASE WHEN v_data ? 'payment_account_id' THEN NULLIF(v_data ->> 'payment_account_id', '')::UUID ELSE payment_account_id END
+          WHERE id = (v_data ->> 'bill_id')::UUID
+          AND user_id = p_user_id
+          AND status IN ('draft', 'open', 'partially_paid')
+          RETURNING id INTO v_id;
+
+          IF v_id IS NULL THEN
+            RAISE EXCEPTION 'Unpaid bill % not found', v_data ->> 'bill_id';
+          END IF;
+
+        WHEN 'CREATE_RECURRING_SCHEDULE' THEN
+          -- Everything but the schedule fields is the template each run is created from
+          INSERT INTO public.recurring_schedules (
+            user_id, name, kind, template, frequency, interval_count, start_date, end_date, max_occurrences
+          ) VALUES (
+            p_user_id,
+            v_data ->> 'name',
+            COALESCE(NULLIF(v_data ->> 'kind', ''), 'transaction'),
+            v_data - ARRAY['name', 'kind', 'frequency', 'interval_count', 'start_date', 'end_date', 'max_occurrences'],
+            (v_data ->> 'frequency')::public.recurrence_frequency,
+            COALESCE((v_data ->> 'interval_count')::INTEGER, 1),
+            (v_data ->> 'start_date')::DATE,
+            NULLIF(v_data ->> 'end_date', '')::DATE,
+            (v_data ->> 'max_occurrences')::INTEGER
+          )
+          RETURNING id INTO v_id;
+
+          -- Runs already due (e.g. a schedule starting today) are created straight away
+          PERFORM public.run_recurring_schedules(CURRENT_DATE, v_id);
+
+        WHEN 'CREATE_BUDGET' THEN
+          INSERT INTO public.budgets (user_id, name, amount, budget_type, category_id, account_id, start_date, end_date)
+          VALUES (
+            p_user_id,
+            v_data ->> 'name',
+            (v_data ->> 'amount')::NUMERIC,
+            v_data ->> 'budget_type',
+            NULLIF(v_data ->> 'category_id', '')::UUID,
+            NULLIF(v_data ->> 'account_id', '')::UUID,
+            (v_data ->> 'start_date')::DATE,
+            (v_data ->> 'end_date')::DATE
+          )
+          RETURNING id INTO v_id;
+
+        WHEN 'CREATE_CATEGORY' THEN
+          INSERT INTO public.categories (user_id, name, description, color)
+          VALUES (p_user_id, v_data ->> 'name', v_data ->> 'description', COALESCE(v_data ->> 'color', '#6366f1'))
+          RETURNING id INTO v_id;
+
+        WHEN 'CREATE_ACCOUNT' THEN
+          INSERT INTO public.accounts (user_id, name, account_type, code, parent_account_id, currency)
+          VALUES (
+            p_user_id,
+            v_data ->> 'name',
+            (v_data ->> 'account_type')::public.account_type,
+            NULLIF(v_data ->> 'code', ''),
+            NULLIF(v_data ->> 'parent_account_id', '')::UUID,
+            NULLIF(upper(v_data ->> 'currency'), '')
+          )
+          RETURNING id INTO v_id;
+
+        WHEN 'CREATE_CUSTOMER' THEN
+          INSERT INTO public.customers (user_id, name, email, phone, company_name, customer_type)
+          VALUES (
+            p_user_id,
+            v_data ->> 'name',
+            NULLIF(v_data ->> 'email', ''),
+            NULLIF(v_data ->> 'phone', ''),
+            NULLIF(v_data ->> 'company_name', ''),
+            COALESCE(NULLIF(v_data ->> 'customer_type', ''), 'customer')
+          )
+          RETURNING id INTO v_id;
+
+        WHEN 'CREATE_VENDOR' THEN
+          INSERT INTO public.vendors (user_id, name, email, phone, company_name, vendor_type)
+          VALUES (
+            p_user_id,
+            v_data ->> 'name',
+            NULLIF(v_data ->> 'email', ''),
+            NULLIF(v_data ->> 'phone', ''),
+            NULLIF(v_data ->> 'company_name', ''),
+            COALESCE(NULLIF(v_data ->> 'vendor_type', ''), 'vendor')
+          )
+          RETURNING id INTO v_id;
+
+        ELSE
+          RAISE EXCEPTION 'Unsupported action "%"', v_action;
+      END CASE;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE EXCEPTION 'Action % (%) failed: %', v_index, v_action, SQLERRM;
+    END;
+
+    IF v_item ? 'ref' THEN
+      v_refs := v_refs || jsonb_build_object(v_item ->> 'ref', v_id);
+    END IF;
+
+    v_results := v_results || jsonb_build_array(jsonb_build_object(
+      'index', v_index,
+      'action', v_action,
+      'ref', v_item ->> 'ref',
+      'id', v_id,
+      'data', v_data
+    ));
+  END LOOP;
+
+  RETURN v_results;
+END;
+$$;
+
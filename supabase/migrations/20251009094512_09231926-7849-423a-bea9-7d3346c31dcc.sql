@@ -0,0 +1,1010 @@
+-- Sales tax, VAT and GST.
+-- A tax rate is a percentage posted to a liability account (Sales Tax Payable
+-- unless another is chosen). A tax group charges several rates together, e.g.
+-- GST + PST; a compound component is charged on the amount plus the taxes
+-- before it. Transactions, invoice lines and bill lines can carry a rate or a
+-- group: tax charged on sales is credited to each rate's account and tax paid
+-- on purchases is debited to it, so the account holds what is owed. Invoices
+-- and bills can be entered with prices that include tax; a transaction's
+-- amount is always what was paid or received, and its tax is split out of it.
+-- Each tax line in the journal keeps its rate and the amount it was charged
+-- on, which is what the tax return adds up.
+CREATE TABLE public.tax_rates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- Percent, e.g. 8.25; a group charges the rates of its components instead
+  rate NUMERIC(7,4) NOT NULL DEFAULT 0 CHECK (rate >= 0),
+  is_group BOOLEAN NOT NULL DEFAULT false,
+  -- Where the tax is posted; Sales Tax Payable (2200) when not given
+  account_id UUID REFERENCES public.accounts(id) ON DELETE RESTRICT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, name)
+);
+
+CREATE TABLE public.tax_group_components (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  group_id UUID NOT NULL REFERENCES public.tax_rates(id) ON DELETE CASCADE,
+  tax_rate_id UUID NOT NULL REFERENCES public.tax_rates(id) ON DELETE RESTRICT,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Components are charged in this order
+  position INTEGER NOT NULL DEFAULT 0,
+  -- Charged on the amount plus the components before it
+  is_compound BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(group_id, tax_rate_id)
+);
+
+ALTER TABLE public.tax_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tax_group_components ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own tax rates" ON public.tax_rates
+  FOR ALL USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own tax group components" ON public.tax_group_components
+  FOR ALL USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_tax_rates_updated_at
+  BEFORE UPDATE ON public.tax_rates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_tax_group_components_group_id ON public.tax_group_components(group_id, position);
+
+-- The tax inside a transaction's amount, set from tax_rate_id
+ALTER TABLE public.transactions
+ADD COLUMN tax_rate_id UUID REFERENCES public.tax_rates(id) ON DELETE RESTRICT,
+ADD COLUMN tax_amount NUMERIC(15,2) NOT NULL DEFAULT 0;
+
+-- Whether quantity times unit price already includes the tax
+ALTER TABLE public.invoices
+ADD COLUMN tax_inclusive BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.bills
+ADD COLUMN tax_inclusive BOOLEAN NOT NULL DEFAULT false;
+
+-- A line's tax_rate (invoices) or tax_amount (bills) is worked out from its
+-- tax rate when it has one, and entered by hand otherwise
+ALTER TABLE public.invoice_lines
+ADD COLUMN tax_rate_id UUID REFERENCES public.tax_rates(id) ON DELETE RESTRICT;
+
+ALTER TABLE public.bill_lines
+ADD COLUMN tax_rate_id UUID REFERENCES public.tax_rates(id) ON DELETE RESTRICT;
+
+-- Set on tax lines: the component rate (NULL for tax entered by hand) and the
+-- net amount the tax was charged on, in base currency
+ALTER TABLE public.journal_lines
+ADD COLUMN tax_rate_id UUID REFERENCES public.tax_rates(id) ON DELETE RESTRICT,
+ADD COLUMN taxable_amount NUMERIC(15,2);
+
+CREATE INDEX idx_journal_lines_tax_rate_id ON public.journal_lines(tax_rate_id) WHERE taxable_amount IS NOT NULL;
+
+-- Whether anything has been charged with a rate or group. Charged rates keep
+-- their percentage and account so posted documents never change under them.
+CREATE OR REPLACE FUNCTION public.tax_rate_in_use(p_tax_rate_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.journal_lines WHERE tax_rate_id = p_tax_rate_id)
+    OR EXISTS (SELECT 1 FROM public.transactions WHERE tax_rate_id = p_tax_rate_id)
+    OR EXISTS (SELECT 1 FROM public.invoice_lines WHERE tax_rate_id = p_tax_rate_id)
+    OR EXISTS (SELECT 1 FROM public.bill_lines WHERE tax_rate_id = p_tax_rate_id);
+$$;
+
+CREATE OR REPLACE FUNCTION public.prepare_tax_rate()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_group THEN
+    NEW.rate := 0;
+    NEW.account_id := NULL;
+  ELSIF NEW.account_id IS NULL THEN
+    NEW.account_id := public.ensure_account(NEW.user_id, '2200', 'Sales Tax Payable', 'liability');
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    IF (NEW.rate <> OLD.rate OR NEW.is_group <> OLD.is_group OR NEW.account_id IS DISTINCT FROM OLD.account_id)
+      AND public.tax_rate_in_use(OLD.id) THEN
+      RAISE EXCEPTION 'Tax rate "%" has already been charged; deactivate it and add a new rate instead', OLD.name;
+    END IF;
+
+    IF NOT NEW.is_group AND EXISTS (SELECT 1 FROM public.tax_group_components WHERE group_id = OLD.id) THEN
+      RAISE EXCEPTION 'Remove the rates from group "%" first', OLD.name;
+    END IF;
+
+    IF NEW.is_group AND EXISTS (SELECT 1 FROM public.tax_group_components WHERE tax_rate_id = OLD.id) THEN
+      RAISE EXCEPTION 'Tax rate "%" is part of a group and cannot become one', OLD.name;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_tax_rate
+  BEFORE INSERT OR UPDATE ON public.tax_rates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_tax_rate();
+
+-- A group combines plain rates of the same user, and is fixed once charged
+CREATE OR REPLACE FUNCTION public.check_tax_group_component()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' AND public.tax_rate_in_use(OLD.group_id) THEN
+    RAISE EXCEPTION 'Tax group "%" has already been charged; deactivate it and add a new group instead',
+      (SELECT name FROM public.tax_rates WHERE id = OLD.group_id);
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+
+  IF public.tax_rate_in_use(NEW.group_id) THEN
+    RAISE EXCEPTION 'Tax group "%" has already been charged; deactivate it and add a new group instead',
+      (SELECT name FROM public.tax_rates WHERE id = NEW.group_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.tax_rates WHERE id = NEW.group_id AND user_id = NEW.user_id AND is_group) THEN
+    RAISE EXCEPTION 'Tax group % not found', NEW.group_id;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.tax_rates WHERE id = NEW.tax_rate_id AND user_id = NEW.user_id AND NOT is_group) THEN
+    RAISE EXCEPTION 'A tax group can only combine tax rates, not other groups';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_tax_group_component
+  BEFORE INSERT OR UPDATE OR DELETE ON public.tax_group_components
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_tax_group_component();
+
+-- The tax a rate or group charges on p_amount, one row per component rate in
+-- the order they are charged (a plain rate is its own single component).
+-- With p_inclusive the amount already includes the tax: the net is worked
+-- back from the combined rate and the rounding difference goes to the last
+-- component, so the net plus the tax is always exactly p_amount.
+CREATE OR REPLACE FUNCTION public.tax_components(
+  p_tax_rate_id UUID,
+  p_amount NUMERIC,
+  p_inclusive BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+  tax_rate_id UUID,
+  account_id UUID,
+  rate NUMERIC,
+  taxable NUMERIC,
+  tax NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_ids UUID[];
+  v_accounts UUID[];
+  v_rates NUMERIC[];
+  v_compound BOOLEAN[];
+  v_count INTEGER;
+  -- Net amount plus all tax, as a multiple of the net amount
+  v_multiplier NUMERIC := 1;
+  v_net NUMERIC;
+  v_charged NUMERIC := 0;
+BEGIN
+  SELECT
+    array_agg(c.id ORDER BY c.position, c.id),
+    array_agg(c.account_id ORDER BY c.position, c.id),
+    array_agg(c.rate ORDER BY c.position, c.id),
+    array_agg(c.is_compound ORDER BY c.position, c.id)
+  INTO v_ids, v_accounts, v_rates, v_compound
+  FROM (
+    SELECT r.id, r.account_id, r.rate, false AS is_compound, 0 AS position
+    FROM public.tax_rates r
+    WHERE r.id = p_tax_rate_id AND NOT r.is_group
+    UNION ALL
+    SELECT r.id, r.account_id, r.rate, g.is_compound, g.position
+    FROM public.tax_group_components g
+    JOIN public.tax_rates r ON r.id = g.tax_rate_id
+    WHERE g.group_id = p_tax_rate_id
+  ) c;
+
+  v_count := COALESCE(array_length(v_ids, 1), 0);
+  IF v_count = 0 OR COALESCE(p_amount, 0) = 0 THEN
+    RETURN;
+  END IF;
+
+  FOR i IN 1 .. v_count LOOP
+    v_multiplier := v_multiplier + v_rates[i] / 100 * CASE WHEN v_compound[i] THEN v_multiplier ELSE 1 END;
+  END LOOP;
+
+  v_net := CASE WHEN p_inclusive THEN round(p_amount / v_multiplier, 2) ELSE p_amount END;
+
+  FOR i IN 1 .. v_count LOOP
+    tax_rate_id := v_ids[i];
+    account_id := v_accounts[i];
+    rate := v_rates[i];
+    taxable := v_net + CASE WHEN v_compound[i] THEN v_charged ELSE 0 END;
+    tax := CASE
+      WHEN p_inclusive AND i = v_count THEN p_amount - v_net - v_charged
+      ELSE round(taxable * rate / 100, 2)
+    END;
+    v_charged := v_charged + tax;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+-- Combined percentage of a rate or group, e.g. 14.975 for GST 5% + QST 9.975%.
+-- Readable as a column of tax_rates (select=*,effective_rate).
+CREATE OR REPLACE FUNCTION public.effective_rate(p_tax_rate public.tax_rates)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT round(COALESCE(SUM(c.tax), 0) / 10000, 4)
+  FROM public.tax_components(p_tax_rate.id, 1000000) c;
+$$;
+
+-- Total tax a rate or group charges on a line; see tax_components
+CREATE OR REPLACE FUNCTION public.line_tax(
+  p_user_id UUID,
+  p_tax_rate_id UUID,
+  p_amount NUMERIC,
+  p_inclusive BOOLEAN DEFAULT false
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF p_tax_rate_id IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.tax_rates WHERE id = p_tax_rate_id AND user_id = p_user_id) THEN
+    RAISE EXCEPTION 'Tax rate % not found', p_tax_rate_id;
+  END IF;
+
+  RETURN COALESCE((SELECT SUM(c.tax) FROM public.tax_components(p_tax_rate_id, p_amount, p_inclusive) c), 0);
+END;
+$$;
+
+-- Line amounts are always derived, never trusted from the client. With
+-- tax-inclusive prices the line amount is what is left after the tax.
+CREATE OR REPLACE FUNCTION public.prepare_invoice_line()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_inclusive BOOLEAN;
+BEGIN
+  SELECT tax_inclusive INTO v_inclusive FROM public.invoices WHERE id = NEW.invoice_id;
+
+  NEW.amount := round(NEW.quantity * NEW.unit_price, 2);
+
+  IF NEW.tax_rate_id IS NOT NULL THEN
+    NEW.tax_amount := public.line_tax(NEW.user_id, NEW.tax_rate_id, NEW.amount, COALESCE(v_inclusive, false));
+    -- Shown on the line; the combined percentage for a group
+    SELECT public.effective_rate(r) INTO NEW.tax_rate FROM public.tax_rates r WHERE r.id = NEW.tax_rate_id;
+  ELSIF v_inclusive THEN
+    NEW.tax_amount := NEW.amount - round(NEW.amount / (1 + NEW.tax_rate / 100), 2);
+  ELSE
+    NEW.tax_amount := round(NEW.amount * NEW.tax_rate / 100, 2);
+  END IF;
+
+  IF v_inclusive THEN
+    NEW.amount := NEW.amount - NEW.tax_amount;
+  END IF;
+
+  IF NEW.revenue_account_id IS NULL THEN
+    SELECT id INTO NEW.revenue_account_id
+    FROM public.accounts
+    WHERE user_id = NEW.user_id AND account_type = 'revenue'
+    ORDER BY (code = '4000') DESC NULLS LAST, code NULLS LAST, created_at
+    LIMIT 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.prepare_bill_line()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_inclusive BOOLEAN;
+BEGIN
+  SELECT tax_inclusive INTO v_inclusive FROM public.bills WHERE id = NEW.bill_id;
+
+  NEW.amount := round(NEW.quantity * NEW.unit_price, 2);
+
+  IF NEW.tax_rate_id IS NOT NULL THEN
+    NEW.tax_amount := public.line_tax(NEW.user_id, NEW.tax_rate_id, NEW.amount, COALESCE(v_inclusive, false));
+  END IF;
+
+  IF v_inclusive THEN
+    NEW.amount := NEW.amount - NEW.tax_amount;
+  END IF;
+
+  IF NEW.expense_account_id IS NULL THEN
+    SELECT id INTO NEW.expense_account_id
+    FROM public.accounts
+    WHERE user_id = NEW.user_id AND account_type = 'expense'
+    ORDER BY (code = '5000') DESC NULLS LAST, code NULLS LAST, created_at
+    LIMIT 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Switching a document between tax-inclusive and tax-exclusive prices works
+-- its lines out again. Named to run after sync_invoice and sync_bill, so the
+-- journal is rebuilt once more from the repriced lines.
+CREATE OR REPLACE FUNCTION public.update_line_tax()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'invoices' THEN
+    UPDATE public.invoice_lines SET amount = amount WHERE invoice_id = NEW.id;
+  ELSE
+    UPDATE public.bill_lines SET amount = amount WHERE bill_id = NEW.id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER update_invoice_line_tax
+  AFTER UPDATE OF tax_inclusive ON public.invoices
+  FOR EACH ROW
+  WHEN (NEW.tax_inclusive IS DISTINCT FROM OLD.tax_inclusive)
+  EXECUTE FUNCTION public.update_line_tax();
+
+CREATE TRIGGER update_bill_line_tax
+  AFTER UPDATE OF tax_inclusive ON public.bills
+  FOR EACH ROW
+  WHEN (NEW.tax_inclusive IS DISTINCT FROM OLD.tax_inclusive)
+  EXECUTE FUNCTION public.update_line_tax();
+
+-- A transaction's amount is what was paid or received, tax included
+CREATE OR REPLACE FUNCTION public.set_transaction_tax()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.tax_amount := public.line_tax(NEW.user_id, NEW.tax_rate_id, ABS(NEW.amount), true);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_transaction_tax
+  BEFORE INSERT OR UPDATE OF amount, tax_rate_id ON public.transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_transaction_tax();
+
+-- (Re)build the journal entry for a transaction, in base currency.
+-- Negative amounts (money out):  Dr account_id, Cr payment_account_id
+-- Positive amounts (money in):   Dr payment_account_id, Cr account_id
+-- Tax in the amount is split off the account_id side onto each rate's
+-- account: debited when paid, credited when collected. A payment of a
+-- foreign invoice or bill clears receivables or payables at the document's
+-- rate; the difference from today's rate goes to Realized Exchange Gain/Loss.
+CREATE OR REPLACE FUNCTION public.post_transaction_journal(p_transaction public.transactions)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry_id UUID;
+  v_foreign NUMERIC := ABS(p_transaction.amount);
+  v_rate NUMERIC := COALESCE(p_transaction.exchange_rate, 1);
+  v_currency TEXT := NULLIF(p_transaction.currency, public.base_currency(p_transaction.user_id));
+  -- Payment account side at the transaction's rate, account side at the settled rate
+  v_moved NUMERIC := round(ABS(p_transaction.amount) * COALESCE(p_transaction.exchange_rate, 1), 2);
+  v_settled NUMERIC := v_moved;
+  v_settled_foreign NUMERIC;
+  v_settled_base NUMERIC;
+  v_tax NUMERIC;
+  v_debit_account UUID;
+  v_credit_account UUID;
+  v_debit NUMERIC;
+  v_credit NUMERIC;
+BEGIN
+  INSERT INTO public.journal_entries (
+    user_id, entry_date, description, reference_number, source_type, source_id, conversation_id
+  ) VALUES (
+    p_transaction.user_id,
+    p_transaction.transaction_date,
+    p_transaction.description,
+    p_transaction.reference_number,
+    'transaction',
+    p_transaction.id,
+    p_transaction.conversation_id
+  )
+  ON CONFLICT (source_type, source_id) DO UPDATE SET
+    entry_date = EXCLUDED.entry_date,
+    description = EXCLUDED.description,
+    reference_number = EXCLUDED.reference_number,
+    conversation_id = EXCLUDED.conversation_id
+  RETURNING id INTO v_entry_id;
+
+  DELETE FROM public.journal_lines WHERE journal_entry_id = v_entry_id;
+
+  IF v_foreign = 0 OR p_transaction.account_id IS NULL OR p_transaction.payment_account_id IS NULL THEN
+    RETURN v_entry_id;
+  END IF;
+
+  IF v_currency IS NOT NULL THEN
+    SELECT COALESCE(SUM(s.amount), 0), COALESCE(SUM(round(s.amount * s.exchange_rate, 2)), 0)
+    INTO v_settled_foreign, v_settled_base
+    FROM (
+      SELECT p.amount, i.exchange_rate
+      FROM public.invoice_payments p
+      JOIN public.invoices i ON i.id = p.invoice_id
+      WHERE p.transaction_id = p_transaction.id AND i.currency = p_transaction.currency
+      UNION ALL
+      SELECT p.amount, b.exchange_rate
+      FROM public.bill_payments p
+      JOIN public.bills b ON b.id = p.bill_id
+      WHERE p.transaction_id = p_transaction.id AND b.currency = p_transaction.currency
+    ) s;
+
+    IF v_settled_foreign > 0 THEN
+      v_settled := v_settled_base + round(GREATEST(v_foreign - v_settled_foreign, 0) * p_transaction.exchange_rate, 2);
+    END IF;
+  END IF;
+
+  IF v_settled <> v_moved THEN
+    INSERT INTO public.journal_lines (journal_entry_id, user_id, account_id, debit, credit, description)
+    VALUES (
+      v_entry_id,
+      p_transaction.user_id,
+      public.ensure_account(p_transaction.user_id, '4900', 'Realized Exchange Gain/Loss', 'revenue'),
+      CASE WHEN p_transaction.amount < 0 THEN GREATEST(v_moved - v_settled, 0) ELSE GREATEST(v_settled - v_moved, 0) END,
+      CASE WHEN p_transaction.amount < 0 THEN GREATEST(v_settled - v_moved, 0) ELSE GREATEST(v_moved - v_settled, 0) END,
+      'Exchange difference: ' || p_transaction.description
+    );
+  END IF;
+
+  INSERT INTO public.journal_lines (journal_entry_id, user_id, account_id, debit, credit, description, tax_rate_id, taxable_amount)
+  SELECT
+    v_entry_id,
+    p_transaction.user_id,
+    c.account_id,
+    CASE WHEN p_transaction.amount < 0 THEN round(c.tax * v_rate, 2) ELSE 0 END,
+    CASE WHEN p_transaction.amount > 0 THEN round(c.tax * v_rate, 2) ELSE 0 END,
+    p_transaction.description,
+    c.tax_rate_id,
+    round(c.taxable * v_rate, 2)
+  FROM public.tax_components(p_transaction.tax_rate_id, v_foreign, true) c
+  WHERE round(c.tax * v_rate, 2) > 0;
+
+  SELECT COALESCE(SUM(debit + credit), 0) INTO v_tax
+  FROM public.journal_lines
+  WHERE journal_entry_id = v_entry_id AND taxable_amount IS NOT NULL;
+
+  IF p_transaction.amount < 0 THEN
+    v_debit_account := p_transaction.account_id;
+    v_debit := v_settled - v_tax;
+    v_credit_account := p_transaction.payment_account_id;
+    v_credit := v_moved;
+  ELSE
+    v_debit_account := p_transaction.payment_account_id;
+    v_debit := v_moved;
+    v_credit_account := p_transaction.account_id;
+    v_credit := v_settled - v_tax;
+  END IF;
+
+  INSERT INTO public.journal_lines (journal_entry_id, user_id, account_id, debit, credit, description, currency, foreign_amount)
+  SELECT v_entry_id, p_transaction.user_id, line.account_id, line.debit, line.credit, p_transaction.description,
+    line.currency, CASE WHEN line.currency IS NOT NULL THEN line.foreign_amount END
+  FROM (VALUES
+    (v_debit_account, v_debit, 0::NUMERIC, public.journal_line_currency(v_debit_account, v_currency), v_foreign),
+    (v_credit_account, 0::NUMERIC, v_credit, public.journal_line_currency(v_credit_account, v_currency), -v_foreign)
+  ) AS line(account_id, debit, credit, currency, foreign_amount)
+  WHERE line.debit > 0 OR line.credit > 0;
+
+  RETURN v_entry_id;
+END;
+$$;
+
+-- (Re)build the journal entry for an invoice in base currency: revenue at the
+-- invoice's rate, tax per rate (and tax entered by hand) to its account, and
+-- receivables for their sum so rounding never unbalances the entry.
+CREATE OR REPLACE FUNCTION public.post_invoice_journal(p_invoice public.invoices)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry_id UUID;
+  v_description TEXT;
+  v_rate NUMERIC := COALESCE(p_invoice.exchange_rate, 1);
+  v_currency TEXT := NULLIF(p_invoice.currency, public.base_currency(p_invoice.user_id));
+  v_line_currency TEXT := public.journal_line_currency(p_invoice.receivable_account_id, v_currency);
+  v_receivable NUMERIC;
+BEGIN
+  IF p_invoice.status IN ('draft', 'void') OR p_invoice.total = 0 THEN
+    DELETE FROM public.journal_entries
+    WHERE source_type = 'invoice' AND source_id = p_invoice.id;
+    RETURN NULL;
+  END IF;
+
+  SELECT 'Invoice ' || p_invoice.invoice_number || ' - ' || name INTO v_description
+  FROM public.customers
+  WHERE id = p_invoice.customer_id;
+
+  INSERT INTO public.journal_entries (user_id, entry_date, description, reference_number, source_type, source_id)
+  VALUES (p_invoice.user_id, p_invoice.issue_date, v_description, p_invoice.invoice_number, 'invoice', p_invoice.id)
+  ON CONFLICT (source_type, source_id) DO UPDATE SET
+    entry_date = EXCLUDED.entry_date,
+    description = EXCLUDED.description,
+    reference_number = EXCLUDED.reference_number
+  RETURNING id INTO v_entry_id;
+
+  DELETE FROM public.journal_lines WHERE journal_entry_id = v_entry_id;
+
+  INSERT INTO public.journal_lines (journal_entry_id, user_id, account_id, debit, credit, description)
+  SELECT v_entry_id, p_invoice.user_id, l.revenue_account_id, 0, round(SUM(l.amount) * v_rate, 2), v_description
+  FROM public.invoice_lines l
+  WHERE l.invoice_id = p_invoice.id
+  GROUP BY l.revenue_account_id
+  HAVING round(SUM(l.amount) * v_rate, 2) > 0;
+
+  -- The components are charged on the same amounts the lines were priced from
+  INSERT INTO public.journal_lines (journal_entry_id, user_id, account_id, debit, credit, description, tax_rate_id, taxable_amount)
+  SELECT v_entry_id, p_invoice.user_id, c.account_id, 0, round(SUM(c.tax) * v_rate, 2), v_description,
+    c.tax_rate_id, round(SUM(c.taxable) * v_rate, 2)
+  FROM public.invoice_lines l
+  CROSS JOIN LATERAL public.tax_components(
+    l.tax_rate_id,
+    CASE WHEN p_invoice.tax_inclusive THEN l.amount + l.tax_amount ELSE l.amount END,
+    p_invoice.tax_inclusive
+  ) c
+  WHERE l.invoice_id = p_invoice.id AND l.tax_rate_id IS NOT NULL
+  GROUP BY c.tax_rate_id, c.account_id
+  HAVING round(SUM(c.tax) * v_rate, 2) > 0;
+
+  INSERT INTO public.journal_lines (journal_entry_id, user_id, account_id, debit, credit, description, taxable_amount)
+  SELECT
+    v_entry_id,
+    p_invoice.user_id,
+    public.ensure_account(p_invoice.user_id, '2200', 'Sales Tax Payable', 'liability'),
+    0,
+    round(SUM(l.tax_amount) * v_rate, 2),
+    v_description,
+    round(SUM(l.amount) * v_rate, 2)
+  FROM public.invoice_lines l
+  WHERE l.invoice_id = p_invoice.id AND l.tax_rate_id IS NULL AND l.tax_amount <> 0
+  HAVING round(SUM(l.tax_amount) * v_rate, 2) > 0;
+
+  SELECT SUM(credit) INTO v_receivable FROM public.journal_lines WHERE journal_entry_id = v_entry_id;
+
+  INSERT INTO public.journal_lines (journal_entry_id, user_id, account_id, debit, credit, description, currency, foreign_amount)
+  VALUES (
+    v_entry_id,
+    p_invoice.user_id,
+    p_invoice.receivable_account_id,
+    v_receivable,
+    0,
+    v_description,
+    v_line_currency,
+    CASE WHEN v_line_currency IS NOT NULL THEN p_invoice.total END
+  );
+
+  RETURN v_entry_id;
+END;
+$$;
+
+-- (Re)build the journal entry for a bill in base currency: expenses at the
+-- bill's rate, tax charged with a rate to that rate's account, payables for
+-- their sum. Tax entered by hand stays part of the expense, as before.
+CREATE OR REPLACE FUNCTION public.post_bill_journal(p_bill public.bills)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry_id UUID;
+  v_description TEXT;
+  v_rate NUMERIC := COALESCE(p_bill.exchange_rate, 1);
+  v_currency TEXT := NULLIF(p_bill.currency, public.base_currency(p_bill.user_id));
+  v_line_currency TEXT := public.journal_line_currency(p_bill.payable_account_id, v_currency);
+  v_payable NUMERIC;
+BEGIN
+  IF p_bill.status IN ('draft', 'void') OR p_bill.total = 0 THEN
+    DELETE FROM public.journal_entries
+    WHERE source_type = 'bill' AND source_id = p_bill.id;
+    RETURN NULL;
+  END IF;
+
+  SELECT 'Bill ' || COALESCE(p_bill.bill_number || ' ', '') || '- ' || name INTO v_description
+  FROM public.vendors
+  WHERE id = p_bill.vendor_id;
+
+  INSERT INTO public.journal_entries (user_id, entry_date, description, reference_number, source_type, source_id)
+  VALUES (p_bill.user_id, p_bill.bill_date, v_description, p_bill.bill_number, 'bill', p_bill.id)
+  ON CONFLICT (source_type, source_id) DO UPDATE SET
+    entry_date = EXCLUDED.entry_date,
+    description = EXCLUDED.description,
+    reference_number = EXCLUDED.reference_number
+  RETURNING id INTO v_entry_id;
+
+  DELETE FROM public.journal_lines WHERE journal_entry_id = v_entry_id;
+
+  INSERT INTO public.journal_lines (journal_entry_id, user_id, account_id, debit, credit, description)
+  SELECT v_entry_id, p_bill.user_id, l.expense_account_id,
+    round(SUM(l.amount + CASE WHEN l.tax_rate_id IS NULL THEN l.tax_amount ELSE 0 END) * v_rate, 2), 0, v_description
+  FROM public.bill_lines l
+  WHERE l.bill_id = p_bill.id
+  GROUP BY l.expense_account_id
+  HAVING round(SUM(l.amount + CASE WHEN l.tax_rate_id IS NULL THEN l.tax_amount ELSE 0 END) * v_rate, 2) > 0;
+
+  INSERT INTO public.journal_lines (journal_entry_id, user_id, account_id, debit, credit, description, tax_rate_id, taxable_amount)
+  SELECT v_entry_id, p_bill.user_id, c.account_id, round(SUM(c.tax) * v_rate, 2), 0, v_description,
+    c.tax_rate_id, round(SUM(c.taxable) * v_rate, 2)
+  FROM public.bill_lines l
+  CROSS JOIN LATERAL public.tax_components(
+    l.tax_rate_id,
+    CASE WHEN p_bill.tax_inclusive THEN l.amount + l.tax_amount ELSE l.amount END,
+    p_bill.tax_inclusive
+  ) c
+  WHERE l.bill_id = p_bill.id AND l.tax_rate_id IS NOT NULL
+  GROUP BY c.tax_rate_id, c.account_id
+  HAVING round(SUM(c.tax) * v_rate, 2) > 0;
+
+  SELECT SUM(debit) INTO v_payable FROM public.journal_lines WHERE journal_entry_id = v_entry_id;
+
+  INSERT INTO public.journal_lines (journal_entry_id, user_id, account_id, debit, credit, description, currency, foreign_amount)
+  VALUES (
+    v_entry_id,
+    p_bill.user_id,
+    p_bill.payable_account_id,
+    0,
+    v_payable,
+    v_description,
+    v_line_currency,
+    CASE WHEN v_line_currency IS NOT NULL THEN -p_bill.total END
+  );
+
+  RETURN v_entry_id;
+END;
+$$;
+
+-- Tax collected on sales and paid on purchases per tax rate and period, from
+-- the tax lines in the journal (so in base currency), for the signed-in user.
+-- Net tax is collected less paid: what is owed for the period, or due back
+-- when negative. Tax entered by hand on invoices has no rate and is reported
+-- on its own row. p_interval splits the range as for profit_and_loss.
+CREATE OR REPLACE FUNCTION public.tax_return(
+  p_start_date DATE,
+  p_end_date DATE,
+  p_interval TEXT DEFAULT 'total'
+)
+RETURNS TABLE (
+  period_start DATE,
+  period_end DATE,
+  tax_rate_id UUID,
+  tax_name TEXT,
+  rate NUMERIC,
+  taxable_sales NUMERIC,
+  tax_collected NUMERIC,
+  taxable_purchases NUMERIC,
+  tax_paid NUMERIC,
+  net_tax NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_step INTERVAL;
+BEGIN
+  IF p_start_date IS NULL OR p_end_date IS NULL OR p_start_date > p_end_date THEN
+    RAISE EXCEPTION 'Invalid report period % to %', p_start_date, p_end_date;
+  END IF;
+
+  IF p_interval NOT IN ('month', 'quarter', 'year', 'total') THEN
+    RAISE EXCEPTION 'Unsupported report interval "%"', p_interval;
+  END IF;
+
+  v_step := CASE p_interval
+    WHEN 'month' THEN INTERVAL '1 month'
+    WHEN 'quarter' THEN INTERVAL '3 months'
+    WHEN 'year' THEN INTERVAL '1 year'
+  END;
+
+  RETURN QUERY
+  WITH periods AS (
+    SELECT
+      GREATEST(p::DATE, p_start_date) AS period_start,
+      LEAST((p + v_step - INTERVAL '1 day')::DATE, p_end_date) AS period_end
+    FROM generate_series(
+      date_trunc(CASE WHEN p_interval = 'total' THEN 'day' ELSE p_interval END, p_start_date::TIMESTAMP),
+      p_end_date::TIMESTAMP,
+      COALESCE(v_step, INTERVAL '1 day')
+    ) AS p
+    WHERE p_interval <> 'total'
+    UNION ALL
+    SELECT p_start_date, p_end_date
+    WHERE p_interval = 'total'
+  )
+  SELECT
+    pr.period_start,
+    pr.period_end,
+    jl.tax_rate_id,
+    COALESCE(r.name, 'Tax entered by hand'),
+    r.rate,
+    SUM(CASE WHEN jl.credit > 0 THEN jl.taxable_amount ELSE 0 END),
+    SUM(jl.credit),
+    SUM(CASE WHEN jl.debit > 0 THEN jl.taxable_amount ELSE 0 END),
+    SUM(jl.debit),
+    SUM(jl.credit - jl.debit)
+  FROM periods pr
+  JOIN public.journal_entries je
+    ON je.entry_date BETWEEN pr.period_start AND pr.period_end
+    AND je.user_id = auth.uid()
+  JOIN public.journal_lines jl
+    ON jl.journal_entry_id = je.id
+    AND jl.taxable_amount IS NOT NULL
+  LEFT JOIN public.tax_rates r ON r.id = jl.tax_rate_id
+  GROUP BY pr.period_start, pr.period_end, jl.tax_rate_id, r.name, r.rate
+  ORDER BY pr.period_start, r.name NULLS LAST;
+END;
+$$;
+
+-- Tax rates can be charged from chat
+CREATE OR REPLACE FUNCTION public.execute_ledger_actions(
+  p_user_id UUID,
+  p_actions JSONB,
+  p_conversation_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_item JSONB;
+  v_action TEXT;
+  v_data JSONB;
+  v_id UUID;
+  v_index INTEGER := 0;
+  v_refs JSONB := '{}'::jsonb;
+  v_results JSONB := '[]'::jsonb;
+BEGIN
+  IF jsonb_typeof(p_actions) <> 'array' OR jsonb_array_length(p_actions) = 0 THEN
+    RAISE EXCEPTION 'Expected a non-empty list of actions';
+  END IF;
+
+  FOR v_item IN SELECT value FROM jsonb_array_elements(p_actions) LOOP
+    v_index := v_index + 1;
+    v_action := v_item ->> 'action';
+    v_id := NULL;
+
+    BEGIN
+      v_data := public.resolve_action_refs(COALESCE(v_item -> 'data', '{}'::jsonb), v_refs);
+
+      CASE v_action
+        WHEN 'CREATE_TRANSACTION' THEN
+          INSERT INTO public.transactions (
+            user_id, amount, description, account_id, payment_account_id, category_id,
+            customer_id, vendor_id, transaction_date, notes, conversation_id, currency, exchange_rate, tax_rate_id
+          ) VALUES (
+            p_user_id,
+            (v_data ->> 'amount')::NUMERIC,
+            v_data ->> 'description',
+            (v_data ->> 'account_id')::UUID,
+            NULLIF(v_data ->> 'payment_account_id', '')::UUID,
+            NULLIF(v_data ->> 'category_id', '')::UUID,
+            NULLIF(v_data ->> 'customer_id', '')::UUID,
+            NULLIF(v_data ->> 'vendor_id', '')::UUID,
+            COALESCE(NULLIF(v_data ->> 'transaction_date', '')::DATE, CURRENT_DATE),
+            COALESCE(v_data ->> 'notes', ''),
+            p_conversation_id,
+            NULLIF(upper(v_data ->> 'currency'), ''),
+            NULLIF(v_data ->> 'exchange_rate', '')::NUMERIC,
+            NULLIF(v_data ->> 'tax_rate_id', '')::UUID
+          )
+          RETURNING id INTO v_id;
+
+        WHEN 'UPDATE_TRANSACTION' THEN
+          -- Only the fields present in data are changed
+          UPDATE public.transactions SET
+            amount = CASE WHEN v_data ? 'amount' THEN (v_data ->> 'amount')::NUMERIC ELSE amount END,
+            description = CASE WHEN v_data ? 'description' THEN v_data ->> 'description' ELSE description END,
+            account_id = CASE WHEN v_data ? 'account_id' THEN (v_data ->> 'account_id')::UUID ELSE account_id END,
+            payment_account_id = CASE WHEN v_data ? 'payment_account_id' THEN NULLIF(v_data ->> 'payment_account_id', '')::UUID ELSE payment_account_id END,
+            category_id = CASE WHEN v_data ? 'category_id' THEN NULLIF(v_data ->> 'category_id', '')::UUID ELSE category_id END,
+            customer_id = CASE WHEN v_data ? 'customer_id' THEN NULLIF(v_data ->> 'customer_id', '')::UUID ELSE customer_id END,
+            vendor_id = CASE WHEN v_data ? 'vendor_id' THEN NULLIF(v_data ->> 'vendor_id', '')::UUID ELSE vendor_id END,
+            transaction_date = CASE WHEN v_data ? 'transaction_date' THEN (v_data ->> 'transaction_date')::DATE ELSE transaction_date END,
+            notes = CASE WHEN v_data ? 'notes' THEN v_data ->> 'notes' ELSE notes END,
+            tax_rate_id = CASE WHEN v_data ? 'tax_rate_id' THEN NULLIF(v_data ->> 'tax_rate_id', '')::UUID ELSE tax_rate_id END
+          WHERE id = (v_data ->> 'id')::UUID
+          AND user_id = p_user_id
+          RETURNING id INTO v_id;
+
+          IF v_id IS NULL THEN
+            RAISE EXCEPTION 'Transaction % not found', v_data ->> 'id';
+          END IF;
+
+        WHEN 'CREATE_JOURNAL_ENTRY' THEN
+          v_id := public.create_journal_entry(
+            p_user_id,
+            NULLIF(v_data ->> 'entry_date', '')::DATE,
+            v_data ->> 'description',
+            v_data -> 'lines',
+            v_data ->> 'reference_number',
+            p_conversation_id
+          );
+
+        WHEN 'CREATE_BILL' THEN
+          INSERT INTO public.bills (
+            user_id, vendor_id, bill_number, bill_date, due_date, status,
+            scheduled_payment_date, payment_account_id, notes, currency, exchange_rate, tax_inclusive
+          ) VALUES (
+            p_user_id,
+            (v_data ->> 'vendor_id')::UUID,
+            NULLIF(v_data ->> 'bill_number', ''),
+            COALESCE(NULLIF(v_data ->> 'bill_date', '')::DATE, CURRENT_DATE),
+            NULLIF(v_data ->> 'due_date', '')::DATE,
+            'open',
+            NULLIF(v_data ->> 'scheduled_payment_date', '')::DATE,
+            NULLIF(v_data ->> 'payment_account_id', '')::UUID,
+            NULLIF(v_data ->> 'notes', ''),
+            NULLIF(upper(v_data ->> 'currency'), ''),
+            NULLIF(v_data ->> 'exchange_rate', '')::NUMERIC,
+            COALESCE((v_data ->> 'tax_inclusive')::BOOLEAN, false)
+          )
+          RETURNING id INTO v_id;
+
+          -- With a tax rate the line's tax is worked out from it
+          INSERT INTO public.bill_lines (bill_id, user_id, position, description, quantity, unit_price, tax_amount, expense_account_id, tax_rate_id)
+          SELECT
+            v_id,
+            p_user_id,
+            (line.ordinality - 1)::INTEGER,
+            line.value ->> 'description',
+            1,
+            (line.value ->> 'amount')::NUMERIC,
+            COALESCE((line.value ->> 'tax_amount')::NUMERIC, 0),
+            NULLIF(line.value ->> 'account_id', '')::UUID,
+            NULLIF(line.value ->> 'tax_rate_id', '')::UUID
+          FROM jsonb_array_elements(v_data -> 'lines') WITH ORDINALITY AS line(value, ordinality);
+
+        WHEN 'SCHEDULE_BILL_PAYMENT' THEN
+          UPDATE public.bills SET
+            scheduled_payment_date = (v_data ->> 'scheduled_payment_date')::DATE,
+            payment_account_id = CASE WHEN v_data ? 'payment_account_id' THEN NULLIF(v_data ->> 'payment_account_id', '')::UUID ELSE payment_account_id END
+          WHERE id = (v_data ->> 'bill_id')::UUID
+          AND user_id = p_user_id
+          AND status IN ('draft', 'open', 'partially_paid')
+          RETURNING id INTO v_id;
+
+          IF v_id IS NULL THEN
+            RAISE EXCEPTION 'Unpaid bill % not found', v_data ->> 'bill_id';
+          END IF;
+
+        WHEN 'CREATE_RECURRING_SCHEDULE' THEN
+          -- Everything but the schedule fields is the template each run is created from
+          INSERT INTO public.recurring_schedules (
+            user_id, name, kind, template, frequency, interval_count, start_date, end_date, max_occurrences
+          ) VALUES (
+            p_user_id,
+            v_data ->> 'name',
+            COALESCE(NULLIF(v_data ->> 'kind', ''), 'transaction'),
+            v_data - ARRAY['name', 'kind', 'frequency', 'interval_count', 'start_date', 'end_date', 'max_occurrences'],
+            (v_data ->> 'frequency')::public.recurrence_frequency,
+            COALESCE((v_data ->> 'interval_count')::INTEGER, 1),
+            (v_data ->> 'start_date')::DATE,
+            NULLIF(v_data ->> 'end_date', '')::DATE,
+            (v_data ->> 'max_occurrences')::INTEGER
+          )
+          RETURNING id INTO v_id;
+
+          -- Runs already due (e.g. a schedule starting today) are created straight away
+          PERFORM public.run_recurring_schedules(CURRENT_DATE, v_id);
+
+        WHEN 'CREATE_BUDGET' THEN
+          INSERT INTO public.budgets (user_id, name, amount, budget_type, category_id, account_id, start_date, end_date)
+          VALUES (
+            p_user_id,
+            v_data ->> 'name',
+            (v_data ->> 'amount')::NUMERIC,
+            v_data ->> 'budget_type',
+            NULLIF(v_data ->> 'category_id', '')::UUID,
+            NULLIF(v_data ->> 'account_id', '')::UUID,
+            (v_data ->> 'start_date')::DATE,
+            (v_data ->> 'end_date')::DATE
+          )
+          RETURNING id INTO v_id;
+
+        WHEN 'CREATE_CATEGORY' THEN
+          INSERT INTO public.categories (user_id, name, description, color)
+          VALUES (p_user_id, v_data ->> 'name', v_data ->> 'description', COALESCE(v_data ->> 'color', '#6366f1'))
+          RETURNING id INTO v_id;
+
+        WHEN 'CREATE_ACCOUNT' THEN
+          INSERT INTO public.accounts (user_id, name, account_type, code, parent_account_id, currency)
+          VALUES (
+            p_user_id,
+            v_data ->> 'name',
+            (v_data ->> 'account_type')::public.account_type,
+            NULLIF(v_data ->> 'code', ''),
+            NULLIF(v_data ->> 'parent_account_id', '')::UUID,
+            NULLIF(upper(v_data ->> 'currency'), '')
+          )
+          RETURNING id INTO v_id;
+
+        WHEN 'CREATE_CUSTOMER' THEN
+          INSERT INTO public.customers (user_id, name, email, phone, company_name, customer_type)
+          VALUES (
+            p_user_id,
+            v_data ->> 'name',
+            NULLIF(v_data ->> 'email', ''),
+            NULLIF(v_data ->> 'phone', ''),
+            NULLIF(v_data ->> 'company_name', ''),
+            COALESCE(NULLIF(v_data ->> 'customer_type', ''), 'customer')
+          )
+          RETURNING id INTO v_id;
+
+        WHEN 'CREATE_VENDOR' THEN
+          INSERT INTO public.vendors (user_id, name, email, phone, company_name, vendor_type)
+          VALUES (
+            p_user_id,
+            v_data ->> 'name',
+            NULLIF(v_data ->> 'email', ''),
+            NULLIF(v_data ->> 'phone', ''),
+            NULLIF(v_data ->> 'company_name', ''),
+            COALESCE(NULLIF(v_data ->> 'vendor_type', ''), 'vendor')
+          )
+          RETURNING id INTO v_id;
+
+        ELSE
+          RAISE EXCEPTION 'Unsupported action "%"', v_action;
+      END CASE;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE EXCEPTION 'Action % (%) failed: %', v_index, v_action, SQLERRM;
+    END;
+
+    IF v_item ? 'ref' THEN
+      v_refs := v_refs || jsonb_build_object(v_item ->> 'ref', v_id);
+    END IF;
+
+    v_results := v_results || jsonb_build_array(jsonb_build_object(
+      'index', v_index,
+      'action', v_action,
+      'ref', v_item ->> 'ref',
+      'id', v_id,
+      'data', v_data
+    ));
+  END LOOP;
+
+  RETURN v_results;
+END;
+$$;
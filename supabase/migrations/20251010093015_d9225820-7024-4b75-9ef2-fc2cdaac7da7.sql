@@ -0,0 +1,709 @@
+-- Fiscal periods, period close and locking.
+-- Each user's fiscal year starts on the first of a month of their choosing and
+-- is split into twelve monthly periods, created on demand. A period is open,
+-- closed or locked:
+--   open    anything dated in it can be recorded, changed or deleted
+--   closed  only manual journal entries (adjustments) and the year-end closing
+--           entry can be; transactions, invoices and bills are held as they are
+--   locked  nothing dated in it can be recorded, changed or deleted
+-- The checks are triggers, so they hold for the app, chat actions and
+-- recurring runs alike. Dates without a period are open.
+
+ALTER TABLE public.profiles
+ADD COLUMN fiscal_year_start_month SMALLINT NOT NULL DEFAULT 1 CHECK (fiscal_year_start_month BETWEEN 1 AND 12);
+
+-- fiscal_year is the calendar year the fiscal year ends in: with a July start,
+-- FY2025 runs from July 2024 to June 2025
+CREATE TABLE public.fiscal_periods (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  fiscal_year INTEGER NOT NULL,
+  period_number SMALLINT NOT NULL CHECK (period_number BETWEEN 1 AND 12),
+  name TEXT NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed', 'locked')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (end_date >= start_date),
+  UNIQUE(user_id, start_date),
+  UNIQUE(user_id, fiscal_year, period_number)
+);
+
+ALTER TABLE public.fiscal_periods ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own fiscal periods" ON public.fiscal_periods
+  FOR ALL USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_fiscal_periods_updated_at
+  BEFORE UPDATE ON public.fiscal_periods
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_fiscal_periods_user_dates ON public.fiscal_periods(user_id, start_date, end_date);
+
+ALTER TABLE public.journal_entries DROP CONSTRAINT journal_entries_source_type_check;
+ALTER TABLE public.journal_entries
+ADD CONSTRAINT journal_entries_source_type_check CHECK (source_type IN ('manual', 'transaction', 'invoice', 'bill', 'revaluation', 'closing'));
+
+-- The first day of the fiscal year p_date falls in
+CREATE OR REPLACE FUNCTION public.fiscal_year_start(p_user_id UUID, p_date DATE)
+RETURNS DATE
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT make_date(EXTRACT(YEAR FROM p_date)::INTEGER - (EXTRACT(MONTH FROM p_date) < s.month)::INTEGER, s.month, 1)
+  FROM (
+    SELECT COALESCE((SELECT fiscal_year_start_month FROM public.profiles WHERE user_id = p_user_id), 1)::INTEGER AS month
+  ) s;
+$$;
+
+-- The signed-in user's periods for a fiscal year, creating any that are missing
+CREATE OR REPLACE FUNCTION public.ensure_fiscal_periods(p_fiscal_year INTEGER)
+RETURNS SETOF public.fiscal_periods
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_month INTEGER;
+  v_start DATE;
+BEGIN
+  IF p_fiscal_year IS NULL OR p_fiscal_year NOT BETWEEN 1900 AND 2999 THEN
+    RAISE EXCEPTION 'Invalid fiscal year %', p_fiscal_year;
+  END IF;
+
+  v_month := COALESCE((SELECT fiscal_year_start_month FROM public.profiles WHERE user_id = v_user_id), 1);
+  v_start := make_date(p_fiscal_year - (v_month > 1)::INTEGER, v_month, 1);
+
+  INSERT INTO public.fiscal_periods (user_id, fiscal_year, period_number, name, start_date, end_date)
+  SELECT
+    v_user_id,
+    p_fiscal_year,
+    n,
+    to_char(v_start + (n - 1) * INTERVAL '1 month', 'Mon YYYY'),
+    (v_start + (n - 1) * INTERVAL '1 month')::DATE,
+    (v_start + n * INTERVAL '1 month' - INTERVAL '1 day')::DATE
+  FROM generate_series(1, 12) AS n
+  ON CONFLICT DO NOTHING;
+
+  RETURN QUERY
+  SELECT *
+  FROM public.fiscal_periods
+  WHERE user_id = v_user_id AND fiscal_year = p_fiscal_year
+  ORDER BY period_number;
+END;
+$$;
+
+-- Periods are laid out from the start month, so it can only move while every
+-- period is open; the open ones are dropped and created again on demand
+CREATE OR REPLACE FUNCTION public.protect_fiscal_year_start()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.fiscal_year_start_month <> OLD.fiscal_year_start_month THEN
+    IF EXISTS (SELECT 1 FROM public.fiscal_periods WHERE user_id = NEW.user_id AND status <> 'open') THEN
+      RAISE EXCEPTION 'The fiscal year start cannot be changed while periods are closed or locked';
+    END IF;
+
+    DELETE FROM public.fiscal_periods WHERE user_id = NEW.user_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_fiscal_year_start
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_fiscal_year_start();
+
+-- Rejects a change dated in a locked period, or in a closed one unless
+-- p_allow_closed. SECURITY DEFINER so the check sees the periods whoever
+-- makes the change.
+CREATE OR REPLACE FUNCTION public.assert_period_open(p_user_id UUID, p_date DATE, p_allow_closed BOOLEAN DEFAULT false)
+RETURNS VOID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_name TEXT;
+  v_status TEXT;
+BEGIN
+  SELECT name, status INTO v_name, v_status
+  FROM public.fiscal_periods
+  WHERE user_id = p_user_id AND p_date BETWEEN start_date AND end_date;
+
+  IF v_status = 'locked' OR (v_status = 'closed' AND NOT p_allow_closed) THEN
+    RAISE EXCEPTION 'The % period is %: records dated % cannot be added, changed or deleted', v_name, v_status, p_date;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.check_transaction_period()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.assert_period_open(OLD.user_id, OLD.transaction_date);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM public.assert_period_open(NEW.user_id, NEW.transaction_date);
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+CREATE TRIGGER check_transaction_period
+  BEFORE INSERT OR UPDATE OR DELETE ON public.transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_transaction_period();
+
+-- What an invoice or bill posts to the journal: everything but its payment
+-- progress, schedule, reminders and notes, with status reduced to whether it
+-- is posted at all. Documents in closed periods can still be paid.
+CREATE OR REPLACE FUNCTION public.document_posting(p_document JSONB)
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (p_document - ARRAY[
+      'status', 'amount_paid', 'balance_due', 'due_date', 'sent_at', 'notes',
+      'scheduled_payment_date', 'payment_account_id', 'updated_at'
+    ])
+    || jsonb_build_object('posted', p_document ->> 'status' NOT IN ('draft', 'void'));
+$$;
+
+-- Posted invoices and bills. TG_ARGV[0] is the column holding the document date.
+CREATE OR REPLACE FUNCTION public.check_document_period()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_old JSONB;
+  v_new JSONB;
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    v_old := public.document_posting(to_jsonb(OLD));
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    v_new := public.document_posting(to_jsonb(NEW));
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND v_old = v_new THEN
+    RETURN NEW;
+  END IF;
+
+  IF (v_old ->> 'posted')::BOOLEAN THEN
+    PERFORM public.assert_period_open(OLD.user_id, (v_old ->> TG_ARGV[0])::DATE);
+  END IF;
+  IF (v_new ->> 'posted')::BOOLEAN THEN
+    PERFORM public.assert_period_open(NEW.user_id, (v_new ->> TG_ARGV[0])::DATE);
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+CREATE TRIGGER check_invoice_period
+  BEFORE INSERT OR UPDATE OR DELETE ON public.invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_document_period('issue_date');
+
+CREATE TRIGGER check_bill_period
+  BEFORE INSERT OR UPDATE OR DELETE ON public.bills
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_document_period('bill_date');
+
+-- Lines of a posted invoice or bill are held with it. A line deleted along
+-- with its document finds no document and is let through.
+CREATE OR REPLACE FUNCTION public.check_document_line_period()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_document_id UUID;
+  v_user_id UUID;
+  v_date DATE;
+  v_status TEXT;
+BEGIN
+  FOR v_document_id IN
+    SELECT DISTINCT (value ->> CASE WHEN TG_TABLE_NAME = 'invoice_lines' THEN 'invoice_id' ELSE 'bill_id' END)::UUID
+    FROM unnest(ARRAY[
+      CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) END,
+      CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) END
+    ]) AS value
+    WHERE value IS NOT NULL
+  LOOP
+    IF TG_TABLE_NAME = 'invoice_lines' THEN
+      SELECT user_id, issue_date, status INTO v_user_id, v_date, v_status
+      FROM public.invoices WHERE id = v_document_id;
+    ELSE
+      SELECT user_id, bill_date, status INTO v_user_id, v_date, v_status
+      FROM public.bills WHERE id = v_document_id;
+    END IF;
+
+    IF FOUND AND v_status NOT IN ('draft', 'void') THEN
+      PERFORM public.assert_period_open(v_user_id, v_date);
+    END IF;
+  END LOOP;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+CREATE TRIGGER check_invoice_line_period
+  BEFORE INSERT OR UPDATE OR DELETE ON public.invoice_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_document_line_period();
+
+CREATE TRIGGER check_bill_line_period
+  BEFORE INSERT OR UPDATE OR DELETE ON public.bill_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_document_line_period();
+
+-- The journal itself, whatever posts to it. Manual adjustments and the
+-- closing entry may still go into a closed period.
+CREATE OR REPLACE FUNCTION public.check_journal_entry_period()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.assert_period_open(OLD.user_id, OLD.entry_date, OLD.source_type IN ('manual', 'closing'));
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM public.assert_period_open(NEW.user_id, NEW.entry_date, NEW.source_type IN ('manual', 'closing'));
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+CREATE TRIGGER check_journal_entry_period
+  BEFORE INSERT OR UPDATE OR DELETE ON public.journal_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_journal_entry_period();
+
+-- Lines are checked against their entry's date; lines deleted along with
+-- their entry find no entry and are let through
+CREATE OR REPLACE FUNCTION public.check_journal_line_period()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_entry RECORD;
+BEGIN
+  FOR v_entry IN
+    SELECT je.user_id, je.entry_date, je.source_type
+    FROM public.journal_entries je
+    WHERE je.id IN (
+      CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN OLD.journal_entry_id END,
+      CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN NEW.journal_entry_id END
+    )
+  LOOP
+    PERFORM public.assert_period_open(v_entry.user_id, v_entry.entry_date, v_entry.source_type IN ('manual', 'closing'));
+  END LOOP;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+CREATE TRIGGER check_journal_line_period
+  BEFORE INSERT OR UPDATE OR DELETE ON public.journal_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_journal_line_period();
+
+-- Payments, reminders and notes leave an invoice's journal entry alone, so an
+-- invoice in a closed period can still be paid. An update that changes
+-- nothing comes from its lines (refresh_invoice_totals) and reposts.
+CREATE OR REPLACE FUNCTION public.sync_invoice()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM public.journal_entries
+    WHERE source_type = 'invoice' AND source_id = OLD.id;
+    PERFORM public.refresh_customer_balance(OLD.customer_id);
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'INSERT'
+    OR public.document_posting(to_jsonb(NEW)) <> public.document_posting(to_jsonb(OLD))
+    OR to_jsonb(NEW) - 'updated_at' = to_jsonb(OLD) - 'updated_at' THEN
+    PERFORM public.post_invoice_journal(NEW);
+  END IF;
+  PERFORM public.refresh_customer_balance(NEW.customer_id);
+  IF TG_OP = 'UPDATE' AND OLD.customer_id <> NEW.customer_id THEN
+    PERFORM public.refresh_customer_balance(OLD.customer_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- As sync_invoice: paying or scheduling a bill leaves its entry alone
+CREATE OR REPLACE FUNCTION public.sync_bill()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM public.journal_entries
+    WHERE source_type = 'bill' AND source_id = OLD.id;
+    PERFORM public.refresh_vendor_balance(OLD.vendor_id);
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'INSERT'
+    OR public.document_posting(to_jsonb(NEW)) <> public.document_posting(to_jsonb(OLD))
+    OR to_jsonb(NEW) - 'updated_at' = to_jsonb(OLD) - 'updated_at' THEN
+    PERFORM public.post_bill_journal(NEW);
+  END IF;
+  PERFORM public.refresh_vendor_balance(NEW.vendor_id);
+  IF TG_OP = 'UPDATE' AND OLD.vendor_id <> NEW.vendor_id THEN
+    PERFORM public.refresh_vendor_balance(OLD.vendor_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Year-end close for the signed-in user: one entry on the last day of the
+-- fiscal year zeroes every revenue and expense account into Retained
+-- Earnings, then the year's open periods are closed. Closing again replaces
+-- the entry, picking up adjustments made in the meantime. Returns the
+-- closing entry, or NULL when there was nothing to close.
+CREATE OR REPLACE FUNCTION public.close_fiscal_year(p_fiscal_year INTEGER)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_start DATE;
+  v_end DATE;
+  v_entry_id UUID;
+  v_net NUMERIC;
+  v_description TEXT := 'Year-end close FY' || p_fiscal_year;
+BEGIN
+  SELECT MIN(start_date), MAX(end_date) INTO v_start, v_end
+  FROM public.ensure_fiscal_periods(p_fiscal_year);
+
+  DELETE FROM public.journal_entries
+  WHERE user_id = v_user_id AND source_type = 'closing' AND entry_date = v_end;
+
+  INSERT INTO public.journal_entries (user_id, entry_date, description, source_type)
+  VALUES (v_user_id, v_end, v_description, 'closing')
+  RETURNING id INTO v_entry_id;
+
+  INSERT INTO public.journal_lines (journal_entry_id, user_id, account_id, debit, credit, description)
+  SELECT v_entry_id, v_user_id, a.id, GREATEST(SUM(jl.credit - jl.debit), 0), GREATEST(SUM(jl.debit - jl.credit), 0), v_description
+  FROM public.journal_entries je
+  JOIN public.journal_lines jl ON jl.journal_entry_id = je.id
+  JOIN public.accounts a ON a.id = jl.account_id
+  WHERE je.user_id = v_user_id
+    AND je.entry_date BETWEEN v_start AND v_end
+    AND je.source_type <> 'closing'
+    AND a.account_type IN ('revenue', 'expense')
+  GROUP BY a.id
+  HAVING SUM(jl.debit) <> SUM(jl.credit);
+
+  IF NOT FOUND THEN
+    DELETE FROM public.journal_entries WHERE id = v_entry_id;
+    v_entry_id := NULL;
+  ELSE
+    -- A profit leaves the closing lines with more debits than credits
+    SELECT SUM(debit - credit) INTO v_net FROM public.journal_lines WHERE journal_entry_id = v_entry_id;
+
+    IF v_net <> 0 THEN
+      INSERT INTO public.journal_lines (journal_entry_id, user_id, account_id, debit, credit, description)
+      VALUES (
+        v_entry_id,
+        v_user_id,
+        public.ensure_account(v_user_id, '3200', 'Retained Earnings', 'equity'),
+        GREATEST(-v_net, 0),
+        GREATEST(v_net, 0),
+        v_description
+      );
+    END IF;
+  END IF;
+
+  UPDATE public.fiscal_periods
+  SET status = 'closed'
+  WHERE user_id = v_user_id AND fiscal_year = p_fiscal_year AND status = 'open';
+
+  RETURN v_entry_id;
+END;
+$$;
+
+-- Undo a year-end close: the closing entry is removed and closed periods
+-- opened again. Locked periods stay locked.
+CREATE OR REPLACE FUNCTION public.reopen_fiscal_year(p_fiscal_year INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_end DATE;
+BEGIN
+  SELECT MAX(end_date) INTO v_end
+  FROM public.fiscal_periods
+  WHERE user_id = v_user_id AND fiscal_year = p_fiscal_year;
+
+  DELETE FROM public.journal_entries
+  WHERE user_id = v_user_id AND source_type = 'closing' AND entry_date = v_end;
+
+  UPDATE public.fiscal_periods
+  SET status = 'open'
+  WHERE user_id = v_user_id AND fiscal_year = p_fiscal_year AND status = 'closed';
+END;
+$$;
+
+-- Closing entries are left out so a closed year still reports its profit
+CREATE OR REPLACE FUNCTION public.profit_and_loss(
+  p_start_date DATE,
+  p_end_date DATE,
+  p_interval TEXT DEFAULT 'total'
+)
+RETURNS TABLE (
+  account_id UUID,
+  account_name TEXT,
+  account_code TEXT,
+  account_type public.account_type,
+  parent_account_id UUID,
+  period_start DATE,
+  period_end DATE,
+  amount NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_step INTERVAL;
+BEGIN
+  IF p_start_date IS NULL OR p_end_date IS NULL OR p_start_date > p_end_date THEN
+    RAISE EXCEPTION 'Invalid report period % to %', p_start_date, p_end_date;
+  END IF;
+
+  IF p_interval NOT IN ('month', 'quarter', 'year', 'total') THEN
+    RAISE EXCEPTION 'Unsupported report interval "%"', p_interval;
+  END IF;
+
+  v_step := CASE p_interval
+    WHEN 'month' THEN INTERVAL '1 month'
+    WHEN 'quarter' THEN INTERVAL '3 months'
+    WHEN 'year' THEN INTERVAL '1 year'
+  END;
+
+  RETURN QUERY
+  WITH periods AS (
+    SELECT
+      GREATEST(p::DATE, p_start_date) AS period_start,
+      LEAST((p + v_step - INTERVAL '1 day')::DATE, p_end_date) AS period_end
+    FROM generate_series(
+      date_trunc(CASE WHEN p_interval = 'total' THEN 'day' ELSE p_interval END, p_start_date::TIMESTAMP),
+      p_end_date::TIMESTAMP,
+      COALESCE(v_step, INTERVAL '1 day')
+    ) AS p
+    WHERE p_interval <> 'total'
+    UNION ALL
+    SELECT p_start_date, p_end_date
+    WHERE p_interval = 'total'
+  )
+  SELECT
+    a.id,
+    a.name,
+    a.code,
+    a.account_type,
+    a.parent_account_id,
+    pr.period_start,
+    pr.period_end,
+    SUM(CASE WHEN a.account_type = 'revenue' THEN jl.credit - jl.debit ELSE jl.debit - jl.credit END)
+  FROM periods pr
+  JOIN public.journal_entries je
+    ON je.entry_date BETWEEN pr.period_start AND pr.period_end
+    AND je.user_id = auth.uid()
+    AND je.source_type <> 'closing'
+  JOIN public.journal_lines jl ON jl.journal_entry_id = je.id
+  JOIN public.accounts a ON a.id = jl.account_id
+  WHERE a.account_type IN ('revenue', 'expense')
+  GROUP BY a.id, a.name, a.code, a.account_type, a.parent_account_id, pr.period_start, pr.period_end;
+END;
+$$;
+
+-- Closing entries move no cash and are left out, keeping net income and the
+-- equity accounts as they were before the close
+CREATE OR REPLACE FUNCTION public.cash_flow_statement(p_start_date DATE, p_end_date DATE)
+RETURNS TABLE (
+  section TEXT,
+  account_id UUID,
+  account_name TEXT,
+  account_code TEXT,
+  amount NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF p_start_date IS NULL OR p_end_date IS NULL OR p_start_date > p_end_date THEN
+    RAISE EXCEPTION 'Invalid report period % to %', p_start_date, p_end_date;
+  END IF;
+
+  RETURN QUERY
+  WITH classified AS (
+    SELECT
+      a.id,
+      a.name,
+      a.code,
+      CASE
+        WHEN a.account_type IN ('revenue', 'expense') THEN 'net_income'
+        WHEN a.cash_flow_activity IS NOT NULL THEN a.cash_flow_activity::TEXT
+        WHEN a.account_type = 'equity' THEN 'financing'
+        ELSE 'operating'
+      END AS activity
+    FROM public.accounts a
+    WHERE a.user_id = auth.uid()
+  ),
+  lines AS (
+    SELECT c.id, c.name, c.code, c.activity, je.entry_date, jl.debit, jl.credit
+    FROM public.journal_entries je
+    JOIN public.journal_lines jl ON jl.journal_entry_id = je.id
+    JOIN classified c ON c.id = jl.account_id
+    WHERE je.user_id = auth.uid()
+      AND je.entry_date <= p_end_date
+      AND je.source_type <> 'closing'
+  )
+  SELECT 'operating'::TEXT, NULL::UUID, 'Net income'::TEXT, NULL::TEXT,
+    COALESCE(SUM(l.credit - l.debit), 0)
+  FROM lines l
+  WHERE l.activity = 'net_income'
+    AND l.entry_date >= p_start_date
+  UNION ALL
+  SELECT l.activity, l.id, l.name, l.code, SUM(l.credit - l.debit)
+  FROM lines l
+  WHERE l.activity IN ('operating', 'investing', 'financing')
+    AND l.entry_date >= p_start_date
+  GROUP BY l.activity, l.id, l.name, l.code
+  HAVING SUM(l.credit - l.debit) <> 0
+  UNION ALL
+  SELECT 'beginning_cash'::TEXT, NULL::UUID, 'Cash at beginning of period'::TEXT, NULL::TEXT,
+    COALESCE(SUM(l.debit - l.credit) FILTER (WHERE l.entry_date < p_start_date), 0)
+  FROM lines l
+  WHERE l.activity = 'cash'
+  UNION ALL
+  SELECT 'ending_cash'::TEXT, NULL::UUID, 'Cash at end of period'::TEXT, NULL::TEXT,
+    COALESCE(SUM(l.debit - l.credit), 0)
+  FROM lines l
+  WHERE l.activity = 'cash';
+END;
+$$;
+
+-- Balance sheet as of a date, as before, with current-year earnings counted
+-- from the start of the fiscal year rather than January 1. Years that have
+-- been closed carry their earnings in the Retained Earnings account instead
+-- of the computed retained earnings row.
+CREATE OR REPLACE FUNCTION public.balance_sheet(p_as_of DATE)
+RETURNS TABLE (
+  account_id UUID,
+  account_name TEXT,
+  account_code TEXT,
+  account_type public.account_type,
+  parent_account_id UUID,
+  balance NUMERIC,
+  total_balance NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_year_start DATE;
+BEGIN
+  IF p_as_of IS NULL THEN
+    RAISE EXCEPTION 'A balance sheet date is required';
+  END IF;
+
+  v_year_start := public.fiscal_year_start(auth.uid(), p_as_of);
+
+  RETURN QUERY
+  WITH RECURSIVE sheet_accounts AS (
+    SELECT a.id, a.name, a.code, a.account_type, a.parent_account_id, a.is_active
+    FROM public.accounts a
+    WHERE a.user_id = auth.uid()
+      AND a.account_type IN ('asset', 'liability', 'equity')
+  ),
+  own AS (
+    SELECT
+      sa.id,
+      COALESCE(SUM(CASE WHEN sa.account_type = 'asset' THEN jl.debit - jl.credit ELSE jl.credit - jl.debit END), 0) AS balance
+    FROM sheet_accounts sa
+    LEFT JOIN (
+      public.journal_lines jl
+      JOIN public.journal_entries je ON je.id = jl.journal_entry_id AND je.entry_date <= p_as_of
+    ) ON jl.account_id = sa.id
+    GROUP BY sa.id
+  ),
+  -- Every account paired with itself and each of its ancestors of the same type.
+  -- The depth bound stops a parent_account_id cycle from recursing forever.
+  ancestry AS (
+    SELECT sa.id AS descendant_id, sa.id AS ancestor_id, 0 AS depth
+    FROM sheet_accounts sa
+    UNION ALL
+    SELECT an.descendant_id, parent.id, an.depth + 1
+    FROM ancestry an
+    JOIN sheet_accounts child ON child.id = an.ancestor_id
+    JOIN sheet_accounts parent ON parent.id = child.parent_account_id AND parent.account_type = child.account_type
+    WHERE an.depth < 20
+  ),
+  rolled AS (
+    SELECT an.ancestor_id AS id, SUM(o.balance) AS total_balance
+    FROM ancestry an
+    JOIN own o ON o.id = an.descendant_id
+    GROUP BY an.ancestor_id
+  ),
+  earnings AS (
+    SELECT
+      COALESCE(SUM(jl.credit - jl.debit) FILTER (WHERE je.entry_date < v_year_start), 0) AS retained,
+      COALESCE(SUM(jl.credit - jl.debit) FILTER (WHERE je.entry_date >= v_year_start), 0) AS current_year
+    FROM public.journal_entries je
+    JOIN public.journal_lines jl ON jl.journal_entry_id = je.id
+    JOIN public.accounts a ON a.id = jl.account_id
+    WHERE je.user_id = auth.uid()
+      AND je.entry_date <= p_as_of
+      AND a.account_type IN ('revenue', 'expense')
+  )
+  SELECT sa.id, sa.name, sa.code, sa.account_type, sa.parent_account_id, o.balance, r.total_balance
+  FROM sheet_accounts sa
+  JOIN own o ON o.id = sa.id
+  JOIN rolled r ON r.id = sa.id
+  WHERE sa.is_active OR r.total_balance <> 0
+  UNION ALL
+  SELECT NULL, 'Retained earnings', NULL, 'equity'::public.account_type, NULL, e.retained, e.retained
+  FROM earnings e
+  UNION ALL
+  SELECT NULL, 'Current year earnings', NULL, 'equity'::public.account_type, NULL, e.current_year, e.current_year
+  FROM earnings e;
+END;
+$$;
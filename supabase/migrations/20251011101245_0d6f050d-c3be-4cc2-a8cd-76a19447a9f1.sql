@@ -0,0 +1,375 @@
+-- Audit log.
+-- Every insert, update and delete on transactions, accounts, budgets,
+-- customers, vendors and categories is recorded by trigger with the row
+-- before and after, who made it and, for changes made from chat, the
+-- conversation and message behind it. The log cannot be changed: users can
+-- only read their own entries, and updates and deletes are rejected even for
+-- the service role. Entries keep no foreign keys, so they outlive the records,
+-- conversations and messages they point to.
+
+CREATE TABLE public.audit_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  table_name TEXT NOT NULL,
+  record_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  -- 'ai' for actions run from chat, 'system' for recurring schedule runs
+  actor TEXT NOT NULL DEFAULT 'user' CHECK (actor IN ('user', 'ai', 'system')),
+  conversation_id UUID,
+  message_id UUID,
+  old_data JSONB,
+  new_data JSONB,
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own audit log" ON public.audit_log
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE INDEX idx_audit_log_user_changed_at ON public.audit_log(user_id, changed_at DESC);
+CREATE INDEX idx_audit_log_record ON public.audit_log(record_id, changed_at);
+
+CREATE OR REPLACE FUNCTION public.protect_audit_log()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RAISE EXCEPTION 'The audit log cannot be changed';
+END;
+$$;
+
+CREATE TRIGGER protect_audit_log
+  BEFORE UPDATE OR DELETE ON public.audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_audit_log();
+
+CREATE TRIGGER protect_audit_log_truncate
+  BEFORE TRUNCATE ON public.audit_log
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.protect_audit_log();
+
+-- Records one change. The actor, conversation and message come from the
+-- app.audit_* settings of the database transaction (see execute_ledger_actions);
+-- without them the change was made by the user. TG_ARGV lists columns kept up
+-- to date by other triggers (balances, budget spending): an update that only
+-- moves those is not recorded.
+CREATE OR REPLACE FUNCTION public.audit_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old JSONB;
+  v_new JSONB;
+  v_row JSONB;
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    v_old := to_jsonb(OLD);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    v_new := to_jsonb(NEW);
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND v_old - (TG_ARGV || 'updated_at'::TEXT) = v_new - (TG_ARGV || 'updated_at'::TEXT) THEN
+    RETURN NULL;
+  END IF;
+
+  v_row := COALESCE(v_new, v_old);
+
+  INSERT INTO public.audit_log (
+    user_id, table_name, record_id, action, actor, conversation_id, message_id, old_data, new_data
+  ) VALUES (
+    (v_row ->> 'user_id')::UUID,
+    TG_TABLE_NAME,
+    (v_row ->> 'id')::UUID,
+    lower(TG_OP),
+    COALESCE(NULLIF(current_setting('app.audit_actor', true), ''), 'user'),
+    NULLIF(current_setting('app.audit_conversation_id', true), '')::UUID,
+    NULLIF(current_setting('app.audit_message_id', true), '')::UUID,
+    v_old,
+    v_new
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.audit_change() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER audit_transactions
+  AFTER INSERT OR UPDATE OR DELETE ON public.transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_change();
+
+CREATE TRIGGER audit_accounts
+  AFTER INSERT OR UPDATE OR DELETE ON public.accounts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_change();
+
+CREATE TRIGGER audit_budgets
+  AFTER INSERT OR UPDATE OR DELETE ON public.budgets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_change('spent_amount');
+
+CREATE TRIGGER audit_customers
+  AFTER INSERT OR UPDATE OR DELETE ON public.customers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_change('balance');
+
+CREATE TRIGGER audit_vendors
+  AFTER INSERT OR UPDATE OR DELETE ON public.vendors
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_change('balance');
+
+CREATE TRIGGER audit_categories
+  AFTER INSERT OR UPDATE OR DELETE ON public.categories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_change();
+
+-- Transactions and bills generated by a schedule are the system's doing, also
+-- when a schedule set up from chat runs straight away
+ALTER FUNCTION public.run_recurring_schedules(DATE, UUID) SET app.audit_actor = 'system';
+
+-- Changes made from chat are recorded as the AI's, with the conversation and
+-- the user message they came from. The new parameter changes the signature,
+-- so the old function is dropped rather than replaced.
+DROP FUNCTION public.execute_ledger_actions(UUID, JSONB, UUID);
+
+CREATE OR REPLACE FUNCTION public.execute_ledger_actions(
+  p_user_id UUID,
+  p_actions JSONB,
+  p_conversation_id UUID DEFAULT NULL,
+  p_message_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_item JSONB;
+  v_action TEXT;
+  v_data JSONB;
+  v_id UUID;
+  v_index INTEGER := 0;
+  v_refs JSONB := '{}'::jsonb;
+  v_results JSONB := '[]'::jsonb;
+BEGIN
+  IF jsonb_typeof(p_actions) <> 'array' OR jsonb_array_length(p_actions) = 0 THEN
+    RAISE EXCEPTION 'Expected a non-empty list of actions';
+  END IF;
+
+  -- Read by audit_change for every change below
+  PERFORM set_config('app.audit_actor', 'ai', true);
+  PERFORM set_config('app.audit_conversation_id', COALESCE(p_conversation_id::TEXT, ''), true);
+  PERFORM set_config('app.audit_message_id', COALESCE(p_message_id::TEXT, ''), true);
+
+  FOR v_item IN SELECT value FROM jsonb_array_elements(p_actions) LOOP
+    v_index := v_index + 1;
+    v_action := v_item ->> 'action';
+    v_id := NULL;
+
+    BEGIN
+      v_data := public.resolve_action_refs(COALESCE(v_item -> 'data', '{}'::jsonb), v_refs);
+
+      CASE v_action
+        WHEN 'CREATE_TRANSACTION' THEN
+          INSERT INTO public.transactions (
+            user_id, amount, description, account_id, payment_account_id, category_id,
+            customer_id, vendor_id, transaction_date, notes, conversation_id, currency, exchange_rate, tax_rate_id
+          ) VALUES (
+            p_user_id,
+            (v_data ->> 'amount')::NUMERIC,
+            v_data ->> 'description',
+            (v_data ->> 'account_id')::UUID,
+            NULLIF(v_data ->> 'payment_account_id', '')::UUID,
+            NULLIF(v_data ->> 'category_id', '')::UUID,
+            NULLIF(v_data ->> 'customer_id', '')::UUID,
+            NULLIF(v_data ->> 'vendor_id', '')::UUID,
+            COALESCE(NULLIF(v_data ->> 'transaction_date', '')::DATE, CURRENT_DATE),
+            COALESCE(v_data ->> 'notes', ''),
+            p_conversation_id,
+            NULLIF(upper(v_data ->> 'currency'), ''),
+            NULLIF(v_data ->> 'exchange_rate', '')::NUMERIC,
+            NULLIF(v_data ->> 'tax_rate_id', '')::UUID
+          )
+          RETURNING id INTO v_id;
+
+        WHEN 'UPDATE_TRANSACTION' THEN
+          -- Only the fields present in data are changed
+          UPDATE public.transactions SET
+            amount = CASE WHEN v_data ? 'amount' THEN (v_data ->> 'amount')::NUMERIC ELSE amount END,
+            description = CASE WHEN v_data ? 'description' THEN v_data ->> 'description' ELSE description END,
+            account_id = CASE WHEN v_data ? 'account_id' THEN (v_data ->> 'account_id')::UUID ELSE account_id END,
+            payment_account_id = CASE WHEN v_data ? 'payment_account_id' THEN NULLIF(v_data ->> 'payment_account_id', '')::UUID ELSE payment_account_id END,
+            category_id = CASE WHEN v_data ? 'category_id' THEN NULLIF(v_data ->> 'category_id', '')::UUID ELSE category_id END,
+            customer_id = CASE WHEN v_data ? 'customer_id' THEN NULLIF(v_data ->> 'customer_id', '')::UUID ELSE customer_id END,
+            vendor_id = CASE WHEN v_data ? 'vendor_id' THEN NULLIF(v_data ->> 'vendor_id', '')::UUID ELSE vendor_id END,
+            transaction_date = CASE WHEN v_data ? 'transaction_date' THEN (v_data ->> 'transaction_date')::DATE ELSE transaction_date END,
+            notes = CASE WHEN v_data ? 'notes' THEN v_data ->> 'notes' ELSE notes END,
+            tax_rate_id = CASE WHEN v_data ? 'tax_rate_id' THEN NULLIF(v_data ->> 'tax_rate_id', '')::UUID ELSE tax_rate_id END
+          WHERE id = (v_data ->> 'id')::UUID
+          AND user_id = p_user_id
+          RETURNING id INTO v_id;
+
+          IF v_id IS NULL THEN
+            RAISE EXCEPTION 'Transaction % not found', v_data ->> 'id';
+          END IF;
+
+        WHEN 'CREATE_JOURNAL_ENTRY' THEN
+          v_id := public.create_journal_entry(
+            p_user_id,
+            NULLIF(v_data ->> 'entry_date', '')::DATE,
+            v_data ->> 'description',
+            v_data -> 'lines',
+            v_data ->> 'reference_number',
+            p_conversation_id
+          );
+
+        WHEN 'CREATE_BILL' THEN
+          INSERT INTO public.bills (
+            user_id, vendor_id, bill_number, bill_date, due_date, status,
+            scheduled_payment_date, payment_account_id, notes, currency, exchange_rate, tax_inclusive
+          ) VALUES (
+            p_user_id,
+            (v_data ->> 'vendor_id')::UUID,
+            NULLIF(v_data ->> 'bill_number', ''),
+            COALESCE(NULLIF(v_data ->> 'bill_date', '')::DATE, CURRENT_DATE),
+            NULLIF(v_data ->> 'due_date', '')::DATE,
+            'open',
+            NULLIF(v_data ->> 'scheduled_payment_date', '')::DATE,
+            NULLIF(v_data ->> 'payment_account_id', '')::UUID,
+            NULLIF(v_data ->> 'notes', ''),
+            NULLIF(upper(v_data ->> 'currency'), ''),
+            NULLIF(v_data ->> 'exchange_rate', '')::NUMERIC,
+            COALESCE((v_data ->> 'tax_inclusive')::BOOLEAN, false)
+          )
+          RETURNING id INTO v_id;
+
+          -- With a tax rate the line's tax is worked out from it
+          INSERT INTO public.bill_lines (bill_id, user_id, position, description, quantity, unit_price, tax_amount, expense_account_id, tax_rate_id)
+          SELECT
+            v_id,
+            p_user_id,
+            (line.ordinality - 1)::INTEGER,
+            line.value ->> 'description',
+            1,
+            (line.value ->> 'amount')::NUMERIC,
+            COALESCE((line.value ->> 'tax_amount')::NUMERIC, 0),
+            NULLIF(line.value ->> 'account_id', '')::UUID,
+            NULLIF(line.value ->> 'tax_rate_id', '')::UUID
+          FROM jsonb_array_elements(v_data -> 'lines') WITH ORDINALITY AS line(value, ordinality);
+
+        WHEN 'SCHEDULE_BILL_PAYMENT' THEN
+          UPDATE public.bills SET
+            scheduled_payment_date = (v_data ->> 'scheduled_payment_date')::DATE,
+            payment_account_id = CASE WHEN v_data ? 'payment_account_id' THEN NULLIF(v_data ->> 'payment_account_id', '')::UUID ELSE payment_account_id END
+          WHERE id = (v_data ->> 'bill_id')::UUID
+          AND user_id = p_user_id
+          AND status IN ('draft', 'open', 'partially_paid')
+          RETURNING id INTO v_id;
+
+          IF v_id IS NULL THEN
+            RAISE EXCEPTION 'Unpaid bill % not found', v_data ->> 'bill_id';
+          END IF;
+
+        WHEN 'CREATE_RECURRING_SCHEDULE' THEN
+          -- Everything but the schedule fields is the template each run is created from
+          INSERT INTO public.recurring_schedules (
+            user_id, name, kind, template, frequency, interval_count, start_date, end_date, max_occurrences
+          ) VALUES (
+            p_user_id,
+            v_data ->> 'name',
+            COALESCE(NULLIF(v_data ->> 'kind', ''), 'transaction'),
+            v_data - ARRAY['name', 'kind', 'frequency', 'interval_count', 'start_date', 'end_date', 'max_occurrences'],
+            (v_data ->> 'frequency')::public.recurrence_frequency,
+            COALESCE((v_data ->> 'interval_count')::INTEGER, 1),
+            (v_data ->> 'start_date')::DATE,
+            NULLIF(v_data ->> 'end_date', '')::DATE,
+            (v_data ->> 'max_occurrences')::INTEGER
+          )
+          RETURNING id INTO v_id;
+
+          -- Runs already due (e.g. a schedule starting today) are created straight away
+          PERFORM public.run_recurring_schedules(CURRENT_DATE, v_id);
+
+        WHEN 'CREATE_BUDGET' THEN
+          INSERT INTO public.budgets (user_id, name, amount, budget_type, category_id, account_id, start_date, end_date)
+          VALUES (
+            p_user_id,
+            v_data ->> 'name',
+            (v_data ->> 'amount')::NUMERIC,
+            v_data ->> 'budget_type',
+            NULLIF(v_data ->> 'category_id', '')::UUID,
+            NULLIF(v_data ->> 'account_id', '')::UUID,
+            (v_data ->> 'start_date')::DATE,
+            (v_data ->> 'end_date')::DATE
+          )
+          RETURNING id INTO v_id;
+
+        WHEN 'CREATE_CATEGORY' THEN
+          INSERT INTO public.categories (user_id, name, description, color)
+          VALUES (p_user_id, v_data ->> 'name', v_data ->> 'description', COALESCE(v_data ->> 'color', '#6366f1'))
+          RETURNING id INTO v_id;
+
+        WHEN 'CREATE_ACCOUNT' THEN
+          INSERT INTO public.accounts (user_id, name, account_type, code, parent_account_id, currency)
+          VALUES (
+            p_user_id,
+            v_data ->> 'name',
+            (v_data ->> 'account_type')::public.account_type,
+            NULLIF(v_data ->> 'code', ''),
+            NULLIF(v_data ->> 'parent_account_id', '')::UUID,
+            NULLIF(upper(v_data ->> 'currency'), '')
+          )
+          RETURNING id INTO v_id;
+
+        WHEN 'CREATE_CUSTOMER' THEN
+          INSERT INTO public.customers (user_id, name, email, phone, company_name, customer_type)
+          VALUES (
+            p_user_id,
+            v_data ->> 'name',
+            NULLIF(v_data ->> 'email', ''),
+            NULLIF(v_data ->> 'phone', ''),
+            NULLIF(v_data ->> 'company_name', ''),
+            COALESCE(NULLIF(v_data ->> 'customer_type', ''), 'customer')
+          )
+          RETURNING id INTO v_id;
+
+        WHEN 'CREATE_VENDOR' THEN
+          INSERT INTO public.vendors (user_id, name, email, phone, company_name, vendor_type)
+          VALUES (
+            p_user_id,
+            v_data ->> 'name',
+            NULLIF(v_data ->> 'email', ''),
+            NULLIF(v_data ->> 'phone', ''),
+            NULLIF(v_data ->> 'company_name', ''),
+            COALESCE(NULLIF(v_data ->> 'vendor_type', ''), 'vendor')
+          )
+          RETURNING id INTO v_id;
+
+        ELSE
+          RAISE EXCEPTION 'Unsupported action "%"', v_action;
+      END CASE;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE EXCEPTION 'Action % (%) failed: %', v_index, v_action, SQLERRM;
+    END;
+
+    IF v_item ? 'ref' THEN
+      v_refs := v_refs || jsonb_build_object(v_item ->> 'ref', v_id);
+    END IF;
+
+    v_results := v_results || jsonb_build_array(jsonb_build_object(
+      'index', v_index,
+      'action', v_action,
+      'ref', v_item ->> 'ref',
+      'id', v_id,
+      'data', v_data
+    ));
+  END LOOP;
+
+  RETURN v_results;
+END;
+$$;
@@ -0,0 +1,4 @@
+-- post_invoice_journal is SECURITY DEFINER and takes a whole invoice row, so
+-- calling it directly over RPC could post journal lines into any user's books.
+-- Only the sync_invoice trigger needs it.
+REVOKE EXECUTE ON FUNCTION public.post_invoice_journal(public.invoices) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,4 @@
+-- post_bill_journal is SECURITY DEFINER and takes a whole bill row, so calling
+-- it directly over RPC could post journal lines into any user's books. Only
+-- the sync_bill trigger needs it.
+REVOKE EXECUTE ON FUNCTION public.post_bill_journal(public.bills) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,116 @@
+-- The reconciliation report listed "outstanding at statement date" from the
+-- transactions' current status, so items cleared in later reconciliations
+-- dropped off old reports. complete_reconciliation now saves the items left
+-- outstanding when the reconciliation is completed, and the report reads
+-- them back. Reconciliations completed before this have no snapshot (NULL).
+ALTER TABLE public.reconciliations
+ADD COLUMN outstanding_transactions JSONB;
+
+-- Complete a reconciliation of p_account_id against a statement.
+-- The beginning balance is the previous reconciliation's ending balance, or
+-- p_opening_balance for the account's first reconciliation. Every transaction
+-- in p_transaction_ids must belong to the account, be unreconciled and dated
+-- on or before the statement date, and together they must bring the beginning
+-- balance to p_ending_balance. The account's other unreconciled transactions
+-- up to the statement date are saved as outstanding.
+CREATE OR REPLACE FUNCTION public.complete_reconciliation(
+  p_account_id UUID,
+  p_statement_date DATE,
+  p_ending_balance NUMERIC,
+  p_transaction_ids UUID[],
+  p_opening_balance NUMERIC DEFAULT 0
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_account public.accounts;
+  v_previous public.reconciliations;
+  v_beginning NUMERIC;
+  v_increases NUMERIC;
+  v_decreases NUMERIC;
+  v_count INTEGER;
+  v_outstanding JSONB;
+  v_id UUID;
+BEGIN
+  SELECT * INTO v_account
+  FROM public.accounts
+  WHERE id = p_account_id AND user_id = v_user_id;
+
+  IF v_account.id IS NULL THEN
+    RAISE EXCEPTION 'Account % not found', p_account_id;
+  END IF;
+  IF v_account.account_type NOT IN ('asset', 'liability') THEN
+    RAISE EXCEPTION 'Only asset and liability accounts can be reconciled';
+  END IF;
+
+  SELECT * INTO v_previous
+  FROM public.reconciliations
+  WHERE account_id = p_account_id
+  ORDER BY statement_date DESC
+  LIMIT 1;
+
+  IF v_previous.id IS NOT NULL AND p_statement_date <= v_previous.statement_date THEN
+    RAISE EXCEPTION 'Statement date must be after the last reconciliation (%)', v_previous.statement_date;
+  END IF;
+
+  v_beginning := COALESCE(v_previous.ending_balance, p_opening_balance, 0);
+
+  SELECT
+    COUNT(*),
+    COALESCE(SUM(public.statement_effect(t, p_account_id, v_account.account_type))
+      FILTER (WHERE public.statement_effect(t, p_account_id, v_account.account_type) > 0), 0),
+    COALESCE(SUM(-public.statement_effect(t, p_account_id, v_account.account_type))
+      FILTER (WHERE public.statement_effect(t, p_account_id, v_account.account_type) < 0), 0)
+  INTO v_count, v_increases, v_decreases
+  FROM public.transactions t
+  WHERE t.id = ANY(COALESCE(p_transaction_ids, '{}'))
+    AND t.user_id = v_user_id
+    AND (t.account_id = p_account_id OR t.payment_account_id = p_account_id)
+    AND t.status <> 'reconciled'
+    AND t.transaction_date <= p_statement_date;
+
+  IF v_count <> COALESCE(cardinality(p_transaction_ids), 0) THEN
+    RAISE EXCEPTION 'Some transactions are already reconciled, belong to another account or are dated after the statement';
+  END IF;
+
+  IF abs(p_ending_balance - (v_beginning + v_increases - v_decreases)) >= 0.005 THEN
+    RAISE EXCEPTION 'Cleared balance % does not match the statement ending balance %',
+      v_beginning + v_increases - v_decreases, p_ending_balance;
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', t.id,
+    'amount', t.amount,
+    'description', t.description,
+    'transaction_date', t.transaction_date,
+    'reference_number', t.reference_number,
+    'account_id', t.account_id,
+    'payment_account_id', t.payment_account_id
+  ) ORDER BY t.transaction_date, t.id), '[]'::jsonb)
+  INTO v_outstanding
+  FROM public.transactions t
+  WHERE t.user_id = v_user_id
+    AND (t.account_id = p_account_id OR t.payment_account_id = p_account_id)
+    AND t.status <> 'reconciled'
+    AND t.transaction_date <= p_statement_date
+    AND NOT t.id = ANY(COALESCE(p_transaction_ids, '{}'));
+
+  INSERT INTO public.reconciliations (
+    user_id, account_id, statement_date, beginning_balance, ending_balance,
+    cleared_increases, cleared_decreases, transaction_count, outstanding_transactions
+  ) VALUES (
+    v_user_id, p_account_id, p_statement_date, v_beginning, p_ending_balance,
+    v_increases, v_decreases, v_count, v_outstanding
+  )
+  RETURNING id INTO v_id;
+
+  UPDATE public.transactions
+  SET status = 'reconciled', reconciliation_id = v_id
+  WHERE id = ANY(p_transaction_ids);
+
+  RETURN v_id;
+END;
+$$;
@@ -0,0 +1,34 @@
+-- check_transaction_period rejected every update of a transaction dated in a
+-- closed or locked period, so its items could no longer be cleared or
+-- reconciled. Updates are now only checked when they change what the
+-- transaction posts: its amount (with currency, exchange rate and tax), date
+-- or accounts. Status, reconciliation, description, notes and the like can
+-- still be changed.
+CREATE OR REPLACE FUNCTION public.check_transaction_period()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.amount IS NOT DISTINCT FROM OLD.amount
+    AND NEW.currency IS NOT DISTINCT FROM OLD.currency
+    AND NEW.exchange_rate IS NOT DISTINCT FROM OLD.exchange_rate
+    AND NEW.tax_amount IS NOT DISTINCT FROM OLD.tax_amount
+    AND NEW.tax_rate_id IS NOT DISTINCT FROM OLD.tax_rate_id
+    AND NEW.transaction_date IS NOT DISTINCT FROM OLD.transaction_date
+    AND NEW.account_id IS NOT DISTINCT FROM OLD.account_id
+    AND NEW.payment_account_id IS NOT DISTINCT FROM OLD.payment_account_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.assert_period_open(OLD.user_id, OLD.transaction_date);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM public.assert_period_open(NEW.user_id, NEW.transaction_date);
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;